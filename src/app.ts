@@ -0,0 +1,722 @@
+import express from 'express';
+import http from 'http';
+import { z } from 'zod';
+import path from 'path';
+import cors from 'cors';
+import { NewsService } from './services/MyFunctions';
+import {
+  ArchivingProvider, CachingProvider, createNewsApiClient, createNewsProvider, httpStatusForError, NEWS_ERROR_CODES, NewsApiClient, NewsErrorInfo, NewsProvider, NormalizedArticle,
+  SourceFilteringProvider
+} from './services/providers';
+import { createResponseCache, ResponseCache } from './services/ResponseCache';
+import { ArticleArchive } from './services/ArticleArchive';
+import { dataPath } from './services/JsonStore';
+import { BriefStore } from './services/BriefStore';
+import { ChatService, ChatStreamEvent, trackToolCalls } from './services/ChatService';
+import { ChatSessionStore } from './services/ChatSessionStore';
+import { WatchlistService } from './services/WatchlistService';
+import { DigestService } from './services/DigestService';
+import { createArticleEnricher } from './services/enrichment';
+import { createSourceProfiles, SourceFilter, SourceProfiles } from './services/sources';
+import { CompanyRegistry, createCompanyRegistry } from './services/companies';
+import { ArticleRanker, createInterestProfiles, FeedService, InterestProfiles } from './services/ranking';
+import { createNotificationService, NotificationService } from './services/notifications';
+import { adminUsers, AuthService, authenticate, clearSessionCookie, currentUser, isAdmin, readCookie, requireAdmin, requireUser, SESSION_COOKIE, setSessionCookie } from './services/auth';
+import { ApiRouter, errorHandler, sendError } from './services/http';
+import { AppMetrics, createMetrics, HealthChecks, logger, METRICS_CONTENT_TYPE, observeRequests } from './services/observability';
+import {
+  articlesDocument, briefsDocument, companyComparisonDocument, companySentimentDocument, coverageComparisonDocument, digestDocument, ExportDocument, ExportFormat,
+  globalHeadlinesDocument, industryPulseDocument, marketMoversDocument, renderExport
+} from './services/export';
+import {
+  apiKeyCreateBody, archiveSearchQuery, articleInteractionBody, briefsExportQuery, briefsQuery, briefUpdateBody, chatMessageBody, chatSessionCreateBody, chatSessionRef,
+  chatSessionRenameBody, companiesQuery, companyAliasesBody, companyCreateBody, companyNewsExportQuery, companyNewsQuery, companyResolveQuery, companySentimentExportQuery, companySentimentQuery, compareCompaniesExportQuery,
+  compareCompaniesOutput, compareCompaniesQuery, credentialsBody, deliveriesQuery, digestExportQuery, digestJobCreateBody, digestJobUpdateBody, digestsQuery, feedQuery, getCompanyNewsOutput, getCompanySentimentOutput,
+  getGlobalHeadlinesOutput, getIndustryPulseInput, getIndustryPulseOutput, getMarketMovingEventsInput, getMarketMovingEventsOutput, getStoriesOutput, getTopHeadlinesOutput,
+  globalHeadlinesExportQuery, globalHeadlinesQuery, headlinesExportQuery, headlinesQuery, industryPulseExportQuery, marketMoversExportQuery, newsErrorResponse, personalFeedOutput, personalFeedQuery, savedArticleRef,
+  searchArchiveOutput, searchExportQuery, searchNewsOutput, searchQuery, sourcesQuery, storiesQuery, watchlistCreateBody, watchlistUpdateBody
+} from './services/schemas';
+
+export interface AppServices {
+  provider: NewsProvider;
+  newsApiClient: NewsApiClient | null;
+  responseCache: ResponseCache;
+  archive: ArticleArchive;
+  briefStore: BriefStore;
+  companyRegistry: CompanyRegistry;
+  sourceProfiles: SourceProfiles;
+  newsService: NewsService;
+  notificationService: NotificationService;
+  watchlistService: WatchlistService;
+  chatService: ChatService;
+  digestService: DigestService;
+  interestProfiles: InterestProfiles;
+  articleRanker: ArticleRanker;
+  feedService: FeedService;
+  authService: AuthService;
+  metrics: AppMetrics;
+  health: HealthChecks;
+}
+
+// builds and wires every service from the environment, throwing on invalid configuration.
+// background work (schedulers, notification retries) is left for the caller to start
+export function createServices(env: NodeJS.ProcessEnv = process.env): AppServices {
+  const newsApiClient = createNewsApiClient(env);
+  const archive = new ArticleArchive(dataPath('articles.json', env), Number(env.ARCHIVE_MAX_ARTICLES) || undefined);
+  let sourceProfiles: SourceProfiles;
+  try {
+    sourceProfiles = createSourceProfiles(env);
+  } catch (error: any) {
+    throw new Error(`invalid source profiles: ${error.message}`);
+  }
+  // blocked domains are dropped before anything reaches the archive or the cache
+  const responseCache = createResponseCache(env);
+  const provider = new CachingProvider(
+    new ArchivingProvider(new SourceFilteringProvider(createNewsProvider(env, newsApiClient), sourceProfiles), archive),
+    responseCache
+  );
+
+  const briefStore = new BriefStore(dataPath('briefs.json', env));
+  const companyRegistry = createCompanyRegistry(env);
+  const newsService = new NewsService(provider, archive, briefStore, createArticleEnricher(env), companyRegistry, sourceProfiles);
+  let notificationService: NotificationService;
+  try {
+    notificationService = createNotificationService(
+      env.NOTIFICATION_CHANNELS_FILE ? path.resolve(env.NOTIFICATION_CHANNELS_FILE) : undefined,
+      dataPath('deliveries.json', env)
+    );
+  } catch (error: any) {
+    throw new Error(`invalid notification channels: ${error.message}`);
+  }
+
+  const watchlistService = new WatchlistService(newsService, dataPath('watchlists.json', env));
+  const chatService = new ChatService(
+    env.DAEMO_AGENT_API_KEY || '',
+    env.DAEMO_AGENT_ID || '',
+    new ChatSessionStore(dataPath('chat-sessions.json', env)),
+    env.DAEMO_API_URL || undefined
+  );
+  const digestService = new DigestService(newsService, dataPath('digest-jobs.json', env), dataPath('digests.json', env));
+  digestService.setSummarizer((prompt) => chatService.ask(prompt));
+  newsService.setBriefOwnerResolver((callerRef) => chatService.resolveCaller(callerRef));
+  watchlistService.setOwnerResolver((callerRef) => chatService.resolveCaller(callerRef));
+  trackToolCalls(newsService, [
+    'getTopHeadlines', 'searchNews', 'getCompanyNews', 'sendNewsBrief', 'getIndustryPulse', 'compareCompanyCoverage',
+    'getCompanySentiment', 'compareCompanies', 'getMarketMovingEvents', 'searchArchive', 'getStories', 'getGlobalHeadlines'
+  ], (event) => chatService.reportToolCall(event));
+  const interestProfiles = createInterestProfiles(env);
+  const articleRanker = new ArticleRanker(sourceProfiles);
+  const feedService = new FeedService(newsService, interestProfiles, articleRanker);
+  chatService.onUserMessage((userId, message) => interestProfiles.recordChatTopic(userId, message));
+  trackToolCalls(watchlistService, ['createWatchlist', 'listWatchlists', 'updateWatchlist', 'deleteWatchlist'], (event) => chatService.reportToolCall(event));
+
+  const authService = new AuthService(dataPath('auth.json', env));
+  const admins = adminUsers(env);
+  notificationService.setOwnerResolver((userId) => {
+    const user = authService.getUser(userId);
+    return user && { username: user.username, admin: admins.includes(user.username) };
+  });
+  newsService.onBrief((brief) => notificationService.dispatch(brief));
+
+  const metrics = createMetrics(responseCache);
+  newsApiClient?.onRequest(({ endpoint, durationMs, error }) => {
+    metrics.newsApiRequests.inc({ endpoint });
+    metrics.newsApiRequestDuration.observe({ endpoint }, durationMs / 1000);
+    if (error) metrics.newsApiErrors.inc({ endpoint, code: error });
+  });
+  chatService.onQuery(({ kind, durationMs, outcome }) => metrics.daemoQueryDuration.observe({ kind, outcome }, durationMs / 1000));
+
+  // a rejected key takes the app out of rotation; a spent quota only degrades it, the cache and archive still answer
+  const health = new HealthChecks();
+  if (newsApiClient) {
+    health.register('newsApi', () => {
+      const keyStatus = newsApiClient.getKeyStatus();
+      const { remaining, blockedUntil } = newsApiClient.getUsage();
+      if (keyStatus === 'invalid') return { status: 'fail', message: 'newsapi rejected the api key', keyStatus };
+      if (keyStatus === 'exhausted' || remaining === 0 || blockedUntil) {
+        return { status: 'degraded', message: 'newsapi requests are exhausted or rate limited', keyStatus, remaining, blockedUntil };
+      }
+      return { status: 'ok', keyStatus, remaining };
+    });
+  }
+
+  return { provider, newsApiClient, responseCache, archive, briefStore, companyRegistry, sourceProfiles, newsService, notificationService, watchlistService, chatService,
+    digestService, interestProfiles, articleRanker, feedService, authService, metrics, health };
+}
+
+// stops the schedulers and notification retries, then writes every store to disk; safe to call twice
+export async function stopServices(services: AppServices): Promise<void> {
+  const {
+    archive, authService, briefStore, chatService, companyRegistry, digestService, interestProfiles, notificationService, responseCache, watchlistService
+  } = services;
+  watchlistService.stopScheduler();
+  digestService.stopScheduler();
+  notificationService.stop();
+  await Promise.all(
+    [archive, authService, briefStore, chatService, companyRegistry, digestService, interestProfiles, notificationService, responseCache, watchlistService].map((s) => s.flush())
+  );
+}
+
+// graceful stop: report not ready, stop accepting connections, give open requests (chat streams
+// included) the grace period to finish, then stop the services
+export async function shutdown(server: http.Server, services: AppServices, graceMs = 10000): Promise<void> {
+  services.health.markShuttingDown();
+  const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+  server.closeIdleConnections();
+  const timer = setTimeout(() => {
+    logger.warn('closing connections still open after the shutdown grace period', { graceMs });
+    server.closeAllConnections();
+  }, graceMs);
+  await closed;
+  clearTimeout(timer);
+  await stopServices(services);
+}
+
+// the express app with the dashboard and every /api route; listening is up to the caller
+export function createApp(services: AppServices, env: NodeJS.ProcessEnv = process.env): express.Express {
+  const {
+    archive, articleRanker, authService, briefStore, chatService, companyRegistry, digestService, feedService, health, interestProfiles, metrics, sourceProfiles,
+    newsApiClient, newsService, notificationService, watchlistService
+  } = services;
+  const app = express();
+  app.use(observeRequests(metrics.httpRequestDuration));
+  app.use(cors());
+  app.use(express.json());
+  app.use(express.static(path.join(__dirname, '../public')));
+  app.use(authenticate(authService));
+  const api = new ApiRouter(app);
+
+  // account routes; everything else under /api needs a session cookie or an api key
+  api.post('/api/auth/register', { summary: 'Create an account and sign in', tag: 'auth', body: credentialsBody, status: 201, public: true }, (req, res, { body }) => {
+    if (env.AUTH_ALLOW_REGISTRATION === 'false' && authService.userCount > 0) {
+      return sendError(res, 403, 'forbidden', 'registration is disabled');
+    }
+    const user = authService.register(body.username, body.password);
+    const session = authService.login(body.username, body.password);
+    setSessionCookie(req, res, session.token, session.expiresAt);
+    res.status(201).json({ user });
+  });
+
+  api.post('/api/auth/login', { summary: 'Sign in and receive a session cookie', tag: 'auth', body: credentialsBody, public: true }, (req, res, { body }) => {
+    const session = authService.login(body.username, body.password);
+    setSessionCookie(req, res, session.token, session.expiresAt);
+    res.json({ user: session.user, expiresAt: session.expiresAt });
+  });
+
+  api.post('/api/auth/logout', { summary: 'End the cookie session', tag: 'auth', public: true }, (req, res) => {
+    const token = readCookie(req, SESSION_COOKIE);
+    if (token) authService.logout(token);
+    clearSessionCookie(res);
+    res.json({ success: true });
+  });
+
+  api.get('/api/openapi.json', { summary: 'This document', tag: 'meta', public: true }, (req, res) => {
+    res.json(api.openApiDocument({ title: 'NewsBrief Agent API', version: '1.0.0', description: 'News, insights, briefs, watchlists and chat with the Daemo news agent.' }));
+  });
+
+  // probes and the prometheus scrape sit outside /api and need no sign-in
+  api.get('/healthz', { summary: 'Liveness: the process is up and answering', tag: 'meta', public: true }, (req, res) => {
+    res.json({ status: 'ok', uptimeSeconds: health.uptimeSeconds });
+  });
+
+  api.get('/readyz', { summary: 'Readiness: newsapi key and daemo connection state (503 when not ready)', tag: 'meta', public: true }, (req, res) => {
+    const readiness = health.readiness();
+    res.status(readiness.ready ? 200 : 503).json(readiness);
+  });
+
+  api.get('/metrics', { summary: 'Prometheus metrics', tag: 'meta', public: true, produces: ['text/plain'] }, (req, res) => {
+    res.setHeader('Content-Type', METRICS_CONTENT_TYPE);
+    res.send(metrics.registry.render());
+  });
+
+  // csv and markdown download as files, html digests and feeds open in the browser
+  const sendExport = (req: express.Request, res: express.Response, doc: ExportDocument, format: ExportFormat, name: string) => {
+    const origin = `${req.protocol}://${req.get('host')}`;
+    const rendered = renderExport(doc, format, { selfUrl: `${origin}${req.originalUrl}`, siteUrl: `${origin}/` });
+    const filename = `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export'}.${rendered.extension}`;
+    res.setHeader('Content-Type', rendered.contentType);
+    res.setHeader('Content-Disposition', `${format === 'csv' || format === 'markdown' ? 'attachment' : 'inline'}; filename="${filename}"`);
+    res.send(rendered.body);
+  };
+  const EXPORT_TYPES = ['text/csv', 'text/markdown', 'text/html', 'application/rss+xml', 'application/atom+xml'];
+
+  // feed readers cannot sign in, so the watchlist's feedToken in the url also grants access
+  api.get('/api/feeds/:watch.xml', { summary: 'RSS or Atom feed of the articles a watchlist has found', tag: 'export', query: feedQuery, public: true, produces: ['application/rss+xml', 'application/atom+xml'] }, (req, res, { query }) => {
+    const id = String(req.params.watch);
+    const watchlist = watchlistService.get(id);
+    const allowed = watchlist && (query.token ? watchlistService.verifyFeedToken(id, query.token) : res.locals.user?.id === watchlist.userId);
+    if (!watchlist || !allowed) return sendError(res, 404, 'notFound', 'feed not found');
+    const articles = watchlist.seenUrls
+      .slice(0, 100)
+      .map((url) => archive.get(url))
+      .filter((a): a is NonNullable<typeof a> => a !== null)
+      .sort((a, b) => (Date.parse(b.publishedAt) || 0) - (Date.parse(a.publishedAt) || 0));
+    const watching = [...watchlist.companies, ...watchlist.keywords, ...watchlist.industries].join(', ');
+    sendExport(req, res, articlesDocument(`Watchlist: ${watchlist.name}`, articles, `new articles about ${watching}`), query.format || 'rss', `watchlist-${watchlist.name}`);
+  });
+
+  app.use('/api', requireUser);
+  const admins = adminUsers(env);
+  app.use('/api/admin', requireAdmin(admins));
+
+  api.get('/api/auth/me', { summary: 'The signed-in user', tag: 'auth' }, (req, res) => {
+    res.json({ user: currentUser(res) });
+  });
+
+  api.get('/api/auth/api-keys', { summary: 'List api keys', tag: 'auth' }, (req, res) => {
+    res.json({ apiKeys: authService.listApiKeys(currentUser(res).id) });
+  });
+
+  api.post('/api/auth/api-keys', { summary: 'Create an api key (the key is only returned once)', tag: 'auth', body: apiKeyCreateBody, status: 201 }, (req, res, { body }) => {
+    res.status(201).json(authService.createApiKey(currentUser(res).id, body.name));
+  });
+
+  api.delete('/api/auth/api-keys/:id', { summary: 'Revoke an api key', tag: 'auth' }, (req, res) => {
+    if (!authService.revokeApiKey(currentUser(res).id, String(req.params.id))) return sendError(res, 404, 'notFound', 'api key not found');
+    res.json({ success: true });
+  });
+
+  // the source filters of a route's query, for the routes that pick their tool arguments by hand
+  const sourceFilter = ({ sources, domains, excludeDomains }: SourceFilter): SourceFilter => ({ sources, domains, excludeDomains });
+
+  // answers with the provider failure status when a news result carries an error
+  const sendNews = (res: express.Response, results: { error?: NewsErrorInfo }) => {
+    if (results.error) res.status(httpStatusForError(results.error.code));
+    res.json(results);
+  };
+
+  // the provider failures sendNews can answer with, documented on every route that uses it
+  const newsErrors = Object.fromEntries([400, 429, 502, 503].map((status) => {
+    const codes = NEWS_ERROR_CODES.filter((code) => httpStatusForError(code) === status);
+    return [status, { description: `news provider error: ${codes.join(', ')}`, schema: newsErrorResponse }];
+  }));
+
+  // api routes for news and chat
+  // re-orders a news result for the signed-in user when the route was asked to rank
+  const ranked = <R extends { articles: NormalizedArticle[] }>(res: express.Response, result: R, rank: boolean | undefined, query?: string): R => {
+    if (!rank) return result;
+    const articles = articleRanker.rank(result.articles, { query, interests: interestProfiles.profile(currentUser(res).id) });
+    return { ...result, articles };
+  };
+
+  api.get('/api/headlines', { summary: 'Top headlines', tag: 'news', query: headlinesQuery, response: getTopHeadlinesOutput, errors: newsErrors }, async (req, res, { query: { rank, ...rest } }) => {
+    sendNews(res, ranked(res, await newsService.getTopHeadlines(rest), rank));
+  });
+
+  api.get('/api/global-headlines', { summary: 'Headlines merged across countries and languages', tag: 'news', query: globalHeadlinesQuery, response: getGlobalHeadlinesOutput, errors: newsErrors }, async (req, res, { query: { q, ...rest } }) => {
+    sendNews(res, await newsService.getGlobalHeadlines({ query: q, ...rest }));
+  });
+
+  api.get('/api/search', { summary: 'Search news', tag: 'news', query: searchQuery, response: searchNewsOutput, errors: newsErrors }, async (req, res, { query: { q, rank, ...rest } }) => {
+    sendNews(res, ranked(res, await newsService.searchNews({ query: q, ...rest }), rank, q));
+  });
+
+  // personal feed plus the clicks and saves it learns from
+  api.get('/api/feed', { summary: 'Headlines and stories ranked for the signed-in user', tag: 'feed', query: personalFeedQuery, response: personalFeedOutput, errors: newsErrors }, async (req, res, { query }) => {
+    sendNews(res, await feedService.getFeed(currentUser(res).id, query));
+  });
+
+  api.get('/api/feed/interests', { summary: 'What the feed has learned from clicks, saves and chat questions', tag: 'feed' }, (req, res) => {
+    res.json(interestProfiles.topInterests(currentUser(res).id, 20));
+  });
+
+  api.delete('/api/feed/interests', { summary: 'Forget learned interests (saved articles stay)', tag: 'feed' }, (req, res) => {
+    interestProfiles.reset(currentUser(res).id);
+    res.json({ success: true });
+  });
+
+  api.post('/api/feed/clicks', { summary: 'Record that an article was opened', tag: 'feed', body: articleInteractionBody }, (req, res, { body }) => {
+    res.json({ recorded: interestProfiles.recordClick(currentUser(res).id, { ...body, source: body.source || '', description: body.description || '' }) });
+  });
+
+  api.get('/api/saved', { summary: 'Saved articles, newest first', tag: 'feed' }, (req, res) => {
+    res.json({ articles: interestProfiles.listSaved(currentUser(res).id) });
+  });
+
+  api.post('/api/saved', { summary: 'Save an article for later', tag: 'feed', body: articleInteractionBody, status: 201 }, (req, res, { body }) => {
+    const saved = interestProfiles.saveArticle(currentUser(res).id, {
+      title: body.title,
+      description: body.description || '',
+      url: body.url,
+      source: body.source || '',
+      publishedAt: body.publishedAt || '',
+      author: body.author || '',
+      content: body.content || ''
+    });
+    res.status(201).json(saved);
+  });
+
+  api.delete('/api/saved', { summary: 'Remove a saved article', tag: 'feed', query: savedArticleRef }, (req, res, { query }) => {
+    if (!interestProfiles.removeSaved(currentUser(res).id, query.url)) return sendError(res, 404, 'notFound', 'article is not saved');
+    res.json({ success: true });
+  });
+
+  api.get('/api/company', { summary: 'News about a company, with sentiment', tag: 'news', query: companyNewsQuery, response: getCompanyNewsOutput, errors: newsErrors }, async (req, res, { query: { name, ...rest } }) => {
+    sendNews(res, await newsService.getCompanyNews({ companyName: name, ...rest }));
+  });
+
+  api.get('/api/sources', { summary: 'Outlet profiles: reliability tier, paywall, bias and category tags', tag: 'sources', query: sourcesQuery }, (req, res, { query }) => {
+    res.json({ sources: sourceProfiles.list(query), blockedDomains: sourceProfiles.blockedDomains });
+  });
+
+  api.get('/api/companies', { summary: 'Known companies with their aliases and tickers', tag: 'companies', query: companiesQuery }, (req, res, { query }) => {
+    res.json({ companies: companyRegistry.list(query.q) });
+  });
+
+  api.get('/api/companies/resolve', { summary: 'The company and news query a name, alias, ticker or domain resolves to', tag: 'companies', query: companyResolveQuery }, (req, res, { query }) => {
+    res.json(companyRegistry.resolveQuery(query.name));
+  });
+
+  // custom companies and aliases, for the users listed in ADMIN_USERS
+  api.post('/api/admin/companies', { summary: 'Add a custom company', tag: 'companies', body: companyCreateBody, status: 201 }, (req, res, { body }) => {
+    res.status(201).json(companyRegistry.addCompany(body));
+  });
+
+  api.post('/api/admin/companies/:id/aliases', { summary: 'Add aliases, tickers, domains or excluded words to a company', tag: 'companies', body: companyAliasesBody }, (req, res, { body }) => {
+    res.json(companyRegistry.addAliases(String(req.params.id), body));
+  });
+
+  api.delete('/api/admin/companies/:id', { summary: 'Remove a custom company, or the custom additions to a bundled one', tag: 'companies' }, (req, res) => {
+    if (!companyRegistry.removeCustom(String(req.params.id))) return sendError(res, 404, 'notFound', 'no custom entry for this company');
+    res.json({ success: true });
+  });
+
+  api.get('/api/stories', { summary: 'Stories from recently archived articles', tag: 'news', query: storiesQuery, response: getStoriesOutput }, async (req, res, { query: { q, ...rest } }) => {
+    res.json(await newsService.getStories({ query: q, ...rest }));
+  });
+
+  api.get('/api/archive/search', { summary: 'Search every article fetched so far', tag: 'news', query: archiveSearchQuery, response: searchArchiveOutput }, async (req, res, { query: { q, ...rest } }) => {
+    res.json(await newsService.searchArchive({ query: q, ...rest }));
+  });
+
+  // watchlists and briefs of other users are reported as not found
+  const ownWatchlist = (res: express.Response, id: string) => {
+    const watchlist = watchlistService.get(id);
+    return watchlist && watchlist.userId === currentUser(res).id ? watchlist : null;
+  };
+
+  api.get('/api/watchlists', { summary: 'List watchlists', tag: 'watchlists' }, (req, res) => {
+    res.json({ watchlists: watchlistService.list(currentUser(res).id) });
+  });
+
+  api.post('/api/watchlists', { summary: 'Create a watchlist', tag: 'watchlists', body: watchlistCreateBody, status: 201 }, (req, res, { body }) => {
+    try {
+      res.status(201).json(watchlistService.create({ ...body, userId: currentUser(res).id }));
+    } catch (error: any) {
+      sendError(res, 400, 'invalidRequest', error.message);
+    }
+  });
+
+  api.get('/api/watchlists/:id', { summary: 'Get a watchlist', tag: 'watchlists' }, (req, res) => {
+    const watchlist = ownWatchlist(res, String(req.params.id));
+    if (!watchlist) return sendError(res, 404, 'notFound', 'watchlist not found');
+    res.json(watchlist);
+  });
+
+  api.patch('/api/watchlists/:id', { summary: 'Update a watchlist', tag: 'watchlists', body: watchlistUpdateBody }, (req, res, { body }) => {
+    const id = String(req.params.id);
+    if (!ownWatchlist(res, id)) return sendError(res, 404, 'notFound', 'watchlist not found');
+    try {
+      res.json(watchlistService.update(id, body));
+    } catch (error: any) {
+      sendError(res, 400, 'invalidRequest', error.message);
+    }
+  });
+
+  api.delete('/api/watchlists/:id', { summary: 'Delete a watchlist', tag: 'watchlists' }, (req, res) => {
+    const id = String(req.params.id);
+    if (!ownWatchlist(res, id) || !watchlistService.delete(id)) return sendError(res, 404, 'notFound', 'watchlist not found');
+    res.json({ success: true });
+  });
+
+  api.post('/api/watchlists/:id/run', { summary: 'Poll a watchlist now (the first run only records a baseline)', tag: 'watchlists', errors: newsErrors }, async (req, res) => {
+    const id = String(req.params.id);
+    const run = ownWatchlist(res, id) ? await watchlistService.runWatchlist(id) : null;
+    if (!run) return sendError(res, 404, 'notFound', 'watchlist not found');
+    // a brief made from the queries that worked is a result: 200, with the failure attached
+    if (run.briefCreated) return res.json(run);
+    sendNews(res, run);
+  });
+
+  api.post('/api/watchlists/:id/feed-token', { summary: 'Replace the feed token, invalidating feed urls shared earlier', tag: 'watchlists' }, (req, res) => {
+    const id = String(req.params.id);
+    const watchlist = ownWatchlist(res, id) ? watchlistService.rotateFeedToken(id) : null;
+    if (!watchlist) return sendError(res, 404, 'notFound', 'watchlist not found');
+    res.json(watchlist);
+  });
+
+  api.get('/api/briefs', { summary: 'List briefs', tag: 'briefs', query: briefsQuery }, (req, res, { query }) => {
+    res.json(briefStore.query({ ...query, userId: currentUser(res).id, includeUnowned: isAdmin(res, admins) }));
+  });
+
+  // briefs with no owner (e.g. from older versions or system jobs) are only shown to admins
+  const visibleBrief = (res: express.Response, id: string) => {
+    const brief = briefStore.get(id);
+    return brief && (brief.userId === currentUser(res).id || (brief.userId === null && isAdmin(res, admins))) ? brief : null;
+  };
+
+  api.get('/api/briefs/:id', { summary: 'Get a brief', tag: 'briefs' }, (req, res) => {
+    const brief = visibleBrief(res, String(req.params.id));
+    if (!brief) return sendError(res, 404, 'notFound', 'brief not found');
+    res.json(brief);
+  });
+
+  api.patch('/api/briefs/:id', { summary: 'Mark a brief read or acknowledged', tag: 'briefs', body: briefUpdateBody }, (req, res, { body }) => {
+    const id = String(req.params.id);
+    const brief = visibleBrief(res, id) ? briefStore.update(id, body) : null;
+    if (!brief) return sendError(res, 404, 'notFound', 'brief not found');
+    res.json(brief);
+  });
+
+  api.delete('/api/briefs/:id', { summary: 'Delete a brief', tag: 'briefs' }, (req, res) => {
+    const id = String(req.params.id);
+    if (!visibleBrief(res, id) || !briefStore.delete(id)) {
+      return sendError(res, 404, 'notFound', 'brief not found');
+    }
+    res.json({ success: true });
+  });
+
+  // digest jobs are registered before /api/digests/:id so "jobs" is not taken for a digest id
+  const ownDigestJob = (res: express.Response, id: string) => {
+    const job = digestService.getJob(id);
+    return job && job.userId === currentUser(res).id ? job : null;
+  };
+
+  api.get('/api/digests/jobs', { summary: 'List digest jobs', tag: 'digests' }, (req, res) => {
+    res.json({ jobs: digestService.listJobs(currentUser(res).id) });
+  });
+
+  api.post('/api/digests/jobs', { summary: 'Create a scheduled digest job', tag: 'digests', body: digestJobCreateBody, status: 201 }, (req, res, { body }) => {
+    try {
+      res.status(201).json(digestService.createJob({ ...body, userId: currentUser(res).id }));
+    } catch (error: any) {
+      sendError(res, 400, 'invalidRequest', error.message);
+    }
+  });
+
+  api.get('/api/digests/jobs/:id', { summary: 'Get a digest job', tag: 'digests' }, (req, res) => {
+    const job = ownDigestJob(res, String(req.params.id));
+    if (!job) return sendError(res, 404, 'notFound', 'digest job not found');
+    res.json(job);
+  });
+
+  api.patch('/api/digests/jobs/:id', { summary: 'Update a digest job', tag: 'digests', body: digestJobUpdateBody }, (req, res, { body }) => {
+    const id = String(req.params.id);
+    if (!ownDigestJob(res, id)) return sendError(res, 404, 'notFound', 'digest job not found');
+    try {
+      res.json(digestService.updateJob(id, body));
+    } catch (error: any) {
+      sendError(res, 400, 'invalidRequest', error.message);
+    }
+  });
+
+  api.delete('/api/digests/jobs/:id', { summary: 'Delete a digest job (its digests are kept)', tag: 'digests' }, (req, res) => {
+    const id = String(req.params.id);
+    if (!ownDigestJob(res, id) || !digestService.deleteJob(id)) return sendError(res, 404, 'notFound', 'digest job not found');
+    res.json({ success: true });
+  });
+
+  api.post('/api/digests/jobs/:id/run', { summary: 'Build a digest now, outside the schedule', tag: 'digests' }, async (req, res) => {
+    const id = String(req.params.id);
+    const digest = ownDigestJob(res, id) ? await digestService.runJob(id) : null;
+    if (!digest) return sendError(res, 404, 'notFound', 'digest job not found');
+    res.json(digest);
+  });
+
+  api.get('/api/digests', { summary: 'List past digests, newest first', tag: 'digests', query: digestsQuery }, (req, res, { query }) => {
+    res.json({ digests: digestService.list(currentUser(res).id, query.jobId, query.limit) });
+  });
+
+  const ownDigest = (res: express.Response, id: string) => {
+    const digest = digestService.get(id);
+    return digest && digest.userId === currentUser(res).id ? digest : null;
+  };
+
+  api.get('/api/digests/:id', { summary: 'Get a digest', tag: 'digests' }, (req, res) => {
+    const digest = ownDigest(res, String(req.params.id));
+    if (!digest) return sendError(res, 404, 'notFound', 'digest not found');
+    res.json(digest);
+  });
+
+  api.delete('/api/digests/:id', { summary: 'Delete a digest', tag: 'digests' }, (req, res) => {
+    const id = String(req.params.id);
+    if (!ownDigest(res, id) || !digestService.delete(id)) return sendError(res, 404, 'notFound', 'digest not found');
+    res.json({ success: true });
+  });
+
+  api.get('/api/insights/industry-pulse', { summary: 'Industry pulse with trends and spikes', tag: 'insights', query: getIndustryPulseInput, response: getIndustryPulseOutput, errors: newsErrors }, async (req, res, { query }) => {
+    sendNews(res, await newsService.getIndustryPulse(query));
+  });
+
+  api.get('/api/insights/compare-companies', { summary: 'Compare coverage of 2-8 companies (or the two-company form with companyA/companyB)', tag: 'insights', query: compareCompaniesQuery, response: compareCompaniesOutput, errors: newsErrors }, async (req, res, { query }) => {
+    if (query.companies) {
+      return sendNews(res, await newsService.compareCompanies({ companies: query.companies, days: query.days, language: query.language, ...sourceFilter(query) }));
+    }
+    if (!query.companyA || !query.companyB) {
+      return sendError(res, 400, 'invalidRequest', 'companies (or companyA and companyB) are required');
+    }
+    sendNews(res, await newsService.compareCompanyCoverage({ companyA: query.companyA, companyB: query.companyB, days: query.days, language: query.language, ...sourceFilter(query) }));
+  });
+
+  api.get('/api/insights/company-sentiment', { summary: 'Headline sentiment for a company over time', tag: 'insights', query: companySentimentQuery, response: getCompanySentimentOutput, errors: newsErrors }, async (req, res, { query: { company, ...rest } }) => {
+    sendNews(res, await newsService.getCompanySentiment({ companyName: company, ...rest }));
+  });
+
+  api.get('/api/insights/market-movers', { summary: 'Classified market-moving events', tag: 'insights', query: getMarketMovingEventsInput, response: getMarketMovingEventsOutput, errors: newsErrors }, async (req, res, { query }) => {
+    sendNews(res, await newsService.getMarketMovingEvents(query));
+  });
+
+  api.get('/api/notifications/channels', { summary: 'Configured notification channels', tag: 'notifications' }, (req, res) => {
+    const user = currentUser(res);
+    res.json({ channels: notificationService.listChannels({ username: user.username, admin: isAdmin(res, admins) }) });
+  });
+
+  api.get('/api/notifications/deliveries', { summary: 'Notification delivery log', tag: 'notifications', query: deliveriesQuery }, (req, res, { query }) => {
+    res.json({ deliveries: notificationService.listDeliveries({ ...query, userId: currentUser(res).id, includeUnowned: isAdmin(res, admins) }) });
+  });
+
+  api.get('/api/quota', { summary: 'NewsAPI requests used and remaining today', tag: 'meta' }, (req, res) => {
+    res.json({ newsApi: newsApiClient ? newsApiClient.getUsage() : null });
+  });
+
+  // exports of the news, brief and insight routes in csv, markdown, html, rss or atom
+  api.get('/api/export/headlines', { summary: 'Export top headlines', tag: 'export', query: headlinesExportQuery, produces: EXPORT_TYPES, errors: newsErrors }, async (req, res, { query: { format, ...rest } }) => {
+    const results = await newsService.getTopHeadlines(rest);
+    if (results.error) return sendNews(res, results);
+    const title = `Top headlines${rest.category ? `: ${rest.category}` : ''}`;
+    sendExport(req, res, articlesDocument(title, results.articles, `${results.totalResults} results`), format || 'markdown', title);
+  });
+
+  api.get('/api/export/global-headlines', { summary: 'Export global headlines', tag: 'export', query: globalHeadlinesExportQuery, produces: EXPORT_TYPES, errors: newsErrors }, async (req, res, { query: { q, format, ...rest } }) => {
+    const result = await newsService.getGlobalHeadlines({ query: q, ...rest });
+    if (result.error) return sendNews(res, result);
+    sendExport(req, res, globalHeadlinesDocument(result), format || 'markdown', 'global-headlines');
+  });
+
+  api.get('/api/export/search', { summary: 'Export search results', tag: 'export', query: searchExportQuery, produces: EXPORT_TYPES, errors: newsErrors }, async (req, res, { query: { q, format, ...rest } }) => {
+    const results = await newsService.searchNews({ query: q, ...rest });
+    if (results.error) return sendNews(res, results);
+    sendExport(req, res, articlesDocument(`Search: ${q}`, results.articles, `${results.totalResults} results`), format || 'markdown', `search-${q}`);
+  });
+
+  api.get('/api/export/company', { summary: 'Export company news', tag: 'export', query: companyNewsExportQuery, produces: EXPORT_TYPES, errors: newsErrors }, async (req, res, { query: { name, format, ...rest } }) => {
+    const results = await newsService.getCompanyNews({ companyName: name, ...rest });
+    if (results.error) return sendNews(res, results);
+    sendExport(req, res, articlesDocument(`Company news: ${name}`, results.articles, `${results.totalResults} results`), format || 'markdown', `company-${name}`);
+  });
+
+  api.get('/api/export/briefs', { summary: 'Export briefs', tag: 'export', query: briefsExportQuery, produces: EXPORT_TYPES }, (req, res, { query: { format, ...rest } }) => {
+    const { briefs } = briefStore.query({ ...rest, userId: currentUser(res).id, includeUnowned: isAdmin(res, admins) });
+    sendExport(req, res, briefsDocument('News briefs', briefs), format || 'markdown', 'briefs');
+  });
+
+  api.get('/api/export/industry-pulse', { summary: 'Export an industry pulse', tag: 'export', query: industryPulseExportQuery, produces: EXPORT_TYPES, errors: newsErrors }, async (req, res, { query: { format, ...rest } }) => {
+    const pulse = await newsService.getIndustryPulse(rest);
+    if (pulse.error) return sendNews(res, pulse);
+    sendExport(req, res, industryPulseDocument(pulse), format || 'markdown', `industry-pulse-${rest.industry}`);
+  });
+
+  api.get('/api/export/compare-companies', { summary: 'Export a company comparison', tag: 'export', query: compareCompaniesExportQuery, produces: EXPORT_TYPES, errors: newsErrors }, async (req, res, { query: { format, ...query } }) => {
+    if (query.companies) {
+      const result = await newsService.compareCompanies({ companies: query.companies, days: query.days, language: query.language, ...sourceFilter(query) });
+      if (result.error) return sendNews(res, result);
+      return sendExport(req, res, companyComparisonDocument(result), format || 'markdown', `compare-${query.companies.join('-')}`);
+    }
+    if (!query.companyA || !query.companyB) {
+      return sendError(res, 400, 'invalidRequest', 'companies (or companyA and companyB) are required');
+    }
+    const result = await newsService.compareCompanyCoverage({ companyA: query.companyA, companyB: query.companyB, days: query.days, language: query.language, ...sourceFilter(query) });
+    if (result.error) return sendNews(res, result);
+    sendExport(req, res, coverageComparisonDocument(result), format || 'markdown', `compare-${query.companyA}-${query.companyB}`);
+  });
+
+  api.get('/api/export/company-sentiment', { summary: 'Export company sentiment', tag: 'export', query: companySentimentExportQuery, produces: EXPORT_TYPES, errors: newsErrors }, async (req, res, { query: { company, format, ...rest } }) => {
+    const result = await newsService.getCompanySentiment({ companyName: company, ...rest });
+    if (result.error) return sendNews(res, result);
+    sendExport(req, res, companySentimentDocument(result), format || 'markdown', `sentiment-${company}`);
+  });
+
+  api.get('/api/export/market-movers', { summary: 'Export market-moving events', tag: 'export', query: marketMoversExportQuery, produces: EXPORT_TYPES, errors: newsErrors }, async (req, res, { query: { format, ...rest } }) => {
+    const result = await newsService.getMarketMovingEvents(rest);
+    if (result.error) return sendNews(res, result);
+    sendExport(req, res, marketMoversDocument(result), format || 'markdown', 'market-movers');
+  });
+
+  api.get('/api/export/digests/:id', { summary: 'Export a digest', tag: 'export', query: digestExportQuery, produces: EXPORT_TYPES }, (req, res, { query }) => {
+    const digest = ownDigest(res, String(req.params.id));
+    if (!digest) return sendError(res, 404, 'notFound', 'digest not found');
+    sendExport(req, res, digestDocument(digest), query.format || 'markdown', `digest-${digest.name}-${digest.createdAt.slice(0, 10)}`);
+  });
+
+  api.post('/api/chat', { summary: 'Send a chat message and wait for the reply', tag: 'chat', body: chatMessageBody }, async (req, res, { body }) => {
+    const result = await chatService.processMessage(currentUser(res).id, body.message, body.sessionId);
+    if (!result) return sendError(res, 404, 'notFound', 'session not found');
+    res.json({ ...result, timestamp: new Date().toISOString() });
+  });
+
+  // server-sent events: session, status, tool, delta, final and error
+  const streamChat = async (res: express.Response, input: z.infer<typeof chatMessageBody>) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const controller = new AbortController();
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      if (!res.writableFinished) controller.abort();
+    });
+    const emit = ({ type, ...data }: ChatStreamEvent) => {
+      if (!res.writableEnded) res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    await chatService.streamMessage(currentUser(res).id, input.message, input.sessionId || undefined, emit, controller.signal);
+    clearInterval(heartbeat);
+    res.end();
+  };
+
+  // post only: the session cookie rides along on cross-site GET navigations, so a GET would let other sites chat as the user
+  api.post('/api/chat/stream', { summary: 'Stream a chat reply as server-sent events', tag: 'chat', body: chatMessageBody, eventStream: true }, (req, res, { body }) => streamChat(res, body));
+
+  api.get('/api/chat/history', { summary: 'Messages of a chat session', tag: 'chat', query: chatSessionRef }, (req, res, { query }) => {
+    res.json({ history: chatService.getConversationHistory(currentUser(res).id, query.sessionId) });
+  });
+
+  api.post('/api/chat/clear', { summary: 'Clear the messages of a chat session', tag: 'chat', body: chatSessionRef }, (req, res, { body }) => {
+    chatService.clearConversation(currentUser(res).id, body.sessionId);
+    res.json({ success: true });
+  });
+
+  api.get('/api/chat/sessions', { summary: 'List chat sessions', tag: 'chat' }, (req, res) => {
+    res.json({ sessions: chatService.listSessions(currentUser(res).id) });
+  });
+
+  api.post('/api/chat/sessions', { summary: 'Start a chat session', tag: 'chat', body: chatSessionCreateBody, status: 201 }, (req, res, { body }) => {
+    res.status(201).json(chatService.createSession(currentUser(res).id, body.title));
+  });
+
+  api.get('/api/chat/sessions/:id', { summary: 'Get a chat session with its messages', tag: 'chat' }, (req, res) => {
+    const session = chatService.getSession(currentUser(res).id, String(req.params.id));
+    if (!session) return sendError(res, 404, 'notFound', 'session not found');
+    res.json(session);
+  });
+
+  api.patch('/api/chat/sessions/:id', { summary: 'Rename a chat session', tag: 'chat', body: chatSessionRenameBody }, (req, res, { body }) => {
+    const session = chatService.renameSession(currentUser(res).id, String(req.params.id), body.title);
+    if (!session) return sendError(res, 404, 'notFound', 'session not found');
+    res.json(session);
+  });
+
+  api.delete('/api/chat/sessions/:id', { summary: 'Delete a chat session', tag: 'chat' }, (req, res) => {
+    if (!chatService.deleteSession(currentUser(res).id, String(req.params.id))) return sendError(res, 404, 'notFound', 'session not found');
+    res.json({ success: true });
+  });
+
+  app.use('/api', (req, res) => sendError(res, 404, 'notFound', `no route for ${req.method} ${req.baseUrl}${req.path}`));
+  app.use(errorHandler);
+
+  return app;
+}
@@ -1,122 +1,69 @@
 import "reflect-metadata";
 import 'dotenv/config';
-import express from 'express';
-import path from 'path';
-import cors from 'cors';
 import { DaemoBuilder, DaemoHostedConnection } from 'daemo-engine';
-import { NewsService } from './services/MyFunctions';
-import { ChatService } from './services/ChatService';
+import { AppServices, createApp, createServices, shutdown } from './app';
+import { logger } from './services/observability';
 
 // entry point for the application starting express and daemo agent
 async function main() {
-  if (!process.env.DAEMO_AGENT_API_KEY || !process.env.DAEMO_AGENT_ID || !process.env.NEWS_API_KEY) {
-    console.error("❌ error: missing required environment variables in .env file");
+  if (!process.env.DAEMO_AGENT_API_KEY || !process.env.DAEMO_AGENT_ID) {
+    logger.error('missing required environment variables in .env file', { required: ['DAEMO_AGENT_API_KEY', 'DAEMO_AGENT_ID'] });
     process.exit(1);
   }
 
-  const newsService = new NewsService(process.env.NEWS_API_KEY);
-  const chatService = new ChatService(
-    process.env.DAEMO_AGENT_API_KEY,
-    process.env.DAEMO_AGENT_ID
-  );
-
-  const app = express();
-  const PORT = process.env.PORT || 3000;
-
-  app.use(cors());
-  app.use(express.json());
-  app.use(express.static(path.join(__dirname, '../public')));
-
-  // api routes for news and chat
-  app.get('/api/headlines', async (req, res) => {
-    const { category, country } = req.query;
-    const results = await newsService.getTopHeadlines({ 
-      category: category as any, 
-      country: country as string 
-    });
-    res.json(results);
-  });
-
-  app.get('/api/search', async (req, res) => {
-    const { q } = req.query;
-    const results = await newsService.searchNews({ query: q as string });
-    res.json(results);
-  });
-
-  app.get('/api/company', async (req, res) => {
-    const { name } = req.query;
-    const results = await newsService.getCompanyNews({ companyName: name as string });
-    res.json(results);
-  });
+  let services: AppServices;
+  try {
+    services = createServices();
+  } catch (error: any) {
+    logger.error('invalid configuration', { message: error.message });
+    process.exit(1);
+  }
+  const { newsService, notificationService, watchlistService, digestService } = services;
+  logger.info('news provider ready', { provider: services.provider.name });
 
-  app.get('/api/briefs', (req, res) => {
-    res.json(NewsService.recentBriefs);
-  });
+  notificationService.start();
+  if (process.env.WATCHLIST_SCHEDULER !== 'off') {
+    watchlistService.startScheduler((Number(process.env.WATCHLIST_TICK_SECONDS) || 60) * 1000);
+  }
+  if (process.env.DIGEST_SCHEDULER !== 'off') {
+    digestService.startScheduler();
+  }
 
-  app.get('/api/insights/industry-pulse', async (req, res) => {
-    const { industry, days, language } = req.query;
-    if (!industry || typeof industry !== 'string') {
-      return res.status(400).json({ error: 'industry is required' });
-    }
-    const data = await newsService.getIndustryPulse({
-      industry,
-      days: days ? Number(days) : undefined,
-      language: typeof language === 'string' ? language : undefined
-    });
-    res.json(data);
+  // the hosted connection is not ready until start() resolves; /readyz reports it until then
+  let daemoConnection: { state: 'connecting' | 'online' | 'failed'; error?: string } = { state: 'connecting' };
+  services.health.register('daemoConnection', () => {
+    if (daemoConnection.state === 'online') return { status: 'ok', state: 'online' };
+    const message = daemoConnection.state === 'connecting' ? 'connecting to the daemo gateway' : `daemo connection failed: ${daemoConnection.error}`;
+    return { status: 'fail', state: daemoConnection.state, message };
   });
 
-  app.get('/api/insights/compare-companies', async (req, res) => {
-    const { companyA, companyB, days } = req.query;
-    if (!companyA || !companyB || typeof companyA !== 'string' || typeof companyB !== 'string') {
-      return res.status(400).json({ error: 'companyA and companyB are required' });
-    }
-    const data = await newsService.compareCompanyCoverage({
-      companyA,
-      companyB,
-      days: days ? Number(days) : undefined
-    });
-    res.json(data);
-  });
+  const app = createApp(services);
+  const PORT = process.env.PORT || 3000;
 
-  app.get('/api/insights/market-movers', async (req, res) => {
-    const { query, days } = req.query;
-    const data = await newsService.getMarketMovingEvents({
-      query: typeof query === 'string' ? query : undefined,
-      days: days ? Number(days) : undefined
-    });
-    res.json(data);
+  const server = app.listen(PORT, () => {
+    logger.info('frontend available', { url: `http://localhost:${PORT}` });
   });
 
-  app.post('/api/chat', async (req, res) => {
-    try {
-      const { message, userId = 'default' } = req.body;
-      if (!message || typeof message !== 'string') {
-        return res.status(400).json({ error: 'message is required' });
+  // SIGTERM from the orchestrator or ctrl-c: drain requests, stop the schedulers and flush every store
+  const graceMs = (Number(process.env.SHUTDOWN_GRACE_SECONDS) || 10) * 1000;
+  let stopping = false;
+  const stop = (signal: string) => {
+    if (stopping) return;
+    stopping = true;
+    logger.info('shutting down', { signal, graceMs });
+    shutdown(server, services, graceMs).then(
+      () => {
+        logger.info('shutdown complete');
+        process.exit(0);
+      },
+      (error) => {
+        logger.error('shutdown failed', { error });
+        process.exit(1);
       }
-      const response = await chatService.processMessage(userId, message);
-      res.json({ response, timestamp: new Date().toISOString() });
-    } catch (error: any) {
-      console.error('chat error:', error);
-      res.status(500).json({ error: 'failed to process message' });
-    }
-  });
-
-  app.get('/api/chat/history', (req, res) => {
-    const { userId = 'default' } = req.query;
-    const history = chatService.getConversationHistory(userId as string);
-    res.json({ history });
-  });
-
-  app.post('/api/chat/clear', (req, res) => {
-    const { userId = 'default' } = req.body;
-    chatService.clearConversation(userId);
-    res.json({ success: true });
-  });
-
-  app.listen(PORT, () => {
-    console.log(`\n🌐 frontend available at http://localhost:${PORT}`);
-  });
+    );
+  };
+  process.on('SIGTERM', () => stop('SIGTERM'));
+  process.on('SIGINT', () => stop('SIGINT'));
 
   // daemo agent configuration with system prompt
   const systemPrompt = `You are a helpful and knowledgeable news assistant powered by the News API. Your role is to help users stay informed about current events, breaking news, and industry developments.
@@ -144,9 +91,18 @@ async function main() {
 **How to Help Users:**
 - When users ask for news, use the appropriate function (getTopHeadlines, searchNews, or getCompanyNews)
 - Always provide context and ask follow-up questions to better assist
-- Summarize key points from articles when helpful
+- Summarize key points from articles when helpful; article content from the News API is cut off after ~200 characters, so pass enrich: 'full' to searchNews, getTopHeadlines, getCompanyNews or getGlobalHeadlines when you need the whole text for a summary (it is slower, so ask for a small pageSize)
 - Suggest related topics or companies that might interest the user
 - Remember previous conversation context to provide relevant follow-ups
+- When users want to keep an eye on a company or topic, offer to create a watchlist (createWatchlist); new matches will show up as briefs automatically
+- Every query starts with a line "Caller reference: <ref>"; pass that ref unchanged as callerRef to sendNewsBrief and the watchlist tools, which act for that user only and refuse without it. Never show the ref to the user
+- For news across several markets at once (e.g. "headlines in the US, UK and Japan" or "what German and French outlets say about Airbus"), use getGlobalHeadlines with countries and/or languages instead of calling getTopHeadlines repeatedly; mention which regions each story came from
+- getCompanyNews and compareCompanyCoverage accept tickers (AAPL) and other names a company goes by (Facebook for Meta) and search all of a company's names for you, so pass what the user said rather than guessing search keywords
+- To compare a peer group of companies (share of voice, overlapping stories, distinctive topics), use compareCompanies
+- When users ask for news from particular outlets, or want to leave some out, pass sources (ids, names or domains), domains or excludeDomains to the news tools; notable headlines and market-moving events carry a reliability score, so mention when a story rests on low-reliability outlets only
+- For questions about how coverage of a company feels or is shifting, use getCompanySentiment (scores are lexicon based, so present them as a rough signal)
+- Use searchArchive to look back at articles fetched earlier, especially when the live News API is rate limited or the user asks about older coverage
+- If a tool result contains an \`error\` field, the results are empty because the news provider failed (for example \`rateLimited\`, \`quotaExceeded\` or \`apiKeyInvalid\`); tell the user why instead of saying there is no news
 
 Remember: Be helpful, accurate, and conversational. Make news discovery easy and enjoyable for users.`;
 
@@ -154,6 +110,7 @@ Remember: Be helpful, accurate, and conversational. Make news discovery easy and
     .withServiceName("NewsAPIBriefAgent")
     .withSystemPrompt(systemPrompt)
     .registerService(newsService)
+    .registerService(watchlistService)
     .build();
 
   const connection = new DaemoHostedConnection(
@@ -164,8 +121,14 @@ Remember: Be helpful, accurate, and conversational. Make news discovery easy and
     sessionData
   );
 
-  await connection.start();
-  console.log("🚀 daemo agent online!");
+  try {
+    await connection.start();
+    daemoConnection = { state: 'online' };
+    logger.info('daemo agent online');
+  } catch (error: any) {
+    daemoConnection = { state: 'failed', error: error.message };
+    logger.error('daemo agent failed to connect', { error });
+  }
 }
 
-main().catch(console.error);
+main().catch((error) => logger.error('startup failed', { error }));
@@ -0,0 +1,187 @@
+import { JsonStore } from './JsonStore';
+import { NormalizedArticle } from './providers';
+
+export interface ArchivedArticle extends NormalizedArticle {
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface ArchiveQuery {
+  query?: string;
+  source?: string;
+  from?: string;
+  to?: string;
+  sortBy?: 'relevancy' | 'publishedAt';
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ArchiveSearchResult {
+  articles: ArchivedArticle[];
+  totalResults: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|ref|cmpid)$/i;
+
+// strips fragments and tracking params so the same story from one outlet dedupes
+export function normalizeArticleUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    parsed.hash = '';
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+    }
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return url.trim();
+  }
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((w) => w.length > 1);
+}
+
+// embedded article store keyed by url with an inverted index for keyword search
+export class ArticleArchive {
+  private articles: Map<string, ArchivedArticle> = new Map();
+  private index: Map<string, Set<string>> = new Map();
+  private store: JsonStore<ArchivedArticle[]>;
+  private maxArticles: number;
+
+  constructor(filePath?: string, maxArticles = 20000) {
+    this.store = new JsonStore(filePath, 2000);
+    this.maxArticles = maxArticles;
+    for (const article of this.store.load([])) {
+      this.articles.set(normalizeArticleUrl(article.url), article);
+      this.indexArticle(normalizeArticleUrl(article.url), article);
+    }
+  }
+
+  get size(): number {
+    return this.articles.size;
+  }
+
+  get(url: string): ArchivedArticle | null {
+    return this.articles.get(normalizeArticleUrl(url)) || null;
+  }
+
+  private indexArticle(key: string, article: NormalizedArticle) {
+    for (const token of new Set(tokenize(`${article.title} ${article.description} ${article.content} ${article.source}`))) {
+      if (!this.index.has(token)) this.index.set(token, new Set());
+      this.index.get(token)!.add(key);
+    }
+  }
+
+  private unindexArticle(key: string, article: NormalizedArticle) {
+    for (const token of new Set(tokenize(`${article.title} ${article.description} ${article.content} ${article.source}`))) {
+      const keys = this.index.get(token);
+      if (!keys) continue;
+      keys.delete(key);
+      if (keys.size === 0) this.index.delete(token);
+    }
+  }
+
+  // upserts articles, keeping the first time each url was seen
+  add(articles: NormalizedArticle[]) {
+    const now = new Date().toISOString();
+    let changed = false;
+    for (const article of articles) {
+      if (!article.url) continue;
+      const key = normalizeArticleUrl(article.url);
+      const existing = this.articles.get(key);
+      if (existing) {
+        this.unindexArticle(key, existing);
+        this.articles.set(key, { ...existing, ...article, firstSeenAt: existing.firstSeenAt, lastSeenAt: now });
+      } else {
+        this.articles.set(key, { ...article, firstSeenAt: now, lastSeenAt: now });
+      }
+      this.indexArticle(key, this.articles.get(key)!);
+      changed = true;
+    }
+    if (!changed) return;
+    this.prune();
+    this.store.save(() => [...this.articles.values()]);
+  }
+
+  // drops the oldest published articles once the archive grows past its cap
+  private prune() {
+    if (this.articles.size <= this.maxArticles) return;
+    const oldest = [...this.articles.entries()]
+      .sort((a, b) => (Date.parse(a[1].publishedAt) || 0) - (Date.parse(b[1].publishedAt) || 0))
+      .slice(0, this.articles.size - this.maxArticles);
+    for (const [key, article] of oldest) {
+      this.unindexArticle(key, article);
+      this.articles.delete(key);
+    }
+  }
+
+  // all matches in result order, without pagination
+  private match(query: ArchiveQuery): ArchivedArticle[] {
+    const terms = tokenize(query.query || '');
+    let candidates: string[];
+    if (terms.length > 0) {
+      const sets = terms.map((t) => this.index.get(t) || new Set<string>()).sort((a, b) => a.size - b.size);
+      candidates = [...sets[0]].filter((key) => sets.every((set) => set.has(key)));
+    } else {
+      candidates = [...this.articles.keys()];
+    }
+
+    const source = query.source?.toLowerCase();
+    const from = query.from ? Date.parse(query.from) : NaN;
+    const to = query.to ? Date.parse(query.to) : NaN;
+    const matches = candidates
+      .map((key) => this.articles.get(key)!)
+      .filter((article) => {
+        if (source && article.source.toLowerCase() !== source) return false;
+        const published = Date.parse(article.publishedAt);
+        if (!isNaN(from) && (isNaN(published) || published < from)) return false;
+        if (!isNaN(to) && (isNaN(published) || published > to)) return false;
+        return true;
+      });
+
+    const byDate = (a: ArchivedArticle, b: ArchivedArticle) => (Date.parse(b.publishedAt) || 0) - (Date.parse(a.publishedAt) || 0);
+    if (terms.length > 0 && query.sortBy !== 'publishedAt') {
+      const score = (article: ArchivedArticle) => {
+        const title = tokenize(article.title);
+        const body = tokenize(`${article.description} ${article.content}`);
+        return terms.reduce((sum, t) => sum + title.filter((w) => w === t).length * 3 + body.filter((w) => w === t).length, 0);
+      };
+      const scores = new Map(matches.map((a) => [a, score(a)]));
+      matches.sort((a, b) => scores.get(b)! - scores.get(a)! || byDate(a, b));
+    } else {
+      matches.sort(byDate);
+    }
+
+    return matches;
+  }
+
+  search(query: ArchiveQuery): ArchiveSearchResult {
+    const matches = this.match(query);
+    const pageSize = Math.min(Math.max(query.pageSize || 20, 1), 100);
+    const totalPages = Math.max(Math.ceil(matches.length / pageSize), 1);
+    const page = Math.min(Math.max(query.page || 1, 1), totalPages);
+    return {
+      articles: matches.slice((page - 1) * pageSize, page * pageSize),
+      totalResults: matches.length,
+      page,
+      pageSize,
+      totalPages
+    };
+  }
+
+  // up to `limit` matching articles at once, for analysis passes such as story clustering
+  collect(query: Omit<ArchiveQuery, 'page' | 'pageSize'>, limit = 1000): ArchivedArticle[] {
+    return this.match(query).slice(0, limit);
+  }
+
+  flush(): Promise<void> {
+    return this.store.flush();
+  }
+}
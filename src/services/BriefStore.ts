@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import { JsonStore } from './JsonStore';
+
+export type BriefPriority = 'low' | 'medium' | 'high';
+
+export interface NewsBrief {
+  id: string;
+  summary: string;
+  priority: BriefPriority;
+  timestamp: string;
+  sourceUrls: string[];
+  tags: string[];
+  userId: string | null;
+  conversationId: string | null;
+  read: boolean;
+  acknowledgedAt: string | null;
+}
+
+export interface BriefInput {
+  summary: string;
+  priority?: BriefPriority;
+  sourceUrls?: string[];
+  tags?: string[];
+  userId?: string | null;
+  conversationId?: string | null;
+}
+
+export interface BriefQuery {
+  userId?: string;
+  // also match briefs with no owner, which only admins get to see
+  includeUnowned?: boolean;
+  priority?: BriefPriority;
+  tag?: string;
+  read?: boolean;
+  acknowledged?: boolean;
+  since?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface BriefPage {
+  briefs: NewsBrief[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+// per owner (unowned briefs count as one owner), so one busy user never pushes out anyone else's briefs
+export const MAX_BRIEFS_PER_USER = 1000;
+
+// persisted brief history, newest first
+export class BriefStore {
+  private briefs: NewsBrief[];
+  private store: JsonStore<NewsBrief[]>;
+
+  constructor(filePath?: string) {
+    this.store = new JsonStore(filePath);
+    this.briefs = this.store.load([]);
+  }
+
+  private persist() {
+    this.store.save(() => this.briefs);
+  }
+
+  add(input: BriefInput): NewsBrief {
+    const brief: NewsBrief = {
+      id: crypto.randomUUID(),
+      summary: input.summary,
+      priority: input.priority || 'medium',
+      timestamp: new Date().toISOString(),
+      sourceUrls: [...new Set(input.sourceUrls || [])],
+      tags: [...new Set((input.tags || []).map((t) => t.trim().toLowerCase()).filter(Boolean))],
+      userId: input.userId ?? null,
+      conversationId: input.conversationId ?? null,
+      read: false,
+      acknowledgedAt: null
+    };
+    this.briefs.unshift(brief);
+    let kept = 0;
+    this.briefs = this.briefs.filter((b) => b.userId !== brief.userId || ++kept <= MAX_BRIEFS_PER_USER);
+    this.persist();
+    return brief;
+  }
+
+  get(id: string): NewsBrief | null {
+    return this.briefs.find((b) => b.id === id) || null;
+  }
+
+  query(query: BriefQuery = {}): BriefPage {
+    const since = query.since ? Date.parse(query.since) : NaN;
+    const tag = query.tag?.toLowerCase();
+    const matches = this.briefs.filter((b) => {
+      if (query.userId && b.userId !== query.userId && !(query.includeUnowned && b.userId === null)) return false;
+      if (query.priority && b.priority !== query.priority) return false;
+      if (tag && !b.tags.includes(tag)) return false;
+      if (query.read !== undefined && b.read !== query.read) return false;
+      if (query.acknowledged !== undefined && (b.acknowledgedAt !== null) !== query.acknowledged) return false;
+      if (!isNaN(since) && Date.parse(b.timestamp) < since) return false;
+      return true;
+    });
+    const pageSize = Math.min(Math.max(query.pageSize || 20, 1), 100);
+    const totalPages = Math.max(Math.ceil(matches.length / pageSize), 1);
+    const page = Math.min(Math.max(query.page || 1, 1), totalPages);
+    return { briefs: matches.slice((page - 1) * pageSize, page * pageSize), total: matches.length, page, pageSize, totalPages };
+  }
+
+  update(id: string, changes: { read?: boolean; acknowledged?: boolean }): NewsBrief | null {
+    const brief = this.get(id);
+    if (!brief) return null;
+    if (changes.read !== undefined) brief.read = changes.read;
+    if (changes.acknowledged !== undefined) {
+      brief.acknowledgedAt = changes.acknowledged ? brief.acknowledgedAt || new Date().toISOString() : null;
+      if (changes.acknowledged) brief.read = true;
+    }
+    this.persist();
+    return brief;
+  }
+
+  delete(id: string): boolean {
+    const index = this.briefs.findIndex((b) => b.id === id);
+    if (index === -1) return false;
+    this.briefs.splice(index, 1);
+    this.persist();
+    return true;
+  }
+
+  flush(): Promise<void> {
+    return this.store.flush();
+  }
+}
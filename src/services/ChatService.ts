@@ -1,85 +1,371 @@
 import axios from 'axios';
+import crypto from 'crypto';
+import { ChatMessage, ChatSession, ChatSessionStore, ChatSessionSummary } from './ChatSessionStore';
+import { logger } from './observability';
 
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: string;
+export interface ToolCallEvent {
+  tool: string;
+  phase: 'start' | 'end';
+  durationMs?: number;
+  error?: string;
 }
 
-interface ConversationContext {
+export interface DaemoQueryEvent {
+  kind: 'chat' | 'stream' | 'ask';
+  durationMs: number;
+  outcome: 'ok' | 'error' | 'cancelled';
+}
+
+export type ChatStreamEvent =
+  | { type: 'session'; sessionId: string }
+  | { type: 'status'; stage: 'request_sent' | 'responding' }
+  | ({ type: 'tool' } & ToolCallEvent)
+  | { type: 'delta'; text: string }
+  | { type: 'final'; response: string; sessionId: string }
+  | { type: 'error'; message: string };
+
+export interface ContextOptions {
+  maxMessages?: number;
+  maxChars?: number;
+  maxMessageChars?: number;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 3).trim()}...` : text;
+}
+
+// packs recent turns verbatim and earlier user questions as a one-line recap into a single query
+export function buildContextQuery(history: ChatMessage[], userMessage: string, options: ContextOptions = {}): string {
+  const { maxMessages = 10, maxChars = 6000, maxMessageChars = 800 } = options;
+  if (history.length === 0) return userMessage;
+
+  let recent = history.slice(-maxMessages).map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${truncate(m.content, maxMessageChars)}`);
+  while (recent.length > 1 && recent.join('\n').length > maxChars) recent = recent.slice(1);
+
+  const older = history
+    .slice(0, history.length - recent.length)
+    .filter((m) => m.role === 'user')
+    .slice(-8)
+    .map((m) => truncate(m.content, 100));
+
+  const parts: string[] = [];
+  if (older.length > 0) parts.push(`Earlier in this conversation the user asked about: ${older.join('; ')}`);
+  parts.push(`Conversation so far (most recent last):\n${recent.join('\n')}`);
+  parts.push(`Current message from the user (answer this, using the conversation above for context):\n${userMessage}`);
+  return parts.join('\n\n');
+}
+
+export interface QueryCaller {
   userId: string;
-  messages: Message[];
+  conversationId: string;
+}
+
+// the first line of every chat query; the agent passes the reference on as callerRef to tools that act for the user
+export function withCallerRef(query: string, callerRef: string): string {
+  return `Caller reference: ${callerRef}\n\n${query}`;
+}
+
+// reports each call of the listed methods, e.g. daemo tool functions invoked during a chat query
+export function trackToolCalls<T extends object>(service: T, methods: (keyof T & string)[], listener: (event: ToolCallEvent) => void) {
+  for (const name of methods) {
+    const original = (service as any)[name] as (...args: any[]) => any;
+    if (typeof original !== 'function') continue;
+    (service as any)[name] = async function (this: T, ...args: any[]) {
+      const started = Date.now();
+      listener({ tool: name, phase: 'start' });
+      try {
+        const result = await original.apply(this, args);
+        listener({ tool: name, phase: 'end', durationMs: Date.now() - started, error: result?.error?.message });
+        return result;
+      } catch (error: any) {
+        listener({ tool: name, phase: 'end', durationMs: Date.now() - started, error: error.message });
+        throw error;
+      }
+    };
+  }
+}
+
+export const DAEMO_API_URL = 'https://backend.daemo.ai';
+
+function extractResponse(data: any): string | null {
+  if (!data || typeof data !== 'object') return null;
+  if (typeof data.response === 'string') return data.response;
+  return data.message || data.text || (data.data && (data.data.response || data.data.message)) || null;
+}
+
+// splits a server-sent event stream into data payloads, keeping any incomplete frame in the buffer
+function readSseFrames(buffer: string): { frames: string[]; rest: string } {
+  const parts = buffer.split(/\r?\n\r?\n/);
+  const rest = parts.pop() || '';
+  const frames = parts
+    .map((frame) => frame.split(/\r?\n/).filter((line) => line.startsWith('data:')).map((line) => line.slice(5).replace(/^ /, '')).join('\n'))
+    .filter((data) => data && data !== '[DONE]');
+  return { frames, rest };
 }
 
 // chat service handles communication with the daemo query api
 export class ChatService {
-  private conversations: Map<string, ConversationContext> = new Map();
+  private sessions: ChatSessionStore;
+  private activeQueries: Map<string, { userId: string; count: number }> = new Map();
+  private callers: Map<string, QueryCaller> = new Map();
+  private streamListeners: Map<string, (event: ChatStreamEvent) => void> = new Map();
+  private messageListeners: ((userId: string, message: string) => void)[] = [];
+  private queryListeners: ((event: DaemoQueryEvent) => void)[] = [];
   private daemoApiKey: string;
   private agentId: string;
+  private baseUrl: string;
 
-  constructor(daemoApiKey: string, agentId: string) {
+  constructor(daemoApiKey: string, agentId: string, sessions: ChatSessionStore, baseUrl = DAEMO_API_URL) {
     this.daemoApiKey = daemoApiKey;
     this.agentId = agentId;
+    this.sessions = sessions;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private get queryUrl(): string {
+    return `${this.baseUrl}/agents/${this.agentId}/query`;
+  }
+
+  // null when the session does not exist or belongs to another user
+  getSession(userId: string, sessionId: string): ChatSession | null {
+    const session = this.sessions.get(sessionId);
+    return session && session.userId === userId ? session : null;
   }
 
-  // manages user conversation state and history
-  private getOrCreateConversation(userId: string): ConversationContext {
-    if (!this.conversations.has(userId)) {
-      this.conversations.set(userId, {
-        userId,
-        messages: [],
-      });
+  listSessions(userId: string): ChatSessionSummary[] {
+    return this.sessions.list(userId);
+  }
+
+  createSession(userId: string, title?: string): ChatSession {
+    return this.sessions.create(userId, title);
+  }
+
+  renameSession(userId: string, sessionId: string, title: string): ChatSession | null {
+    if (!this.getSession(userId, sessionId)) return null;
+    return this.sessions.rename(sessionId, title);
+  }
+
+  deleteSession(userId: string, sessionId: string): boolean {
+    if (!this.getSession(userId, sessionId)) return false;
+    return this.sessions.delete(sessionId);
+  }
+
+  // the only session with a query in flight, whose stream tool call progress is forwarded to
+  getActiveConversation(): { userId: string; conversationId: string } | null {
+    if (this.activeQueries.size !== 1) return null;
+    const [[conversationId, { userId }]] = this.activeQueries.entries();
+    return { userId, conversationId };
+  }
+
+  // the user and session behind a caller reference, only while that query is in flight
+  resolveCaller(callerRef?: string): QueryCaller | null {
+    return (callerRef && this.callers.get(callerRef)) || null;
+  }
+
+  // forwards a tool call to the stream of the only query in flight; progress only, nothing is attributed by it
+  reportToolCall(event: ToolCallEvent) {
+    const active = this.getActiveConversation();
+    if (active) this.streamListeners.get(active.conversationId)?.({ type: 'tool', ...event });
+  }
+
+  // called with every message a user sends, e.g. to learn what they follow
+  onUserMessage(listener: (userId: string, message: string) => void) {
+    this.messageListeners.push(listener);
+  }
+
+  private recordUserMessage(sessionId: string, userId: string, message: string) {
+    this.sessions.append(sessionId, { role: 'user', content: message, timestamp: new Date().toISOString() });
+    for (const listener of this.messageListeners) {
+      try {
+        listener(userId, message);
+      } catch (error: any) {
+        logger.error('chat message listener failed', { error });
+      }
     }
-    return this.conversations.get(userId)!;
   }
 
-  // sends user message to daemo and returns the agent response
-  async processMessage(userId: string, userMessage: string): Promise<string> {
-    const conversation = this.getOrCreateConversation(userId);
-    const timestamp = new Date().toISOString();
+  // called when each daemo query settles, with its latency
+  onQuery(listener: (event: DaemoQueryEvent) => void) {
+    this.queryListeners.push(listener);
+  }
+
+  private reportQuery(kind: DaemoQueryEvent['kind'], started: number, outcome: DaemoQueryEvent['outcome']) {
+    const event = { kind, durationMs: Date.now() - started, outcome };
+    for (const listener of this.queryListeners) listener(event);
+  }
+
+  private trackQuery(userId: string, sessionId: string, delta: number) {
+    const count = (this.activeQueries.get(sessionId)?.count || 0) + delta;
+    if (count > 0) this.activeQueries.set(sessionId, { userId, count });
+    else this.activeQueries.delete(sessionId);
+  }
+
+  // an unguessable reference sent with the query, so tool calls are attributed to its user and never guessed
+  private beginQuery(userId: string, sessionId: string): string {
+    const callerRef = crypto.randomBytes(16).toString('base64url');
+    this.callers.set(callerRef, { userId, conversationId: sessionId });
+    this.trackQuery(userId, sessionId, 1);
+    return callerRef;
+  }
+
+  private endQuery(callerRef: string) {
+    const caller = this.callers.get(callerRef);
+    if (!caller) return;
+    this.callers.delete(callerRef);
+    this.trackQuery(caller.userId, caller.conversationId, -1);
+  }
 
-    conversation.messages.push({
-      role: 'user',
-      content: userMessage,
-      timestamp,
-    });
+  // sends user message with the session context to daemo and returns the agent response
+  async processMessage(userId: string, userMessage: string, sessionId?: string): Promise<{ response: string; sessionId: string } | null> {
+    const session = sessionId ? this.getSession(userId, sessionId) : this.sessions.latest(userId);
+    if (!session) return null;
 
+    const query = buildContextQuery(session.messages, userMessage);
+    this.recordUserMessage(session.id, userId, userMessage);
+
+    const callerRef = this.beginQuery(userId, session.id);
+    const started = Date.now();
     try {
       const response = await axios.post(
-        `https://backend.daemo.ai/agents/${this.agentId}/query`,
-        { query: userMessage },
+        this.queryUrl,
+        { query: withCallerRef(query, callerRef) },
         {
           headers: { 'Content-Type': 'application/json', 'X-API-Key': this.daemoApiKey },
           timeout: 120000
         }
       );
+      this.reportQuery('chat', started, 'ok');
 
-      const data = response.data || {};
-      const assistantResponse = typeof data.response === 'string' ? data.response : (data.message || data.text || (data.data && (data.data.response || data.data.message)) || 'no response received from agent.');
+      const assistantResponse = extractResponse(response.data) || 'no response received from agent.';
 
-      conversation.messages.push({
-        role: 'assistant',
-        content: assistantResponse,
-        timestamp: new Date().toISOString(),
-      });
+      this.sessions.append(session.id, { role: 'assistant', content: assistantResponse, timestamp: new Date().toISOString() });
+      return { response: assistantResponse, sessionId: session.id };
+    } catch (error: any) {
+      this.reportQuery('chat', started, 'error');
+      logger.error('daemo query failed', { sessionId: session.id, error });
+      return { response: "sorry, i'm having trouble connecting to my brain right now. please try again later.", sessionId: session.id };
+    } finally {
+      this.endQuery(callerRef);
+    }
+  }
 
-      if (conversation.messages.length > 20) {
-        conversation.messages = conversation.messages.slice(-20);
+  // one-off query outside any chat session (e.g. digest summaries); null when daemo fails
+  async ask(prompt: string): Promise<string | null> {
+    const started = Date.now();
+    try {
+      const response = await axios.post(
+        this.queryUrl,
+        { query: prompt },
+        {
+          headers: { 'Content-Type': 'application/json', 'X-API-Key': this.daemoApiKey },
+          timeout: 120000
+        }
+      );
+      this.reportQuery('ask', started, 'ok');
+      return extractResponse(response.data);
+    } catch (error: any) {
+      this.reportQuery('ask', started, 'error');
+      logger.error('daemo query failed', { error });
+      return null;
+    }
+  }
+
+  // like processMessage but reports progress as it happens; passes text through when daemo streams it
+  async streamMessage(userId: string, userMessage: string, sessionId: string | undefined, emit: (event: ChatStreamEvent) => void, signal: AbortSignal): Promise<void> {
+    const session = sessionId ? this.getSession(userId, sessionId) : this.sessions.latest(userId);
+    if (!session) {
+      emit({ type: 'error', message: 'session not found' });
+      return;
+    }
+    emit({ type: 'session', sessionId: session.id });
+
+    const query = buildContextQuery(session.messages, userMessage);
+    this.recordUserMessage(session.id, userId, userMessage);
+
+    const callerRef = this.beginQuery(userId, session.id);
+    this.streamListeners.set(session.id, emit);
+    emit({ type: 'status', stage: 'request_sent' });
+    const started = Date.now();
+    try {
+      const response = await axios.post(
+        this.queryUrl,
+        { query: withCallerRef(query, callerRef) },
+        {
+          headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream, application/json', 'X-API-Key': this.daemoApiKey },
+          responseType: 'stream',
+          timeout: 120000,
+          signal
+        }
+      );
+
+      const isEventStream = String(response.headers['content-type'] || '').includes('text/event-stream');
+      let buffer = '';
+      let streamed = '';
+      let final: string | null = null;
+      for await (const chunk of response.data) {
+        buffer += chunk.toString();
+        if (!isEventStream) continue;
+        const { frames, rest } = readSseFrames(buffer);
+        buffer = rest;
+        for (const frame of frames) {
+          let payload: any = frame;
+          try {
+            payload = JSON.parse(frame);
+          } catch {
+            // plain text frame
+          }
+          if (typeof payload === 'string') {
+            streamed += payload;
+            emit({ type: 'delta', text: payload });
+          } else if (typeof payload.delta === 'string') {
+            streamed += payload.delta;
+            emit({ type: 'delta', text: payload.delta });
+          } else {
+            final = extractResponse(payload) ?? final;
+          }
+        }
+      }
+      if (!isEventStream) {
+        emit({ type: 'status', stage: 'responding' });
+        try {
+          final = extractResponse(JSON.parse(buffer));
+        } catch {
+          final = buffer.trim() || null;
+        }
       }
 
-      return assistantResponse;
+      this.reportQuery('stream', started, 'ok');
+      const assistantResponse = final || streamed || 'no response received from agent.';
+      this.sessions.append(session.id, { role: 'assistant', content: assistantResponse, timestamp: new Date().toISOString() });
+      emit({ type: 'final', response: assistantResponse, sessionId: session.id });
     } catch (error: any) {
-      console.error('daemo api error:', error.response?.data || error.message);
-      return "sorry, i'm having trouble connecting to my brain right now. please try again later.";
+      if (signal.aborted) {
+        this.reportQuery('stream', started, 'cancelled');
+        logger.info('chat stream cancelled by client', { sessionId: session.id });
+        return;
+      }
+      this.reportQuery('stream', started, 'error');
+      // the body of a failed stream request is itself a stream, so only the status is logged
+      logger.error('daemo query failed', { sessionId: session.id, status: error.response?.status, message: error.message });
+      emit({ type: 'error', message: "sorry, i'm having trouble connecting to my brain right now. please try again later." });
+    } finally {
+      this.streamListeners.delete(session.id);
+      this.endQuery(callerRef);
     }
   }
 
-  getConversationHistory(userId: string): Message[] {
-    const conversation = this.getOrCreateConversation(userId);
-    return conversation.messages;
+  getConversationHistory(userId: string, sessionId?: string): ChatMessage[] {
+    if (sessionId) return this.getSession(userId, sessionId)?.messages || [];
+    const [latest] = this.sessions.list(userId);
+    return latest ? this.sessions.get(latest.id)!.messages : [];
+  }
+
+  clearConversation(userId: string, sessionId?: string): boolean {
+    const session = sessionId ? this.getSession(userId, sessionId) : this.sessions.latest(userId);
+    return session ? this.sessions.clear(session.id) : false;
   }
 
-  clearConversation(userId: string): void {
-    this.conversations.delete(userId);
+  flush(): Promise<void> {
+    return this.sessions.flush();
   }
 }
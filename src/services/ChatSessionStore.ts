@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { JsonStore } from './JsonStore';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+}
+
+export interface ChatSession {
+  id: string;
+  userId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatMessage[];
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  userId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+// per user, so one busy account never pushes out anyone else's history
+export const MAX_SESSIONS_PER_USER = 200;
+const MAX_MESSAGES_PER_SESSION = 200;
+const DEFAULT_TITLE = 'new conversation';
+
+// persisted chat sessions, several per user
+export class ChatSessionStore {
+  private sessions: Map<string, ChatSession>;
+  private store: JsonStore<ChatSession[]>;
+
+  constructor(filePath?: string) {
+    this.store = new JsonStore(filePath);
+    this.sessions = new Map(this.store.load([]).map((s) => [s.id, s]));
+  }
+
+  private persist() {
+    this.store.save(() => [...this.sessions.values()]);
+  }
+
+  private summarize(session: ChatSession): ChatSessionSummary {
+    const { messages, ...rest } = session;
+    return { ...rest, messageCount: messages.length };
+  }
+
+  // most recently active first
+  list(userId: string): ChatSessionSummary[] {
+    return [...this.sessions.values()]
+      .filter((s) => s.userId === userId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map((s) => this.summarize(s));
+  }
+
+  get(id: string): ChatSession | null {
+    return this.sessions.get(id) || null;
+  }
+
+  create(userId: string, title?: string): ChatSession {
+    const now = new Date().toISOString();
+    const session: ChatSession = {
+      id: crypto.randomUUID(),
+      userId,
+      title: title?.trim() || DEFAULT_TITLE,
+      createdAt: now,
+      updatedAt: now,
+      messages: []
+    };
+    this.sessions.set(session.id, session);
+    this.evict(userId);
+    this.persist();
+    return session;
+  }
+
+  // the user's latest session, created on first use
+  latest(userId: string): ChatSession {
+    const [latest] = this.list(userId);
+    return latest ? this.sessions.get(latest.id)! : this.create(userId);
+  }
+
+  rename(id: string, title: string): ChatSession | null {
+    const session = this.sessions.get(id);
+    if (!session) return null;
+    session.title = title.trim() || DEFAULT_TITLE;
+    session.updatedAt = new Date().toISOString();
+    this.persist();
+    return session;
+  }
+
+  // untitled sessions take their title from the first user message
+  append(id: string, message: ChatMessage): ChatSession | null {
+    const session = this.sessions.get(id);
+    if (!session) return null;
+    session.messages.push(message);
+    if (session.messages.length > MAX_MESSAGES_PER_SESSION) {
+      session.messages = session.messages.slice(-MAX_MESSAGES_PER_SESSION);
+    }
+    if (session.title === DEFAULT_TITLE && message.role === 'user') {
+      session.title = message.content.length > 60 ? `${message.content.slice(0, 57).trim()}...` : message.content;
+    }
+    session.updatedAt = message.timestamp;
+    this.persist();
+    return session;
+  }
+
+  clear(id: string): boolean {
+    const session = this.sessions.get(id);
+    if (!session) return false;
+    session.messages = [];
+    session.updatedAt = new Date().toISOString();
+    this.persist();
+    return true;
+  }
+
+  delete(id: string): boolean {
+    const deleted = this.sessions.delete(id);
+    if (deleted) this.persist();
+    return deleted;
+  }
+
+  // drops the user's least recently active sessions beyond the cap
+  private evict(userId: string) {
+    const own = [...this.sessions.values()].filter((s) => s.userId === userId);
+    if (own.length <= MAX_SESSIONS_PER_USER) return;
+    own.sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+    for (const session of own.slice(0, own.length - MAX_SESSIONS_PER_USER)) this.sessions.delete(session.id);
+  }
+
+  flush(): Promise<void> {
+    return this.store.flush();
+  }
+}
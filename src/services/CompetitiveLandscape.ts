@@ -0,0 +1,105 @@
+import { NormalizedArticle } from './providers';
+import { clusterArticles } from './StoryClusterer';
+
+export interface DistinctiveKeyword {
+  keyword: string;
+  count: number;
+  score: number;
+}
+
+export interface OverlappingStory {
+  headline: string;
+  url: string;
+  source: string;
+  publishedAt: string;
+  articleCount: number;
+  companies: string[];
+}
+
+// percentage of the combined volume held by each entry, rounded to one decimal
+export function shareOfVoice(volumes: number[]): number[] {
+  const total = volumes.reduce((sum, v) => sum + v, 0);
+  return volumes.map((v) => (total > 0 ? Math.round((v / total) * 1000) / 10 : 0));
+}
+
+function mentions(article: NormalizedArticle, company: string): boolean {
+  return `${article.title} ${article.description}`.toLowerCase().includes(company.toLowerCase());
+}
+
+// stories that were returned for, or mention, more than one of the companies
+export function findOverlappingStories(byCompany: Map<string, NormalizedArticle[]>, limit = 10): OverlappingStory[] {
+  const fetchedFor = new Map<string, Set<string>>();
+  const unique = new Map<string, NormalizedArticle>();
+  for (const [company, articles] of byCompany) {
+    for (const article of articles) {
+      if (!fetchedFor.has(article.url)) fetchedFor.set(article.url, new Set());
+      fetchedFor.get(article.url)!.add(company);
+      unique.set(article.url, article);
+    }
+  }
+
+  const overlaps: OverlappingStory[] = [];
+  for (const story of clusterArticles([...unique.values()])) {
+    const companies = new Set<string>();
+    for (const member of story.articles) {
+      const article = unique.get(member.url)!;
+      for (const company of fetchedFor.get(member.url) || []) companies.add(company);
+      for (const company of byCompany.keys()) {
+        if (mentions(article, company)) companies.add(company);
+      }
+    }
+    if (companies.size < 2) continue;
+    overlaps.push({
+      headline: story.headline,
+      url: story.url,
+      source: story.source,
+      publishedAt: story.firstSeen,
+      articleCount: story.articleCount,
+      companies: [...byCompany.keys()].filter((c) => companies.has(c))
+    });
+  }
+  return overlaps
+    .sort((a, b) => b.companies.length - a.companies.length || b.articleCount - a.articleCount)
+    .slice(0, limit);
+}
+
+// keywords over-represented in one company's coverage relative to the rest of the group (smoothed log ratio of document frequencies)
+export function distinctiveKeywords(
+  byCompany: Map<string, NormalizedArticle[]>,
+  keywordsOf: (article: NormalizedArticle) => string[],
+  limit = 5
+): Map<string, DistinctiveKeyword[]> {
+  const excluded = new Set([...byCompany.keys()].flatMap((c) => c.toLowerCase().split(/\s+/)));
+  const counts = new Map<string, Map<string, number>>();
+  const totals = new Map<string, number>();
+  for (const [company, articles] of byCompany) {
+    const termCounts = new Map<string, number>();
+    for (const article of articles) {
+      for (const term of new Set(keywordsOf(article))) {
+        if (!excluded.has(term)) termCounts.set(term, (termCounts.get(term) || 0) + 1);
+      }
+    }
+    counts.set(company, termCounts);
+    totals.set(company, articles.length);
+  }
+
+  const allDocs = [...totals.values()].reduce((sum, n) => sum + n, 0);
+  const result = new Map<string, DistinctiveKeyword[]>();
+  for (const [company, termCounts] of counts) {
+    const docs = totals.get(company)!;
+    const otherDocs = allDocs - docs;
+    const minCount = docs >= 10 ? 2 : 1;
+    const keywords: DistinctiveKeyword[] = [];
+    for (const [keyword, count] of termCounts) {
+      if (count < minCount) continue;
+      let otherCount = 0;
+      for (const [other, otherCounts] of counts) {
+        if (other !== company) otherCount += otherCounts.get(keyword) || 0;
+      }
+      const score = Math.log2(((count + 0.5) / (docs + 1)) / ((otherCount + 0.5) / (otherDocs + 1)));
+      if (score > 0) keywords.push({ keyword, count, score: Math.round(score * 100) / 100 });
+    }
+    result.set(company, keywords.sort((a, b) => b.score - a.score || b.count - a.count).slice(0, limit));
+  }
+  return result;
+}
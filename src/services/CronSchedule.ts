@@ -0,0 +1,114 @@
+// minimal five-field cron (minute hour day-of-month month day-of-week), evaluated in utc
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // standard cron matches either day field when both are restricted
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+function parseValue(value: string, names: string[], offset: number): number {
+  const named = names.indexOf(value.toLowerCase());
+  if (named !== -1) return named + offset;
+  if (!/^\d+$/.test(value)) return NaN;
+  return Number(value);
+}
+
+function parseField(field: string, min: number, max: number, label: string, names: string[] = []): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`invalid step in ${label} field: ${part}`);
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else {
+      const [from, to] = range.split('-');
+      start = parseValue(from, names, min);
+      end = to === undefined ? (stepText === undefined ? start : max) : parseValue(to, names, min);
+    }
+    if (isNaN(start) || isNaN(end) || start < min || end > max || start > end) {
+      throw new Error(`${label} field must be between ${min} and ${max}: ${part}`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+// throws with a readable message for malformed expressions
+export function parseCron(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) throw new Error('schedule must have five fields (minute hour day-of-month month day-of-week) or be @hourly, @daily, @weekly or @monthly');
+  const daysOfWeek = parseField(fields[4], 0, 7, 'day-of-week', DAY_NAMES);
+  // 7 is an alias for sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    expression: expression.trim(),
+    minutes: parseField(fields[0], 0, 59, 'minute'),
+    hours: parseField(fields[1], 0, 23, 'hour'),
+    daysOfMonth: parseField(fields[2], 1, 31, 'day-of-month'),
+    months: parseField(fields[3], 1, 12, 'month', MONTH_NAMES),
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*'
+  };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth) return dow;
+  if (schedule.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+// first matching minute strictly after the given time, or null when none falls within five years
+export function nextRun(schedule: CronSchedule, after: Date = new Date()): Date | null {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+  return null;
+}
@@ -0,0 +1,366 @@
+import crypto from 'crypto';
+import { CronSchedule, nextRun, parseCron } from './CronSchedule';
+import { JsonStore } from './JsonStore';
+import { NewsService } from './MyFunctions';
+import { logger } from './observability';
+import { NormalizedArticle } from './providers';
+import { NEWS_CATEGORIES } from './schemas';
+
+type NewsCategory = typeof NEWS_CATEGORIES[number];
+
+export interface DigestJob {
+  id: string;
+  userId: string;
+  name: string;
+  schedule: string;
+  topics: string[];
+  categories: NewsCategory[];
+  countries: string[];
+  summarize: boolean;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+}
+
+export interface DigestJobInput {
+  userId?: string;
+  name?: string;
+  schedule?: string;
+  topics?: string[];
+  categories?: NewsCategory[];
+  countries?: string[];
+  summarize?: boolean;
+  enabled?: boolean;
+}
+
+type DigestArticle = Omit<NormalizedArticle, 'content'>;
+type DigestHeadline = { title: string; source: string; publishedAt: string; url: string };
+
+export interface Digest {
+  id: string;
+  jobId: string;
+  userId: string;
+  name: string;
+  createdAt: string;
+  windowDays: number;
+  headlines: { country: string; category: NewsCategory; articles: DigestArticle[] }[];
+  topics: {
+    topic: string;
+    totalResults: number;
+    topKeywords: { keyword: string; count: number }[];
+    trending: string[];
+    notableHeadlines: (DigestHeadline & { coverageCount?: number })[];
+  }[];
+  marketMovers: (DigestHeadline & { eventType: string; severity: 'low' | 'medium' | 'high'; companies: string[] })[];
+  summary: string | null;
+  errors: string[];
+}
+
+export interface DigestSummary {
+  id: string;
+  jobId: string;
+  name: string;
+  createdAt: string;
+  windowDays: number;
+  articles: number;
+  hasSummary: boolean;
+}
+
+// per user, so one busy account never pushes out anyone else's digests
+export const MAX_DIGESTS_PER_USER = 200;
+const MAX_TOPICS = 5;
+const MAX_HEADLINE_SECTIONS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function cleanList(values: string[] | undefined, lowercase = false): string[] | undefined {
+  if (values === undefined) return undefined;
+  return [...new Set(values.map((v) => (lowercase ? v.trim().toLowerCase() : v.trim())).filter(Boolean))];
+}
+
+// how far back a run looks, from one to seven days: the time since the last run, or on the
+// first run the gap between two consecutive scheduled runs
+function windowDaysFor(schedule: CronSchedule, lastRunAt: string | null, now: Date): number {
+  let gapMs = lastRunAt ? now.getTime() - Date.parse(lastRunAt) : NaN;
+  if (isNaN(gapMs)) {
+    const next = nextRun(schedule, now);
+    const following = next && nextRun(schedule, next);
+    gapMs = next && following ? following.getTime() - next.getTime() : DAY_MS;
+  }
+  return Math.min(Math.max(Math.ceil(gapMs / DAY_MS), 1), 7);
+}
+
+function quoteTopic(topic: string): string {
+  return /\s/.test(topic) ? `"${topic.replace(/"/g, '')}"` : topic;
+}
+
+// digest jobs assemble headlines, industry pulses and market movers on a cron schedule
+export class DigestService {
+  private newsService: NewsService;
+  private jobs: Map<string, DigestJob> = new Map();
+  private digests: Digest[];
+  private jobStore: JsonStore<DigestJob[]>;
+  private digestStore: JsonStore<Digest[]>;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private summarizer: ((prompt: string) => Promise<string | null>) | null = null;
+
+  constructor(newsService: NewsService, jobsPath?: string, digestsPath?: string) {
+    this.newsService = newsService;
+    this.jobStore = new JsonStore(jobsPath);
+    this.digestStore = new JsonStore(digestsPath);
+    for (const job of this.jobStore.load([])) this.jobs.set(job.id, job);
+    this.digests = this.digestStore.load([]);
+  }
+
+  // writes the summary section of jobs with summarize enabled, e.g. by asking the daemo agent
+  setSummarizer(summarizer: (prompt: string) => Promise<string | null>) {
+    this.summarizer = summarizer;
+  }
+
+  private persistJobs() {
+    this.jobStore.save(() => [...this.jobs.values()]);
+  }
+
+  private persistDigests() {
+    this.digestStore.save(() => this.digests);
+  }
+
+  listJobs(userId?: string): DigestJob[] {
+    return [...this.jobs.values()].filter((j) => !userId || j.userId === userId);
+  }
+
+  getJob(id: string): DigestJob | null {
+    return this.jobs.get(id) || null;
+  }
+
+  // throws with a readable message when the input would produce an unusable job
+  createJob(input: DigestJobInput): DigestJob {
+    const now = new Date().toISOString();
+    const job: DigestJob = {
+      id: crypto.randomUUID(),
+      userId: input.userId || 'default',
+      name: (input.name || '').trim(),
+      schedule: (input.schedule || '0 7 * * *').trim(),
+      topics: cleanList(input.topics) || [],
+      categories: input.categories?.length ? [...new Set(input.categories)] : ['general'],
+      countries: cleanList(input.countries, true)?.length ? cleanList(input.countries, true)! : ['us'],
+      summarize: input.summarize ?? false,
+      enabled: input.enabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+      lastRunAt: null,
+      nextRunAt: null
+    };
+    job.nextRunAt = this.validate(job);
+    this.jobs.set(job.id, job);
+    this.persistJobs();
+    return job;
+  }
+
+  updateJob(id: string, input: DigestJobInput): DigestJob | null {
+    const existing = this.jobs.get(id);
+    if (!existing) return null;
+    const updated: DigestJob = {
+      ...existing,
+      name: input.name !== undefined ? input.name.trim() : existing.name,
+      schedule: input.schedule !== undefined ? input.schedule.trim() : existing.schedule,
+      topics: cleanList(input.topics) ?? existing.topics,
+      categories: input.categories?.length ? [...new Set(input.categories)] : existing.categories,
+      countries: cleanList(input.countries, true)?.length ? cleanList(input.countries, true)! : existing.countries,
+      summarize: input.summarize ?? existing.summarize,
+      enabled: input.enabled ?? existing.enabled,
+      updatedAt: new Date().toISOString()
+    };
+    updated.nextRunAt = this.validate(updated);
+    this.jobs.set(id, updated);
+    this.persistJobs();
+    return updated;
+  }
+
+  deleteJob(id: string): boolean {
+    const deleted = this.jobs.delete(id);
+    if (deleted) this.persistJobs();
+    return deleted;
+  }
+
+  // returns the next run time so create and update can store it
+  private validate(job: DigestJob): string | null {
+    if (!job.name) throw new Error('name is required');
+    const next = nextRun(parseCron(job.schedule));
+    if (!next) throw new Error('schedule never fires');
+    if (job.topics.length > MAX_TOPICS) throw new Error(`at most ${MAX_TOPICS} topics are allowed`);
+    if (job.categories.some((c) => !NEWS_CATEGORIES.includes(c))) throw new Error(`categories must be among ${NEWS_CATEGORIES.join(', ')}`);
+    if (job.countries.some((c) => !/^[a-z]{2}$/.test(c))) throw new Error('countries must be 2-letter codes');
+    if (job.categories.length * job.countries.length > MAX_HEADLINE_SECTIONS) {
+      throw new Error(`categories times countries must not exceed ${MAX_HEADLINE_SECTIONS}`);
+    }
+    return job.enabled ? next.toISOString() : null;
+  }
+
+  list(userId?: string, jobId?: string, limit = 50): DigestSummary[] {
+    return this.digests
+      .filter((d) => (!userId || d.userId === userId) && (!jobId || d.jobId === jobId))
+      .slice(0, Math.min(Math.max(limit, 1), 200))
+      .map((d) => ({
+        id: d.id,
+        jobId: d.jobId,
+        name: d.name,
+        createdAt: d.createdAt,
+        windowDays: d.windowDays,
+        articles: d.headlines.reduce((sum, h) => sum + h.articles.length, 0) + d.marketMovers.length,
+        hasSummary: d.summary !== null
+      }));
+  }
+
+  get(id: string): Digest | null {
+    return this.digests.find((d) => d.id === id) || null;
+  }
+
+  delete(id: string): boolean {
+    const index = this.digests.findIndex((d) => d.id === id);
+    if (index === -1) return false;
+    this.digests.splice(index, 1);
+    this.persistDigests();
+    return true;
+  }
+
+  // builds and stores a digest for the job now, independent of its schedule
+  async runJob(id: string): Promise<Digest | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+    const now = new Date();
+    const windowDays = windowDaysFor(parseCron(job.schedule), job.lastRunAt, now);
+    const errors: string[] = [];
+
+    const sections = job.countries.flatMap((country) => job.categories.map((category) => ({ country, category })));
+    const [headlineResults, pulses, movers] = await Promise.all([
+      Promise.all(sections.map(({ country, category }) => this.newsService.getTopHeadlines({ country, category, pageSize: 5 }))),
+      Promise.all(job.topics.map((industry) => this.newsService.getIndustryPulse({ industry, days: windowDays }))),
+      this.newsService.getMarketMovingEvents({
+        query: job.topics.length ? job.topics.map(quoteTopic).join(' OR ') : undefined,
+        days: windowDays,
+        limit: 10
+      })
+    ]);
+
+    const headlines = sections.map((section, i) => {
+      const result = headlineResults[i];
+      if (result.error) errors.push(`headlines ${section.country}/${section.category}: ${result.error.message}`);
+      return { ...section, articles: result.articles.map(({ content, ...article }) => article) };
+    });
+    const topics = pulses.map((pulse) => {
+      if (pulse.error) errors.push(`topic ${pulse.industry}: ${pulse.error.message}`);
+      return {
+        topic: pulse.industry,
+        totalResults: pulse.totalResults,
+        topKeywords: pulse.topKeywords,
+        trending: pulse.trending?.keywords.map((k) => k.term) || [],
+        notableHeadlines: pulse.notableHeadlines
+      };
+    });
+    if (movers.error) errors.push(`market movers: ${movers.error.message}`);
+    const marketMovers = movers.events.map(({ title, source, publishedAt, url, eventType, severity, companies }) => ({
+      title, source, publishedAt, url, eventType, severity, companies
+    }));
+
+    const digest: Digest = {
+      id: crypto.randomUUID(),
+      jobId: job.id,
+      userId: job.userId,
+      name: job.name,
+      createdAt: now.toISOString(),
+      windowDays,
+      headlines,
+      topics,
+      marketMovers,
+      summary: null,
+      errors
+    };
+    if (job.summarize) {
+      digest.summary = this.summarizer ? await this.summarizer(this.summaryPrompt(digest)) : null;
+      if (!digest.summary) errors.push('summary: the agent did not return a summary');
+    }
+
+    this.digests.unshift(digest);
+    let kept = 0;
+    this.digests = this.digests.filter((d) => d.userId !== digest.userId || ++kept <= MAX_DIGESTS_PER_USER);
+    this.persistDigests();
+    // the job may have been edited (and replaced in the map) or deleted while the digest was built
+    const current = this.jobs.get(id);
+    if (current) {
+      current.lastRunAt = digest.createdAt;
+      this.persistJobs();
+    }
+    return digest;
+  }
+
+  // only the collected facts go into the prompt so the summary stays grounded in this digest
+  private summaryPrompt(digest: Digest): string {
+    const lines = [
+      `Write a short executive summary (3-5 bullet points) of the news digest "${digest.name}" covering the last ${digest.windowDays} day(s).`,
+      'Only use the items listed below, mention the companies and themes that matter most and do not give financial advice.',
+      ''
+    ];
+    for (const section of digest.headlines) {
+      lines.push(`Top ${section.category} headlines (${section.country}):`);
+      for (const a of section.articles) lines.push(`- ${a.title} (${a.source})`);
+    }
+    for (const topic of digest.topics) {
+      lines.push(`Topic ${topic.topic}: ${topic.totalResults} articles, keywords ${topic.topKeywords.map((k) => k.keyword).join(', ') || 'none'}${topic.trending.length ? `, trending up ${topic.trending.join(', ')}` : ''}`);
+      for (const h of topic.notableHeadlines) lines.push(`- ${h.title} (${h.source})`);
+    }
+    if (digest.marketMovers.length > 0) {
+      lines.push('Market-moving events:');
+      for (const e of digest.marketMovers) lines.push(`- [${e.eventType}, ${e.severity}] ${e.title} (${e.source})`);
+    }
+    return lines.join('\n');
+  }
+
+  async runDue(): Promise<Digest[]> {
+    if (this.running) return [];
+    this.running = true;
+    try {
+      const now = Date.now();
+      const digests: Digest[] = [];
+      for (const job of this.jobs.values()) {
+        if (!job.enabled || !job.nextRunAt || Date.parse(job.nextRunAt) > now) continue;
+        try {
+          const digest = await this.runJob(job.id);
+          if (digest) digests.push(digest);
+        } catch (error: any) {
+          logger.error('digest job failed', { jobId: job.id, error });
+        } finally {
+          // a run missed while the server was down happens once, then the schedule resumes.
+          // re-read the job since an edit during the run replaces the object
+          const current = this.jobs.get(job.id);
+          if (current) {
+            current.nextRunAt = current.enabled ? nextRun(parseCron(current.schedule))?.toISOString() || null : null;
+            this.persistJobs();
+          }
+        }
+      }
+      return digests;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  startScheduler(tickMs: number = 60000) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runDue().catch((error) => logger.error('digest scheduler failed', { error }));
+    }, tickMs);
+    this.timer.unref();
+  }
+
+  stopScheduler() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  flush(): Promise<void> {
+    return Promise.all([this.jobStore.flush(), this.digestStore.flush()]).then(() => undefined);
+  }
+}
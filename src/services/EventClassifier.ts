@@ -0,0 +1,189 @@
+export const EVENT_TYPES = [
+  'earnings',
+  'mergers_acquisitions',
+  'layoffs',
+  'guidance_change',
+  'legal_regulatory',
+  'product_launch',
+  'executive_change',
+  'funding_round'
+] as const;
+
+export type EventType = typeof EVENT_TYPES[number];
+export type EventSeverity = 'low' | 'medium' | 'high';
+
+export interface EventClassification {
+  eventType: EventType | 'other';
+  confidence: number;
+  severity: EventSeverity;
+  companies: string[];
+  matchedTerms: string[];
+}
+
+interface EventRule {
+  type: EventType;
+  patterns: RegExp[];
+  // a rule only fires when one of these also matches, e.g. an executive title next to a change verb
+  requires?: RegExp;
+  baseSeverity: EventSeverity;
+  searchTerms: string;
+}
+
+const RULES: EventRule[] = [
+  {
+    type: 'earnings',
+    patterns: [/\bearnings\b/, /\bquarterly (results|profit|revenue|loss)\b/, /\b(q[1-4]|first|second|third|fourth)[- ]quarter\b/, /\b(beats?|miss(es|ed)?|tops?)\b.{0,40}\b(estimates|expectations|forecasts)\b/, /\b(eps|net income|revenue)\b/],
+    baseSeverity: 'medium',
+    searchTerms: 'earnings OR "quarterly results"'
+  },
+  {
+    type: 'mergers_acquisitions',
+    patterns: [/\bacquir(e|es|ed|ing)\b/, /\bacquisition\b/, /\bmerg(er|e|es|ed|ing)\b/, /\btakeover\b/, /\bbuyout\b/, /\b(deal|agrees?|offer|bid) to buy\b/],
+    baseSeverity: 'high',
+    searchTerms: 'acquisition OR merger OR takeover'
+  },
+  {
+    type: 'layoffs',
+    patterns: [/\blayoffs?\b/, /\blay(s|ing)? off\b/, /\bjob cuts?\b/, /\bcut(s|ting)? [\d,]+ (jobs|roles|positions)\b/, /\bworkforce reduction\b/, /\bredundanc(y|ies)\b/, /\bfurloughs?\b/],
+    baseSeverity: 'medium',
+    searchTerms: 'layoffs OR "job cuts"'
+  },
+  {
+    type: 'guidance_change',
+    patterns: [/\b(raises?|raised|lowers?|lowered|cuts?|boosts?|slash(es|ed)?|reaffirms?|withdraws?|trims?)\b.{0,30}\b(guidance|outlook|forecast)\b/, /\b(guidance|outlook|forecast)\b.{0,20}\b(raised|lowered|cut|withdrawn)\b/, /\bprofit warning\b/],
+    baseSeverity: 'high',
+    searchTerms: 'guidance OR outlook OR "profit warning"'
+  },
+  {
+    type: 'legal_regulatory',
+    patterns: [/\blawsuits?\b/, /\bsu(e|es|ed|ing)\b/, /\bsettle(ment|s|d)?\b/, /\bantitrust\b/, /\bregulators?\b/, /\bfined?\b/, /\bprobe\b/, /\binvestigation\b/, /\b(sec|ftc|doj|european commission)\b/, /\bclass action\b/, /\bcourt\b/, /\bruling\b/],
+    baseSeverity: 'medium',
+    searchTerms: 'lawsuit OR antitrust OR regulator OR probe'
+  },
+  {
+    type: 'product_launch',
+    patterns: [/\blaunch(es|ed|ing)?\b/, /\bunveil(s|ed|ing)?\b/, /\bintroduc(es|ed|ing)\b/, /\bdebut(s|ed)?\b/, /\brolls? out\b/, /\bannounces new\b/],
+    baseSeverity: 'low',
+    searchTerms: 'launches OR unveils'
+  },
+  {
+    type: 'executive_change',
+    patterns: [/\b(resign(s|ed|ation)?|steps? down|stepping down|appoint(s|ed|ment)?|names?|named|hires?|hired|fired|ousted|replaces?|succeeds?|retir(es|ed|ement)|departs?|departure)\b/],
+    requires: /\b(ceo|cfo|coo|cto|chief executive|chief financial|chairman|chairwoman|chair|president|founder)\b/,
+    baseSeverity: 'medium',
+    searchTerms: 'CEO AND (resigns OR appoints OR "steps down")'
+  },
+  {
+    type: 'funding_round',
+    patterns: [/\bseries [a-f]\b/, /\bseed round\b/, /\bfunding round\b/, /\braises? \$[\d.]+ ?(m|mn|million|b|bn|billion)\b/, /\bventure (capital|funding)\b/, /\bipo\b/, /\bvaluation\b/],
+    baseSeverity: 'low',
+    searchTerms: '"funding round" OR "series A" OR "series B" OR IPO'
+  }
+];
+
+const AMPLIFIERS = /\b(record|plunges?|soars?|surges?|collapses?|bankrupt\w*|biggest|largest|billion|bn)\b/;
+const LARGE_LAYOFF = /\b(\d{1,3}(,\d{3})+|\d{4,})\b/;
+
+const NON_COMPANY_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'of', 'in', 'on', 'for', 'to', 'with', 'as', 'at', 'by', 'from', 'after', 'before', 'amid', 'over',
+  'new', 'its', 'his', 'her', 'their', 'this', 'that', 'why', 'how', 'what', 'who', 'is', 'are', 'was', 'will', 'says', 'said',
+  'ceo', 'cfo', 'coo', 'cto', 'chief', 'executive', 'president', 'chairman', 'founder', 'inc', 'corp', 'ltd', 'plc', 'llc',
+  'q1', 'q2', 'q3', 'q4', 'us', 'u.s.', 'uk', 'eu', 'sec', 'ftc', 'doj', 'ai', 'ipo', 'report', 'reports', 'breaking', 'update', 'exclusive',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'stocks', 'shares', 'market', 'markets',
+  'wall', 'street', 'deal', 'billion', 'million', 'jobs', 'staff', 'workers'
+]);
+
+const EVENT_VOCABULARY = new Set(
+  ('earnings quarterly results profit revenue loss beats beat misses missed tops estimates expectations acquire acquires acquired acquisition ' +
+    'merger merge merges takeover buyout buy buys layoffs layoff cuts cut job lays laying guidance outlook forecast raises raised lowers lowered ' +
+    'lawsuit sues sued settlement antitrust regulator regulators fine fined probe investigation court ruling launches launch launched unveils ' +
+    'unveiled introduces debut debuts rolls resigns resigned steps appoints appointed names named hires hired fired ousted replaces retires ' +
+    'series seed funding round valuation venture strong weak latest first second third fourth quarter agrees agree plans plan')
+    .split(' ')
+);
+
+// ranks event types for a single headline by pattern hits, title hits counting double
+function scoreRules(title: string, description: string) {
+  return RULES.map((rule) => {
+    const text = `${title} ${description}`;
+    if (rule.requires && !rule.requires.test(text)) return { rule, score: 0, terms: [] as string[] };
+    let score = 0;
+    const terms: string[] = [];
+    for (const pattern of rule.patterns) {
+      const inTitle = title.match(pattern);
+      const inDescription = description.match(pattern);
+      if (inTitle) score += 2;
+      else if (inDescription) score += 1;
+      const hit = inTitle || inDescription;
+      if (hit) terms.push(hit[0]);
+    }
+    return { rule, score, terms };
+  }).sort((a, b) => b.score - a.score);
+}
+
+function raise(severity: EventSeverity): EventSeverity {
+  return severity === 'low' ? 'medium' : 'high';
+}
+
+// pulls likely company names out of a headline: "X Inc"-style names first, then capitalized runs
+export function extractCompanies(title: string, description = ''): string[] {
+  const found: string[] = [];
+  const add = (name: string) => {
+    const clean = name.replace(/['’]s$/, '').trim();
+    if (clean.length < 2 || found.some((f) => f.toLowerCase() === clean.toLowerCase())) return;
+    found.push(clean);
+  };
+
+  const text = `${title}. ${description}`;
+  for (const match of text.matchAll(/\b((?:[A-Z][\w&.-]*\s+){0,3}?[A-Z][\w&.-]*)\s+(Inc|Corp|Corporation|Ltd|LLC|plc|Group|Holdings|Technologies)\b\.?/g)) {
+    add(match[1]);
+  }
+
+  let run: string[] = [];
+  for (const token of [...title.split(/\s+/), '']) {
+    const word = token.replace(/^[^\w$]+|[^\w'’]+$/g, '');
+    const lower = word.toLowerCase().replace(/['’]s$/, '');
+    const isName = /^[A-Z]/.test(word) && !NON_COMPANY_WORDS.has(lower) && !EVENT_VOCABULARY.has(lower);
+    if (isName) {
+      if (run.length === 3) {
+        add(run.join(' '));
+        run = [];
+      }
+      run.push(word);
+      if (!/[,:;]$/.test(token)) continue;
+    }
+    if (run.length > 0) add(run.join(' '));
+    run = [];
+  }
+  return found.slice(0, 3);
+}
+
+// tags a headline with the most likely market-moving event type and how much it likely matters
+export function classifyEvent(title: string, description = ''): EventClassification {
+  const lowerTitle = title.toLowerCase();
+  const lowerDescription = description.toLowerCase();
+  const [best, second] = scoreRules(lowerTitle, lowerDescription);
+  const companies = extractCompanies(title, description);
+
+  if (!best || best.score === 0) {
+    return { eventType: 'other', confidence: 0, severity: 'low', companies, matchedTerms: [] };
+  }
+
+  // more hits raise confidence, a close runner-up lowers it
+  const strength = Math.min(best.score / 4, 1);
+  const margin = second && second.score > 0 ? (best.score - second.score) / best.score : 1;
+  const confidence = Math.round((0.4 + 0.4 * strength + 0.2 * margin) * 100) / 100;
+
+  let severity = best.rule.baseSeverity;
+  const text = `${lowerTitle} ${lowerDescription}`;
+  if (AMPLIFIERS.test(text) || (best.rule.type === 'layoffs' && LARGE_LAYOFF.test(text))) severity = raise(severity);
+
+  return { eventType: best.rule.type, confidence, severity, companies, matchedTerms: [...new Set(best.terms)] };
+}
+
+// newsapi query that pulls candidate headlines for the requested event types
+export function buildEventQuery(types: EventType[]): string {
+  const rules = RULES.filter((r) => types.includes(r.type));
+  return rules.map((r) => `(${r.searchTerms})`).join(' OR ');
+}
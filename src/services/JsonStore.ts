@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './observability';
+
+// resolves a file inside DATA_DIR (default ./data) where stores keep their state
+export function dataPath(fileName: string, env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.DATA_DIR || 'data', fileName);
+}
+
+// json file persistence with debounced atomic writes, used by the server-side stores
+export class JsonStore<T> {
+  private filePath: string | undefined;
+  private timer: NodeJS.Timeout | null = null;
+  private pending: (() => T) | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private delayMs: number;
+
+  constructor(filePath: string | undefined, delayMs = 500) {
+    this.filePath = filePath;
+    this.delayMs = delayMs;
+  }
+
+  // reads the stored value, falling back when there is no file or it cannot be parsed
+  load(fallback: T): T {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return fallback;
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as T;
+    } catch (error: any) {
+      logger.error('store load failed', { file: this.filePath, error });
+      return fallback;
+    }
+  }
+
+  // queues a write; the snapshot is taken when the write happens so bursts collapse into one
+  save(snapshot: () => T) {
+    if (!this.filePath) return;
+    this.pending = snapshot;
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush().catch((error) => logger.error('store save failed', { file: this.filePath, error }));
+    }, this.delayMs);
+    this.timer.unref();
+  }
+
+  // writes are chained so a scheduled write and a shutdown flush never race on the tmp file
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const write = this.writing.then(() => this.write());
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+
+  private async write(): Promise<void> {
+    const snapshot = this.pending;
+    if (!this.filePath || !snapshot) return;
+    this.pending = null;
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(snapshot()));
+    await fs.promises.rename(tmp, this.filePath);
+  }
+}
@@ -1,64 +1,78 @@
 import { DaemoFunction } from 'daemo-engine';
-import { z } from 'zod';
-import axios from 'axios';
 import "reflect-metadata";
+import { ArticleArchive } from './ArticleArchive';
+import { distinctiveKeywords, findOverlappingStories, shareOfVoice } from './CompetitiveLandscape';
+import { BriefInput, BriefPriority, BriefStore, NewsBrief } from './BriefStore';
+import { CompanyRegistry, CompanyResolution } from './companies';
+import { ArticleEnricher, ArticleEnrichment, EnrichMode } from './enrichment';
+import { buildEventQuery, classifyEvent, EventType } from './EventClassifier';
+import { NewsProvider, NormalizedArticle, ProviderResult, toNewsErrorInfo } from './providers';
+import { logger } from './observability';
+import { cleanRegionCodes, mergeRegionalResults, Region } from './RegionalAggregator';
+import { mergeCacheMeta } from './ResponseCache';
+import { scoreArticle, sentimentSeries, summarizeSentiment } from './SentimentAnalyzer';
+import { SourceFilter, SourceProfiles, SourceTier } from './sources';
+import { clusterArticles } from './StoryClusterer';
+import { buildDailySeries, countBy, dayRange, detectSpikes, sampleCoverage } from './TrendAnalyzer';
+import { compareCompaniesInput, compareCompaniesOutput, compareCompanyCoverageInput, compareCompanyCoverageOutput, getCompanyNewsInput, getCompanyNewsOutput, getCompanySentimentInput, getCompanySentimentOutput, getGlobalHeadlinesInput, getGlobalHeadlinesOutput, getIndustryPulseInput, getIndustryPulseOutput, getMarketMovingEventsInput, getMarketMovingEventsOutput, getStoriesInput, getStoriesOutput, getTopHeadlinesInput, getTopHeadlinesOutput, searchArchiveInput, searchArchiveOutput, searchNewsInput, searchNewsOutput, sendNewsBriefInput, sendNewsBriefOutput } from './schemas';
 
-const NEWS_API_BASE_URL = 'https://newsapi.org/v2';
-
-interface NewsArticle {
-  source: { id: string | null; name: string };
-  author: string | null;
-  title: string;
-  description: string | null;
-  url: string;
-  urlToImage: string | null;
-  publishedAt: string;
-  content: string | null;
-}
-
-interface NewsApiResponse {
-  status: string;
-  totalResults: number;
-  articles: NewsArticle[];
-}
+// the most articles one newsapi request returns
+const PULSE_PAGE_SIZE = 100;
 
-interface NormalizedArticle {
-  title: string;
-  description: string;
-  url: string;
-  source: string;
-  publishedAt: string;
-  author: string;
-  content: string;
-}
-
-// service for interacting with the news api and providing daemo tool functions
+// service for interacting with the configured news provider and providing daemo tool functions
 export class NewsService {
-  private apiKey: string;
-  public static recentBriefs: { summary: string; priority: string; timestamp: string }[] = [];
+  private provider: NewsProvider;
+  private archive: ArticleArchive;
+  private briefs: BriefStore;
+  private enricher: ArticleEnricher;
+  private companies: CompanyRegistry;
+  private sources: SourceProfiles;
+  private briefListeners: ((brief: NewsBrief) => void)[] = [];
+  private briefOwner: (callerRef?: string) => { userId: string; conversationId: string } | null = () => null;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(provider: NewsProvider, archive: ArticleArchive, briefs: BriefStore, enricher = new ArticleEnricher(), companies = new CompanyRegistry(), sources = new SourceProfiles()) {
+    this.provider = provider;
+    this.archive = archive;
+    this.briefs = briefs;
+    this.enricher = enricher;
+    this.companies = companies;
+    this.sources = sources;
   }
 
-  private normalizeArticles(articles: NewsArticle[]): NormalizedArticle[] {
-    return articles.map((article) => ({
-      title: article.title || '',
-      description: article.description || '',
-      url: article.url || '',
-      source: article.source?.name || 'unknown',
-      publishedAt: article.publishedAt || '',
-      author: article.author || 'Unknown',
-      content: article.content || article.description || ''
-    }));
+  // lets the chat layer attribute agent-created briefs to the conversation that triggered them
+  setBriefOwnerResolver(resolver: (callerRef?: string) => { userId: string; conversationId: string } | null) {
+    this.briefOwner = resolver;
   }
 
+  // registers a callback fired for every brief, e.g. to deliver notifications
+  onBrief(listener: (brief: NewsBrief) => void) {
+    this.briefListeners.push(listener);
+  }
+
+  // rounded down to the hour so repeated queries share a cache key
   private getDateDaysAgo(days: number): string {
     const d = new Date();
     d.setDate(d.getDate() - days);
+    d.setMinutes(0, 0, 0);
     return d.toISOString();
   }
 
+  // enrichment is opt-in: it costs cpu and, in full mode, a page download per article
+  private async enrichArticles<T extends NormalizedArticle>(articles: T[], mode?: EnrichMode): Promise<(T & Partial<ArticleEnrichment>)[]> {
+    return mode ? this.enricher.enrich(articles, mode) : articles;
+  }
+
+  // the source filters of a tool call, passed on to every provider query it makes
+  private sourceFilter(args: SourceFilter): SourceFilter {
+    return { sources: args.sources, domains: args.domains, excludeDomains: args.excludeDomains };
+  }
+
+  // the matched company as reported in tool output, without the query-building details
+  private companySummary(resolution: CompanyResolution) {
+    const { company } = resolution;
+    return company ? { id: company.id, name: company.name, tickers: company.tickers } : null;
+  }
+
   private extractKeywords(text: string): string[] {
     const stopWords = new Set([
       'the', 'a', 'an', 'and', 'or', 'for', 'with', 'from', 'this', 'that', 'into', 'about',
@@ -75,306 +89,448 @@ export class NewsService {
 
   // fetches top headlines from news api in real-time
   @DaemoFunction({
-    description: "Get breaking news headlines for a specific country or category. ALWAYS fetches the latest data from News API in real-time. Returns recent top headlines with full article content.",
-    inputSchema: z.object({
-      country: z.string().optional().describe("2-letter country code (e.g., 'us', 'gb'). Default is 'us'"),
-      category: z.enum(['business', 'entertainment', 'general', 'health', 'science', 'sports', 'technology']).optional().describe("News category to filter by"),
-      pageSize: z.number().optional().describe("Number of results to return (max 100, default 20)")
-    }) as any,
-    outputSchema: z.object({
-      articles: z.array(z.object({
-        title: z.string(),
-        description: z.string().optional(),
-        url: z.string(),
-        source: z.string(),
-        publishedAt: z.string(),
-        author: z.string().optional(),
-        content: z.string().optional()
-      })),
-      totalResults: z.number()
-    }) as any
+    description: "Get breaking news headlines for a specific country or category. ALWAYS fetches the latest data from News API in real-time. Returns recent top headlines; article content is a short excerpt unless enrich is 'full'.",
+    inputSchema: getTopHeadlinesInput as any,
+    outputSchema: getTopHeadlinesOutput as any
   })
-  async getTopHeadlines(args: { country?: string; category?: string; pageSize?: number }) {
+  async getTopHeadlines(args: { country?: string; category?: string; pageSize?: number; cluster?: boolean; enrich?: EnrichMode } & SourceFilter) {
     try {
-      const params: any = {
-        apiKey: this.apiKey,
+      const result = await this.provider.topHeadlines({
         country: args.country || 'us',
-        pageSize: Math.min(args.pageSize || 20, 100)
-      };
-      if (args.category) params.category = args.category;
-      const response = await axios.get<NewsApiResponse>(`${NEWS_API_BASE_URL}/top-headlines`, { params });
-      return {
-        articles: this.normalizeArticles(response.data.articles),
-        totalResults: response.data.totalResults
-      };
+        category: args.category,
+        pageSize: args.pageSize,
+        ...this.sourceFilter(args)
+      });
+      const articles = await this.enrichArticles(result.articles, args.enrich);
+      return args.cluster ? { ...result, articles, stories: clusterArticles(result.articles) } : { ...result, articles };
     } catch (error: any) {
-      console.error('error fetching top headlines:', error.response?.data || error.message);
-      return { articles: [], totalResults: 0 };
+      logger.warn('top headlines failed', { error });
+      return { articles: [], totalResults: 0, error: toNewsErrorInfo(error) };
     }
   }
 
   // searches for news articles based on keywords
   @DaemoFunction({
-    description: "Search for news articles related to a specific topic, company, or industry. ALWAYS fetches the latest data from News API in real-time. Use this to find relevant news for summarization. Returns full article content.",
-    inputSchema: z.object({
-      query: z.string().optional().describe("Keywords or phrase to search for (e.g., 'artificial intelligence', 'Tesla', 'healthcare')"),
-      sortBy: z.enum(['relevancy', 'popularity', 'publishedAt']).optional().describe("How to sort results (default: relevancy)"),
-      language: z.string().optional().describe("2-letter language code (e.g., 'en'). Default is 'en'"),
-      pageSize: z.number().optional().describe("Number of results (max 100, default 20)")
-    }) as any,
-    outputSchema: z.object({
-      articles: z.array(z.object({
-        title: z.string(),
-        description: z.string().optional(),
-        url: z.string(),
-        source: z.string(),
-        publishedAt: z.string(),
-        author: z.string().optional(),
-        content: z.string().optional()
-      })),
-      totalResults: z.number()
-    }) as any
+    description: "Search for news articles related to a specific topic, company, or industry. ALWAYS fetches the latest data from News API in real-time. Use this to find relevant news for summarization; pass enrich 'full' to get each article's full text rather than a short excerpt.",
+    inputSchema: searchNewsInput as any,
+    outputSchema: searchNewsOutput as any
   })
-  async searchNews(args: { query?: string; sortBy?: 'relevancy' | 'popularity' | 'publishedAt'; language?: string; pageSize?: number }) {
+  async searchNews(args: { query?: string; sortBy?: 'relevancy' | 'popularity' | 'publishedAt'; language?: string; pageSize?: number; cluster?: boolean; enrich?: EnrichMode } & SourceFilter) {
     try {
       if (!args.query) return { articles: [], totalResults: 0 };
-      const params: any = {
-        apiKey: this.apiKey,
+      const result = await this.provider.search({
         q: args.query,
         sortBy: args.sortBy || 'relevancy',
         language: args.language || 'en',
-        pageSize: Math.min(args.pageSize || 20, 100)
-      };
-      const response = await axios.get<NewsApiResponse>(`${NEWS_API_BASE_URL}/everything`, { params });
-      return {
-        articles: this.normalizeArticles(response.data.articles),
-        totalResults: response.data.totalResults
-      };
+        pageSize: args.pageSize,
+        ...this.sourceFilter(args)
+      });
+      const articles = await this.enrichArticles(result.articles, args.enrich);
+      return args.cluster ? { ...result, articles, stories: clusterArticles(result.articles) } : { ...result, articles };
     } catch (error: any) {
-      console.error('error searching news:', error.response?.data || error.message);
-      return { articles: [], totalResults: 0 };
+      logger.warn('news search failed', { query: args.query, error });
+      return { articles: [], totalResults: 0, error: toNewsErrorInfo(error) };
+    }
+  }
+
+  // one request per country (top headlines) and per language (search), merged into a single feed
+  @DaemoFunction({
+    description: "Global headlines across several markets in one call: fans out to top headlines for each country and/or a keyword search in each language, merges and dedupes the results, tags every article with the countries and languages it came from and reports coverage per region. Searching by language needs a query.",
+    inputSchema: getGlobalHeadlinesInput as any,
+    outputSchema: getGlobalHeadlinesOutput as any
+  })
+  async getGlobalHeadlines(args: { countries?: string[]; languages?: string[]; query?: string; category?: string; pageSize?: number; enrich?: EnrichMode } & SourceFilter) {
+    const countries = cleanRegionCodes(args.countries);
+    const languages = cleanRegionCodes(args.languages);
+    if (languages.length > 0 && !args.query) {
+      return { articles: [], totalResults: 0, regions: [], error: { code: 'parametersMissing' as const, message: 'a query is required to search by language', retryable: false } };
     }
+    // plain us headlines when neither countries nor languages are given, like getTopHeadlines
+    if (countries.length === 0 && languages.length === 0) countries.push('us');
+    const regions: Region[] = [
+      ...countries.map((code) => ({ type: 'country' as const, code })),
+      ...languages.map((code) => ({ type: 'language' as const, code }))
+    ].slice(0, 10);
+    const perRegion = Math.min(Math.max(args.pageSize || 10, 1), 50);
+
+    const results = await Promise.all(regions.map(async (region) => {
+      try {
+        const result = region.type === 'country'
+          ? await this.provider.topHeadlines({ country: region.code, category: args.category, pageSize: perRegion, ...this.sourceFilter(args) })
+          : await this.provider.search({ q: args.query!, language: region.code, sortBy: 'publishedAt', pageSize: perRegion, ...this.sourceFilter(args) });
+        return { region, result };
+      } catch (error: any) {
+        logger.warn('regional headlines failed', { region: `${region.type}:${region.code}`, error });
+        const result: ProviderResult = { articles: [], totalResults: 0, error: toNewsErrorInfo(error) };
+        return { region, result };
+      }
+    }));
+
+    const merged = mergeRegionalResults(results, Math.min(perRegion * regions.length, 100));
+    const failed = results.filter((r) => r.result.error);
+    return {
+      articles: await this.enrichArticles(merged.articles, args.enrich),
+      totalResults: results.reduce((sum, r) => sum + r.result.totalResults, 0),
+      regions: merged.regions,
+      cache: mergeCacheMeta(results.map((r) => r.result.cache)),
+      // only an error when every region failed; partial failures show up per region
+      error: failed.length === results.length ? failed[0]?.result.error : undefined
+    };
   }
 
   // gets news specific to a company
   @DaemoFunction({
-    description: "Get news articles about a specific company by name. ALWAYS fetches the latest data from News API in real-time. Useful for monitoring company-specific news. Returns full article content.",
-    inputSchema: z.object({
-      companyName: z.string().optional().describe("Name of the company to search for"),
-      dateFrom: z.string().optional().describe("Start date in ISO format (YYYY-MM-DD)"),
-      dateTo: z.string().optional().describe("End date in ISO format (YYYY-MM-DD)"),
-      pageSize: z.number().optional().describe("Number of results (max 100, default 10)")
-    }) as any,
-    outputSchema: z.object({
-      articles: z.array(z.object({
-        title: z.string(),
-        description: z.string().optional(),
-        url: z.string(),
-        source: z.string(),
-        publishedAt: z.string(),
-        author: z.string().optional(),
-        content: z.string().optional()
-      })),
-      totalResults: z.number()
-    }) as any
+    description: "Get news articles about a specific company by name, alias, ticker (e.g. AAPL) or website. Known companies are searched under all their names with unrelated meanings excluded. ALWAYS fetches the latest data from News API in real-time. Useful for monitoring company-specific news. Pass enrich 'full' for the full article text.",
+    inputSchema: getCompanyNewsInput as any,
+    outputSchema: getCompanyNewsOutput as any
   })
-  async getCompanyNews(args: { companyName?: string; dateFrom?: string; dateTo?: string; pageSize?: number }) {
+  async getCompanyNews(args: { companyName?: string; dateFrom?: string; dateTo?: string; language?: string; pageSize?: number; enrich?: EnrichMode } & SourceFilter) {
+    if (!args.companyName) return { articles: [], totalResults: 0 };
+    const resolution = this.companies.resolveQuery(args.companyName);
+    const company = this.companySummary(resolution);
     try {
-      if (!args.companyName) return { articles: [], totalResults: 0 };
-      const params: any = {
-        apiKey: this.apiKey,
-        q: args.companyName,
+      const results = await this.provider.search({
+        q: resolution.query,
+        from: args.dateFrom,
+        to: args.dateTo,
         sortBy: 'publishedAt',
-        language: 'en',
-        pageSize: Math.min(args.pageSize || 10, 100)
-      };
-      if (args.dateFrom) params.from = args.dateFrom;
-      if (args.dateTo) params.to = args.dateTo;
-      const response = await axios.get<NewsApiResponse>(`${NEWS_API_BASE_URL}/everything`, { params });
-      return {
-        articles: this.normalizeArticles(response.data.articles),
-        totalResults: response.data.totalResults
-      };
+        language: args.language || 'en',
+        pageSize: args.pageSize || 10,
+        ...this.sourceFilter(args)
+      });
+      const articles = await this.enrichArticles(results.articles.map((article) => ({ ...article, sentiment: scoreArticle(article) })), args.enrich);
+      return { ...results, articles, sentiment: summarizeSentiment(articles.map((a) => a.sentiment)), company, query: resolution.query };
     } catch (error: any) {
-      console.error('error fetching company news:', error.response?.data || error.message);
-      return { articles: [], totalResults: 0 };
+      logger.warn('company news failed', { company: args.companyName, error });
+      return { articles: [], totalResults: 0, company, query: resolution.query, error: toNewsErrorInfo(error) };
     }
   }
 
-  // stores and logs news briefs for the frontend
+  // stores a brief for the frontend and notifies listeners; briefs without a userId are shown to admins only
+  createBrief(input: BriefInput): NewsBrief {
+    const brief = this.briefs.add(input);
+    for (const listener of this.briefListeners) {
+      try {
+        listener(brief);
+      } catch (error: any) {
+        logger.error('brief listener failed', { briefId: brief.id, error });
+      }
+    }
+    return brief;
+  }
+
+  // the agent's briefs always belong to the user and conversation of the query that asked for them
   @DaemoFunction({
-    description: "Generate a brief summary or alert about news articles. Use this to create news briefs for the user.",
-    inputSchema: z.object({
-      summary: z.string().describe("The news brief summary or alert message"),
-      priority: z.enum(['low', 'medium', 'high']).optional().describe("Priority level of the brief")
-    }) as any,
-    outputSchema: z.object({
-      success: z.boolean(),
-      timestamp: z.string()
-    }) as any
+    description: "Generate a brief summary or alert about news articles. Use this to create news briefs for the user. Include the urls of the articles the brief is based on.",
+    inputSchema: sendNewsBriefInput as any,
+    outputSchema: sendNewsBriefOutput as any
   })
-  async sendNewsBrief(args: { summary: string; priority?: 'low' | 'medium' | 'high' }) {
-    const timestamp = new Date().toISOString();
-    NewsService.recentBriefs.unshift({
-      summary: args.summary,
-      priority: args.priority || 'medium',
-      timestamp
-    });
-    if (NewsService.recentBriefs.length > 10) NewsService.recentBriefs.pop();
-    return { success: true, timestamp };
+  async sendNewsBrief(args: { callerRef?: string; summary: string; priority?: BriefPriority; sourceUrls?: string[]; tags?: string[] }) {
+    const { callerRef, summary, priority, sourceUrls, tags } = args;
+    const owner = this.briefOwner(callerRef);
+    if (!owner) return { success: false, error: 'cannot tell which user this is for; pass the callerRef from the query' };
+    const brief = this.createBrief({ summary, priority, sourceUrls, tags, userId: owner.userId, conversationId: owner.conversationId });
+    return { success: true, id: brief.id, timestamp: brief.timestamp };
   }
 
   @DaemoFunction({
-    description: "Builds an industry pulse with trend keywords, top sources, and recent notable headlines.",
-    inputSchema: z.object({
-      industry: z.string().describe("industry or theme, e.g. fintech, semiconductors, cybersecurity"),
-      days: z.number().optional().describe("lookback window in days (default 7, max 30)"),
-      language: z.string().optional().describe("2-letter language code, default en")
-    }) as any,
-    outputSchema: z.object({
-      industry: z.string(),
-      windowDays: z.number(),
-      totalResults: z.number(),
-      topSources: z.array(z.object({ source: z.string(), count: z.number() })),
-      topKeywords: z.array(z.object({ keyword: z.string(), count: z.number() })),
-      notableHeadlines: z.array(z.object({
-        title: z.string(),
-        source: z.string(),
-        publishedAt: z.string(),
-        url: z.string()
-      }))
-    }) as any
+    description: "Builds an industry pulse with trend keywords, top sources with their reliability tier, recent notable headlines (stories carried by trusted outlets first), a per-day coverage series and keywords/sources that are spiking compared with the preceding baseline period. Use it for questions like 'what's trending up in fintech this week?'.",
+    inputSchema: getIndustryPulseInput as any,
+    outputSchema: getIndustryPulseOutput as any
   })
-  async getIndustryPulse(args: { industry: string; days?: number; language?: string }) {
+  async getIndustryPulse(args: { industry: string; days?: number; language?: string; compareBaseline?: boolean } & SourceFilter) {
+    const windowDays = Math.min(Math.max(args.days || 7, 1), 14);
     try {
-      const windowDays = Math.min(Math.max(args.days || 7, 1), 14);
-      const response = await axios.get<NewsApiResponse>(`${NEWS_API_BASE_URL}/everything`, {
-        params: {
-          apiKey: this.apiKey,
-          q: args.industry,
-          from: this.getDateDaysAgo(windowDays),
-          sortBy: 'publishedAt',
-          language: args.language || 'en',
-          pageSize: 15
-        }
+      const from = this.getDateDaysAgo(windowDays);
+      const response = await this.provider.search({
+        q: args.industry,
+        from,
+        sortBy: 'publishedAt',
+        language: args.language || 'en',
+        pageSize: PULSE_PAGE_SIZE,
+        ...this.sourceFilter(args)
       });
-      const articles = this.normalizeArticles(response.data.articles);
+      const keywordsOf = (a: NormalizedArticle) => this.extractKeywords(a.title);
+      // busy industries match far more than one page, so everything below counts the newest articles only
+      const sample = sampleCoverage(response.articles, response.totalResults, PULSE_PAGE_SIZE, from);
+      const { series, keywordSeries } = buildDailySeries(response.articles, dayRange(from), keywordsOf);
+      const trending = args.compareBaseline === false ? undefined : await this.getBaselineSpikes(args, response.articles, sample.coveredDays, from, windowDays);
 
-      const sourceCount = new Map<string, number>();
+      // count per story rather than per article so syndicated copies don't dominate
+      const stories = clusterArticles(response.articles);
+
+      const sourceCount = new Map<string, { count: number; tier: SourceTier | 'unknown' }>();
       const keywordCount = new Map<string, number>();
-      for (const article of articles) {
-        sourceCount.set(article.source, (sourceCount.get(article.source) || 0) + 1);
-        for (const w of this.extractKeywords(article.title)) {
+      for (const story of stories) {
+        // once per story, however many copies an outlet ran
+        for (const [source, member] of new Map(story.articles.map((m) => [m.source, m]))) {
+          const entry = sourceCount.get(source) || { count: 0, tier: this.sources.tierOf(member) };
+          entry.count++;
+          sourceCount.set(source, entry);
+        }
+        for (const w of new Set(this.extractKeywords(story.headline))) {
           keywordCount.set(w, (keywordCount.get(w) || 0) + 1);
         }
       }
 
-      const topSources = [...sourceCount.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3).map(([source, count]) => ({ source, count }));
+      const topSources = [...sourceCount.entries()].sort((a, b) => b[1].count - a[1].count).slice(0, 3).map(([source, { count, tier }]) => ({ source, count, tier }));
       const topKeywords = [...keywordCount.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5).map(([keyword, count]) => ({ keyword, count }));
-      const notableHeadlines = articles.slice(0, 5).map((a) => ({ title: a.title, source: a.source, publishedAt: a.publishedAt, url: a.url }));
+      // coverage weighted by the most reliable outlet that carried the story, headlined from that outlet's copy
+      const notableHeadlines = stories
+        .map((story) => {
+          const best = [...story.articles].sort((x, y) => this.sources.reliability(y) - this.sources.reliability(x))[0];
+          const reliability = this.sources.reliability(best);
+          return { story, best, reliability, weight: story.articleCount * reliability };
+        })
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, 5)
+        .map(({ story, best, reliability }) => ({ title: best.title, source: best.source, publishedAt: story.firstSeen, url: best.url, coverageCount: story.articleCount, reliability }));
 
-      return { industry: args.industry, windowDays, totalResults: response.data.totalResults, topSources, topKeywords, notableHeadlines };
+      return { industry: args.industry, windowDays, totalResults: response.totalResults, storyCount: stories.length, topSources, topKeywords, notableHeadlines, sample, series, keywordSeries, trending, cache: response.cache };
     } catch (error: any) {
-      console.error('error building industry pulse:', error.response?.data || error.message);
-      return { industry: args.industry, windowDays: args.days || 7, totalResults: 0, topSources: [], topKeywords: [], notableHeadlines: [] };
+      logger.warn('industry pulse failed', { industry: args.industry, error });
+      return { industry: args.industry, windowDays, totalResults: 0, topSources: [], topKeywords: [], notableHeadlines: [], error: toNewsErrorInfo(error) };
+    }
+  }
+
+  // samples the equally long period before the window and flags keywords/sources that jumped, comparing
+  // daily rates over the spans the two samples actually cover
+  private async getBaselineSpikes(args: { industry: string; language?: string } & SourceFilter, current: NormalizedArticle[], currentDays: number, windowFrom: string, windowDays: number) {
+    try {
+      const baselineDays = windowDays;
+      const baselineFrom = this.getDateDaysAgo(windowDays + baselineDays);
+      const baseline = await this.provider.search({
+        q: args.industry,
+        from: baselineFrom,
+        to: windowFrom,
+        sortBy: 'publishedAt',
+        language: args.language || 'en',
+        pageSize: PULSE_PAGE_SIZE,
+        ...this.sourceFilter(args)
+      });
+      const baselineSample = sampleCoverage(baseline.articles, baseline.totalResults, PULSE_PAGE_SIZE, baselineFrom, new Date(windowFrom));
+      const keywordsOf = (a: NormalizedArticle) => this.extractKeywords(a.title);
+      const sourceOf = (a: NormalizedArticle) => [a.source];
+      return {
+        baselineDays,
+        baselineArticles: baseline.articles.length,
+        baselineSample,
+        keywords: detectSpikes(countBy(current, keywordsOf), countBy(baseline.articles, keywordsOf), currentDays, baselineSample.coveredDays),
+        sources: detectSpikes(countBy(current, sourceOf), countBy(baseline.articles, sourceOf), currentDays, baselineSample.coveredDays)
+      };
+    } catch (error: any) {
+      logger.warn('industry pulse baseline failed', { error });
+      return undefined;
     }
   }
 
   @DaemoFunction({
-    description: "Compares media coverage volume and recent headlines between two companies.",
-    inputSchema: z.object({
-      companyA: z.string().describe("first company name"),
-      companyB: z.string().describe("second company name"),
-      days: z.number().optional().describe("lookback window in days (default 7, max 30)")
-    }) as any,
-    outputSchema: z.object({
-      windowDays: z.number(),
-      companyA: z.object({
-        name: z.string(),
-        totalResults: z.number(),
-        recentHeadlines: z.array(z.object({
-          title: z.string(),
-          source: z.string(),
-          publishedAt: z.string(),
-          url: z.string()
-        }))
-      }),
-      companyB: z.object({
-        name: z.string(),
-        totalResults: z.number(),
-        recentHeadlines: z.array(z.object({
-          title: z.string(),
-          source: z.string(),
-          publishedAt: z.string(),
-          url: z.string()
-        }))
-      }),
-      deltaCoverage: z.number()
-    }) as any
+    description: "Compares media coverage volume, recent headlines and headline sentiment (positive/neutral/negative counts, average score and a daily series) between two companies, given by name, alias or ticker.",
+    inputSchema: compareCompanyCoverageInput as any,
+    outputSchema: compareCompanyCoverageOutput as any
   })
-  async compareCompanyCoverage(args: { companyA: string; companyB: string; days?: number }) {
+  async compareCompanyCoverage(args: { companyA: string; companyB: string; days?: number; language?: string } & SourceFilter) {
+    const a = this.companies.resolveQuery(args.companyA);
+    const b = this.companies.resolveQuery(args.companyB);
+    const resolved = (resolution: CompanyResolution) => ({ company: this.companySummary(resolution), query: resolution.query });
+    const windowDays = Math.min(Math.max(args.days || 7, 1), 14);
     try {
-      const windowDays = Math.min(Math.max(args.days || 7, 1), 14);
       const from = this.getDateDaysAgo(windowDays);
+      const language = args.language || 'en';
       const [aRes, bRes] = await Promise.all([
-        axios.get<NewsApiResponse>(`${NEWS_API_BASE_URL}/everything`, {
-          params: { apiKey: this.apiKey, q: args.companyA, from, sortBy: 'publishedAt', language: 'en', pageSize: 10 }
-        }),
-        axios.get<NewsApiResponse>(`${NEWS_API_BASE_URL}/everything`, {
-          params: { apiKey: this.apiKey, q: args.companyB, from, sortBy: 'publishedAt', language: 'en', pageSize: 10 }
-        })
+        this.provider.search({ q: a.query, from, sortBy: 'publishedAt', language, pageSize: 30, ...this.sourceFilter(args) }),
+        this.provider.search({ q: b.query, from, sortBy: 'publishedAt', language, pageSize: 30, ...this.sourceFilter(args) })
       ]);
-      const aArticles = this.normalizeArticles(aRes.data.articles);
-      const bArticles = this.normalizeArticles(bRes.data.articles);
+      const coverage = (name: string, resolution: CompanyResolution, articles: NormalizedArticle[], totalResults: number) => ({
+        name,
+        ...resolved(resolution),
+        totalResults,
+        recentHeadlines: articles.slice(0, 3).map((a) => ({ title: a.title, source: a.source, publishedAt: a.publishedAt, url: a.url })),
+        sentiment: summarizeSentiment(articles.map((a) => scoreArticle(a))),
+        sentimentSeries: sentimentSeries(articles, from)
+      });
       return {
         windowDays,
-        companyA: { name: args.companyA, totalResults: aRes.data.totalResults, recentHeadlines: aArticles.slice(0, 3).map((a) => ({ title: a.title, source: a.source, publishedAt: a.publishedAt, url: a.url })) },
-        companyB: { name: args.companyB, totalResults: bRes.data.totalResults, recentHeadlines: bArticles.slice(0, 3).map((a) => ({ title: a.title, source: a.source, publishedAt: a.publishedAt, url: a.url })) },
-        deltaCoverage: aRes.data.totalResults - bRes.data.totalResults
+        companyA: coverage(args.companyA, a, aRes.articles, aRes.totalResults),
+        companyB: coverage(args.companyB, b, bRes.articles, bRes.totalResults),
+        deltaCoverage: aRes.totalResults - bRes.totalResults,
+        cache: mergeCacheMeta([aRes.cache, bRes.cache])
       };
     } catch (error: any) {
-      console.error('error comparing company coverage:', error.response?.data || error.message);
-      return { windowDays: args.days || 7, companyA: { name: args.companyA, totalResults: 0, recentHeadlines: [] }, companyB: { name: args.companyB, totalResults: 0, recentHeadlines: [] }, deltaCoverage: 0 };
+      logger.warn('company coverage comparison failed', { error });
+      const empty = { totalResults: 0, recentHeadlines: [], sentiment: summarizeSentiment([]), sentimentSeries: [] };
+      return {
+        windowDays,
+        companyA: { name: args.companyA, ...resolved(a), ...empty },
+        companyB: { name: args.companyB, ...resolved(b), ...empty },
+        deltaCoverage: 0,
+        error: toNewsErrorInfo(error)
+      };
     }
   }
 
   @DaemoFunction({
-    description: "Finds potentially market-moving events by scanning recent business and technology headlines.",
-    inputSchema: z.object({
-      query: z.string().optional().describe("optional custom query, e.g. earnings OR merger OR layoffs"),
-      days: z.number().optional().describe("lookback window in days (default 3, max 14)")
-    }) as any,
-    outputSchema: z.object({
-      windowDays: z.number(),
-      totalScanned: z.number(),
-      events: z.array(z.object({
-        title: z.string(),
-        source: z.string(),
-        publishedAt: z.string(),
-        url: z.string(),
-        trigger: z.string()
-      }))
-    }) as any
+    description: "Tracks headline sentiment for a company, given by name, alias or ticker, over time: per-day average score (-1 to 1) plus positive/neutral/negative counts and the most positive and most negative recent headlines.",
+    inputSchema: getCompanySentimentInput as any,
+    outputSchema: getCompanySentimentOutput as any
   })
-  async getMarketMovingEvents(args: { query?: string; days?: number }) {
+  async getCompanySentiment(args: { companyName: string; days?: number; language?: string } & SourceFilter) {
+    const windowDays = Math.min(Math.max(args.days || 7, 1), 30);
+    const resolution = this.companies.resolveQuery(args.companyName);
+    const resolvedCompany = this.companySummary(resolution);
     try {
-      const windowDays = Math.min(Math.max(args.days || 3, 1), 7);
-      const q = args.query || 'earnings OR merger OR layoffs';
-      const response = await axios.get<NewsApiResponse>(`${NEWS_API_BASE_URL}/everything`, {
-        params: { apiKey: this.apiKey, q, from: this.getDateDaysAgo(windowDays), sortBy: 'publishedAt', language: 'en', pageSize: 15 }
+      const from = this.getDateDaysAgo(windowDays);
+      const results = await this.provider.search({ q: resolution.query, from, sortBy: 'publishedAt', language: args.language || 'en', pageSize: 100, ...this.sourceFilter(args) });
+      const scored = results.articles
+        .map((a) => ({ title: a.title, source: a.source, url: a.url, score: scoreArticle(a).score }))
+        .sort((a, b) => b.score - a.score);
+      return {
+        company: args.companyName,
+        resolvedCompany,
+        query: resolution.query,
+        windowDays,
+        sentiment: summarizeSentiment(results.articles.map((a) => scoreArticle(a))),
+        series: sentimentSeries(results.articles, from),
+        mostPositive: scored.filter((a) => a.score > 0).slice(0, 3),
+        mostNegative: scored.filter((a) => a.score < 0).reverse().slice(0, 3),
+        cache: results.cache
+      };
+    } catch (error: any) {
+      logger.warn('company sentiment failed', { company: args.companyName, error });
+      return { company: args.companyName, resolvedCompany, query: resolution.query, windowDays, sentiment: summarizeSentiment([]), series: [], mostPositive: [], mostNegative: [], error: toNewsErrorInfo(error) };
+    }
+  }
+
+  @DaemoFunction({
+    description: "Competitive landscape for a peer group of 2-8 companies, given by name, alias or ticker: share of voice, per-source breakdown, headline sentiment, distinctive keywords per company and stories that mention several of the companies.",
+    inputSchema: compareCompaniesInput as any,
+    outputSchema: compareCompaniesOutput as any
+  })
+  async compareCompanies(args: { companies: string[]; days?: number; language?: string } & SourceFilter) {
+    // names that resolve to the same registry company (e.g. AAPL and Apple) are compared once
+    const seen = new Set<string>();
+    const peers = args.companies
+      .map((c) => c.trim())
+      .filter(Boolean)
+      .map((name) => ({ name, resolution: this.companies.resolveQuery(name) }))
+      .filter(({ name, resolution }) => {
+        const key = resolution.company?.id || name.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, 8);
+    const names = peers.map((p) => p.name);
+    const windowDays = Math.min(Math.max(args.days || 7, 1), 14);
+    try {
+      const from = this.getDateDaysAgo(windowDays);
+      const language = args.language || 'en';
+      const responses = await Promise.all(
+        peers.map(({ resolution }) => this.provider.search({ q: resolution.query, from, sortBy: 'publishedAt', language, pageSize: 50, ...this.sourceFilter(args) }))
+      );
+      const byCompany = new Map(names.map((name, i) => [name, responses[i].articles]));
+
+      // fall back to fetched article counts when the provider reports no totals (e.g. rss)
+      const volumes = responses.map((r) => r.totalResults || r.articles.length);
+      const shares = shareOfVoice(volumes);
+      const keywords = distinctiveKeywords(byCompany, (a) => this.extractKeywords(`${a.title} ${a.description}`));
+
+      const sourceTotals = new Map<string, Record<string, number>>();
+      for (const [name, articles] of byCompany) {
+        for (const article of articles) {
+          if (!sourceTotals.has(article.source)) sourceTotals.set(article.source, {});
+          const counts = sourceTotals.get(article.source)!;
+          counts[name] = (counts[name] || 0) + 1;
+        }
+      }
+      const sources = [...sourceTotals.entries()]
+        .map(([source, byName]) => ({ source, total: Object.values(byName).reduce((a, b) => a + b, 0), byCompany: byName }))
+        .sort((a, b) => b.total - a.total)
+        .slice(0, 15);
+
+      const companies = names.map((name, i) => {
+        const articles = byCompany.get(name)!;
+        const topSources = [...countBy(articles, (a) => [a.source]).entries()]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 3)
+          .map(([source, count]) => ({ source, count }));
+        return {
+          name,
+          company: this.companySummary(peers[i].resolution),
+          query: peers[i].resolution.query,
+          totalResults: responses[i].totalResults,
+          shareOfVoice: shares[i],
+          topSources,
+          sentiment: summarizeSentiment(articles.map((a) => scoreArticle(a))),
+          distinctiveKeywords: keywords.get(name) || [],
+          recentHeadlines: articles.slice(0, 3).map((a) => ({ title: a.title, source: a.source, publishedAt: a.publishedAt, url: a.url }))
+        };
       });
-      const articles = this.normalizeArticles(response.data.articles);
-      const events = articles.slice(0, 6).map((a) => ({
-        title: a.title,
-        source: a.source,
-        publishedAt: a.publishedAt,
-        url: a.url,
-        trigger: 'event'
-      }));
-      return { windowDays, totalScanned: response.data.totalResults, events };
+
+      return {
+        windowDays,
+        companies,
+        sources,
+        overlappingStories: findOverlappingStories(byCompany),
+        cache: mergeCacheMeta(responses.map((r) => r.cache)),
+        error: responses.find((r) => r.error)?.error
+      };
+    } catch (error: any) {
+      logger.warn('competitive landscape failed', { companies: args.companies, error });
+      return { windowDays, companies: [], sources: [], overlappingStories: [], error: toNewsErrorInfo(error) };
+    }
+  }
+
+  @DaemoFunction({
+    description: "Finds potentially market-moving events in recent headlines and classifies each one (earnings, mergers_acquisitions, layoffs, guidance_change, legal_regulatory, product_launch, executive_change, funding_round) with the companies involved, a confidence score and a severity; reports from trusted outlets rank first.",
+    inputSchema: getMarketMovingEventsInput as any,
+    outputSchema: getMarketMovingEventsOutput as any
+  })
+  async getMarketMovingEvents(args: { query?: string; days?: number; eventTypes?: EventType[]; limit?: number } & SourceFilter) {
+    const windowDays = Math.min(Math.max(args.days || 3, 1), 7);
+    try {
+      const types = args.eventTypes?.length ? args.eventTypes : undefined;
+      const q = args.query || (types ? buildEventQuery(types) : 'earnings OR merger OR layoffs');
+      const response = await this.provider.search({ q, from: this.getDateDaysAgo(windowDays), sortBy: 'publishedAt', language: 'en', pageSize: 30, ...this.sourceFilter(args) });
+      const severityRank = { low: 0, medium: 1, high: 2 };
+      const events = response.articles
+        .map((a) => {
+          const classification = classifyEvent(a.title, a.description);
+          return { title: a.title, source: a.source, publishedAt: a.publishedAt, url: a.url, trigger: classification.eventType, ...classification, reliability: this.sources.reliability(a) };
+        })
+        .filter((e): e is typeof e & { eventType: EventType } => e.eventType !== 'other' && (!types || types.includes(e.eventType)))
+        // within a severity, trusted outlets' reports come before equally confident ones from weaker sources
+        .sort((a, b) => severityRank[b.severity] - severityRank[a.severity] || b.confidence * b.reliability - a.confidence * a.reliability)
+        .slice(0, Math.min(Math.max(args.limit || 6, 1), 20));
+      return { windowDays, totalScanned: response.totalResults, events, cache: response.cache };
     } catch (error: any) {
-      console.error('error fetching market moving events:', error.response?.data || error.message);
-      return { windowDays: args.days || 3, totalScanned: 0, events: [] };
+      logger.warn('market moving events failed', { error });
+      return { windowDays, totalScanned: 0, events: [], error: toNewsErrorInfo(error) };
     }
   }
+
+  // searches previously fetched articles, including ones older than the live api window
+  @DaemoFunction({
+    description: "Search the local archive of every article fetched so far. Works even when the live News API is rate limited and reaches back beyond its one-month window. Supports keyword, source, date range and pagination filters.",
+    inputSchema: searchArchiveInput as any,
+    outputSchema: searchArchiveOutput as any
+  })
+  async searchArchive(args: { query?: string; source?: string; from?: string; to?: string; sortBy?: 'relevancy' | 'publishedAt'; page?: number; pageSize?: number }) {
+    return this.archive.search(args);
+  }
+
+  // groups recently archived articles into stories without spending api quota
+  @DaemoFunction({
+    description: "Group recently fetched articles into stories, merging the same wire story syndicated across outlets. Each story has a representative headline, the outlets that carried it and when it was first seen. Uses the local archive, so it does not spend News API quota.",
+    inputSchema: getStoriesInput as any,
+    outputSchema: getStoriesOutput as any
+  })
+  async getStories(args: { query?: string; days?: number; minSize?: number; limit?: number }) {
+    const windowDays = Math.min(Math.max(args.days || 2, 1), 30);
+    const articles = this.archive.collect({ query: args.query, from: this.getDateDaysAgo(windowDays), sortBy: 'publishedAt' }, 2000);
+    const stories = clusterArticles(articles)
+      .filter((story) => story.articleCount >= (args.minSize || 1))
+      .slice(0, Math.min(Math.max(args.limit || 20, 1), 100));
+    return { windowDays, articlesScanned: articles.length, stories };
+  }
 }
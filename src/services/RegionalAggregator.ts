@@ -0,0 +1,71 @@
+import { normalizeArticleUrl } from './ArticleArchive';
+import { NewsErrorInfo, NormalizedArticle, ProviderResult } from './providers';
+
+export interface Region {
+  type: 'country' | 'language';
+  code: string;
+}
+
+export interface RegionalArticle extends NormalizedArticle {
+  countries: string[];
+  languages: string[];
+}
+
+export interface RegionCoverage extends Region {
+  totalResults: number;
+  fetched: number;
+  // articles no other region returned
+  unique: number;
+  error?: NewsErrorInfo;
+}
+
+export interface RegionalResult {
+  region: Region;
+  result: ProviderResult;
+}
+
+// lowercased, deduped 2-letter codes; anything else is dropped
+export function cleanRegionCodes(codes: string[] | undefined): string[] {
+  return [...new Set((codes || []).map((c) => c.trim().toLowerCase()).filter((c) => /^[a-z]{2}$/.test(c)))];
+}
+
+// merges per-region results deduped by url, tagging each article with every region that returned it.
+// the page is filled round-robin across regions so one busy market cannot crowd out the rest
+export function mergeRegionalResults(results: RegionalResult[], limit: number): { articles: RegionalArticle[]; regions: RegionCoverage[] } {
+  const merged = new Map<string, RegionalArticle>();
+  const regionKeys: string[][] = [];
+  for (const { region, result } of results) {
+    const keys: string[] = [];
+    for (const article of result.articles) {
+      const key = article.url ? normalizeArticleUrl(article.url) : article.title;
+      if (!merged.has(key)) merged.set(key, { ...article, countries: [], languages: [] });
+      const entry = merged.get(key)!;
+      const origins = region.type === 'country' ? entry.countries : entry.languages;
+      if (!origins.includes(region.code)) origins.push(region.code);
+      if (!keys.includes(key)) keys.push(key);
+    }
+    regionKeys.push(keys);
+  }
+
+  const picked = new Set<string>();
+  for (let round = 0; picked.size < Math.min(limit, merged.size); round++) {
+    for (const keys of regionKeys) {
+      if (round < keys.length && picked.size < limit) picked.add(keys[round]);
+    }
+  }
+  const articles = [...picked]
+    .map((key) => merged.get(key)!)
+    .sort((a, b) => (Date.parse(b.publishedAt) || 0) - (Date.parse(a.publishedAt) || 0));
+
+  const regions = results.map(({ region, result }, i) => ({
+    ...region,
+    totalResults: result.totalResults,
+    fetched: regionKeys[i].length,
+    unique: regionKeys[i].filter((key) => {
+      const article = merged.get(key)!;
+      return article.countries.length + article.languages.length === 1;
+    }).length,
+    ...(result.error ? { error: result.error } : {})
+  }));
+  return { articles, regions };
+}
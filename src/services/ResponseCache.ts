@@ -0,0 +1,171 @@
+import path from 'path';
+import { JsonStore } from './JsonStore';
+import { logger } from './observability';
+
+export interface CacheMeta {
+  status: 'hit' | 'miss' | 'stale';
+  ageSeconds: number;
+  ttlSeconds: number;
+}
+
+export interface CacheOptions {
+  // fresh lifetime per namespace in seconds, `default` is used for anything unlisted
+  ttlSeconds: Record<string, number>;
+  // how long past expiry an entry may still be served while it is refreshed
+  staleSeconds: number;
+  maxEntries: number;
+  filePath?: string;
+}
+
+interface CacheEntry {
+  value: any;
+  storedAt: number;
+  expiresAt: number;
+}
+
+// builds a stable key from params regardless of key order, casing or empty values
+export function normalizeCacheKey(namespace: string, params: Record<string, any>): string {
+  const parts = Object.keys(params)
+    .filter((k) => params[k] !== undefined && params[k] !== null && params[k] !== '')
+    .sort()
+    .map((k) => {
+      const v = params[k];
+      return `${k}=${typeof v === 'string' ? v.trim().toLowerCase() : JSON.stringify(v)}`;
+    });
+  return `${namespace}?${parts.join('&')}`;
+}
+
+// combines metadata from several cached calls into one summary for a response
+export function mergeCacheMeta(metas: (CacheMeta | undefined)[]): CacheMeta | undefined {
+  const present = metas.filter((m): m is CacheMeta => !!m);
+  if (present.length === 0) return undefined;
+  const status = present.some((m) => m.status === 'miss') ? 'miss' : present.some((m) => m.status === 'stale') ? 'stale' : 'hit';
+  return {
+    status,
+    ageSeconds: Math.max(...present.map((m) => m.ageSeconds)),
+    ttlSeconds: Math.min(...present.map((m) => m.ttlSeconds))
+  };
+}
+
+// ttl cache with in-flight de-duplication, stale-while-revalidate and optional file persistence
+export class ResponseCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private inFlight: Map<string, Promise<any>> = new Map();
+  private options: CacheOptions;
+  private store: JsonStore<Record<string, CacheEntry>>;
+  public stats = { hits: 0, misses: 0, stale: 0 };
+
+  constructor(options: CacheOptions) {
+    this.options = options;
+    this.store = new JsonStore(options.filePath, 1000);
+    const cutoff = Date.now() - options.staleSeconds * 1000;
+    for (const [key, entry] of Object.entries(this.store.load({}))) {
+      if (entry.expiresAt > cutoff) this.entries.set(key, entry);
+    }
+  }
+
+  private ttlFor(namespace: string): number {
+    return this.options.ttlSeconds[namespace] ?? this.options.ttlSeconds.default ?? 300;
+  }
+
+  private meta(status: CacheMeta['status'], entry: CacheEntry | undefined, ttl: number): CacheMeta {
+    const ageSeconds = entry ? Math.round((Date.now() - entry.storedAt) / 1000) : 0;
+    return { status, ageSeconds, ttlSeconds: ttl };
+  }
+
+  // returns the cached value for the params or runs the loader once for all concurrent callers
+  async wrap<T>(namespace: string, params: Record<string, any>, loader: () => Promise<T>): Promise<{ value: T; cache: CacheMeta }> {
+    const key = normalizeCacheKey(namespace, params);
+    const ttl = this.ttlFor(namespace);
+    const entry = this.entries.get(key);
+    const now = Date.now();
+
+    if (entry && entry.expiresAt > now) {
+      this.stats.hits++;
+      this.touch(key, entry);
+      return { value: entry.value, cache: this.meta('hit', entry, ttl) };
+    }
+
+    if (entry && entry.expiresAt + this.options.staleSeconds * 1000 > now) {
+      this.stats.stale++;
+      this.load(key, ttl, loader).catch((error) => {
+        logger.warn('cache revalidation failed', { key, error });
+      });
+      return { value: entry.value, cache: this.meta('stale', entry, ttl) };
+    }
+
+    this.stats.misses++;
+    try {
+      const value = await this.load(key, ttl, loader);
+      return { value, cache: this.meta('miss', undefined, ttl) };
+    } catch (error) {
+      // degrade to the last known good response rather than failing outright
+      if (!entry) throw error;
+      this.stats.stale++;
+      return { value: entry.value, cache: this.meta('stale', entry, ttl) };
+    }
+  }
+
+  private load<T>(key: string, ttl: number, loader: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+    const promise = loader()
+      .then((value) => {
+        const now = Date.now();
+        this.touch(key, { value, storedAt: now, expiresAt: now + ttl * 1000 });
+        this.evict();
+        this.schedulePersist();
+        return value;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  // re-inserts the entry so map order tracks recency for eviction
+  private touch(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  private evict() {
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+    this.schedulePersist();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private schedulePersist() {
+    this.store.save(() => Object.fromEntries(this.entries));
+  }
+
+  flush(): Promise<void> {
+    return this.store.flush();
+  }
+}
+
+// builds the cache from NEWS_CACHE_* environment settings
+export function createResponseCache(env: NodeJS.ProcessEnv = process.env): ResponseCache {
+  const seconds = (value: string | undefined, fallback: number) => (value && !isNaN(Number(value)) ? Number(value) : fallback);
+  return new ResponseCache({
+    ttlSeconds: {
+      default: seconds(env.NEWS_CACHE_TTL_SECONDS, 300),
+      'top-headlines': seconds(env.NEWS_CACHE_TTL_HEADLINES, 300),
+      everything: seconds(env.NEWS_CACHE_TTL_SEARCH, 900)
+    },
+    staleSeconds: seconds(env.NEWS_CACHE_STALE_SECONDS, 3600),
+    maxEntries: seconds(env.NEWS_CACHE_MAX_ENTRIES, 500),
+    filePath: env.NEWS_CACHE_FILE ? path.resolve(env.NEWS_CACHE_FILE) : undefined
+  });
+}
@@ -0,0 +1,104 @@
+import { NormalizedArticle } from './providers';
+import { dayRange } from './TrendAnalyzer';
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface ArticleSentiment {
+  score: number;
+  label: SentimentLabel;
+}
+
+export interface SentimentSummary {
+  articles: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  averageScore: number;
+}
+
+export interface SentimentPoint {
+  date: string;
+  articles: number;
+  averageScore: number | null;
+}
+
+// business-news lexicon, word => valence from -3 to +3
+const LEXICON: Record<string, number> = {
+  beat: 2, beats: 2, surge: 2, surges: 2, surged: 2, soar: 3, soars: 3, soared: 3, jump: 2, jumps: 2, jumped: 2, rally: 2, rallies: 2,
+  gain: 1, gains: 1, gained: 1, rise: 1, rises: 1, rose: 1, climb: 1, climbs: 1, record: 2, strong: 2, stronger: 2, robust: 2,
+  growth: 2, grow: 1, grows: 1, profit: 1, profitable: 2, profits: 1, upgrade: 2, upgraded: 2, outperform: 2, boost: 2, boosts: 2,
+  win: 2, wins: 2, won: 2, success: 2, successful: 2, breakthrough: 3, innovative: 2, innovation: 2, approve: 1, approved: 2, approval: 2,
+  partnership: 1, expand: 1, expands: 1, expansion: 1, launch: 1, launches: 1, optimistic: 2, confident: 2, recover: 1, recovery: 2,
+  rebound: 2, positive: 2, upbeat: 2, exceed: 2, exceeds: 2, exceeded: 2, top: 1, tops: 1, praise: 2, praised: 2, best: 2, improve: 2,
+  improved: 2, improves: 2, hire: 1, hiring: 1, dividend: 1, buyback: 1, milestone: 2, celebrate: 2, thrive: 3, thrives: 3,
+  miss: -2, misses: -2, missed: -2, fall: -1, falls: -1, fell: -1, drop: -2, drops: -2, dropped: -2, plunge: -3, plunges: -3, plunged: -3,
+  slump: -2, slumps: -2, tumble: -2, tumbles: -2, sink: -2, sinks: -2, crash: -3, crashes: -3, decline: -1, declines: -1, weak: -2,
+  weaker: -2, loss: -2, losses: -2, lose: -2, loses: -2, lost: -2, cut: -1, cuts: -1, layoff: -2, layoffs: -2, fired: -2, downgrade: -2,
+  downgraded: -2, underperform: -2, lawsuit: -2, sue: -2, sues: -2, sued: -2, fine: -1, fined: -2, penalty: -2, probe: -2,
+  investigation: -2, fraud: -3, scandal: -3, breach: -3, hack: -2, hacked: -3, outage: -2, recall: -2, recalls: -2, bankrupt: -3,
+  bankruptcy: -3, default: -2, debt: -1, warn: -2, warns: -2, warning: -2, concern: -1, concerns: -1, fear: -2, fears: -2, risk: -1,
+  risks: -1, crisis: -3, collapse: -3, collapses: -3, struggle: -2, struggles: -2, delay: -1, delays: -1, delayed: -1, halt: -2,
+  halts: -2, ban: -2, banned: -2, controversy: -2, criticism: -2, criticized: -2, resign: -1, resigns: -1, ousted: -2, slowdown: -2,
+  volatile: -1, uncertainty: -1, negative: -2, worst: -3, worse: -2, fail: -2, fails: -2, failed: -2, failure: -2, shortfall: -2
+};
+
+const NEGATORS = new Set(['not', 'no', 'never', 'without', "isn't", "wasn't", "don't", "doesn't", "didn't", "won't", "can't", 'nor']);
+const NEGATION_SPAN = 2;
+const NORMALIZATION_ALPHA = 15;
+const LABEL_THRESHOLD = 0.2;
+
+function scoreText(text: string): number {
+  const words = text.toLowerCase().replace(/[^a-z'\s]/g, ' ').split(/\s+/).filter(Boolean);
+  let total = 0;
+  let negateFor = 0;
+  for (const word of words) {
+    if (NEGATORS.has(word)) {
+      negateFor = NEGATION_SPAN;
+      continue;
+    }
+    const valence = LEXICON[word];
+    if (valence !== undefined) total += negateFor > 0 ? -valence * 0.75 : valence;
+    if (negateFor > 0) negateFor--;
+  }
+  return total;
+}
+
+// scores title, description and content with the title counting double, normalized to -1..1
+export function scoreArticle(article: Pick<NormalizedArticle, 'title' | 'description' | 'content'>): ArticleSentiment {
+  const content = article.content === article.description ? '' : article.content.replace(/\[\+\d+ chars\]$/, '');
+  const raw = scoreText(article.title) * 2 + scoreText(article.description) + scoreText(content);
+  const score = Math.round((raw / Math.sqrt(raw * raw + NORMALIZATION_ALPHA)) * 1000) / 1000;
+  const label: SentimentLabel = score >= LABEL_THRESHOLD ? 'positive' : score <= -LABEL_THRESHOLD ? 'negative' : 'neutral';
+  return { score, label };
+}
+
+export function summarizeSentiment(scores: ArticleSentiment[]): SentimentSummary {
+  const total = scores.reduce((sum, s) => sum + s.score, 0);
+  return {
+    articles: scores.length,
+    positive: scores.filter((s) => s.label === 'positive').length,
+    neutral: scores.filter((s) => s.label === 'neutral').length,
+    negative: scores.filter((s) => s.label === 'negative').length,
+    averageScore: scores.length ? Math.round((total / scores.length) * 1000) / 1000 : 0
+  };
+}
+
+// average sentiment per utc day, null on days without coverage
+export function sentimentSeries(articles: NormalizedArticle[], from: string): SentimentPoint[] {
+  const byDay = new Map<string, number[]>();
+  for (const article of articles) {
+    const time = Date.parse(article.publishedAt);
+    if (isNaN(time)) continue;
+    const day = new Date(time).toISOString().slice(0, 10);
+    if (!byDay.has(day)) byDay.set(day, []);
+    byDay.get(day)!.push(scoreArticle(article).score);
+  }
+  return dayRange(from).map((date) => {
+    const scores = byDay.get(date) || [];
+    return {
+      date,
+      articles: scores.length,
+      averageScore: scores.length ? Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 1000) / 1000 : null
+    };
+  });
+}
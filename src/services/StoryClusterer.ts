@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { NormalizedArticle } from './providers';
+
+export interface StoryMember {
+  title: string;
+  source: string;
+  url: string;
+  publishedAt: string;
+}
+
+export interface Story {
+  id: string;
+  headline: string;
+  url: string;
+  source: string;
+  articleCount: number;
+  sources: string[];
+  firstSeen: string;
+  lastSeen: string;
+  articles: StoryMember[];
+}
+
+export interface ClusterOptions {
+  // minimum jaccard similarity of shingle sets for two articles to be the same story
+  threshold?: number;
+}
+
+const NUM_HASHES = 64;
+const ROWS_PER_BAND = 2;
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'for', 'with', 'from', 'this', 'that', 'into', 'about', 'after', 'before', 'over', 'under',
+  'to', 'in', 'on', 'of', 'as', 'by', 'be', 'it', 'its', 'is', 'are', 'was', 'were', 'at', 'has', 'have', 'will', 'says', 'said'
+]);
+
+// deterministic hash seeds so signatures are stable across runs
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => [(Math.imul(i + 1, 0x9e3779b1) | 1) >>> 0, Math.imul(i + 7, 0x85ebca6b) >>> 0]);
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokens(article: NormalizedArticle): string[] {
+  const description = article.description.split(/\s+/).slice(0, 30).join(' ');
+  return `${article.title} ${description}`
+    .toLowerCase()
+    .replace(/[^a-z0-9$%\s]/g, ' ')
+    .split(/\s+/)
+    .filter((w) => w.length > 1 && !STOP_WORDS.has(w))
+    .map((w) => (w.length > 4 && w.endsWith('s') ? w.slice(0, -1) : w));
+}
+
+// word unigrams plus bigrams, so rewrites share words while wire copies also share phrasing
+export function shingles(article: NormalizedArticle): Set<string> {
+  const words = tokens(article);
+  const set = new Set(words);
+  for (let i = 0; i < words.length - 1; i++) set.add(`${words[i]} ${words[i + 1]}`);
+  return set;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function minHash(set: Set<string>): number[] {
+  const signature = new Array(NUM_HASHES).fill(0xffffffff);
+  for (const item of set) {
+    const base = fnv1a(item);
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const value = (Math.imul(base, SEEDS[i][0]) + SEEDS[i][1]) >>> 0;
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+// groups articles into stories: minhash lsh proposes candidate pairs, exact jaccard confirms them
+export function clusterArticles(articles: NormalizedArticle[], options: ClusterOptions = {}): Story[] {
+  const threshold = options.threshold ?? 0.4;
+  const sets = articles.map(shingles);
+  const parent = articles.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  const buckets = new Map<string, number[]>();
+  sets.forEach((set, i) => {
+    if (set.size === 0) return;
+    const signature = minHash(set);
+    for (let band = 0; band < NUM_HASHES / ROWS_PER_BAND; band++) {
+      const key = `${band}:${signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND).join(',')}`;
+      if (!buckets.has(key)) buckets.set(key, []);
+      buckets.get(key)!.push(i);
+    }
+  });
+
+  const checked = new Set<string>();
+  for (const members of buckets.values()) {
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const [i, j] = [members[x], members[y]];
+        const pair = `${i}:${j}`;
+        if (checked.has(pair) || find(i) === find(j)) continue;
+        checked.add(pair);
+        const sameUrl = articles[i].url && articles[i].url === articles[j].url;
+        if (sameUrl || jaccard(sets[i], sets[j]) >= threshold) parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, NormalizedArticle[]>();
+  articles.forEach((article, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(article);
+  });
+
+  const time = (a: NormalizedArticle) => Date.parse(a.publishedAt) || Number.MAX_SAFE_INTEGER;
+  return [...groups.values()]
+    .map((members): Story => {
+      // the earliest copy is usually the original wire story
+      const sorted = [...members].sort((a, b) => time(a) - time(b) || b.description.length - a.description.length);
+      const representative = sorted[0];
+      const dated = sorted.filter((a) => Date.parse(a.publishedAt));
+      return {
+        id: crypto.createHash('sha1').update(representative.url || representative.title).digest('hex').slice(0, 12),
+        headline: representative.title,
+        url: representative.url,
+        source: representative.source,
+        articleCount: members.length,
+        sources: [...new Set(members.map((a) => a.source))],
+        firstSeen: dated[0]?.publishedAt || '',
+        lastSeen: dated[dated.length - 1]?.publishedAt || '',
+        articles: sorted.map((a) => ({ title: a.title, source: a.source, url: a.url, publishedAt: a.publishedAt }))
+      };
+    })
+    .sort((a, b) => b.articleCount - a.articleCount || (Date.parse(b.lastSeen) || 0) - (Date.parse(a.lastSeen) || 0));
+}
@@ -0,0 +1,126 @@
+import { NormalizedArticle } from './providers';
+
+export interface DailyPoint {
+  date: string;
+  articles: number;
+}
+
+export interface KeywordSeries {
+  keyword: string;
+  counts: number[];
+}
+
+export interface Spike {
+  term: string;
+  current: number;
+  baseline: number;
+  expected: number;
+  zScore: number;
+  changePct: number | null;
+}
+
+export interface SampleCoverage {
+  articles: number;
+  totalResults: number;
+  complete: boolean;
+  coveredFrom: string;
+  coveredDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayKey(value: string): string | null {
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time).toISOString().slice(0, 10);
+}
+
+// utc calendar days from `from` up to and including today
+export function dayRange(from: string, until: Date = new Date()): string[] {
+  const days: string[] = [];
+  const cursor = new Date(Date.parse(from));
+  cursor.setUTCHours(0, 0, 0, 0);
+  while (cursor.getTime() <= until.getTime()) {
+    days.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+// per-day article counts plus per-day counts for the most frequent keywords
+export function buildDailySeries(
+  articles: NormalizedArticle[],
+  days: string[],
+  keywordsOf: (article: NormalizedArticle) => string[],
+  topN = 5
+): { series: DailyPoint[]; keywordSeries: KeywordSeries[] } {
+  const index = new Map(days.map((d, i) => [d, i]));
+  const totals = new Array(days.length).fill(0);
+  const perKeyword = new Map<string, number[]>();
+  for (const article of articles) {
+    const key = dayKey(article.publishedAt);
+    const i = key ? index.get(key) : undefined;
+    if (i === undefined) continue;
+    totals[i]++;
+    for (const keyword of new Set(keywordsOf(article))) {
+      if (!perKeyword.has(keyword)) perKeyword.set(keyword, new Array(days.length).fill(0));
+      perKeyword.get(keyword)![i]++;
+    }
+  }
+  const sum = (counts: number[]) => counts.reduce((a, b) => a + b, 0);
+  const keywordSeries = [...perKeyword.entries()]
+    .sort((a, b) => sum(b[1]) - sum(a[1]))
+    .slice(0, topN)
+    .map(([keyword, counts]) => ({ keyword, counts }));
+  return { series: days.map((date, i) => ({ date, articles: totals[i] })), keywordSeries };
+}
+
+// how much of a period a newest-first page of articles really covers: all of it when the provider returned
+// every match, otherwise only back to the oldest article on the page, since older ones were cut off
+export function sampleCoverage(articles: NormalizedArticle[], totalResults: number, pageSize: number, from: string, until: Date = new Date()): SampleCoverage {
+  const start = Date.parse(from);
+  const complete = articles.length < pageSize || articles.length >= totalResults;
+  const times = articles.map((a) => Date.parse(a.publishedAt)).filter((t) => !isNaN(t));
+  const coveredFrom = complete || times.length === 0 ? start : Math.max(start, Math.min(...times));
+  // at least an hour, so a burst of articles published within minutes doesn't read as an infinite rate
+  const coveredDays = Math.max((until.getTime() - coveredFrom) / DAY_MS, 1 / 24);
+  return { articles: articles.length, totalResults, complete, coveredFrom: new Date(coveredFrom).toISOString(), coveredDays: Math.round(coveredDays * 100) / 100 };
+}
+
+export function countBy(articles: NormalizedArticle[], termsOf: (article: NormalizedArticle) => string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const article of articles) {
+    for (const term of new Set(termsOf(article))) counts.set(term, (counts.get(term) || 0) + 1);
+  }
+  return counts;
+}
+
+// flags terms whose window count beats the rate-adjusted baseline by a poisson-style z-score; the day counts are
+// the spans the two samples cover, which are shorter than the periods when either was cut off
+export function detectSpikes(
+  current: Map<string, number>,
+  baseline: Map<string, number>,
+  windowDays: number,
+  baselineDays: number,
+  options: { minCount?: number; minZ?: number; limit?: number } = {}
+): Spike[] {
+  const minCount = options.minCount ?? 3;
+  const minZ = options.minZ ?? 2;
+  const ratio = baselineDays > 0 ? windowDays / baselineDays : 1;
+  const spikes: Spike[] = [];
+  for (const [term, count] of current) {
+    if (count < minCount) continue;
+    const base = baseline.get(term) || 0;
+    const expected = base * ratio;
+    const zScore = (count - expected) / Math.sqrt(expected + 1);
+    if (zScore < minZ) continue;
+    spikes.push({
+      term,
+      current: count,
+      baseline: base,
+      expected: Math.round(expected * 100) / 100,
+      zScore: Math.round(zScore * 100) / 100,
+      changePct: expected > 0 ? Math.round(((count - expected) / expected) * 100) : null
+    });
+  }
+  return spikes.sort((a, b) => b.zScore - a.zScore).slice(0, options.limit ?? 5);
+}
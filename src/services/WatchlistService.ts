@@ -0,0 +1,367 @@
+import { DaemoFunction } from 'daemo-engine';
+import "reflect-metadata";
+import crypto from 'crypto';
+import { classifyEvent } from './EventClassifier';
+import { JsonStore } from './JsonStore';
+import { NewsService } from './MyFunctions';
+import { logger } from './observability';
+import { NewsErrorInfo, NormalizedArticle } from './providers';
+import { createWatchlistInput, createWatchlistOutput, deleteWatchlistInput, deleteWatchlistOutput, listWatchlistsInput, listWatchlistsOutput, updateWatchlistInput, updateWatchlistOutput } from './schemas';
+
+type Priority = 'low' | 'medium' | 'high';
+
+export interface Watchlist {
+  id: string;
+  userId: string;
+  name: string;
+  companies: string[];
+  keywords: string[];
+  industries: string[];
+  priority: Priority;
+  intervalMinutes: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt: string | null;
+  // set when the last run hit a provider error, so the scheduler waits an interval before retrying
+  lastFailedAt?: string | null;
+  seenUrls: string[];
+  feedToken: string;
+}
+
+export interface WatchlistInput {
+  userId?: string;
+  name?: string;
+  companies?: string[];
+  keywords?: string[];
+  industries?: string[];
+  priority?: Priority;
+  intervalMinutes?: number;
+  enabled?: boolean;
+}
+
+export interface WatchlistRun {
+  watchlistId: string;
+  newArticles: number;
+  briefCreated: boolean;
+  priority?: Priority;
+  error?: NewsErrorInfo;
+}
+
+const PRIORITY_RANK: Record<Priority, number> = { low: 0, medium: 1, high: 2 };
+const MAX_SEEN_URLS = 1000;
+const UNKNOWN_CALLER = 'cannot tell which user this is for; pass the callerRef from the query';
+
+// secret part of the watchlist's feed url, so feed readers can subscribe without signing in
+function newFeedToken(): string {
+  return crypto.randomBytes(18).toString('base64url');
+}
+
+function cleanList(values: unknown): string[] | undefined {
+  if (values === undefined) return undefined;
+  if (!Array.isArray(values)) throw new Error('companies, keywords and industries must be arrays of strings');
+  return [...new Set(values.filter((v) => typeof v === 'string').map((v) => v.trim()).filter(Boolean))];
+}
+
+// watchlists of companies, keywords and industries polled on a schedule to produce briefs
+export class WatchlistService {
+  private newsService: NewsService;
+  private watchlists: Map<string, Watchlist> = new Map();
+  private store: JsonStore<Watchlist[]>;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private owner: (callerRef?: string) => { userId: string } | null = () => null;
+
+  constructor(newsService: NewsService, filePath?: string) {
+    this.newsService = newsService;
+    this.store = new JsonStore(filePath);
+    for (const watchlist of this.store.load([])) {
+      this.watchlists.set(watchlist.id, { ...watchlist, feedToken: watchlist.feedToken || newFeedToken() });
+    }
+  }
+
+  private persist() {
+    this.store.save(() => [...this.watchlists.values()]);
+  }
+
+  // scopes the agent tools to the user behind the chat query that called them
+  setOwnerResolver(resolver: (callerRef?: string) => { userId: string } | null) {
+    this.owner = resolver;
+  }
+
+  // null when the call cannot be tied to a user, in which case the tools refuse
+  private callerId(callerRef?: string): string | null {
+    return this.owner(callerRef)?.userId || null;
+  }
+
+  private ownedBy(userId: string, id: string): boolean {
+    return this.watchlists.get(id)?.userId === userId;
+  }
+
+  list(userId: string): Watchlist[] {
+    return [...this.watchlists.values()].filter((w) => w.userId === userId);
+  }
+
+  get(id: string): Watchlist | null {
+    return this.watchlists.get(id) || null;
+  }
+
+  // throws with a readable message when the input would produce an unusable watchlist
+  create(input: WatchlistInput & { userId: string }): Watchlist {
+    if (!input.userId) throw new Error('userId is required');
+    const now = new Date().toISOString();
+    const watchlist: Watchlist = {
+      id: crypto.randomUUID(),
+      userId: input.userId,
+      name: (input.name || '').trim(),
+      companies: cleanList(input.companies) || [],
+      keywords: cleanList(input.keywords) || [],
+      industries: cleanList(input.industries) || [],
+      priority: input.priority || 'medium',
+      intervalMinutes: input.intervalMinutes ?? 60,
+      enabled: input.enabled ?? true,
+      createdAt: now,
+      updatedAt: now,
+      lastRunAt: null,
+      lastFailedAt: null,
+      seenUrls: [],
+      feedToken: newFeedToken()
+    };
+    this.validate(watchlist);
+    this.watchlists.set(watchlist.id, watchlist);
+    this.persist();
+    return watchlist;
+  }
+
+  update(id: string, input: WatchlistInput): Watchlist | null {
+    const existing = this.watchlists.get(id);
+    if (!existing) return null;
+    const updated: Watchlist = {
+      ...existing,
+      name: input.name !== undefined ? input.name.trim() : existing.name,
+      companies: cleanList(input.companies) ?? existing.companies,
+      keywords: cleanList(input.keywords) ?? existing.keywords,
+      industries: cleanList(input.industries) ?? existing.industries,
+      priority: input.priority ?? existing.priority,
+      intervalMinutes: input.intervalMinutes ?? existing.intervalMinutes,
+      enabled: input.enabled ?? existing.enabled,
+      updatedAt: new Date().toISOString()
+    };
+    this.validate(updated);
+    this.watchlists.set(id, updated);
+    this.persist();
+    return updated;
+  }
+
+  // invalidates feed urls handed out earlier
+  rotateFeedToken(id: string): Watchlist | null {
+    const watchlist = this.watchlists.get(id);
+    if (!watchlist) return null;
+    watchlist.feedToken = newFeedToken();
+    watchlist.updatedAt = new Date().toISOString();
+    this.persist();
+    return watchlist;
+  }
+
+  // constant-time check of a token taken from a feed url
+  verifyFeedToken(id: string, token: string): boolean {
+    const watchlist = this.watchlists.get(id);
+    if (!watchlist) return false;
+    const expected = Buffer.from(watchlist.feedToken);
+    const given = Buffer.from(token);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+
+  delete(id: string): boolean {
+    const deleted = this.watchlists.delete(id);
+    if (deleted) this.persist();
+    return deleted;
+  }
+
+  private validate(watchlist: Watchlist) {
+    if (!watchlist.name) throw new Error('name is required');
+    if (watchlist.companies.length + watchlist.keywords.length + watchlist.industries.length === 0) {
+      throw new Error('at least one company, keyword or industry is required');
+    }
+    if (!['low', 'medium', 'high'].includes(watchlist.priority)) throw new Error('priority must be low, medium or high');
+    if (!Number.isFinite(watchlist.intervalMinutes) || watchlist.intervalMinutes < 5) {
+      throw new Error('intervalMinutes must be at least 5');
+    }
+  }
+
+  private async fetchWatchlistArticles(watchlist: Watchlist): Promise<{ articles: NormalizedArticle[]; error?: NewsErrorInfo }> {
+    const results = await Promise.all([
+      ...watchlist.companies.map((companyName) => this.newsService.getCompanyNews({ companyName, dateFrom: watchlist.lastRunAt || undefined, pageSize: 20 })),
+      ...[...watchlist.keywords, ...watchlist.industries].map((query) => this.newsService.searchNews({ query, sortBy: 'publishedAt', pageSize: 20 }))
+    ]);
+    for (const result of results) {
+      if (result.error) logger.warn('watchlist fetch failed', { watchlistId: watchlist.id, code: result.error.code, message: result.error.message });
+    }
+    return { articles: results.flatMap((r) => r.articles), error: results.find((r) => r.error)?.error };
+  }
+
+  // polls one watchlist and records a brief when it finds articles not seen on earlier runs
+  async runWatchlist(id: string): Promise<WatchlistRun | null> {
+    const watchlist = this.watchlists.get(id);
+    if (!watchlist) return null;
+    const isFirstRun = watchlist.lastRunAt === null;
+    const since = watchlist.lastRunAt ? Date.parse(watchlist.lastRunAt) : 0;
+    const seen = new Set(watchlist.seenUrls);
+
+    const { articles: fetched, error } = await this.fetchWatchlistArticles(watchlist);
+    const now = new Date().toISOString();
+    // a query that failed may have missed articles: lastRunAt stays put so the next run looks from the same
+    // point again, and a first run records no baseline at all rather than one with holes in it
+    if (error) {
+      watchlist.lastFailedAt = now;
+      if (isFirstRun) {
+        this.persist();
+        return { watchlistId: id, newArticles: 0, briefCreated: false, error };
+      }
+    } else {
+      watchlist.lastRunAt = now;
+      watchlist.lastFailedAt = null;
+    }
+
+    const fresh = new Map<string, NormalizedArticle>();
+    for (const article of fetched) {
+      if (!article.url || seen.has(article.url) || fresh.has(article.url)) continue;
+      const published = Date.parse(article.publishedAt);
+      if (!isFirstRun && !isNaN(published) && published < since) continue;
+      fresh.set(article.url, article);
+    }
+
+    watchlist.seenUrls = [...fresh.keys(), ...watchlist.seenUrls].slice(0, MAX_SEEN_URLS);
+    this.persist();
+
+    // the first run only establishes a baseline so existing coverage does not flood the briefs
+    const articles = [...fresh.values()];
+    if (isFirstRun || articles.length === 0) {
+      return { watchlistId: id, newArticles: isFirstRun ? 0 : articles.length, briefCreated: false, ...(error ? { error } : {}) };
+    }
+
+    const priority = this.priorityFor(watchlist, articles);
+    const headlines = articles.slice(0, 3).map((a) => `${a.title} (${a.source})`).join('; ');
+    const more = articles.length > 3 ? ` and ${articles.length - 3} more` : '';
+    this.newsService.createBrief({
+      summary: `watchlist "${watchlist.name}": ${articles.length} new article${articles.length === 1 ? '' : 's'} - ${headlines}${more}`,
+      priority,
+      sourceUrls: articles.map((a) => a.url),
+      tags: ['watchlist', watchlist.name, ...watchlist.companies, ...watchlist.industries],
+      userId: watchlist.userId,
+      conversationId: null
+    });
+    return { watchlistId: id, newArticles: articles.length, briefCreated: true, priority, ...(error ? { error } : {}) };
+  }
+
+  // raises the watchlist's own priority to the most severe classified event or for bursts of coverage
+  private priorityFor(watchlist: Watchlist, articles: NormalizedArticle[]): Priority {
+    let derived: Priority = articles.length >= 5 ? 'medium' : 'low';
+    for (const article of articles) {
+      const { eventType, severity } = classifyEvent(article.title, article.description);
+      if (eventType !== 'other' && PRIORITY_RANK[severity] > PRIORITY_RANK[derived]) derived = severity;
+    }
+    return PRIORITY_RANK[derived] > PRIORITY_RANK[watchlist.priority] ? derived : watchlist.priority;
+  }
+
+  async runDue(): Promise<WatchlistRun[]> {
+    if (this.running) return [];
+    this.running = true;
+    try {
+      const now = Date.now();
+      const runs: WatchlistRun[] = [];
+      for (const watchlist of this.watchlists.values()) {
+        if (!watchlist.enabled) continue;
+        const last = Math.max(watchlist.lastRunAt ? Date.parse(watchlist.lastRunAt) : 0, watchlist.lastFailedAt ? Date.parse(watchlist.lastFailedAt) : 0);
+        if (now - last < watchlist.intervalMinutes * 60 * 1000) continue;
+        try {
+          const run = await this.runWatchlist(watchlist.id);
+          if (run) runs.push(run);
+        } catch (error: any) {
+          logger.error('watchlist run failed', { watchlistId: watchlist.id, error });
+        }
+      }
+      return runs;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  startScheduler(tickMs: number = 60000) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runDue().catch((error) => logger.error('watchlist scheduler failed', { error }));
+    }, tickMs);
+    this.timer.unref();
+  }
+
+  stopScheduler() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  flush(): Promise<void> {
+    return this.store.flush();
+  }
+
+  private summarize(watchlist: Watchlist) {
+    const { seenUrls, feedToken, userId, createdAt, updatedAt, ...rest } = watchlist;
+    return rest;
+  }
+
+  @DaemoFunction({
+    description: "Create a watchlist that monitors companies, keywords or industries in the background and posts a news brief when new articles appear.",
+    inputSchema: createWatchlistInput as any,
+    outputSchema: createWatchlistOutput as any
+  })
+  async createWatchlist(args: { callerRef?: string; name: string; companies?: string[]; keywords?: string[]; industries?: string[]; priority?: Priority; intervalMinutes?: number }) {
+    const { callerRef, ...input } = args;
+    const userId = this.callerId(callerRef);
+    if (!userId) return { success: false, error: UNKNOWN_CALLER };
+    try {
+      return { success: true, watchlist: this.summarize(this.create({ ...input, userId })) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  @DaemoFunction({
+    description: "List the existing news watchlists with what they monitor and when they last ran.",
+    inputSchema: listWatchlistsInput as any,
+    outputSchema: listWatchlistsOutput as any
+  })
+  async listWatchlists(args: { callerRef?: string } = {}) {
+    const userId = this.callerId(args.callerRef);
+    if (!userId) return { watchlists: [], error: UNKNOWN_CALLER };
+    return { watchlists: this.list(userId).map((w) => this.summarize(w)) };
+  }
+
+  @DaemoFunction({
+    description: "Modify a watchlist by id. Lists passed here replace the existing ones; set enabled to false to pause it.",
+    inputSchema: updateWatchlistInput as any,
+    outputSchema: updateWatchlistOutput as any
+  })
+  async updateWatchlist(args: { callerRef?: string; id: string } & WatchlistInput) {
+    const { callerRef, id, ...input } = args;
+    const userId = this.callerId(callerRef);
+    if (!userId) return { success: false, error: UNKNOWN_CALLER };
+    try {
+      const updated = this.ownedBy(userId, id) ? this.update(id, input) : null;
+      if (!updated) return { success: false, error: 'watchlist not found' };
+      return { success: true, watchlist: this.summarize(updated) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  @DaemoFunction({
+    description: "Delete a watchlist by id.",
+    inputSchema: deleteWatchlistInput as any,
+    outputSchema: deleteWatchlistOutput as any
+  })
+  async deleteWatchlist(args: { callerRef?: string; id: string }) {
+    const userId = this.callerId(args.callerRef);
+    if (!userId) return { success: false, error: UNKNOWN_CALLER };
+    return { success: this.ownedBy(userId, args.id) && this.delete(args.id) };
+  }
+}
@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import { codeForStatus, HttpError } from '../http/errors';
+import { JsonStore } from '../JsonStore';
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  prefix: string;
+  hash: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface UserRecord {
+  id: string;
+  username: string;
+  passwordHash: string;
+  createdAt: string;
+  apiKeys: ApiKeyRecord[];
+}
+
+export interface PublicUser {
+  id: string;
+  username: string;
+  createdAt: string;
+}
+
+interface SessionRecord {
+  hash: string;
+  userId: string;
+  expiresAt: string;
+}
+
+interface AuthState {
+  users: UserRecord[];
+  sessions: SessionRecord[];
+}
+
+// an HttpError so the express error handler answers with the matching status and code
+export class AuthError extends HttpError {
+  constructor(message: string, status = 400) {
+    super(status, codeForStatus(status), message);
+    this.name = 'AuthError';
+  }
+}
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const API_KEY_PREFIX = 'nk_';
+const SCRYPT_COST = 16384;
+
+// scrypt with a per-password salt, stored as scrypt$cost$salt$hash
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, 64, { N: SCRYPT_COST }).toString('hex');
+  return `scrypt$${SCRYPT_COST}$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, cost, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length, { N: Number(cost) });
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// tokens are only kept as sha256 hashes so a leaked data file does not leak credentials
+function digest(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// local accounts, login sessions and api keys
+export class AuthService {
+  private users: Map<string, UserRecord>;
+  private sessions: Map<string, SessionRecord>;
+  private store: JsonStore<AuthState>;
+
+  constructor(filePath?: string) {
+    this.store = new JsonStore(filePath);
+    const state = this.store.load({ users: [], sessions: [] });
+    this.users = new Map(state.users.map((u) => [u.id, u]));
+    const now = Date.now();
+    this.sessions = new Map(state.sessions.filter((s) => Date.parse(s.expiresAt) > now).map((s) => [s.hash, s]));
+  }
+
+  private persist() {
+    this.store.save(() => ({ users: [...this.users.values()], sessions: [...this.sessions.values()] }));
+  }
+
+  private toPublic(user: UserRecord): PublicUser {
+    return { id: user.id, username: user.username, createdAt: user.createdAt };
+  }
+
+  private findByUsername(username: string): UserRecord | undefined {
+    const wanted = username.trim().toLowerCase();
+    return [...this.users.values()].find((u) => u.username === wanted);
+  }
+
+  get userCount(): number {
+    return this.users.size;
+  }
+
+  getUser(id: string): PublicUser | null {
+    const user = this.users.get(id);
+    return user ? this.toPublic(user) : null;
+  }
+
+  register(username: string, password: string): PublicUser {
+    const name = (username || '').trim().toLowerCase();
+    if (!/^[a-z0-9_.-]{3,32}$/.test(name)) throw new AuthError('username must be 3-32 characters of letters, digits, _ . or -');
+    if (typeof password !== 'string' || password.length < 8) throw new AuthError('password must be at least 8 characters');
+    if (this.findByUsername(name)) throw new AuthError('username is already taken', 409);
+    const user: UserRecord = {
+      id: crypto.randomUUID(),
+      username: name,
+      passwordHash: hashPassword(password),
+      createdAt: new Date().toISOString(),
+      apiKeys: []
+    };
+    this.users.set(user.id, user);
+    this.persist();
+    return this.toPublic(user);
+  }
+
+  // returns a session token for the cookie
+  login(username: string, password: string): { user: PublicUser; token: string; expiresAt: string } {
+    const user = typeof username === 'string' ? this.findByUsername(username) : undefined;
+    if (!user || typeof password !== 'string' || !verifyPassword(password, user.passwordHash)) {
+      throw new AuthError('invalid username or password', 401);
+    }
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+    this.sessions.set(digest(token), { hash: digest(token), userId: user.id, expiresAt });
+    this.persist();
+    return { user: this.toPublic(user), token, expiresAt };
+  }
+
+  logout(token: string) {
+    if (this.sessions.delete(digest(token))) this.persist();
+  }
+
+  authenticateSession(token: string): PublicUser | null {
+    const session = this.sessions.get(digest(token));
+    if (!session) return null;
+    if (Date.parse(session.expiresAt) <= Date.now()) {
+      this.sessions.delete(session.hash);
+      this.persist();
+      return null;
+    }
+    return this.getUser(session.userId);
+  }
+
+  authenticateApiKey(key: string): PublicUser | null {
+    if (!key.startsWith(API_KEY_PREFIX)) return null;
+    const hash = digest(key);
+    for (const user of this.users.values()) {
+      const record = user.apiKeys.find((k) => k.hash === hash);
+      if (!record) continue;
+      record.lastUsedAt = new Date().toISOString();
+      this.persist();
+      return this.toPublic(user);
+    }
+    return null;
+  }
+
+  // the plain key is only returned here
+  createApiKey(userId: string, name?: string): { key: string; apiKey: Omit<ApiKeyRecord, 'hash'> } {
+    const user = this.users.get(userId);
+    if (!user) throw new AuthError('user not found', 404);
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      name: name?.trim() || 'api key',
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      hash: digest(key),
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null
+    };
+    user.apiKeys.push(record);
+    this.persist();
+    const { hash, ...apiKey } = record;
+    return { key, apiKey };
+  }
+
+  listApiKeys(userId: string): Omit<ApiKeyRecord, 'hash'>[] {
+    return (this.users.get(userId)?.apiKeys || []).map(({ hash, ...rest }) => rest);
+  }
+
+  revokeApiKey(userId: string, keyId: string): boolean {
+    const user = this.users.get(userId);
+    if (!user) return false;
+    const before = user.apiKeys.length;
+    user.apiKeys = user.apiKeys.filter((k) => k.id !== keyId);
+    if (user.apiKeys.length === before) return false;
+    this.persist();
+    return true;
+  }
+
+  flush(): Promise<void> {
+    return this.store.flush();
+  }
+}
@@ -0,0 +1,2 @@
+export * from './AuthService';
+export * from './middleware';
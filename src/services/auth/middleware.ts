@@ -0,0 +1,66 @@
+import express from 'express';
+import { sendError } from '../http/errors';
+import { AuthService, PublicUser } from './AuthService';
+
+export const SESSION_COOKIE = 'news_session';
+
+// a malformed value (bad percent-encoding) counts as no cookie rather than failing the request
+export function readCookie(req: express.Request, name: string): string | null {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key !== name) continue;
+    try {
+      return decodeURIComponent(value.join('='));
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+export function setSessionCookie(req: express.Request, res: express.Response, token: string, expiresAt: string) {
+  const maxAge = Math.max(Math.floor((Date.parse(expiresAt) - Date.now()) / 1000), 0);
+  const secure = req.secure ? '; Secure' : '';
+  res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${secure}`);
+}
+
+export function clearSessionCookie(res: express.Response) {
+  res.setHeader('Set-Cookie', `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`);
+}
+
+// resolves the user from a bearer api key or the session cookie into res.locals.user
+export function authenticate(auth: AuthService): express.RequestHandler {
+  return (req, res, next) => {
+    const header = req.headers.authorization || '';
+    const bearer = header.startsWith('Bearer ') ? header.slice(7).trim() : null;
+    const cookie = readCookie(req, SESSION_COOKIE);
+    res.locals.user = bearer ? auth.authenticateApiKey(bearer) : cookie ? auth.authenticateSession(cookie) : null;
+    next();
+  };
+}
+
+export function requireUser(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!res.locals.user) return sendError(res, 401, 'unauthorized', 'authentication required');
+  next();
+}
+
+// admins are listed by username in ADMIN_USERS
+export function adminUsers(env: NodeJS.ProcessEnv): string[] {
+  return (env.ADMIN_USERS || '').split(',').map((name) => name.trim()).filter(Boolean);
+}
+
+export function isAdmin(res: express.Response, usernames: string[]): boolean {
+  return !!res.locals.user && usernames.includes(currentUser(res).username);
+}
+
+// runs after requireUser
+export function requireAdmin(usernames: string[]): express.RequestHandler {
+  return (req, res, next) => {
+    if (!isAdmin(res, usernames)) return sendError(res, 403, 'forbidden', 'admin access required');
+    next();
+  };
+}
+
+export function currentUser(res: express.Response): PublicUser {
+  return res.locals.user as PublicUser;
+}
@@ -0,0 +1,263 @@
+import fs from 'fs';
+import path from 'path';
+import { codeForStatus, HttpError } from '../http/errors';
+import { JsonStore } from '../JsonStore';
+
+export interface CompanyRecord {
+  id: string;
+  name: string;
+  aliases: string[];
+  tickers: string[];
+  domains: string[];
+  // words that mark a different meaning of the name, e.g. "recipe" for Apple
+  negativeKeywords: string[];
+}
+
+export interface Company extends CompanyRecord {
+  // added or extended through the admin routes rather than bundled
+  custom: boolean;
+}
+
+export type CompanyMatch = 'name' | 'alias' | 'ticker' | 'domain';
+
+export interface CompanyResolution {
+  company: Company | null;
+  matchedBy: CompanyMatch | null;
+  // the newsapi query for the company, or the input itself when no company matched
+  query: string;
+}
+
+export interface CompanyAdditions {
+  aliases?: string[];
+  tickers?: string[];
+  domains?: string[];
+  negativeKeywords?: string[];
+}
+
+export interface CompanyInput extends CompanyAdditions {
+  id?: string;
+  name: string;
+}
+
+interface CustomState {
+  companies: CompanyRecord[];
+}
+
+// an HttpError so the express error handler answers with the matching status and code
+export class CompanyRegistryError extends HttpError {
+  constructor(message: string, status = 400) {
+    super(status, codeForStatus(status), message);
+    this.name = 'CompanyRegistryError';
+  }
+}
+
+export const BUNDLED_COMPANIES_FILE = path.join(__dirname, 'companies.json');
+
+// newsapi rejects q longer than 500 characters
+const MAX_QUERY_LENGTH = 500;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// merges string lists, keeping the first spelling of case-insensitive duplicates
+function union(...lists: string[][]): string[] {
+  const seen = new Map<string, string>();
+  for (const value of lists.flat().map((v) => v.trim()).filter(Boolean)) {
+    if (!seen.has(value.toLowerCase())) seen.set(value.toLowerCase(), value);
+  }
+  return [...seen.values()];
+}
+
+// "$AAPL", "NASDAQ:AAPL" and "aapl" all mean AAPL
+export function normalizeTicker(input: string): string {
+  return input.trim().replace(/^[A-Za-z ]+:\s*/, '').replace(/^\$/, '').toUpperCase();
+}
+
+// "https://www.apple.com/newsroom" => apple.com
+export function normalizeDomain(input: string): string {
+  return input.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/[/?#].*$/, '').replace(/^www\./, '');
+}
+
+// quotes anything that is not a single plain word so newsapi treats it as a phrase
+function queryTerm(term: string): string {
+  return /^[\p{L}\p{N}]+$/u.test(term) ? term : `"${term.replace(/"/g, '')}"`;
+}
+
+// builds a boolean newsapi query from a company's names: (Meta OR Facebook OR Instagram) NOT recipe.
+// names that contain another name as a whole word add nothing to an OR and are left out, and
+// exclusions then aliases are dropped from the end when the query would be too long
+export function buildCompanyQuery(company: CompanyRecord): string {
+  const names = union([company.name], company.aliases);
+  const contains = (longer: string, shorter: string) =>
+    longer.length > shorter.length && new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(shorter)}(?![\\p{L}\\p{N}])`, 'iu').test(longer);
+  let terms = names.filter((name) => !names.some((other) => contains(name, other))).map(queryTerm);
+  let excluded = union(company.negativeKeywords).map(queryTerm);
+  const render = () => {
+    const included = terms.length > 1 ? `(${terms.join(' OR ')})` : terms[0];
+    return [included, ...excluded.map((term) => `NOT ${term}`)].join(' ');
+  };
+  while (render().length > MAX_QUERY_LENGTH && excluded.length > 0) excluded = excluded.slice(0, -1);
+  while (render().length > MAX_QUERY_LENGTH && terms.length > 1) terms = terms.slice(0, -1);
+  return render();
+}
+
+// bundled company names, aliases, tickers and domains plus custom additions kept in DATA_DIR.
+// resolves what a user typed (a name, alias, ticker or website) to a company and its query
+export class CompanyRegistry {
+  private bundled: Map<string, CompanyRecord>;
+  private custom: Map<string, CompanyRecord>;
+  private store: JsonStore<CustomState>;
+  private companies = new Map<string, Company>();
+  private byName = new Map<string, string>();
+  private byTicker = new Map<string, string>();
+  private byDomain = new Map<string, string>();
+
+  constructor(filePath?: string, bundledFile = BUNDLED_COMPANIES_FILE) {
+    const bundled: CustomState = JSON.parse(fs.readFileSync(bundledFile, 'utf8'));
+    this.bundled = new Map(bundled.companies.map((c) => [c.id, c]));
+    this.store = new JsonStore(filePath);
+    this.custom = new Map(this.store.load({ companies: [] }).companies.map((c) => [c.id, c]));
+    this.reindex();
+  }
+
+  private reindex() {
+    this.companies.clear();
+    this.byName.clear();
+    this.byTicker.clear();
+    this.byDomain.clear();
+    for (const id of new Set([...this.bundled.keys(), ...this.custom.keys()])) {
+      const base = this.bundled.get(id);
+      const extra = this.custom.get(id);
+      const record = base && extra ? {
+        ...base,
+        aliases: union(base.aliases, extra.aliases),
+        tickers: union(base.tickers, extra.tickers),
+        domains: union(base.domains, extra.domains),
+        negativeKeywords: union(base.negativeKeywords, extra.negativeKeywords)
+      } : (base || extra)!;
+      this.companies.set(id, { ...record, custom: !!extra });
+      // the first company to claim a name keeps it
+      for (const name of [id, record.name, ...record.aliases]) {
+        if (!this.byName.has(name.toLowerCase())) this.byName.set(name.toLowerCase(), id);
+      }
+      for (const ticker of record.tickers) {
+        if (!this.byTicker.has(ticker.toUpperCase())) this.byTicker.set(ticker.toUpperCase(), id);
+      }
+      for (const domain of record.domains) {
+        if (!this.byDomain.has(normalizeDomain(domain))) this.byDomain.set(normalizeDomain(domain), id);
+      }
+    }
+  }
+
+  private persist() {
+    this.store.save(() => ({ companies: [...this.custom.values()] }));
+  }
+
+  list(q?: string): Company[] {
+    const needle = q?.trim().toLowerCase();
+    const companies = [...this.companies.values()].filter((company) => !needle ||
+      [company.name, ...company.aliases, ...company.tickers].some((name) => name.toLowerCase().includes(needle)));
+    return companies.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get(id: string): Company | null {
+    return this.companies.get(id) || null;
+  }
+
+  // a name or alias, then a ticker, then a website domain or any of its subdomains
+  resolve(input: string): { company: Company; matchedBy: CompanyMatch } | null {
+    const value = input.trim();
+    if (!value) return null;
+    const named = this.byName.get(value.toLowerCase());
+    if (named) {
+      const company = this.companies.get(named)!;
+      const isName = value.toLowerCase() === company.name.toLowerCase() || value.toLowerCase() === company.id;
+      return { company, matchedBy: isName ? 'name' : 'alias' };
+    }
+    const ticker = normalizeTicker(value);
+    // single-letter tickers (Visa is V) only when written as one, so "v" is not a company
+    const looksLikeTicker = /^[A-Z0-9]{1,6}(\.[A-Z]{1,2})?$/.test(ticker) && (ticker.length > 1 || /^(\$|[A-Za-z ]+:\s*)?[A-Z]$/.test(value));
+    if (looksLikeTicker && this.byTicker.has(ticker)) return { company: this.companies.get(this.byTicker.get(ticker)!)!, matchedBy: 'ticker' };
+    if (value.includes('.') && !/\s/.test(value)) {
+      const labels = normalizeDomain(value).split('.');
+      for (let i = 0; i < labels.length - 1; i++) {
+        const id = this.byDomain.get(labels.slice(i).join('.'));
+        if (id) return { company: this.companies.get(id)!, matchedBy: 'domain' };
+      }
+    }
+    return null;
+  }
+
+  // the company behind what the user typed and the query to search for it; unknown names are
+  // searched for verbatim
+  resolveQuery(input: string): CompanyResolution {
+    const match = this.resolve(input);
+    if (!match) return { company: null, matchedBy: null, query: input.trim() };
+    return { ...match, query: buildCompanyQuery(match.company) };
+  }
+
+  private checkUnclaimed(id: string, additions: CompanyAdditions & { name?: string }) {
+    for (const name of [...(additions.name ? [additions.name] : []), ...(additions.aliases || [])]) {
+      const owner = this.byName.get(name.trim().toLowerCase());
+      if (owner && owner !== id) throw new CompanyRegistryError(`"${name.trim()}" already names ${this.companies.get(owner)!.name}`, 409);
+    }
+    for (const ticker of additions.tickers || []) {
+      const owner = this.byTicker.get(normalizeTicker(ticker));
+      if (owner && owner !== id) throw new CompanyRegistryError(`ticker ${normalizeTicker(ticker)} already belongs to ${this.companies.get(owner)!.name}`, 409);
+    }
+  }
+
+  addCompany(input: CompanyInput): Company {
+    const name = input.name.trim();
+    const id = slugify(input.id || name);
+    if (!name || !id) throw new CompanyRegistryError('company name is required');
+    if (this.companies.has(id)) throw new CompanyRegistryError(`company ${id} already exists`, 409);
+    this.checkUnclaimed(id, input);
+    this.custom.set(id, {
+      id,
+      name,
+      aliases: union(input.aliases || []),
+      tickers: union((input.tickers || []).map(normalizeTicker)),
+      domains: union((input.domains || []).map(normalizeDomain)),
+      negativeKeywords: union(input.negativeKeywords || [])
+    });
+    this.reindex();
+    this.persist();
+    return this.companies.get(id)!;
+  }
+
+  // extends a bundled or custom company; bundled entries keep their additions separately
+  addAliases(id: string, additions: CompanyAdditions): Company {
+    const company = this.companies.get(id);
+    if (!company) throw new CompanyRegistryError('company not found', 404);
+    this.checkUnclaimed(id, additions);
+    const existing = this.custom.get(id) || { id, name: company.name, aliases: [], tickers: [], domains: [], negativeKeywords: [] };
+    this.custom.set(id, {
+      ...existing,
+      aliases: union(existing.aliases, additions.aliases || []),
+      tickers: union(existing.tickers, (additions.tickers || []).map(normalizeTicker)),
+      domains: union(existing.domains, (additions.domains || []).map(normalizeDomain)),
+      negativeKeywords: union(existing.negativeKeywords, additions.negativeKeywords || [])
+    });
+    this.reindex();
+    this.persist();
+    return this.companies.get(id)!;
+  }
+
+  // deletes a custom company, or the custom additions to a bundled one
+  removeCustom(id: string): boolean {
+    if (!this.custom.delete(id)) return false;
+    this.reindex();
+    this.persist();
+    return true;
+  }
+
+  flush(): Promise<void> {
+    return this.store.flush();
+  }
+}
@@ -0,0 +1,9 @@
+import { dataPath } from '../JsonStore';
+import { CompanyRegistry } from './CompanyRegistry';
+
+export * from './CompanyRegistry';
+
+// the bundled registry plus custom aliases kept in DATA_DIR/companies.json
+export function createCompanyRegistry(env: NodeJS.ProcessEnv = process.env): CompanyRegistry {
+  return new CompanyRegistry(dataPath('companies.json', env));
+}
@@ -0,0 +1,178 @@
+import axios, { LookupAddressEntry } from 'axios';
+import dns from 'dns';
+import net from 'net';
+import { logger } from '../observability';
+import { NormalizedArticle } from '../providers';
+import { ArticleEntities, recognizeEntities } from './EntityRecognizer';
+import { extractArticleText } from './TextExtractor';
+
+export const ENRICH_MODES = ['basic', 'full'] as const;
+export type EnrichMode = typeof ENRICH_MODES[number];
+
+export interface ArticleEnrichment {
+  fullText?: string;
+  textSource: 'page' | 'content' | 'description';
+  wordCount: number;
+  readingTimeMinutes: number;
+  entities: ArticleEntities;
+}
+
+export interface ArticleEnricherOptions {
+  // downloads a page's html; replaced in tests to read local fixtures
+  fetchPage?: (url: string) => Promise<string>;
+  timeoutMs?: number;
+  concurrency?: number;
+  maxPages?: number;
+  cacheSize?: number;
+}
+
+const WORDS_PER_MINUTE = 230;
+// average english word plus the space after it, for sizing text newsapi cut off
+const CHARS_PER_WORD = 6;
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// newsapi cuts content to ~200 characters and appends "… [+1234 chars]"
+const TRUNCATION_MARKER = /\s*…?\s*\[\+(\d+) chars\]\s*$/;
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+export function readingTimeMinutes(wordCount: number): number {
+  return Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE));
+}
+
+// the best text the provider gave us, and how much of it newsapi held back
+function providedText(article: NormalizedArticle): { text: string; source: 'content' | 'description'; hiddenChars: number } {
+  const marker = article.content.match(TRUNCATION_MARKER);
+  const content = article.content.replace(TRUNCATION_MARKER, '').trim();
+  if (content && content !== article.description) return { text: content, source: 'content', hiddenChars: marker ? Number(marker[1]) : 0 };
+  return { text: article.description, source: 'description', hiddenChars: 0 };
+}
+
+// loopback, private, link-local, shared, reserved and multicast ranges an article url must never reach
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  // the block list also matches ipv4-mapped ipv6 addresses (::ffff:127.0.0.1) against the ipv4 ranges
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// resolves every address of the host and fails when any of them is not public, so the connection
+// goes to an address that was checked
+async function publicLookup(hostname: string): Promise<[LookupAddressEntry[]]> {
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  const blocked = addresses.find((a) => !isPublicAddress(a.address));
+  if (blocked) throw new Error(`${hostname} resolves to a non-public address (${blocked.address})`);
+  return [addresses.map((a) => ({ address: a.address, family: a.family === 6 ? 6 : 4 }))];
+}
+
+// fetches an article page, following redirects by hand so every hop gets the same address checks
+async function downloadPage(url: string, timeoutMs: number): Promise<string> {
+  let target = new URL(url);
+  for (let hop = 0; ; hop++) {
+    if (!/^https?:$/.test(target.protocol)) throw new Error(`refusing to fetch ${target.protocol} url`);
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    // ip literals never go through the lookup
+    if (net.isIP(host) && !isPublicAddress(host)) throw new Error(`refusing to fetch non-public address ${host}`);
+    const response = await axios.get<string>(target.href, {
+      responseType: 'text',
+      timeout: timeoutMs,
+      maxContentLength: MAX_PAGE_BYTES,
+      maxRedirects: 0,
+      // a proxy would resolve the host itself, past the lookup check
+      proxy: false,
+      lookup: publicLookup,
+      validateStatus: (status) => status >= 200 && status < 400,
+      headers: { Accept: 'text/html,application/xhtml+xml' }
+    });
+    const location = response.headers.location;
+    if (response.status >= 300 && location) {
+      if (hop >= MAX_REDIRECTS) throw new Error(`more than ${MAX_REDIRECTS} redirects`);
+      target = new URL(String(location), target);
+      continue;
+    }
+    const type = String(response.headers['content-type'] || '');
+    if (type && !type.includes('html')) throw new Error(`not an html page: ${type}`);
+    return String(response.data);
+  }
+}
+
+// adds word count, reading time and recognized entities to articles, and in full mode the text
+// extracted from each article's page. extracted pages are kept in a small in-memory cache
+export class ArticleEnricher {
+  private fetchPage: (url: string) => Promise<string>;
+  private concurrency: number;
+  private maxPages: number;
+  private cacheSize: number;
+  // url => extracted text, null when the page had no readable text
+  private pages = new Map<string, string | null>();
+
+  constructor(options: ArticleEnricherOptions = {}) {
+    const timeoutMs = options.timeoutMs ?? 8000;
+    this.fetchPage = options.fetchPage || ((url) => downloadPage(url, timeoutMs));
+    this.concurrency = Math.max(options.concurrency ?? 4, 1);
+    this.maxPages = options.maxPages ?? 20;
+    this.cacheSize = options.cacheSize ?? 500;
+  }
+
+  async enrich<T extends NormalizedArticle>(articles: T[], mode: EnrichMode): Promise<(T & ArticleEnrichment)[]> {
+    const pageTexts = mode === 'full' ? await this.extractPages(articles.slice(0, this.maxPages).map((a) => a.url)) : new Map<string, string | null>();
+    return articles.map((article) => ({ ...article, ...this.enrichOne(article, pageTexts.get(article.url) ?? null) }));
+  }
+
+  private enrichOne(article: NormalizedArticle, pageText: string | null): ArticleEnrichment {
+    const provided = providedText(article);
+    const providedWords = countWords(provided.text) + Math.round(provided.hiddenChars / CHARS_PER_WORD);
+    // a page that yields less than the provider's snippet was most likely a paywall or consent wall
+    const usePage = pageText !== null && countWords(pageText) > countWords(provided.text);
+    const body = usePage ? pageText! : provided.text;
+    const wordCount = usePage ? countWords(pageText!) : providedWords;
+    return {
+      ...(usePage ? { fullText: pageText! } : {}),
+      textSource: usePage ? 'page' : provided.source,
+      wordCount,
+      readingTimeMinutes: readingTimeMinutes(wordCount),
+      entities: recognizeEntities(`${article.title}\n${article.description}\n${body}`)
+    };
+  }
+
+  private async extractPages(urls: string[]): Promise<Map<string, string | null>> {
+    const pending = [...new Set(urls.filter((url) => /^https?:\/\//i.test(url)))];
+    const results = new Map<string, string | null>();
+    const worker = async () => {
+      for (let url = pending.shift(); url !== undefined; url = pending.shift()) {
+        results.set(url, await this.extractPage(url));
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, pending.length) }, worker));
+    return results;
+  }
+
+  private async extractPage(url: string): Promise<string | null> {
+    if (this.pages.has(url)) return this.pages.get(url)!;
+    let text: string | null;
+    try {
+      text = extractArticleText(await this.fetchPage(url)).text || null;
+    } catch (error: any) {
+      // not cached: a timeout or a 503 may well succeed next time
+      logger.warn('article page fetch failed', { url, message: error.message });
+      return null;
+    }
+    this.pages.set(url, text);
+    if (this.pages.size > this.cacheSize) this.pages.delete(this.pages.keys().next().value!);
+    return text;
+  }
+}
@@ -0,0 +1,156 @@
+export interface ArticleEntities {
+  people: string[];
+  organizations: string[];
+  tickers: string[];
+}
+
+interface DictionaryEntry {
+  name: string;
+  aliases?: string[];
+  ticker?: string;
+}
+
+// organizations the agent is asked about most, with the names headlines use for them
+const ORGANIZATIONS: DictionaryEntry[] = [
+  { name: 'Apple', aliases: ['Apple Inc'], ticker: 'AAPL' },
+  { name: 'Microsoft', aliases: ['Microsoft Corp'], ticker: 'MSFT' },
+  { name: 'Google', aliases: ['Alphabet'], ticker: 'GOOGL' },
+  { name: 'Amazon', aliases: ['Amazon.com', 'AWS', 'Amazon Web Services'], ticker: 'AMZN' },
+  { name: 'Meta', aliases: ['Meta Platforms', 'Facebook', 'Instagram', 'WhatsApp'], ticker: 'META' },
+  { name: 'Nvidia', aliases: ['NVIDIA'], ticker: 'NVDA' },
+  { name: 'Tesla', aliases: ['Tesla Inc'], ticker: 'TSLA' },
+  { name: 'Netflix', ticker: 'NFLX' },
+  { name: 'Intel', aliases: ['Intel Corp'], ticker: 'INTC' },
+  { name: 'AMD', aliases: ['Advanced Micro Devices'], ticker: 'AMD' },
+  { name: 'Qualcomm', ticker: 'QCOM' },
+  { name: 'Broadcom', ticker: 'AVGO' },
+  { name: 'TSMC', aliases: ['Taiwan Semiconductor'], ticker: 'TSM' },
+  { name: 'Samsung', aliases: ['Samsung Electronics'] },
+  { name: 'IBM', ticker: 'IBM' },
+  { name: 'Oracle', ticker: 'ORCL' },
+  { name: 'Salesforce', ticker: 'CRM' },
+  { name: 'Adobe', ticker: 'ADBE' },
+  { name: 'Cisco', ticker: 'CSCO' },
+  { name: 'Uber', ticker: 'UBER' },
+  { name: 'Airbnb', ticker: 'ABNB' },
+  { name: 'Spotify', ticker: 'SPOT' },
+  { name: 'PayPal', ticker: 'PYPL' },
+  { name: 'Visa', ticker: 'V' },
+  { name: 'Mastercard', ticker: 'MA' },
+  { name: 'JPMorgan Chase', aliases: ['JPMorgan', 'JP Morgan'], ticker: 'JPM' },
+  { name: 'Goldman Sachs', ticker: 'GS' },
+  { name: 'Morgan Stanley', ticker: 'MS' },
+  { name: 'Bank of America', ticker: 'BAC' },
+  { name: 'Berkshire Hathaway', ticker: 'BRK.B' },
+  { name: 'Walmart', ticker: 'WMT' },
+  { name: 'Disney', aliases: ['Walt Disney'], ticker: 'DIS' },
+  { name: 'Boeing', ticker: 'BA' },
+  { name: 'Airbus', ticker: 'AIR.PA' },
+  { name: 'Siemens', ticker: 'SIE.DE' },
+  { name: 'Toyota', aliases: ['Toyota Motor'], ticker: 'TM' },
+  { name: 'Volkswagen', aliases: ['VW'], ticker: 'VOW3.DE' },
+  { name: 'Sony', ticker: 'SONY' },
+  { name: 'Pfizer', ticker: 'PFE' },
+  { name: 'Moderna', ticker: 'MRNA' },
+  { name: 'ExxonMobil', aliases: ['Exxon', 'Exxon Mobil'], ticker: 'XOM' },
+  { name: 'Shell', ticker: 'SHEL' },
+  { name: 'OpenAI' },
+  { name: 'Anthropic' },
+  { name: 'SpaceX' },
+  { name: 'Stripe' },
+  { name: 'Federal Reserve', aliases: ['the Fed'] },
+  { name: 'European Central Bank', aliases: ['ECB'] },
+  { name: 'SEC', aliases: ['Securities and Exchange Commission'] },
+  { name: 'FTC', aliases: ['Federal Trade Commission'] },
+  { name: 'European Commission' }
+];
+
+const PEOPLE: DictionaryEntry[] = [
+  { name: 'Tim Cook' },
+  { name: 'Satya Nadella' },
+  { name: 'Sundar Pichai' },
+  { name: 'Andy Jassy' },
+  { name: 'Jeff Bezos', aliases: ['Bezos'] },
+  { name: 'Mark Zuckerberg', aliases: ['Zuckerberg'] },
+  { name: 'Jensen Huang' },
+  { name: 'Elon Musk', aliases: ['Musk'] },
+  { name: 'Lisa Su' },
+  { name: 'Sam Altman', aliases: ['Altman'] },
+  { name: 'Dario Amodei' },
+  { name: 'Warren Buffett', aliases: ['Buffett'] },
+  { name: 'Jamie Dimon', aliases: ['Dimon'] },
+  { name: 'Jerome Powell', aliases: ['Powell'] },
+  { name: 'Christine Lagarde', aliases: ['Lagarde'] },
+  { name: 'Janet Yellen', aliases: ['Yellen'] },
+  { name: 'Bill Gates' },
+  { name: 'Reed Hastings' },
+  { name: 'Marc Benioff', aliases: ['Benioff'] },
+  { name: 'Pat Gelsinger', aliases: ['Gelsinger'] },
+  { name: 'Mary Barra' },
+  { name: 'Bob Iger', aliases: ['Iger'] }
+];
+
+// "chief executive Jane Doe", "CEO Jane Doe": the name after a title is a person even when
+// the dictionary does not know them
+const TITLED_PERSON = /\b(?:CEO|CFO|COO|CTO|[Cc]hief [Ee]xecutive|[Cc]hief [Ff]inancial [Oo]fficer|[Cc]hair(?:man|woman)?|[Pp]resident|[Ff]ounder|[Mm]inister|[Ss]enator|[Gg]overnor)\s+([A-Z][a-z'’-]+\s(?:[A-Z]\.\s)?[A-Z][a-z'’-]+)/g;
+
+// $AAPL cashtags and "(NASDAQ: AAPL)"-style exchange listings
+const CASHTAG = /(?<![\w$])\$([A-Z]{1,5}(?:\.[A-Z]{1,2})?)\b/g;
+const EXCHANGE_LISTING = /\b(?:NASDAQ|NYSE|NYSE American|LSE|TSX|XETRA|ASX)\s*:\s*([A-Z]{1,5}(?:\.[A-Z]{1,2})?)\b/g;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// one case-sensitive pattern per entry, matching any of its names as whole words
+function compile(entries: DictionaryEntry[]) {
+  return entries.map((entry) => ({
+    entry,
+    pattern: new RegExp(`(?<![\\w.])(?:${[entry.name, ...(entry.aliases || [])].map(escapeRegExp).join('|')})(?![\\w])`, 'g')
+  }));
+}
+
+const ORGANIZATION_PATTERNS = compile(ORGANIZATIONS);
+const PERSON_PATTERNS = compile(PEOPLE);
+const ORGANIZATION_BY_TICKER = new Map(ORGANIZATIONS.filter((o) => o.ticker).map((o) => [o.ticker!, o]));
+
+function ranked(counts: Map<string, number>): string[] {
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+}
+
+function bump(counts: Map<string, number>, key: string, by = 1) {
+  counts.set(key, (counts.get(key) || 0) + by);
+}
+
+// finds people, organizations and tickers in article text with the local dictionaries above plus
+// a few patterns, most mentioned first. tickers cover explicit listings and the dictionary
+// tickers of recognized organizations
+export function recognizeEntities(text: string): ArticleEntities {
+  const people = new Map<string, number>();
+  const organizations = new Map<string, number>();
+  const tickers = new Map<string, number>();
+
+  for (const { entry, pattern } of ORGANIZATION_PATTERNS) {
+    const mentions = text.match(pattern)?.length || 0;
+    if (mentions === 0) continue;
+    bump(organizations, entry.name, mentions);
+    if (entry.ticker) bump(tickers, entry.ticker, mentions);
+  }
+  for (const { entry, pattern } of PERSON_PATTERNS) {
+    const mentions = text.match(pattern)?.length || 0;
+    if (mentions > 0) bump(people, entry.name, mentions);
+  }
+  for (const match of text.matchAll(TITLED_PERSON)) {
+    const name = match[1].trim();
+    // dictionary people are already counted by their own pattern
+    if (!PEOPLE.some((person) => person.name === name)) bump(people, name);
+  }
+  for (const match of [...text.matchAll(CASHTAG), ...text.matchAll(EXCHANGE_LISTING)]) {
+    const ticker = match[1];
+    bump(tickers, ticker);
+    const organization = ORGANIZATION_BY_TICKER.get(ticker);
+    if (organization && !organizations.has(organization.name)) bump(organizations, organization.name);
+  }
+
+  return { people: ranked(people).slice(0, 10), organizations: ranked(organizations).slice(0, 10), tickers: ranked(tickers).slice(0, 10) };
+}
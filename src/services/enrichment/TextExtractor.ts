@@ -0,0 +1,77 @@
+export interface ExtractedText {
+  title: string;
+  text: string;
+  paragraphs: number;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', hellip: '…',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»', euro: '€', pound: '£', copy: '©', reg: '®', trade: '™'
+};
+
+// elements that never hold article text
+const NOISE_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'form', 'button', 'select', 'nav', 'header', 'footer', 'aside', 'figure'];
+
+// paragraphs that are page furniture rather than reporting
+const BOILERPLATE = /^(advertisement|sponsored|related:|read more|see also|sign up|subscribe|share this|follow us|click here)|all rights reserved|cookie|newsletter|(sign|log) in to|subscribe (now|today)|reporting by .{0,60}editing by/i;
+
+const MIN_PARAGRAPH_CHARS = 40;
+
+export function decodeEntities(raw: string): string {
+  return raw
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&([a-z]+);/gi, (match, name) => ENTITIES[name.toLowerCase()] ?? match);
+}
+
+function toText(fragment: string): string {
+  return decodeEntities(fragment.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function stripNoise(html: string): string {
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const name of NOISE_ELEMENTS) {
+    cleaned = cleaned.replace(new RegExp(`<${name}\\b[\\s\\S]*?</${name}>`, 'gi'), ' ');
+  }
+  return cleaned;
+}
+
+function pageTitle(html: string): string {
+  const meta = html.match(/<meta\b[^>]*property=["']og:title["'][^>]*>/i)?.[0].match(/content=["']([^"']*)["']/i);
+  if (meta) return toText(meta[1]);
+  const heading = html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i);
+  if (heading) return toText(heading[1]);
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  return title ? toText(title[1]) : '';
+}
+
+function paragraphsOf(fragment: string): string[] {
+  const blocks = [...fragment.matchAll(/<(p|blockquote|li|pre)\b[^>]*>([\s\S]*?)<\/\1>/gi)].map((m) => toText(m[2]));
+  return blocks.filter((text) => text.length >= MIN_PARAGRAPH_CHARS && !BOILERPLATE.test(text));
+}
+
+// the <article> (or <main>, or body) with the most paragraph text, since pages often carry
+// teaser <article>s for related stories next to the real one
+function mainContent(html: string): string {
+  const blocks = (name: string) => [...html.matchAll(new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`, 'gi'))].map((m) => m[1]);
+  const candidates = [...blocks('article'), ...blocks('main')];
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  const textLength = (fragment: string) => paragraphsOf(fragment).reduce((sum, p) => sum + p.length, 0);
+  const best = candidates.sort((a, b) => textLength(b) - textLength(a))[0];
+  return best && textLength(best) > 0 ? best : body;
+}
+
+// pulls the readable article text out of a news page: drops scripts, navigation and other
+// page furniture, then keeps the substantial paragraphs of the main content block
+export function extractArticleText(html: string): ExtractedText {
+  const title = pageTitle(html);
+  const seen = new Set<string>();
+  const paragraphs = paragraphsOf(mainContent(stripNoise(html))).filter((p) => {
+    if (seen.has(p) || p === title) return false;
+    seen.add(p);
+    return true;
+  });
+  return { title, text: paragraphs.join('\n\n'), paragraphs: paragraphs.length };
+}
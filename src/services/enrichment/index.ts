@@ -0,0 +1,15 @@
+import { ArticleEnricher } from './ArticleEnricher';
+
+export * from './ArticleEnricher';
+export * from './EntityRecognizer';
+export * from './TextExtractor';
+
+// builds the enricher from ENRICH_* settings
+export function createArticleEnricher(env: NodeJS.ProcessEnv = process.env): ArticleEnricher {
+  const number = (value: string | undefined) => (value && !isNaN(Number(value)) ? Number(value) : undefined);
+  return new ArticleEnricher({
+    timeoutMs: number(env.ENRICH_FETCH_TIMEOUT_MS),
+    concurrency: number(env.ENRICH_FETCH_CONCURRENCY),
+    maxPages: number(env.ENRICH_MAX_PAGES)
+  });
+}
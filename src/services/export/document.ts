@@ -0,0 +1,195 @@
+import { z } from 'zod';
+import { NewsBrief } from '../BriefStore';
+import { Digest } from '../DigestService';
+import { ArticleEnrichment } from '../enrichment';
+import { NormalizedArticle } from '../providers';
+import {
+  compareCompaniesOutput, compareCompanyCoverageOutput, getCompanySentimentOutput, getGlobalHeadlinesOutput, getIndustryPulseOutput,
+  getMarketMovingEventsOutput
+} from '../schemas';
+
+// format-neutral shape every export is built into before rendering
+export interface ExportItem {
+  id: string;
+  title: string;
+  url: string;
+  source: string;
+  publishedAt: string;
+  author: string;
+  summary: string;
+  tags: string[];
+  links: string[];
+}
+
+export interface ExportSection {
+  heading: string;
+  // free text such as an agent-written summary, kept as markdown
+  text?: string;
+  facts: { label: string; value: string }[];
+  items: ExportItem[];
+}
+
+export interface ExportDocument {
+  title: string;
+  description: string;
+  generatedAt: string;
+  sections: ExportSection[];
+}
+
+type Headline = { title: string; source: string; publishedAt: string; url: string };
+
+// enriched articles also carry the people, organizations and tickers they mention as tags
+export function articleItem(article: NormalizedArticle & Partial<ArticleEnrichment>, tags: string[] = []): ExportItem {
+  const entities = article.entities ? [...article.entities.organizations, ...article.entities.people, ...article.entities.tickers.map((t) => `$${t}`)] : [];
+  return {
+    id: article.url,
+    title: article.title,
+    url: article.url,
+    source: article.source,
+    publishedAt: article.publishedAt,
+    author: article.author || '',
+    summary: article.description || '',
+    tags: [...tags, ...entities],
+    links: []
+  };
+}
+
+function headlineItem(headline: Headline, summary = '', tags: string[] = []): ExportItem {
+  return articleItem({ ...headline, description: summary, author: '', content: '' }, tags);
+}
+
+export function briefItem(brief: NewsBrief): ExportItem {
+  const firstSentence = brief.summary.split(/(?<=[.!?])\s/)[0];
+  return {
+    id: brief.id,
+    title: firstSentence.length > 120 ? `${firstSentence.slice(0, 117)}...` : firstSentence,
+    url: brief.sourceUrls[0] || '',
+    source: `${brief.priority} priority brief`,
+    publishedAt: brief.timestamp,
+    author: '',
+    summary: brief.summary,
+    tags: brief.tags,
+    links: brief.sourceUrls
+  };
+}
+
+function createDocument(title: string, description: string, sections: ExportSection[]): ExportDocument {
+  return { title, description, generatedAt: new Date().toISOString(), sections };
+}
+
+function section(heading: string, items: ExportItem[], facts: [string, string | number][] = []): ExportSection {
+  return { heading, items, facts: facts.map(([label, value]) => ({ label, value: String(value) })) };
+}
+
+function sentimentFact(sentiment: z.infer<typeof getCompanySentimentOutput>['sentiment']): string {
+  return `${sentiment.averageScore} average (${sentiment.positive} positive, ${sentiment.neutral} neutral, ${sentiment.negative} negative)`;
+}
+
+export function articlesDocument(title: string, articles: NormalizedArticle[], description = ''): ExportDocument {
+  return createDocument(title, description, [section('Articles', articles.map((a) => articleItem(a)))]);
+}
+
+export function briefsDocument(title: string, briefs: NewsBrief[]): ExportDocument {
+  return createDocument(title, `${briefs.length} news brief${briefs.length === 1 ? '' : 's'}`, [section('Briefs', briefs.map(briefItem))]);
+}
+
+export function globalHeadlinesDocument(result: z.infer<typeof getGlobalHeadlinesOutput>): ExportDocument {
+  const label = (r: { type: string; code: string }) => `${r.type === 'country' ? 'country' : 'language'} ${r.code}`;
+  const facts = result.regions.map((r): [string, string] => [
+    label(r),
+    r.error ? `failed: ${r.error.message}` : `${r.totalResults} results, ${r.fetched} fetched, ${r.unique} only here`
+  ]);
+  const items = result.articles.map((a) => articleItem(
+    { ...a, description: a.description || '', author: a.author || '', content: '' },
+    [...a.countries, ...a.languages.map((l) => `lang:${l}`)]
+  ));
+  return createDocument('Global headlines', `merged from ${result.regions.map(label).join(', ')}`, [section('Articles', items, facts)]);
+}
+
+export function industryPulseDocument(pulse: z.infer<typeof getIndustryPulseOutput>): ExportDocument {
+  const facts: [string, string | number][] = [
+    ['Window', `${pulse.windowDays} days`],
+    ['Articles', pulse.totalResults],
+    ['Top sources', pulse.topSources.map((s) => `${s.source} (${s.count})`).join(', ')],
+    ['Top keywords', pulse.topKeywords.map((k) => `${k.keyword} (${k.count})`).join(', ')]
+  ];
+  if (pulse.storyCount !== undefined) facts.splice(2, 0, ['Stories', pulse.storyCount]);
+  if (pulse.sample && !pulse.sample.complete) facts.push(['Sample', `newest ${pulse.sample.articles} of ${pulse.sample.totalResults} articles, since ${pulse.sample.coveredFrom}`]);
+  if (pulse.trending?.keywords.length) facts.push(['Trending up', pulse.trending.keywords.map((k) => k.term).join(', ')]);
+  const headlines = pulse.notableHeadlines.map((h) => headlineItem(h, h.coverageCount ? `carried by ${h.coverageCount} outlets` : ''));
+  return createDocument(`Industry pulse: ${pulse.industry}`, `coverage of ${pulse.industry} over the last ${pulse.windowDays} days`, [
+    section('Notable headlines', headlines, facts)
+  ]);
+}
+
+export function companySentimentDocument(result: z.infer<typeof getCompanySentimentOutput>): ExportDocument {
+  const scored = (headlines: typeof result.mostPositive) =>
+    headlines.map((h) => headlineItem({ ...h, publishedAt: '' }, `sentiment score ${h.score}`));
+  return createDocument(`Sentiment: ${result.company}`, `headline sentiment for ${result.company} over the last ${result.windowDays} days`, [
+    section('Most positive', scored(result.mostPositive), [['Articles', result.sentiment.articles], ['Sentiment', sentimentFact(result.sentiment)]]),
+    section('Most negative', scored(result.mostNegative))
+  ]);
+}
+
+export function companyComparisonDocument(result: z.infer<typeof compareCompaniesOutput>): ExportDocument {
+  const names = result.companies.map((c) => c.name);
+  const sections = result.companies.map((company) => section(company.name, company.recentHeadlines.map((h) => headlineItem(h, '', [company.name])), [
+    ['Articles', company.totalResults],
+    ['Share of voice', `${company.shareOfVoice}%`],
+    ['Sentiment', sentimentFact(company.sentiment)],
+    ['Top sources', company.topSources.map((s) => `${s.source} (${s.count})`).join(', ')],
+    ['Distinctive keywords', company.distinctiveKeywords.map((k) => k.keyword).join(', ')]
+  ]));
+  sections.push(section('Stories covering several companies', result.overlappingStories.map((s) =>
+    headlineItem({ title: s.headline, source: s.source, publishedAt: s.publishedAt, url: s.url }, `${s.articleCount} articles, mentions ${s.companies.join(', ')}`, s.companies)
+  )));
+  return createDocument(`Competitive landscape: ${names.join(', ')}`, `coverage over the last ${result.windowDays} days`, sections);
+}
+
+export function coverageComparisonDocument(result: z.infer<typeof compareCompanyCoverageOutput>): ExportDocument {
+  const companySection = (company: typeof result.companyA) => section(company.name, company.recentHeadlines.map((h) => headlineItem(h, '', [company.name])), [
+    ['Articles', company.totalResults],
+    ['Sentiment', sentimentFact(company.sentiment)]
+  ]);
+  return createDocument(
+    `Coverage: ${result.companyA.name} vs ${result.companyB.name}`,
+    `coverage over the last ${result.windowDays} days, difference ${result.deltaCoverage} articles`,
+    [companySection(result.companyA), companySection(result.companyB)]
+  );
+}
+
+export function marketMoversDocument(result: z.infer<typeof getMarketMovingEventsOutput>): ExportDocument {
+  const items = result.events.map((e) => headlineItem(
+    e,
+    `${e.eventType.replace(/_/g, ' ')}, ${e.severity} severity, confidence ${e.confidence}${e.companies.length ? `, involving ${e.companies.join(', ')}` : ''}`,
+    [e.eventType, e.severity, ...e.companies]
+  ));
+  return createDocument('Market-moving events', `${result.events.length} events from ${result.totalScanned} headlines over the last ${result.windowDays} days`, [
+    section('Events', items)
+  ]);
+}
+
+export function digestDocument(digest: Digest): ExportDocument {
+  const sections: ExportSection[] = [];
+  if (digest.summary) sections.push({ ...section('Summary', []), text: digest.summary });
+  for (const headlines of digest.headlines) {
+    sections.push(section(`Top ${headlines.category} headlines (${headlines.country})`, headlines.articles.map((a) => articleItem({ ...a, content: '' }))));
+  }
+  for (const topic of digest.topics) {
+    const facts: [string, string | number][] = [
+      ['Articles', topic.totalResults],
+      ['Top keywords', topic.topKeywords.map((k) => `${k.keyword} (${k.count})`).join(', ')]
+    ];
+    if (topic.trending.length) facts.push(['Trending up', topic.trending.join(', ')]);
+    const items = topic.notableHeadlines.map((h) => headlineItem(h, h.coverageCount ? `carried by ${h.coverageCount} outlets` : '', [topic.topic]));
+    sections.push(section(`Topic: ${topic.topic}`, items, facts));
+  }
+  if (digest.marketMovers.length > 0) {
+    sections.push(section('Market-moving events', digest.marketMovers.map((e) => headlineItem(
+      e,
+      `${e.eventType.replace(/_/g, ' ')}, ${e.severity} severity${e.companies.length ? `, involving ${e.companies.join(', ')}` : ''}`,
+      [e.eventType, e.severity, ...e.companies]
+    ))));
+  }
+  return createDocument(digest.name, `digest of the last ${digest.windowDays} day${digest.windowDays === 1 ? '' : 's'}`, sections);
+}
@@ -0,0 +1,213 @@
+import { ExportDocument, ExportItem } from './document';
+
+export const EXPORT_FORMATS = ['csv', 'markdown', 'html', 'rss', 'atom'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface RenderedExport {
+  body: string;
+  contentType: string;
+  extension: string;
+}
+
+export interface RenderOptions {
+  // absolute url of the export itself, used as the feed id and self link
+  selfUrl?: string;
+  // page the feed points readers to
+  siteUrl?: string;
+}
+
+function formatDate(value: string, style: 'date' | 'rfc822' | 'iso'): string {
+  const time = Date.parse(value);
+  if (isNaN(time)) return '';
+  const date = new Date(time);
+  if (style === 'rfc822') return date.toUTCString();
+  return style === 'iso' ? date.toISOString() : date.toISOString().slice(0, 10);
+}
+
+// spreadsheet apps evaluate cells starting with these characters as formulas
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function renderCsv(doc: ExportDocument): string {
+  const header = ['section', 'title', 'source', 'publishedAt', 'url', 'author', 'tags', 'summary', 'links'];
+  const rows = doc.sections.flatMap((s) => s.items.map((item) => [
+    s.heading, item.title, item.source, item.publishedAt, item.url, item.author, item.tags.join('; '), item.summary, item.links.join(' ')
+  ]));
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>#|]/g, '\\$&').replace(/\s+/g, ' ').trim();
+}
+
+function itemByline(item: ExportItem, date: (value: string) => string): string {
+  return [item.source, date(item.publishedAt), item.author].filter(Boolean).join(' · ');
+}
+
+export function renderMarkdown(doc: ExportDocument): string {
+  const lines = [`# ${escapeMarkdown(doc.title)}`, ''];
+  if (doc.description) lines.push(`_${escapeMarkdown(doc.description)}_`, '');
+  lines.push(`Generated ${formatDate(doc.generatedAt, 'iso')}`, '');
+  for (const s of doc.sections) {
+    lines.push(`## ${escapeMarkdown(s.heading)}`, '');
+    if (s.text) lines.push(s.text.trim(), '');
+    for (const fact of s.facts) lines.push(`- **${escapeMarkdown(fact.label)}:** ${escapeMarkdown(fact.value) || '-'}`);
+    if (s.facts.length > 0) lines.push('');
+    if (s.items.length === 0 && s.facts.length === 0 && !s.text) lines.push('_nothing to show_', '');
+    for (const item of s.items) {
+      const title = escapeMarkdown(item.title);
+      lines.push(`- ${item.url ? `[${title}](<${item.url}>)` : `**${title}**`}`);
+      const byline = itemByline(item, (v) => formatDate(v, 'date'));
+      if (byline) lines.push(`  ${escapeMarkdown(byline)}`);
+      if (item.summary && item.summary !== item.title) lines.push(`  ${escapeMarkdown(item.summary)}`);
+      if (item.tags.length > 0) lines.push(`  Tags: ${item.tags.map(escapeMarkdown).join(', ')}`);
+      for (const link of item.links.slice(1)) lines.push(`  <${link}>`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// only http(s) links make it into markup, anything else is dropped
+function safeUrl(url: string): string {
+  return /^https?:\/\//i.test(url) ? url : '';
+}
+
+const DIGEST_STYLE = `body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,Helvetica,Arial,sans-serif;color:#1e293b;background:#f8fafc;margin:0;padding:32px 16px;line-height:1.5}
+main{max-width:760px;margin:0 auto;background:#fff;border:1px solid #e2e8f0;border-radius:16px;padding:32px}
+h1{font-size:24px;margin:0 0 4px}h2{font-size:18px;margin:32px 0 12px;padding-bottom:6px;border-bottom:1px solid #e2e8f0}
+.meta{color:#64748b;font-size:13px}dl{display:grid;grid-template-columns:max-content 1fr;gap:4px 16px;font-size:14px;margin:0 0 16px}dt{color:#64748b}dd{margin:0}
+article{margin:0 0 18px}article h3{font-size:16px;margin:0 0 2px}a{color:#4f46e5;text-decoration:none}a:hover{text-decoration:underline}
+article p{margin:4px 0;font-size:14px}.text{white-space:pre-wrap;font-size:14px}.tag{display:inline-block;background:#eef2ff;color:#4338ca;border-radius:999px;padding:0 8px;margin:2px 4px 0 0;font-size:12px}`;
+
+// a single html file with inline styles and no scripts, safe to attach to an email
+export function renderHtml(doc: ExportDocument): string {
+  const link = (url: string, text: string) => (safeUrl(url) ? `<a href="${escapeXml(url)}">${escapeXml(text)}</a>` : escapeXml(text));
+  const sections = doc.sections.map((s) => {
+    const facts = s.facts.length
+      ? `<dl>${s.facts.map((f) => `<dt>${escapeXml(f.label)}</dt><dd>${escapeXml(f.value) || '-'}</dd>`).join('')}</dl>`
+      : '';
+    const text = s.text ? `<p class="text">${escapeXml(s.text.trim())}</p>` : '';
+    const items = s.items.length || facts || text
+      ? s.items.map((item) => {
+          const byline = itemByline(item, (v) => formatDate(v, 'date'));
+          const summary = item.summary && item.summary !== item.title ? `<p>${escapeXml(item.summary)}</p>` : '';
+          const tags = item.tags.map((t) => `<span class="tag">${escapeXml(t)}</span>`).join('');
+          const links = item.links.length > 1 ? `<p class="meta">${item.links.map((url, i) => link(url, `source ${i + 1}`)).join(' · ')}</p>` : '';
+          return `<article><h3>${link(item.url, item.title)}</h3>${byline ? `<div class="meta">${escapeXml(byline)}</div>` : ''}${summary}${tags ? `<div>${tags}</div>` : ''}${links}</article>`;
+        }).join('\n')
+      : '<p class="meta">nothing to show</p>';
+    return `<section><h2>${escapeXml(s.heading)}</h2>${text}${facts}${items}</section>`;
+  }).join('\n');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(doc.title)}</title>
+<style>${DIGEST_STYLE}</style>
+</head>
+<body>
+<main>
+<h1>${escapeXml(doc.title)}</h1>
+<div class="meta">${doc.description ? `${escapeXml(doc.description)} · ` : ''}generated ${escapeXml(formatDate(doc.generatedAt, 'iso'))}</div>
+${sections}
+</main>
+</body>
+</html>
+`;
+}
+
+function feedItems(doc: ExportDocument): ExportItem[] {
+  return doc.sections.flatMap((s) => s.items);
+}
+
+function itemDescription(item: ExportItem): string {
+  const links = item.links.length > 1 ? `\n\nSources: ${item.links.join(' ')}` : '';
+  return `${item.summary}${links}`;
+}
+
+export function renderRss(doc: ExportDocument, options: RenderOptions = {}): string {
+  const site = safeUrl(options.siteUrl || '') || safeUrl(options.selfUrl || '');
+  const items = feedItems(doc).map((item) => {
+    const url = safeUrl(item.url);
+    const date = formatDate(item.publishedAt, 'rfc822');
+    return [
+      '<item>',
+      `<title>${escapeXml(item.title)}</title>`,
+      url ? `<link>${escapeXml(url)}</link>` : '',
+      `<guid isPermaLink="${url && item.id === item.url ? 'true' : 'false'}">${escapeXml(item.id)}</guid>`,
+      date ? `<pubDate>${date}</pubDate>` : '',
+      `<dc:creator>${escapeXml(item.author || item.source)}</dc:creator>`,
+      ...item.tags.map((t) => `<category>${escapeXml(t)}</category>`),
+      `<description>${escapeXml(itemDescription(item))}</description>`,
+      '</item>'
+    ].filter(Boolean).join('');
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+<channel>
+<title>${escapeXml(doc.title)}</title>
+${site ? `<link>${escapeXml(site)}</link>\n` : ''}${options.selfUrl ? `<atom:link href="${escapeXml(options.selfUrl)}" rel="self" type="application/rss+xml"/>\n` : ''}<description>${escapeXml(doc.description || doc.title)}</description>
+<lastBuildDate>${formatDate(doc.generatedAt, 'rfc822')}</lastBuildDate>
+${items.join('\n')}
+</channel>
+</rss>
+`;
+}
+
+export function renderAtom(doc: ExportDocument, options: RenderOptions = {}): string {
+  const updated = formatDate(doc.generatedAt, 'iso');
+  const entries = feedItems(doc).map((item) => {
+    const url = safeUrl(item.url);
+    const published = formatDate(item.publishedAt, 'iso') || updated;
+    return [
+      '<entry>',
+      `<id>${escapeXml(url && item.id === item.url ? url : `urn:news-export:${item.id}`)}</id>`,
+      `<title>${escapeXml(item.title)}</title>`,
+      url ? `<link href="${escapeXml(url)}"/>` : '',
+      `<published>${published}</published>`,
+      `<updated>${published}</updated>`,
+      `<author><name>${escapeXml(item.author || item.source)}</name></author>`,
+      ...item.tags.map((t) => `<category term="${escapeXml(t)}"/>`),
+      `<summary>${escapeXml(itemDescription(item))}</summary>`,
+      '</entry>'
+    ].filter(Boolean).join('');
+  });
+  const site = safeUrl(options.siteUrl || '');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+<id>${escapeXml(options.selfUrl || `urn:news-export:${doc.title}`)}</id>
+<title>${escapeXml(doc.title)}</title>
+${doc.description ? `<subtitle>${escapeXml(doc.description)}</subtitle>\n` : ''}<updated>${updated}</updated>
+${options.selfUrl ? `<link rel="self" type="application/atom+xml" href="${escapeXml(options.selfUrl)}"/>\n` : ''}${site ? `<link rel="alternate" href="${escapeXml(site)}"/>\n` : ''}${entries.join('\n')}
+</feed>
+`;
+}
+
+export function renderExport(doc: ExportDocument, format: ExportFormat, options: RenderOptions = {}): RenderedExport {
+  switch (format) {
+    case 'csv':
+      return { body: renderCsv(doc), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+    case 'markdown':
+      return { body: renderMarkdown(doc), contentType: 'text/markdown; charset=utf-8', extension: 'md' };
+    case 'html':
+      return { body: renderHtml(doc), contentType: 'text/html; charset=utf-8', extension: 'html' };
+    case 'rss':
+      return { body: renderRss(doc, options), contentType: 'application/rss+xml; charset=utf-8', extension: 'xml' };
+    case 'atom':
+      return { body: renderAtom(doc, options), contentType: 'application/atom+xml; charset=utf-8', extension: 'xml' };
+  }
+}
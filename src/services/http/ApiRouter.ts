@@ -0,0 +1,196 @@
+import express from 'express';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { issueDetails, sendError } from './errors';
+
+type Method = 'get' | 'post' | 'patch' | 'delete';
+
+export interface RouteSpec<Q extends z.ZodTypeAny, B extends z.ZodTypeAny> {
+  summary: string;
+  tag: string;
+  query?: Q;
+  body?: B;
+  response?: z.ZodTypeAny;
+  status?: number;
+  public?: boolean;
+  eventStream?: boolean;
+  // non-json content types the route answers with
+  produces?: string[];
+  // other error statuses the handler answers with, and the json body it sends for them
+  errors?: Record<number, { description: string; schema: z.ZodTypeAny }>;
+}
+
+type RouteHandler<Q extends z.ZodTypeAny, B extends z.ZodTypeAny> = (
+  req: express.Request,
+  res: express.Response,
+  input: { query: z.infer<Q>; body: z.infer<B> }
+) => unknown;
+
+interface RegisteredRoute {
+  method: Method;
+  path: string;
+  spec: RouteSpec<z.ZodTypeAny, z.ZodTypeAny>;
+}
+
+// peels optional/default/nullable/refinement wrappers to reach the schema that decides coercion
+function baseType(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return baseType(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return baseType(schema._def.innerType);
+  if (schema instanceof z.ZodEffects) return baseType(schema.innerType());
+  return schema;
+}
+
+// query strings are always text: turn them into the numbers, booleans and comma separated lists the schema expects
+export function coerceQuery(schema: z.ZodTypeAny, query: Record<string, unknown>): Record<string, unknown> {
+  const objectSchema = baseType(schema);
+  if (!(objectSchema instanceof z.ZodObject)) return query;
+  const shape = objectSchema.shape as Record<string, z.ZodTypeAny>;
+  const coerced: Record<string, unknown> = {};
+  for (const [key, raw] of Object.entries(query)) {
+    const field = shape[key] ? baseType(shape[key]) : null;
+    let value = raw;
+    if (field instanceof z.ZodArray) {
+      value = (Array.isArray(raw) ? raw : [raw]).flatMap((v) => String(v).split(',')).map((v) => v.trim()).filter(Boolean);
+    } else if (Array.isArray(raw)) {
+      value = raw[raw.length - 1];
+    }
+    if (value === '') continue;
+    if (field instanceof z.ZodNumber && typeof value === 'string') value = Number(value);
+    if (field instanceof z.ZodBoolean && typeof value === 'string') {
+      value = value === 'true' || value === '1' ? true : value === 'false' || value === '0' ? false : value;
+    }
+    coerced[key] = value;
+  }
+  return coerced;
+}
+
+function jsonSchema(schema: z.ZodTypeAny): any {
+  const { $schema, ...rest } = zodToJsonSchema(schema as any, { target: 'openApi3', $refStrategy: 'none' }) as any;
+  return rest;
+}
+
+// registers express routes with zod-validated query/body and keeps their specs for the openapi document
+export class ApiRouter {
+  private app: express.Express;
+  private routes: RegisteredRoute[] = [];
+
+  constructor(app: express.Express) {
+    this.app = app;
+  }
+
+  get<Q extends z.ZodTypeAny = z.ZodAny, B extends z.ZodTypeAny = z.ZodAny>(path: string, spec: RouteSpec<Q, B>, handler: RouteHandler<Q, B>) {
+    this.add('get', path, spec, handler);
+  }
+
+  post<Q extends z.ZodTypeAny = z.ZodAny, B extends z.ZodTypeAny = z.ZodAny>(path: string, spec: RouteSpec<Q, B>, handler: RouteHandler<Q, B>) {
+    this.add('post', path, spec, handler);
+  }
+
+  patch<Q extends z.ZodTypeAny = z.ZodAny, B extends z.ZodTypeAny = z.ZodAny>(path: string, spec: RouteSpec<Q, B>, handler: RouteHandler<Q, B>) {
+    this.add('patch', path, spec, handler);
+  }
+
+  delete<Q extends z.ZodTypeAny = z.ZodAny, B extends z.ZodTypeAny = z.ZodAny>(path: string, spec: RouteSpec<Q, B>, handler: RouteHandler<Q, B>) {
+    this.add('delete', path, spec, handler);
+  }
+
+  private add<Q extends z.ZodTypeAny, B extends z.ZodTypeAny>(method: Method, path: string, spec: RouteSpec<Q, B>, handler: RouteHandler<Q, B>) {
+    this.routes.push({ method, path, spec });
+    this.app[method](path, async (req, res) => {
+      let query: any = {};
+      if (spec.query) {
+        const parsed = spec.query.safeParse(coerceQuery(spec.query, req.query as Record<string, unknown>));
+        if (!parsed.success) return sendError(res, 400, 'invalidRequest', 'invalid query parameters', issueDetails(parsed.error));
+        query = parsed.data;
+      }
+      let body: any = {};
+      if (spec.body) {
+        const parsed = spec.body.safeParse(req.body ?? {});
+        if (!parsed.success) return sendError(res, 400, 'invalidRequest', 'invalid request body', issueDetails(parsed.error));
+        body = parsed.data;
+      }
+      await handler(req, res, { query, body });
+    });
+  }
+
+  openApiDocument(info: { title: string; version: string; description?: string }) {
+    const paths: Record<string, Record<string, unknown>> = {};
+    const errorResponse = (description: string) => ({ description, content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } });
+
+    for (const { method, path, spec } of this.routes) {
+      const openApiPath = path.replace(/:(\w+)/g, '{$1}');
+      const pathParams = [...path.matchAll(/:(\w+)/g)].map(([, name]) => ({ name, in: 'path', required: true, schema: { type: 'string' } }));
+      const queryParams: unknown[] = [];
+      if (spec.query) {
+        const schema = jsonSchema(spec.query);
+        for (const [name, property] of Object.entries<any>(schema.properties || {})) {
+          const { description, ...propertySchema } = property;
+          queryParams.push({
+            name,
+            in: 'query',
+            required: (schema.required || []).includes(name),
+            description,
+            schema: propertySchema,
+            ...(propertySchema.type === 'array' ? { style: 'form', explode: false } : {})
+          });
+        }
+      }
+
+      const produces = spec.eventStream ? ['text/event-stream'] : spec.produces;
+      const success = produces
+        ? { description: spec.eventStream ? 'server-sent event stream' : 'success', content: Object.fromEntries(produces.map((type) => [type, { schema: { type: 'string' } }])) }
+        : { description: 'success', ...(spec.response ? { content: { 'application/json': { schema: jsonSchema(spec.response) } } } : {}) };
+      const responses: Record<string, unknown> = { [String(spec.status || 200)]: success };
+      if (spec.query || spec.body) responses['400'] = errorResponse('invalid request');
+      if (!spec.public) responses['401'] = errorResponse('authentication required');
+      if (pathParams.length > 0) responses['404'] = errorResponse('not found');
+      for (const [status, { description, schema }] of Object.entries(spec.errors || {})) {
+        const existing = responses[status] as { description: string; content: { 'application/json': { schema: unknown } } } | undefined;
+        // a status the router already documents (e.g. 400 for invalid input) answers with either body
+        responses[status] = existing
+          ? { description: `${existing.description}, or ${description}`, content: { 'application/json': { schema: { oneOf: [existing.content['application/json'].schema, jsonSchema(schema)] } } } }
+          : { description, content: { 'application/json': { schema: jsonSchema(schema) } } };
+      }
+
+      paths[openApiPath] = paths[openApiPath] || {};
+      paths[openApiPath][method] = {
+        summary: spec.summary,
+        tags: [spec.tag],
+        parameters: [...pathParams, ...queryParams],
+        ...(spec.body ? { requestBody: { required: true, content: { 'application/json': { schema: jsonSchema(spec.body) } } } } : {}),
+        responses,
+        ...(spec.public ? { security: [] } : {})
+      };
+    }
+
+    return {
+      openapi: '3.0.3',
+      info,
+      paths,
+      security: [{ cookieAuth: [] }, { bearerAuth: [] }],
+      components: {
+        securitySchemes: {
+          cookieAuth: { type: 'apiKey', in: 'cookie', name: 'news_session' },
+          bearerAuth: { type: 'http', scheme: 'bearer', description: 'api key from POST /api/auth/api-keys' }
+        },
+        schemas: {
+          Error: {
+            type: 'object',
+            required: ['error'],
+            properties: {
+              error: {
+                type: 'object',
+                required: ['code', 'message'],
+                properties: {
+                  code: { type: 'string', enum: ['invalidRequest', 'unauthorized', 'forbidden', 'notFound', 'conflict', 'internalError'] },
+                  message: { type: 'string' },
+                  details: {}
+                }
+              }
+            }
+          }
+        }
+      }
+    };
+  }
+}
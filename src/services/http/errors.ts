@@ -0,0 +1,54 @@
+import express from 'express';
+import { z } from 'zod';
+import { logger } from '../observability';
+
+export type ApiErrorCode = 'invalidRequest' | 'unauthorized' | 'forbidden' | 'notFound' | 'conflict' | 'internalError';
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details?: unknown;
+  };
+}
+
+export class HttpError extends Error {
+  status: number;
+  code: ApiErrorCode;
+  details?: unknown;
+
+  constructor(status: number, code: ApiErrorCode, message: string, details?: unknown) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export function codeForStatus(status: number): ApiErrorCode {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'notFound';
+  if (status === 409) return 'conflict';
+  return status >= 500 ? 'internalError' : 'invalidRequest';
+}
+
+export function sendError(res: express.Response, status: number, code: ApiErrorCode, message: string, details?: unknown) {
+  const body: ApiErrorBody = { error: details === undefined ? { code, message } : { code, message, details } };
+  return res.status(status).json(body);
+}
+
+// flattens zod issues into { path, message } pairs for the details field
+export function issueDetails(error: z.ZodError) {
+  return error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+// last middleware: unparseable json bodies, HttpErrors thrown by handlers and anything unexpected
+export const errorHandler: express.ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) return next(error);
+  if (error instanceof HttpError) return sendError(res, error.status, error.code, error.message, error.details);
+  if (error?.type === 'entity.parse.failed') return sendError(res, 400, 'invalidRequest', 'request body is not valid json');
+  logger.error('unhandled error', { method: req.method, path: req.path, error });
+  sendError(res, 500, 'internalError', 'internal server error');
+};
@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { JsonStore } from '../JsonStore';
+import { NewsBrief } from '../BriefStore';
+import { logger } from '../observability';
+import { ChannelConfig, createChannel, NotificationChannel } from './channels';
+
+export interface Delivery {
+  id: string;
+  channelId: string;
+  channelType: ChannelConfig['type'];
+  brief: NewsBrief;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+// the user behind a brief's userId, as channel owners name them
+export interface BriefOwner {
+  username: string;
+  admin: boolean;
+}
+
+const PRIORITY_RANK: Record<NewsBrief['priority'], number> = { low: 0, medium: 1, high: 2 };
+const MAX_ATTEMPTS = 5;
+// finished deliveries kept per brief owner (unowned briefs count as one owner)
+export const MAX_LOG_ENTRIES_PER_USER = 500;
+
+// reads channel definitions from a json file (array of ChannelConfig)
+export function loadChannelConfigs(filePath?: string): ChannelConfig[] {
+  if (!filePath || !fs.existsSync(filePath)) return [];
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (!Array.isArray(parsed)) throw new Error(`${filePath} must contain an array of channels`);
+  return parsed;
+}
+
+// fans briefs out to configured channels with a persisted retry queue and delivery log
+export class NotificationService {
+  private channels: NotificationChannel[];
+  private deliveries: Delivery[];
+  private store: JsonStore<Delivery[]>;
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Set<string> = new Set();
+  private retryBaseMs: number;
+  private resolveOwner: (userId: string) => BriefOwner | null = () => null;
+
+  constructor(channels: NotificationChannel[], filePath?: string, retryBaseMs = 30000) {
+    this.channels = channels;
+    this.store = new JsonStore(filePath);
+    this.deliveries = this.store.load([]);
+    this.retryBaseMs = retryBaseMs;
+  }
+
+  // lets the auth layer tell whose briefs go where; until then owned briefs reach no channel
+  setOwnerResolver(resolver: (userId: string) => BriefOwner | null) {
+    this.resolveOwner = resolver;
+  }
+
+  // with a user, only the channels their briefs can reach
+  listChannels(user?: BriefOwner) {
+    return this.channels
+      .filter((c) => !user || (c.owner ? c.owner === user.username : user.admin))
+      .map((c) => ({ id: c.id, type: c.type, minPriority: c.minPriority, owner: c.owner }));
+  }
+
+  // a channel with an owner carries that user's briefs; a shared one carries unowned briefs and those of admins
+  private reaches(channel: NotificationChannel, brief: NewsBrief): boolean {
+    if (brief.userId === null) return channel.owner === null;
+    const owner = this.resolveOwner(brief.userId);
+    if (!owner) return false;
+    return channel.owner ? channel.owner === owner.username : owner.admin;
+  }
+
+  private persist() {
+    this.store.save(() => this.deliveries);
+  }
+
+  // queues a delivery for every channel the brief reaches whose priority threshold it meets
+  dispatch(brief: NewsBrief): Delivery[] {
+    const now = new Date().toISOString();
+    const queued = this.channels
+      .filter((channel) => PRIORITY_RANK[brief.priority] >= PRIORITY_RANK[channel.minPriority] && this.reaches(channel, brief))
+      .map((channel): Delivery => ({
+        id: crypto.randomUUID(),
+        channelId: channel.id,
+        channelType: channel.type,
+        brief,
+        status: 'pending',
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: now,
+        createdAt: now,
+        deliveredAt: null
+      }));
+    if (queued.length === 0) return [];
+    this.deliveries.unshift(...queued);
+    this.trimLog();
+    this.persist();
+    for (const delivery of queued) {
+      this.attempt(delivery).catch((error) => logger.error('notification delivery failed', { deliveryId: delivery.id, error }));
+    }
+    return queued;
+  }
+
+  private async attempt(delivery: Delivery) {
+    const channel = this.channels.find((c) => c.id === delivery.channelId);
+    if (!channel) {
+      delivery.status = 'failed';
+      delivery.lastError = 'channel is no longer configured';
+      delivery.nextAttemptAt = null;
+      this.persist();
+      return;
+    }
+    if (this.inFlight.has(delivery.id)) return;
+    this.inFlight.add(delivery.id);
+    delivery.attempts++;
+    try {
+      await channel.send(delivery.brief);
+      delivery.status = 'delivered';
+      delivery.deliveredAt = new Date().toISOString();
+      delivery.nextAttemptAt = null;
+      delivery.lastError = null;
+    } catch (error: any) {
+      delivery.lastError = error.response ? `http ${error.response.status}` : error.message;
+      if (delivery.attempts >= MAX_ATTEMPTS) {
+        delivery.status = 'failed';
+        delivery.nextAttemptAt = null;
+      } else {
+        const backoff = this.retryBaseMs * 4 ** (delivery.attempts - 1);
+        delivery.nextAttemptAt = new Date(Date.now() + backoff).toISOString();
+      }
+    } finally {
+      this.inFlight.delete(delivery.id);
+      this.persist();
+    }
+  }
+
+  // retries pending deliveries whose backoff has elapsed
+  async processQueue(): Promise<void> {
+    const now = Date.now();
+    const due = this.deliveries.filter((d) => d.status === 'pending' && d.nextAttemptAt && Date.parse(d.nextAttemptAt) <= now);
+    await Promise.all(due.map((d) => this.attempt(d)));
+  }
+
+  // keeps pending deliveries and the newest finished ones of each brief owner
+  private trimLog() {
+    const finished = new Map<string | null, number>();
+    this.deliveries = this.deliveries.filter((d) => {
+      if (d.status === 'pending') return true;
+      const count = (finished.get(d.brief.userId) || 0) + 1;
+      finished.set(d.brief.userId, count);
+      return count <= MAX_LOG_ENTRIES_PER_USER;
+    });
+  }
+
+  // with a userId, only deliveries of that user's briefs (plus unowned ones when includeUnowned is set)
+  listDeliveries(filter: { status?: string; channelId?: string; limit?: number; userId?: string; includeUnowned?: boolean } = {}): Delivery[] {
+    const visible = (d: Delivery) => !filter.userId || d.brief.userId === filter.userId || (!!filter.includeUnowned && d.brief.userId === null);
+    return this.deliveries
+      .filter((d) => visible(d) && (!filter.status || d.status === filter.status) && (!filter.channelId || d.channelId === filter.channelId))
+      .slice(0, Math.min(filter.limit || 50, MAX_LOG_ENTRIES_PER_USER));
+  }
+
+  start(tickMs: number = 5000) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processQueue().catch((error) => logger.error('notification queue failed', { error }));
+    }, tickMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  flush(): Promise<void> {
+    return this.store.flush();
+  }
+}
+
+export function createNotificationService(configPath: string | undefined, logPath?: string): NotificationService {
+  return new NotificationService(loadChannelConfigs(configPath).map(createChannel), logPath);
+}
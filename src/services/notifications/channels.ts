@@ -0,0 +1,166 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import { NewsBrief } from '../BriefStore';
+
+type Priority = NewsBrief['priority'];
+
+export interface ChannelConfig {
+  id: string;
+  type: 'webhook' | 'slack' | 'teams' | 'email';
+  minPriority?: Priority;
+  // username whose briefs the channel carries; without one it is a shared channel for unowned briefs and admins' briefs
+  owner?: string;
+  url?: string;
+  secret?: string;
+  to?: string[];
+  from?: string;
+  smtp?: { host: string; port?: number; secure?: boolean; user?: string; pass?: string };
+}
+
+export interface NotificationChannel {
+  readonly id: string;
+  readonly type: ChannelConfig['type'];
+  readonly minPriority: Priority;
+  readonly owner: string | null;
+  send(brief: NewsBrief): Promise<void>;
+}
+
+const PRIORITY_COLORS: Record<Priority, string> = { low: '3b82f6', medium: '6366f1', high: 'e11d48' };
+
+// slack reads &, < and > as control characters (mentions, links) in every text field, formatting or not
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// teams renders card text as markdown with inline html
+function escapeTeams(text: string): string {
+  return escapeSlack(text).replace(/[\\`*_~[\]#]/g, '\\$&');
+}
+
+// hex hmac-sha256 over `${timestamp}.${body}`, sent as `X-Signature: sha256=<hex>`
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// generic json webhook with an optional hmac signature header
+export class WebhookChannel implements NotificationChannel {
+  readonly type = 'webhook';
+  readonly id: string;
+  readonly minPriority: Priority;
+  readonly owner: string | null;
+  private url: string;
+  private secret?: string;
+
+  constructor(config: ChannelConfig) {
+    if (!config.url) throw new Error(`channel ${config.id}: url is required`);
+    this.id = config.id;
+    this.minPriority = config.minPriority || 'low';
+    this.owner = config.owner || null;
+    this.url = config.url;
+    this.secret = config.secret;
+  }
+
+  async send(brief: NewsBrief): Promise<void> {
+    const body = JSON.stringify({ event: 'brief.created', brief });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', 'X-Timestamp': timestamp };
+    if (this.secret) headers['X-Signature'] = `sha256=${signPayload(this.secret, timestamp, body)}`;
+    await axios.post(this.url, body, { headers, timeout: 10000 });
+  }
+}
+
+// slack or microsoft teams incoming webhook using each service's message format
+export class ChatWebhookChannel implements NotificationChannel {
+  readonly type: 'slack' | 'teams';
+  readonly id: string;
+  readonly minPriority: Priority;
+  readonly owner: string | null;
+  private url: string;
+
+  constructor(config: ChannelConfig) {
+    if (!config.url) throw new Error(`channel ${config.id}: url is required`);
+    this.id = config.id;
+    this.type = config.type === 'teams' ? 'teams' : 'slack';
+    this.minPriority = config.minPriority || 'low';
+    this.owner = config.owner || null;
+    this.url = config.url;
+  }
+
+  format(brief: NewsBrief): object {
+    const title = `${brief.priority.toUpperCase()} priority news brief`;
+    if (this.type === 'teams') {
+      return {
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        summary: title,
+        themeColor: PRIORITY_COLORS[brief.priority],
+        title,
+        text: escapeTeams(brief.summary)
+      };
+    }
+    // briefs are plain text: no markup, mentions or links of their own
+    return {
+      text: escapeSlack(`${title}: ${brief.summary}`),
+      mrkdwn: false,
+      blocks: [
+        { type: 'header', text: { type: 'plain_text', text: title } },
+        { type: 'section', text: { type: 'plain_text', text: brief.summary } },
+        { type: 'context', elements: [{ type: 'mrkdwn', text: brief.timestamp }] }
+      ]
+    };
+  }
+
+  async send(brief: NewsBrief): Promise<void> {
+    await axios.post(this.url, this.format(brief), { timeout: 10000 });
+  }
+}
+
+// smtp email to a fixed recipient list
+export class EmailChannel implements NotificationChannel {
+  readonly type = 'email';
+  readonly id: string;
+  readonly minPriority: Priority;
+  readonly owner: string | null;
+  private to: string[];
+  private from: string;
+  private transport: nodemailer.Transporter;
+
+  constructor(config: ChannelConfig) {
+    if (!config.smtp?.host || !config.to?.length) throw new Error(`channel ${config.id}: smtp.host and to are required`);
+    this.id = config.id;
+    this.minPriority = config.minPriority || 'low';
+    this.owner = config.owner || null;
+    this.to = config.to;
+    this.from = config.from || 'newsbrief@localhost';
+    this.transport = nodemailer.createTransport({
+      host: config.smtp.host,
+      port: config.smtp.port || 587,
+      secure: config.smtp.secure ?? false,
+      auth: config.smtp.user ? { user: config.smtp.user, pass: config.smtp.pass } : undefined
+    });
+  }
+
+  async send(brief: NewsBrief): Promise<void> {
+    await this.transport.sendMail({
+      from: this.from,
+      to: this.to.join(', '),
+      subject: `[${brief.priority}] news brief`,
+      text: `${brief.summary}\n\n${brief.timestamp}`
+    });
+  }
+}
+
+export function createChannel(config: ChannelConfig): NotificationChannel {
+  switch (config.type) {
+    case 'webhook':
+      return new WebhookChannel(config);
+    case 'slack':
+    case 'teams':
+      return new ChatWebhookChannel(config);
+    case 'email':
+      return new EmailChannel(config);
+    default:
+      throw new Error(`channel ${(config as ChannelConfig).id}: unknown type ${(config as ChannelConfig).type}`);
+  }
+}
@@ -0,0 +1,53 @@
+// ok and degraded keep the app ready (e.g. the news api is rate limited but the cache still serves);
+// fail takes it out of rotation
+export type CheckStatus = 'ok' | 'degraded' | 'fail';
+
+export interface CheckResult {
+  status: CheckStatus;
+  message?: string;
+  [detail: string]: unknown;
+}
+
+export type HealthCheck = () => CheckResult;
+
+export interface Readiness {
+  ready: boolean;
+  status: CheckStatus;
+  checks: Record<string, CheckResult>;
+}
+
+const SEVERITY: Record<CheckStatus, number> = { ok: 0, degraded: 1, fail: 2 };
+
+// named readiness checks for /readyz; liveness (/healthz) only needs the process to answer
+export class HealthChecks {
+  private checks = new Map<string, HealthCheck>();
+  private stopping = false;
+  private startedAt = Date.now();
+
+  register(name: string, check: HealthCheck) {
+    this.checks.set(name, check);
+  }
+
+  // once shutdown begins the app reports not ready so load balancers stop sending traffic
+  markShuttingDown() {
+    this.stopping = true;
+  }
+
+  get uptimeSeconds(): number {
+    return Math.round((Date.now() - this.startedAt) / 1000);
+  }
+
+  readiness(): Readiness {
+    const checks: Record<string, CheckResult> = {};
+    for (const [name, check] of this.checks) {
+      try {
+        checks[name] = check();
+      } catch (error: any) {
+        checks[name] = { status: 'fail', message: error.message };
+      }
+    }
+    if (this.stopping) checks.shutdown = { status: 'fail', message: 'shutting down' };
+    const status = Object.values(checks).reduce<CheckStatus>((worst, c) => (SEVERITY[c.status] > SEVERITY[worst] ? c.status : worst), 'ok');
+    return { ready: status !== 'fail', status, checks };
+  }
+}
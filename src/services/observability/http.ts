@@ -0,0 +1,51 @@
+import { randomUUID } from 'crypto';
+import express from 'express';
+import { logger, requestContext } from './logger';
+import { Histogram } from './metrics';
+
+// probes and scrapes arrive every few seconds, so they are only logged at debug level
+const QUIET_ROUTES = new Set(['/healthz', '/readyz', '/metrics']);
+
+// a caller's X-Request-Id is kept when it looks like an id, so traces line up across services
+function requestIdFrom(req: express.Request): string {
+  const incoming = req.get('x-request-id');
+  return incoming && /^[\w.:-]{1,128}$/.test(incoming) ? incoming : randomUUID();
+}
+
+// the route pattern rather than the raw path, so ids in urls do not explode the label set
+export function routeLabel(req: express.Request): string {
+  if (req.route?.path) return `${req.baseUrl || ''}${req.route.path}`;
+  return req.originalUrl.startsWith('/api/') ? 'unmatched' : 'static';
+}
+
+// first middleware: tags the request with an id (X-Request-Id header and every log line written
+// while handling it), then logs it and records its latency once the response is done
+export function observeRequests(duration: Histogram): express.RequestHandler {
+  return (req, res, next) => {
+    const requestId = requestIdFrom(req);
+    const started = process.hrtime.bigint();
+    res.locals.requestId = requestId;
+    res.setHeader('X-Request-Id', requestId);
+
+    res.once('close', () => {
+      const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+      const route = routeLabel(req);
+      // closed before the response finished: the client went away (e.g. a cancelled chat stream)
+      const status = res.writableFinished ? String(res.statusCode) : 'aborted';
+      duration.observe({ method: req.method, route, status }, seconds);
+      const level = res.statusCode >= 500 ? 'error' : QUIET_ROUTES.has(route) ? 'debug' : 'info';
+      logger.log(level, 'request', {
+        requestId,
+        method: req.method,
+        path: req.path,
+        route,
+        status: res.statusCode,
+        durationMs: Math.round(seconds * 10000) / 10,
+        userId: res.locals.user?.id,
+        aborted: res.writableFinished ? undefined : true
+      });
+    });
+
+    requestContext.run({ requestId }, next);
+  };
+}
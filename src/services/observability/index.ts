@@ -0,0 +1,40 @@
+import { ResponseCache } from '../ResponseCache';
+import { Counter, Histogram, MetricsRegistry } from './metrics';
+
+export * from './logger';
+export * from './metrics';
+export * from './health';
+export * from './http';
+
+export interface AppMetrics {
+  registry: MetricsRegistry;
+  httpRequestDuration: Histogram;
+  newsApiRequests: Counter;
+  newsApiErrors: Counter;
+  newsApiRequestDuration: Histogram;
+  daemoQueryDuration: Histogram;
+}
+
+// the metrics served at /metrics; cache lookups are read from the cache's own counters at scrape time
+export function createMetrics(cache?: ResponseCache): AppMetrics {
+  const registry = new MetricsRegistry();
+  const metrics: AppMetrics = {
+    registry,
+    httpRequestDuration: registry.histogram('http_request_duration_seconds', 'Latency of http requests by route pattern and status'),
+    newsApiRequests: registry.counter('newsapi_requests_total', 'Requests sent to newsapi.org, retries included'),
+    newsApiErrors: registry.counter('newsapi_errors_total', 'Failed newsapi.org requests by error code'),
+    newsApiRequestDuration: registry.histogram('newsapi_request_duration_seconds', 'Latency of newsapi.org requests'),
+    daemoQueryDuration: registry.histogram('daemo_query_duration_seconds', 'Latency of daemo agent queries by kind (chat, stream, ask) and outcome')
+  };
+  if (cache) {
+    registry.counter('news_cache_lookups_total', 'News response cache lookups by result (hit, miss, stale)', () => [
+      { labels: { result: 'hit' }, value: cache.stats.hits },
+      { labels: { result: 'miss' }, value: cache.stats.misses },
+      { labels: { result: 'stale' }, value: cache.stats.stale }
+    ]);
+    registry.gauge('news_cache_entries', 'Entries held in the news response cache', () => [{ value: cache.size }]);
+  }
+  registry.gauge('process_uptime_seconds', 'Seconds since the process started', () => [{ value: Math.round(process.uptime()) }]);
+  registry.gauge('process_resident_memory_bytes', 'Resident memory size in bytes', () => [{ value: process.memoryUsage().rss }]);
+  return metrics;
+}
@@ -0,0 +1,131 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'json' | 'pretty';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  // entries below this level are dropped; `silent` drops everything
+  level?: LogLevel | 'silent';
+  format?: LogFormat;
+  // where formatted lines go, stdout for debug/info and stderr for warn/error by default
+  write?: (line: string, level: LogLevel) => void;
+}
+
+const LEVELS: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+// the request an async call chain belongs to, so log lines deep in a service carry its id
+export const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+function defaultWrite(line: string, level: LogLevel) {
+  (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+}
+
+// response bodies worth logging: text or parsed json, not streams or buffers
+function isPlainData(data: unknown): boolean {
+  if (typeof data === 'string') return true;
+  return !!data && typeof data === 'object' && (Array.isArray(data) || Object.getPrototypeOf(data) === Object.prototype);
+}
+
+// errors do not survive JSON.stringify, and axios errors carry the whole request with them.
+// stacks are kept for error entries only (warnings are expected failures), and not for failed
+// http calls, where the status and response say more than the axios internals
+function serialize(value: unknown, withStack: boolean): unknown {
+  if (!(value instanceof Error)) return value;
+  const error = value as Error & { code?: unknown; status?: unknown; isAxiosError?: boolean; response?: { status?: number; data?: unknown } };
+  return {
+    name: error.name,
+    message: error.message,
+    ...(error.code !== undefined ? { code: error.code } : {}),
+    ...(error.status !== undefined ? { status: error.status } : error.response?.status !== undefined ? { status: error.response.status } : {}),
+    ...(isPlainData(error.response?.data) ? { response: error.response!.data } : {}),
+    ...(withStack && !error.isAxiosError && error.stack ? { stack: error.stack } : {})
+  };
+}
+
+function pretty(value: unknown): string {
+  if (value && typeof value === 'object') {
+    const error = value as { message?: unknown };
+    return typeof error.message === 'string' ? JSON.stringify(error.message) : JSON.stringify(value);
+  }
+  return typeof value === 'string' && /\s/.test(value) ? JSON.stringify(value) : String(value);
+}
+
+// one json object per line: time, level, message, the request id when there is one, then the fields
+export class Logger {
+  private options: LoggerOptions;
+  private level: number;
+  private format: LogFormat;
+  private write: (line: string, level: LogLevel) => void;
+  private fields: LogFields;
+
+  constructor(options: LoggerOptions = {}, fields: LogFields = {}) {
+    this.options = options;
+    this.level = LEVELS[options.level || 'info'] ?? LEVELS.info;
+    this.format = options.format || 'json';
+    this.write = options.write || defaultWrite;
+    this.fields = fields;
+  }
+
+  // a logger that adds the given fields to every entry
+  child(fields: LogFields): Logger {
+    return new Logger(this.options, { ...this.fields, ...fields });
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= this.level;
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.log('error', message, fields);
+  }
+
+  log(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (!this.isEnabled(level)) return;
+    const requestId = requestContext.getStore()?.requestId;
+    const entry: LogFields = { time: new Date().toISOString(), level, msg: message, ...(requestId ? { requestId } : {}) };
+    for (const [key, value] of Object.entries({ ...this.fields, ...fields })) {
+      if (value !== undefined) entry[key] = serialize(value, level === 'error');
+    }
+    if (this.format === 'pretty') {
+      const { time, level: _level, msg, ...rest } = entry;
+      const extras = Object.entries(rest).map(([key, value]) => `${key}=${pretty(value)}`);
+      this.write([time, level.toUpperCase().padEnd(5), msg, ...extras].join(' '), level);
+    } else {
+      let line: string;
+      try {
+        line = JSON.stringify(entry);
+      } catch {
+        // circular or otherwise unserializable fields; keep the entry rather than throw from a log call
+        line = JSON.stringify({ time: entry.time, level, msg: message, ...(requestId ? { requestId } : {}), unserializable: true });
+      }
+      this.write(line, level);
+    }
+  }
+}
+
+// builds a logger from LOG_LEVEL and LOG_FORMAT
+export function createLogger(env: NodeJS.ProcessEnv = process.env): Logger {
+  const level = (env.LOG_LEVEL || 'info').toLowerCase();
+  const format = (env.LOG_FORMAT || 'json').toLowerCase();
+  return new Logger({
+    level: level in LEVELS ? (level as LogLevel | 'silent') : 'info',
+    format: format === 'pretty' ? 'pretty' : 'json'
+  });
+}
+
+// the process-wide logger the services write to
+export const logger = createLogger();
@@ -0,0 +1,149 @@
+export type Labels = Record<string, string>;
+
+// samples read at scrape time from counters kept elsewhere (e.g. the response cache stats)
+export type Collector = () => { labels?: Labels; value: number }[];
+
+// seconds; covers cache hits (a few ms) up to slow daemo queries
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map((k) => `${k}="${escapeLabel(labels[k])}"`).join(',');
+}
+
+function sample(name: string, key: string, value: number): string {
+  const text = value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : String(value);
+  return `${name}${key ? `{${key}}` : ''} ${text}`;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  samples(): string[];
+}
+
+// one value per label set, plus whatever the collector reports at scrape time
+abstract class ValueMetric implements Metric {
+  abstract readonly type: 'counter' | 'gauge';
+  readonly name: string;
+  readonly help: string;
+  protected values = new Map<string, number>();
+  private collect?: Collector;
+
+  constructor(name: string, help: string, collect?: Collector) {
+    this.name = name;
+    this.help = help;
+    this.collect = collect;
+  }
+
+  samples(): string[] {
+    const collected = this.collect ? this.collect().map((s) => [labelKey(s.labels || {}), s.value] as const) : [];
+    return [...this.values.entries(), ...collected].map(([key, value]) => sample(this.name, key, value));
+  }
+}
+
+export class Counter extends ValueMetric {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) || 0) + amount);
+  }
+}
+
+export class Gauge extends ValueMetric {
+  readonly type = 'gauge';
+
+  set(labels: Labels, value: number) {
+    this.values.set(labelKey(labels), value);
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  readonly name: string;
+  readonly help: string;
+  private series = new Map<string, HistogramSeries>();
+  private buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    this.name = name;
+    this.help = help;
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series!.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+    for (const [key, series] of this.series) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(sample(`${this.name}_bucket`, labelKey({ ...series.labels, le: String(bound) }), series.counts[i]));
+      });
+      lines.push(sample(`${this.name}_bucket`, labelKey({ ...series.labels, le: '+Inf' }), series.count));
+      lines.push(sample(`${this.name}_sum`, key, Math.round(series.sum * 1e6) / 1e6));
+      lines.push(sample(`${this.name}_count`, key, series.count));
+    }
+    return lines;
+  }
+}
+
+// metrics in the prometheus text exposition format (version 0.0.4)
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  private register<M extends Metric>(metric: M): M {
+    if (!NAME.test(metric.name)) throw new Error(`invalid metric name: ${metric.name}`);
+    if (this.metrics.has(metric.name)) throw new Error(`metric ${metric.name} is already registered`);
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  counter(name: string, help: string, collect?: Collector): Counter {
+    return this.register(new Counter(name, help, collect));
+  }
+
+  gauge(name: string, help: string, collect?: Collector): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  render(): string {
+    const blocks = [...this.metrics.values()].map((metric) => [
+      `# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+      `# TYPE ${metric.name} ${metric.type}`,
+      ...metric.samples()
+    ].join('\n'));
+    return `${blocks.join('\n')}\n`;
+  }
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
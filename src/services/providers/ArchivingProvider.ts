@@ -0,0 +1,27 @@
+import { ArticleArchive } from '../ArticleArchive';
+import { HeadlinesQuery, NewsProvider, ProviderResult, SearchQuery } from './types';
+
+// wraps a provider so every fetched article is also written to the archive
+export class ArchivingProvider implements NewsProvider {
+  readonly name: string;
+  private inner: NewsProvider;
+  private archive: ArticleArchive;
+
+  constructor(inner: NewsProvider, archive: ArticleArchive) {
+    this.inner = inner;
+    this.archive = archive;
+    this.name = inner.name;
+  }
+
+  async topHeadlines(query: HeadlinesQuery): Promise<ProviderResult> {
+    const result = await this.inner.topHeadlines(query);
+    this.archive.add(result.articles);
+    return result;
+  }
+
+  async search(query: SearchQuery): Promise<ProviderResult> {
+    const result = await this.inner.search(query);
+    this.archive.add(result.articles);
+    return result;
+  }
+}
@@ -0,0 +1,25 @@
+import { ResponseCache } from '../ResponseCache';
+import { HeadlinesQuery, NewsProvider, ProviderResult, SearchQuery } from './types';
+
+// wraps a provider so identical queries are served from the response cache
+export class CachingProvider implements NewsProvider {
+  readonly name: string;
+  private inner: NewsProvider;
+  private cache: ResponseCache;
+
+  constructor(inner: NewsProvider, cache: ResponseCache) {
+    this.inner = inner;
+    this.cache = cache;
+    this.name = inner.name;
+  }
+
+  async topHeadlines(query: HeadlinesQuery): Promise<ProviderResult> {
+    const { value, cache } = await this.cache.wrap('top-headlines', { provider: this.name, ...query }, () => this.inner.topHeadlines(query));
+    return { ...value, cache };
+  }
+
+  async search(query: SearchQuery): Promise<ProviderResult> {
+    const { value, cache } = await this.cache.wrap('everything', { provider: this.name, ...query }, () => this.inner.search(query));
+    return { ...value, cache };
+  }
+}
@@ -0,0 +1,47 @@
+import { logger } from '../observability';
+import { HeadlinesQuery, NewsProvider, NormalizedArticle, ProviderResult, SearchQuery } from './types';
+
+// fans a query out to several providers and merges the results, deduped by url
+export class CompositeProvider implements NewsProvider {
+  readonly name: string;
+  private providers: NewsProvider[];
+
+  constructor(providers: NewsProvider[]) {
+    this.providers = providers;
+    this.name = providers.map((p) => p.name).join('+');
+  }
+
+  private async merge(calls: Promise<ProviderResult>[], pageSize?: number): Promise<ProviderResult> {
+    const results = await Promise.allSettled(calls);
+    const fulfilled = results.filter((r): r is PromiseFulfilledResult<ProviderResult> => r.status === 'fulfilled');
+    if (fulfilled.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    results.forEach((r, i) => {
+      if (r.status === 'rejected') logger.warn('news provider failed', { provider: this.providers[i].name, error: r.reason });
+    });
+
+    const seen = new Set<string>();
+    const articles: NormalizedArticle[] = [];
+    let totalResults = 0;
+    for (const { value } of fulfilled) {
+      totalResults += value.totalResults;
+      for (const article of value.articles) {
+        const key = article.url || article.title;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        articles.push(article);
+      }
+    }
+    articles.sort((a, b) => (Date.parse(b.publishedAt) || 0) - (Date.parse(a.publishedAt) || 0));
+    return { articles: articles.slice(0, Math.min(pageSize || 20, 100)), totalResults };
+  }
+
+  topHeadlines(query: HeadlinesQuery): Promise<ProviderResult> {
+    return this.merge(this.providers.map((p) => p.topHeadlines(query)), query.pageSize);
+  }
+
+  search(query: SearchQuery): Promise<ProviderResult> {
+    return this.merge(this.providers.map((p) => p.search(query)), query.pageSize);
+  }
+}
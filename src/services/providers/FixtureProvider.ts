@@ -0,0 +1,40 @@
+import fs from 'fs';
+import { normalizeNewsApiArticle } from './NewsApiProvider';
+import { filterArticles } from './queryMatch';
+import { HeadlinesQuery, NewsProvider, NormalizedArticle, ProviderResult, SearchQuery } from './types';
+
+interface FixtureFile {
+  articles: any[];
+  headlines?: Record<string, any[]>;
+}
+
+// adapter that serves articles from a local json file in newsapi response shape
+export class FixtureProvider implements NewsProvider {
+  readonly name = 'fixture';
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  private load(): FixtureFile {
+    const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    return { articles: data.articles || [], headlines: data.headlines };
+  }
+
+  private normalize(raw: any[]): NormalizedArticle[] {
+    return raw.map((a) => normalizeNewsApiArticle({ ...a, source: typeof a.source === 'string' ? { id: null, name: a.source } : a.source }));
+  }
+
+  async topHeadlines(query: HeadlinesQuery): Promise<ProviderResult> {
+    const fixture = this.load();
+    const raw = (query.category && fixture.headlines?.[query.category]) || fixture.articles;
+    const articles = filterArticles(this.normalize(raw), { q: '', sortBy: 'publishedAt' });
+    return { articles: articles.slice(0, Math.min(query.pageSize || 20, 100)), totalResults: articles.length };
+  }
+
+  async search(query: SearchQuery): Promise<ProviderResult> {
+    const articles = filterArticles(this.normalize(this.load().articles), query);
+    return { articles: articles.slice(0, Math.min(query.pageSize || 20, 100)), totalResults: articles.length };
+  }
+}
@@ -0,0 +1,168 @@
+import axios from 'axios';
+import { NewsErrorCode, NewsProviderError, parseNewsApiError } from './errors';
+
+export const NEWS_API_BASE_URL = 'https://newsapi.org/v2';
+
+export interface NewsApiClientOptions {
+  baseUrl?: string;
+  dailyBudget?: number;
+  maxRetries?: number;
+  retryBaseMs?: number;
+  // first pause after a 429 without a Retry-After header; doubles with each one in a row
+  rateLimitBackoffMs?: number;
+  timeoutMs?: number;
+}
+
+export interface NewsApiUsage {
+  day: string;
+  used: number;
+  budget: number;
+  remaining: number;
+  blockedUntil: string | null;
+}
+
+// what the last answer from newsapi said about the key: unknown until the first request
+export type NewsApiKeyStatus = 'unknown' | 'valid' | 'invalid' | 'exhausted';
+
+export interface NewsApiRequestEvent {
+  endpoint: string;
+  durationMs: number;
+  error?: NewsErrorCode;
+}
+
+const INVALID_KEY_CODES = new Set<NewsErrorCode>(['apiKeyDisabled', 'apiKeyInvalid', 'apiKeyMissing']);
+
+function utcDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(): number {
+  const d = new Date();
+  d.setUTCHours(24, 0, 0, 0);
+  return d.getTime();
+}
+
+// longest pause after a 429 when newsapi did not say how long to wait
+const MAX_RATE_LIMIT_BACKOFF_MS = 15 * 60 * 1000;
+
+// Retry-After is either a number of seconds or an http date
+function retryAfterTime(value: unknown): number | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const seconds = Number(value);
+  const time = isNaN(seconds) ? Date.parse(value) : Date.now() + seconds * 1000;
+  return isNaN(time) ? null : time;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// http client for newsapi.org that enforces a daily request budget and retries transient failures
+export class NewsApiClient {
+  private apiKey: string;
+  private baseUrl: string;
+  private dailyBudget: number;
+  private maxRetries: number;
+  private retryBaseMs: number;
+  private rateLimitBackoffMs: number;
+  private timeoutMs: number;
+  private usage = { day: utcDay(), used: 0 };
+  private blockedUntil = 0;
+  private rateLimitStrikes = 0;
+  private keyStatus: NewsApiKeyStatus = 'unknown';
+  private requestListeners: ((event: NewsApiRequestEvent) => void)[] = [];
+  public stats = { requests: 0, errors: 0 };
+
+  constructor(apiKey: string, options: NewsApiClientOptions = {}) {
+    this.apiKey = apiKey;
+    this.baseUrl = options.baseUrl || NEWS_API_BASE_URL;
+    this.dailyBudget = options.dailyBudget ?? 100;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.retryBaseMs = options.retryBaseMs ?? 500;
+    this.rateLimitBackoffMs = options.rateLimitBackoffMs ?? 30000;
+    this.timeoutMs = options.timeoutMs ?? 15000;
+  }
+
+  private rollDay() {
+    const today = utcDay();
+    if (this.usage.day !== today) this.usage = { day: today, used: 0 };
+  }
+
+  getUsage(): NewsApiUsage {
+    this.rollDay();
+    return {
+      day: this.usage.day,
+      used: this.usage.used,
+      budget: this.dailyBudget,
+      remaining: Math.max(this.dailyBudget - this.usage.used, 0),
+      blockedUntil: this.blockedUntil > Date.now() ? new Date(this.blockedUntil).toISOString() : null
+    };
+  }
+
+  getKeyStatus(): NewsApiKeyStatus {
+    return this.keyStatus;
+  }
+
+  // called after every request that reached newsapi, retries included
+  onRequest(listener: (event: NewsApiRequestEvent) => void) {
+    this.requestListeners.push(listener);
+  }
+
+  private report(event: NewsApiRequestEvent) {
+    for (const listener of this.requestListeners) listener(event);
+  }
+
+  // refuses locally once the budget is spent or newsapi has told us to back off
+  private reserve() {
+    this.rollDay();
+    if (this.blockedUntil > Date.now()) {
+      throw new NewsProviderError('rateLimited', 'the news api rate limit has been reached, try again later', {
+        retryAfter: new Date(this.blockedUntil).toISOString()
+      });
+    }
+    if (this.usage.used >= this.dailyBudget) {
+      throw new NewsProviderError('quotaExceeded', 'the daily news api request budget has been used up, try again after it resets', {
+        retryAfter: new Date(nextUtcMidnight()).toISOString()
+      });
+    }
+    this.usage.used++;
+  }
+
+  private block(until: number, error: NewsProviderError) {
+    this.blockedUntil = until;
+    error.retryAfter = new Date(until).toISOString();
+  }
+
+  async get<T>(endpoint: string, params: Record<string, any>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      this.reserve();
+      this.stats.requests++;
+      const started = Date.now();
+      try {
+        const response = await axios.get<T>(`${this.baseUrl}/${endpoint}`, {
+          params: { apiKey: this.apiKey, ...params },
+          timeout: this.timeoutMs
+        });
+        this.keyStatus = 'valid';
+        this.rateLimitStrikes = 0;
+        this.report({ endpoint, durationMs: Date.now() - started });
+        return response.data;
+      } catch (raw: any) {
+        this.stats.errors++;
+        const error = parseNewsApiError(raw);
+        if (INVALID_KEY_CODES.has(error.code)) this.keyStatus = 'invalid';
+        else if (error.code === 'apiKeyExhausted') this.keyStatus = 'exhausted';
+        // a rejected parameter still means the key was accepted
+        else if (error.status && error.status < 500 && error.code !== 'rateLimited') this.keyStatus = 'valid';
+        this.report({ endpoint, durationMs: Date.now() - started, error: error.code });
+        // an exhausted key only comes back with the next day's quota; a rate limit lifts when newsapi
+        // says it does, or after a pause that grows with each 429 in a row
+        if (error.code === 'apiKeyExhausted') this.block(nextUtcMidnight(), error);
+        if (error.code === 'rateLimited') {
+          const backoff = Math.min(this.rateLimitBackoffMs * 2 ** this.rateLimitStrikes++, MAX_RATE_LIMIT_BACKOFF_MS);
+          this.block(retryAfterTime(raw.response?.headers?.['retry-after']) ?? Date.now() + backoff, error);
+        }
+        if (!error.retryable || attempt >= this.maxRetries) throw error;
+        await sleep(this.retryBaseMs * 2 ** attempt + Math.random() * this.retryBaseMs);
+      }
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { NewsApiClient } from './NewsApiClient';
+import { HeadlinesQuery, NewsProvider, NormalizedArticle, ProviderResult, SearchQuery } from './types';
+
+interface NewsArticle {
+  source: { id: string | null; name: string };
+  author: string | null;
+  title: string;
+  description: string | null;
+  url: string;
+  urlToImage: string | null;
+  publishedAt: string;
+  content: string | null;
+}
+
+interface NewsApiResponse {
+  status: string;
+  totalResults: number;
+  articles: NewsArticle[];
+}
+
+// maps a raw newsapi.org article onto the shared normalized shape
+export function normalizeNewsApiArticle(article: NewsArticle): NormalizedArticle {
+  return {
+    title: article.title || '',
+    description: article.description || '',
+    url: article.url || '',
+    source: article.source?.name || 'unknown',
+    publishedAt: article.publishedAt || '',
+    author: article.author || 'Unknown',
+    content: article.content || article.description || ''
+  };
+}
+
+// adapter for the newsapi.org v2 rest api
+export class NewsApiProvider implements NewsProvider {
+  readonly name = 'newsapi';
+  private client: NewsApiClient;
+
+  constructor(client: NewsApiClient) {
+    this.client = client;
+  }
+
+  private async get(endpoint: string, params: Record<string, any>): Promise<ProviderResult> {
+    const data = await this.client.get<NewsApiResponse>(endpoint, params);
+    return {
+      articles: (data.articles || []).map(normalizeNewsApiArticle),
+      totalResults: data.totalResults
+    };
+  }
+
+  // newsapi refuses sources together with country or category, and has no domain filters for
+  // headlines; those are left to SourceFilteringProvider
+  async topHeadlines(query: HeadlinesQuery): Promise<ProviderResult> {
+    const pageSize = Math.min(query.pageSize || 20, 100);
+    if (query.sources?.length) return this.get('top-headlines', { sources: query.sources.slice(0, 20).join(','), pageSize });
+    const params: any = { country: query.country || 'us', pageSize };
+    if (query.category) params.category = query.category;
+    return this.get('top-headlines', params);
+  }
+
+  async search(query: SearchQuery): Promise<ProviderResult> {
+    const params: any = {
+      q: query.q,
+      sortBy: query.sortBy || 'relevancy',
+      language: query.language || 'en',
+      pageSize: Math.min(query.pageSize || 20, 100)
+    };
+    if (query.from) params.from = query.from;
+    if (query.to) params.to = query.to;
+    if (query.sources?.length) params.sources = query.sources.slice(0, 20).join(',');
+    if (query.domains?.length) params.domains = query.domains.join(',');
+    if (query.excludeDomains?.length) params.excludeDomains = query.excludeDomains.join(',');
+    return this.get('everything', params);
+  }
+}
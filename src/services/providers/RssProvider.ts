@@ -0,0 +1,98 @@
+import axios from 'axios';
+import { logger } from '../observability';
+import { NewsProviderError } from './errors';
+import { filterArticles } from './queryMatch';
+import { HeadlinesQuery, NewsProvider, NormalizedArticle, ProviderResult, SearchQuery } from './types';
+
+export interface RssFeed {
+  url: string;
+  category?: string;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeText(raw: string): string {
+  return raw
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&([a-z]+);/gi, (match, name) => ENTITIES[name.toLowerCase()] ?? match)
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function tag(block: string, names: string[]): string {
+  for (const name of names) {
+    const match = block.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'i'));
+    if (match) return decodeText(match[1]);
+  }
+  return '';
+}
+
+function link(block: string): string {
+  const atom = block.match(/<link\b[^>]*?href=["']([^"']+)["'][^>]*\/?>/i);
+  if (atom) return atom[1];
+  return tag(block, ['link', 'guid']);
+}
+
+// parses an rss 2.0 or atom document into normalized articles
+export function parseFeed(xml: string): NormalizedArticle[] {
+  const channel = xml.replace(/<(item|entry)\b[\s\S]*?<\/\1>/gi, '');
+  const feedTitle = tag(channel, ['title']) || 'unknown';
+  const blocks = xml.match(/<(item|entry)\b[\s\S]*?<\/\1>/gi) || [];
+  return blocks.map((block) => {
+    const description = tag(block, ['description', 'summary']);
+    const published = tag(block, ['pubDate', 'published', 'updated', 'dc:date']);
+    const parsed = Date.parse(published);
+    return {
+      title: tag(block, ['title']),
+      description,
+      url: link(block),
+      source: tag(block, ['source']) || feedTitle,
+      publishedAt: isNaN(parsed) ? '' : new Date(parsed).toISOString(),
+      author: tag(block, ['dc:creator', 'name', 'author']) || 'Unknown',
+      content: tag(block, ['content:encoded', 'content']) || description
+    };
+  });
+}
+
+// adapter that reads a configured list of rss/atom feeds
+export class RssProvider implements NewsProvider {
+  readonly name = 'rss';
+  private feeds: RssFeed[];
+
+  constructor(feeds: RssFeed[]) {
+    this.feeds = feeds;
+  }
+
+  private async fetchFeeds(category?: string): Promise<NormalizedArticle[]> {
+    const feeds = category ? this.feeds.filter((f) => !f.category || f.category === category) : this.feeds;
+    const results = await Promise.allSettled(
+      feeds.map((feed) => axios.get<string>(feed.url, { responseType: 'text', timeout: 15000 }))
+    );
+    const articles: NormalizedArticle[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        articles.push(...parseFeed(String(result.value.data)));
+      } else {
+        logger.warn('rss feed failed', { feed: feeds[i].url, error: result.reason });
+      }
+    });
+    if (feeds.length > 0 && articles.length === 0 && results.every((r) => r.status === 'rejected')) {
+      throw new NewsProviderError('networkError', 'none of the configured rss feeds could be reached', { retryable: true });
+    }
+    return articles;
+  }
+
+  async topHeadlines(query: HeadlinesQuery): Promise<ProviderResult> {
+    const articles = filterArticles(await this.fetchFeeds(query.category), { q: '', sortBy: 'publishedAt' });
+    return { articles: articles.slice(0, Math.min(query.pageSize || 20, 100)), totalResults: articles.length };
+  }
+
+  async search(query: SearchQuery): Promise<ProviderResult> {
+    const articles = filterArticles(await this.fetchFeeds(), query);
+    return { articles: articles.slice(0, Math.min(query.pageSize || 20, 100)), totalResults: articles.length };
+  }
+}
@@ -0,0 +1,33 @@
+import { normalizeDomain, SourceProfiles } from '../sources';
+import { HeadlinesQuery, NewsProvider, ProviderResult, SearchQuery } from './types';
+
+// wraps a provider so blocked domains never come back and source filters hold even where the
+// provider cannot apply them (rss, fixtures, newsapi headlines by domain)
+export class SourceFilteringProvider implements NewsProvider {
+  readonly name: string;
+  private inner: NewsProvider;
+  private profiles: SourceProfiles;
+
+  constructor(inner: NewsProvider, profiles: SourceProfiles) {
+    this.inner = inner;
+    this.profiles = profiles;
+    this.name = inner.name;
+  }
+
+  private filter(result: ProviderResult, query: HeadlinesQuery | SearchQuery): ProviderResult {
+    const articles = result.articles.filter((a) => !this.profiles.isBlocked(a) && this.profiles.matches(a, query));
+    return { ...result, articles, totalResults: Math.max(result.totalResults - (result.articles.length - articles.length), articles.length) };
+  }
+
+  async topHeadlines(query: HeadlinesQuery): Promise<ProviderResult> {
+    const sources = query.sources?.length ? this.profiles.sourceIds(query.sources) : undefined;
+    return this.filter(await this.inner.topHeadlines({ ...query, sources }), query);
+  }
+
+  async search(query: SearchQuery): Promise<ProviderResult> {
+    const sources = query.sources?.length ? this.profiles.sourceIds(query.sources) : undefined;
+    const domains = query.domains?.length ? [...new Set(query.domains.map(normalizeDomain))] : undefined;
+    const excludeDomains = [...new Set([...(query.excludeDomains || []).map(normalizeDomain), ...this.profiles.blockedDomains])];
+    return this.filter(await this.inner.search({ ...query, sources, domains, excludeDomains: excludeDomains.length ? excludeDomains : undefined }), query);
+  }
+}
@@ -0,0 +1,104 @@
+// newsapi.org error codes plus the local ones raised by the client wrapper
+export const NEWS_ERROR_CODES = [
+  'apiKeyDisabled',
+  'apiKeyExhausted',
+  'apiKeyInvalid',
+  'apiKeyMissing',
+  'parameterInvalid',
+  'parametersMissing',
+  'rateLimited',
+  'sourcesTooMany',
+  'sourceDoesNotExist',
+  'quotaExceeded',
+  'networkError',
+  'unexpectedError'
+] as const;
+
+export type NewsErrorCode = (typeof NEWS_ERROR_CODES)[number];
+
+export interface NewsErrorInfo {
+  code: NewsErrorCode;
+  message: string;
+  retryable: boolean;
+  retryAfter?: string;
+}
+
+const KNOWN_CODES = new Set<string>([
+  'apiKeyDisabled', 'apiKeyExhausted', 'apiKeyInvalid', 'apiKeyMissing', 'parameterInvalid', 'parametersMissing',
+  'rateLimited', 'sourcesTooMany', 'sourceDoesNotExist', 'unexpectedError'
+]);
+
+const FRIENDLY_MESSAGES: Partial<Record<NewsErrorCode, string>> = {
+  apiKeyDisabled: 'the news api key has been disabled',
+  apiKeyExhausted: 'the news api key has no requests left',
+  apiKeyInvalid: 'the news api key is invalid',
+  apiKeyMissing: 'no news api key is configured',
+  rateLimited: 'the news api rate limit has been reached, try again later',
+  quotaExceeded: 'the daily news api request budget has been used up, try again after it resets',
+  networkError: 'the news provider could not be reached'
+};
+
+// typed error thrown by providers so callers can tell failures apart from empty results
+export class NewsProviderError extends Error {
+  code: NewsErrorCode;
+  status?: number;
+  retryable: boolean;
+  retryAfter?: string;
+
+  constructor(code: NewsErrorCode, message: string, options: { status?: number; retryable?: boolean; retryAfter?: string } = {}) {
+    super(message);
+    this.name = 'NewsProviderError';
+    this.code = code;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.retryAfter = options.retryAfter;
+  }
+
+  toJSON(): NewsErrorInfo {
+    const info: NewsErrorInfo = { code: this.code, message: this.message, retryable: this.retryable };
+    if (this.retryAfter) info.retryAfter = this.retryAfter;
+    return info;
+  }
+}
+
+// turns an axios failure from newsapi.org into a typed provider error
+export function parseNewsApiError(error: any): NewsProviderError {
+  if (error instanceof NewsProviderError) return error;
+  const status: number | undefined = error.response?.status;
+  const body = error.response?.data;
+  if (!error.response) {
+    return new NewsProviderError('networkError', FRIENDLY_MESSAGES.networkError!, { retryable: true });
+  }
+  const code: NewsErrorCode = body && KNOWN_CODES.has(body.code) ? body.code : status === 429 ? 'rateLimited' : 'unexpectedError';
+  const message = FRIENDLY_MESSAGES[code] || body?.message || `news api request failed with status ${status}`;
+  return new NewsProviderError(code, message, {
+    status,
+    retryable: status !== undefined && status >= 500
+  });
+}
+
+// reduces any thrown value to the error shape returned by routes and daemo tools
+export function toNewsErrorInfo(error: any): NewsErrorInfo {
+  if (error instanceof NewsProviderError) return error.toJSON();
+  return { code: 'unexpectedError', message: error?.message || 'unexpected error fetching news', retryable: false };
+}
+
+// maps an error code onto the http status the express routes should answer with
+export function httpStatusForError(code: NewsErrorCode): number {
+  switch (code) {
+    case 'parameterInvalid':
+    case 'parametersMissing':
+    case 'sourcesTooMany':
+    case 'sourceDoesNotExist':
+      return 400;
+    case 'rateLimited':
+    case 'quotaExceeded':
+    case 'apiKeyExhausted':
+      return 429;
+    case 'networkError':
+    case 'unexpectedError':
+      return 502;
+    default:
+      return 503;
+  }
+}
@@ -0,0 +1,58 @@
+import path from 'path';
+import { ArchivingProvider } from './ArchivingProvider';
+import { CachingProvider } from './CachingProvider';
+import { CompositeProvider } from './CompositeProvider';
+import { FixtureProvider } from './FixtureProvider';
+import { NewsApiClient } from './NewsApiClient';
+import { NewsApiProvider } from './NewsApiProvider';
+import { RssFeed, RssProvider } from './RssProvider';
+import { SourceFilteringProvider } from './SourceFilteringProvider';
+import { NewsProvider } from './types';
+
+export * from './types';
+export * from './errors';
+export { ArchivingProvider, CachingProvider, CompositeProvider, FixtureProvider, NewsApiClient, NewsApiProvider, RssProvider, SourceFilteringProvider };
+
+// builds the newsapi.org client from NEWS_API_* settings, or null when no key is configured
+export function createNewsApiClient(env: NodeJS.ProcessEnv = process.env): NewsApiClient | null {
+  if (!env.NEWS_API_KEY) return null;
+  const number = (value: string | undefined) => (value && !isNaN(Number(value)) ? Number(value) : undefined);
+  return new NewsApiClient(env.NEWS_API_KEY, {
+    baseUrl: env.NEWS_API_BASE_URL || undefined,
+    dailyBudget: number(env.NEWS_API_DAILY_BUDGET),
+    maxRetries: number(env.NEWS_API_MAX_RETRIES)
+  });
+}
+
+// parses NEWS_RSS_FEEDS entries of the form `url` or `category|url`
+function parseFeeds(value: string): RssFeed[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [category, url] = entry.includes('|') ? entry.split('|', 2) : [undefined, entry];
+      return { url: url.trim(), category: category?.trim() || undefined };
+    });
+}
+
+// builds the configured provider(s) from NEWS_PROVIDERS (newsapi, rss, fixture)
+export function createNewsProvider(env: NodeJS.ProcessEnv = process.env, newsApiClient: NewsApiClient | null = createNewsApiClient(env)): NewsProvider {
+  const names = (env.NEWS_PROVIDERS || 'newsapi').split(',').map((n) => n.trim().toLowerCase()).filter(Boolean);
+  const providers = names.map((name): NewsProvider => {
+    switch (name) {
+      case 'newsapi':
+        if (!newsApiClient) throw new Error('NEWS_API_KEY is required for the newsapi provider');
+        return new NewsApiProvider(newsApiClient);
+      case 'rss':
+        if (!env.NEWS_RSS_FEEDS) throw new Error('NEWS_RSS_FEEDS is required for the rss provider');
+        return new RssProvider(parseFeeds(env.NEWS_RSS_FEEDS));
+      case 'fixture':
+        return new FixtureProvider(path.resolve(env.NEWS_FIXTURE_PATH || path.join(__dirname, '../../../fixtures/articles.json')));
+      default:
+        throw new Error(`unknown news provider: ${name}`);
+    }
+  });
+  if (providers.length === 0) throw new Error('NEWS_PROVIDERS must name at least one provider');
+  return providers.length === 1 ? providers[0] : new CompositeProvider(providers);
+}
@@ -0,0 +1,130 @@
+import { NormalizedArticle, SearchQuery } from './types';
+
+interface Clause {
+  required: string[];
+  excluded: string[];
+}
+
+// queries are expanded into OR-ed clauses (disjunctive normal form); cap the expansion
+const MAX_CLAUSES = 64;
+
+const emptyClause = (): Clause => ({ required: [], excluded: [] });
+
+function both(left: Clause[], right: Clause[]): Clause[] {
+  const combined: Clause[] = [];
+  for (const a of left) {
+    for (const b of right) combined.push({ required: [...a.required, ...b.required], excluded: [...a.excluded, ...b.excluded] });
+  }
+  return combined.slice(0, MAX_CLAUSES);
+}
+
+// NOT (a OR b) is NOT a AND NOT b, so excluding every term of the group is exact for OR-ed
+// terms and a close enough approximation for anything more nested
+function negate(group: Clause[]): Clause[] {
+  return [{ required: [], excluded: group.flatMap((c) => c.required) }];
+}
+
+// parses a newsapi-style query (phrases, parentheses, AND/OR/NOT, +/- prefixes) into OR-ed
+// clauses. AND binds tighter than OR and is implied between adjacent terms
+export function parseQuery(q: string): Clause[] {
+  const tokens = q.match(/[()]|[-+]?"[^"]*"|[^\s()]+/g) || [];
+  let pos = 0;
+  const peek = () => tokens[pos]?.toUpperCase();
+
+  const parseOr = (): Clause[] => {
+    let clauses = parseAnd();
+    while (peek() === 'OR') {
+      pos++;
+      clauses = [...clauses, ...parseAnd()].slice(0, MAX_CLAUSES);
+    }
+    return clauses;
+  };
+
+  const parseAnd = (): Clause[] => {
+    let clauses = [emptyClause()];
+    while (pos < tokens.length && peek() !== 'OR' && peek() !== ')') {
+      if (peek() === 'AND') {
+        pos++;
+        continue;
+      }
+      clauses = both(clauses, parseUnary());
+    }
+    return clauses;
+  };
+
+  const parseUnary = (): Clause[] => {
+    const token = tokens[pos++];
+    if (token.toUpperCase() === 'NOT') {
+      return pos < tokens.length && peek() !== ')' && peek() !== 'OR' ? negate(parseUnary()) : [emptyClause()];
+    }
+    if (token === '(') {
+      const group = parseOr();
+      if (tokens[pos] === ')') pos++;
+      return group;
+    }
+    const negated = token.startsWith('-');
+    const term = token.replace(/^[-+]/, '').replace(/"/g, '').toLowerCase().trim();
+    if (!term) return [emptyClause()];
+    return [negated ? { required: [], excluded: [term] } : { required: [term], excluded: [] }];
+  };
+
+  const clauses: Clause[] = [];
+  while (pos < tokens.length) {
+    clauses.push(...parseOr());
+    // an unbalanced closing parenthesis
+    if (tokens[pos] === ')') pos++;
+  }
+  return clauses.filter((c) => c.required.length > 0 || c.excluded.length > 0);
+}
+
+function articleText(article: NormalizedArticle): string {
+  return `${article.title} ${article.description} ${article.content}`.toLowerCase();
+}
+
+// whole words like newsapi, so excluding "cider" keeps articles that "consider" something
+function containsTerm(text: string, term: string): boolean {
+  let from = text.indexOf(term);
+  while (from !== -1) {
+    const before = text[from - 1];
+    const after = text[from + term.length];
+    if (!(before && /[\p{L}\p{N}]/u.test(before)) && !(after && /[\p{L}\p{N}]/u.test(after))) return true;
+    from = text.indexOf(term, from + 1);
+  }
+  return false;
+}
+
+// counts how many query terms an article hits, 0 means no match
+export function scoreArticle(article: NormalizedArticle, clauses: Clause[]): number {
+  if (clauses.length === 0) return 1;
+  const text = articleText(article);
+  let best = 0;
+  for (const clause of clauses) {
+    if (clause.excluded.some((t) => containsTerm(text, t))) continue;
+    if (!clause.required.every((t) => containsTerm(text, t))) continue;
+    best = Math.max(best, clause.required.length || 1);
+  }
+  return best;
+}
+
+// applies query, date window, sorting and page size to an in-memory article list
+export function filterArticles(articles: NormalizedArticle[], query: SearchQuery): NormalizedArticle[] {
+  const clauses = parseQuery(query.q);
+  const from = query.from ? Date.parse(query.from) : NaN;
+  const to = query.to ? Date.parse(query.to) : NaN;
+  const scored = articles
+    .map((article) => ({ article, score: scoreArticle(article, clauses) }))
+    .filter(({ article, score }) => {
+      if (score === 0) return false;
+      const published = Date.parse(article.publishedAt);
+      if (!isNaN(from) && !isNaN(published) && published < from) return false;
+      if (!isNaN(to) && !isNaN(published) && published > to) return false;
+      return true;
+    });
+  const byDate = (a: NormalizedArticle, b: NormalizedArticle) => (Date.parse(b.publishedAt) || 0) - (Date.parse(a.publishedAt) || 0);
+  if (query.sortBy === 'relevancy') {
+    scored.sort((a, b) => b.score - a.score || byDate(a.article, b.article));
+  } else {
+    scored.sort((a, b) => byDate(a.article, b.article));
+  }
+  return scored.map((s) => s.article);
+}
@@ -0,0 +1,50 @@
+import { CacheMeta } from '../ResponseCache';
+import { NewsErrorInfo } from './errors';
+
+// shared shapes for every news provider adapter
+
+export interface NormalizedArticle {
+  title: string;
+  description: string;
+  url: string;
+  source: string;
+  publishedAt: string;
+  author: string;
+  content: string;
+}
+
+export interface ProviderResult {
+  articles: NormalizedArticle[];
+  totalResults: number;
+  cache?: CacheMeta;
+  error?: NewsErrorInfo;
+}
+
+// newsapi source ids, and domains an article's url must (or must not) be on
+export interface SourceQuery {
+  sources?: string[];
+  domains?: string[];
+  excludeDomains?: string[];
+}
+
+export interface HeadlinesQuery extends SourceQuery {
+  country?: string;
+  category?: string;
+  pageSize?: number;
+}
+
+export interface SearchQuery extends SourceQuery {
+  q: string;
+  from?: string;
+  to?: string;
+  sortBy?: 'relevancy' | 'popularity' | 'publishedAt';
+  language?: string;
+  pageSize?: number;
+}
+
+// a source of articles the news service can query without knowing the vendor
+export interface NewsProvider {
+  readonly name: string;
+  topHeadlines(query: HeadlinesQuery): Promise<ProviderResult>;
+  search(query: SearchQuery): Promise<ProviderResult>;
+}
@@ -0,0 +1,114 @@
+import { tokenize } from '../ArticleArchive';
+import { NormalizedArticle } from '../providers';
+import { parseQuery } from '../providers/queryMatch';
+import { SourceProfiles } from '../sources';
+import { clusterArticles } from '../StoryClusterer';
+import { InterestProfile, interestTerms } from './InterestProfiles';
+
+export const RANKING_SIGNALS = ['recency', 'relevance', 'trust', 'coverage', 'interest'] as const;
+export type RankingSignal = typeof RANKING_SIGNALS[number];
+
+export type RankingWeights = Record<RankingSignal, number>;
+
+// each signal is scored 0-1; recency and source trust carry the most weight without a query or profile
+export const DEFAULT_WEIGHTS: RankingWeights = { recency: 0.3, relevance: 0.25, trust: 0.15, coverage: 0.15, interest: 0.15 };
+
+export interface ArticleRank {
+  score: number;
+  signals: Partial<Record<RankingSignal, number>>;
+  // outlets that carried the same story, including this one
+  coverageCount: number;
+  // the learned interests this article matched, strongest first
+  matchedInterests: string[];
+}
+
+export type RankedArticle<T extends NormalizedArticle = NormalizedArticle> = T & { rank: ArticleRank };
+
+export interface RankOptions {
+  query?: string;
+  interests?: InterestProfile | null;
+  // keeps only the best-ranked copy of each story
+  collapseStories?: boolean;
+  halfLifeHours?: number;
+  weights?: Partial<RankingWeights>;
+  now?: number;
+}
+
+const DEFAULT_HALF_LIFE_HOURS = 24;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// the words a query asks for: every required term of its boolean clauses, phrases kept whole
+function queryTerms(query: string): string[] {
+  const terms = parseQuery(query).flatMap((clause) => clause.required).map((t) => tokenize(t).join(' ')).filter(Boolean);
+  return [...new Set(terms)];
+}
+
+function includesTerm(tokens: string[], term: string): boolean {
+  const words = term.split(' ');
+  return tokens.some((_, i) => words.every((w, j) => tokens[i + j] === w));
+}
+
+// scores articles by recency decay, query-term match, source trust, story size and a user's
+// learned interests. signals that do not apply (no query, no profile) are left out of the
+// weighted average rather than counted as zero
+export class ArticleRanker {
+  private sources: SourceProfiles;
+
+  constructor(sources = new SourceProfiles()) {
+    this.sources = sources;
+  }
+
+  rank<T extends NormalizedArticle>(articles: T[], options: RankOptions = {}): RankedArticle<T>[] {
+    const now = options.now ?? Date.now();
+    const halfLife = options.halfLifeHours || DEFAULT_HALF_LIFE_HOURS;
+    const weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+    const terms = options.query ? queryTerms(options.query) : [];
+    const interests = options.interests && (options.interests.terms.size || options.interests.sources.size) ? options.interests : null;
+
+    const storyByUrl = new Map<string, { id: string; size: number }>();
+    for (const story of clusterArticles(articles)) {
+      const size = new Set(story.sources).size;
+      for (const member of story.articles) storyByUrl.set(member.url, { id: story.id, size });
+    }
+
+    const ranked = articles.map((article): RankedArticle<T> & { storyId: string } => {
+      const signals: Partial<Record<RankingSignal, number>> = {};
+      const age = (now - Date.parse(article.publishedAt)) / 3600000;
+      signals.recency = isNaN(age) ? 0 : Math.pow(0.5, Math.max(0, age) / halfLife);
+      signals.trust = this.sources.reliability(article);
+      const story = storyByUrl.get(article.url) || { id: article.url, size: 1 };
+      signals.coverage = 1 - 1 / story.size;
+
+      if (terms.length > 0) {
+        const title = tokenize(article.title);
+        const body = tokenize(`${article.description} ${article.content}`);
+        const hits = terms.map((term) => (includesTerm(title, term) ? 1 : includesTerm(body, term) ? 0.5 : 0) as number);
+        signals.relevance = hits.reduce((a, b) => a + b, 0) / terms.length;
+      }
+
+      let matchedInterests: string[] = [];
+      if (interests) {
+        const matched = interestTerms(`${article.title} ${article.description}`)
+          .map((term) => [term, interests.terms.get(term) || 0] as const)
+          .filter(([, weight]) => weight > 0)
+          .sort((a, b) => b[1] - a[1]);
+        matchedInterests = matched.slice(0, 3).map(([term]) => term);
+        const affinity = matched.reduce((sum, [, weight]) => sum + weight, 0) + 0.5 * (interests.sources.get(article.source) || 0);
+        // diminishing returns, so one strong match counts for most of the signal
+        signals.interest = 1 - Math.exp(-affinity);
+      }
+
+      const active = RANKING_SIGNALS.filter((s) => signals[s] !== undefined);
+      const total = active.reduce((sum, s) => sum + weights[s], 0);
+      const score = total > 0 ? active.reduce((sum, s) => sum + weights[s] * signals[s]!, 0) / total : 0;
+      for (const s of active) signals[s] = round(signals[s]!);
+      return { ...article, storyId: story.id, rank: { score: round(score), signals, coverageCount: story.size, matchedInterests } };
+    });
+
+    ranked.sort((a, b) => b.rank.score - a.rank.score || (Date.parse(b.publishedAt) || 0) - (Date.parse(a.publishedAt) || 0));
+    const seen = new Set<string>();
+    const kept = options.collapseStories ? ranked.filter((a) => !seen.has(a.storyId) && !!seen.add(a.storyId)) : ranked;
+    return kept.map(({ storyId, ...article }) => article as unknown as RankedArticle<T>);
+  }
+}
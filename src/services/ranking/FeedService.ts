@@ -0,0 +1,71 @@
+import { normalizeArticleUrl } from '../ArticleArchive';
+import { NewsService } from '../MyFunctions';
+import { CacheMeta, mergeCacheMeta } from '../ResponseCache';
+import { NewsErrorInfo, NormalizedArticle } from '../providers';
+import { SourceFilter } from '../sources';
+import { ArticleRanker, DEFAULT_WEIGHTS, RankedArticle, RankingWeights } from './ArticleRanker';
+import { Interest, InterestProfiles } from './InterestProfiles';
+
+export interface FeedOptions extends SourceFilter {
+  country?: string;
+  category?: string;
+  pageSize?: number;
+}
+
+export interface PersonalFeed {
+  articles: RankedArticle[];
+  // candidates ranked before the page was cut, after merging and story collapsing
+  totalResults: number;
+  personalized: boolean;
+  interests: Interest[];
+  cache?: CacheMeta;
+  error?: NewsErrorInfo;
+}
+
+// candidates per request; the feed page is cut from the ranked pool
+const CANDIDATES = 50;
+const INTEREST_QUERY_TERMS = 3;
+// learned interests count double in the personal feed
+const FEED_WEIGHTS: Partial<RankingWeights> = { interest: DEFAULT_WEIGHTS.interest * 2 };
+
+// a user's feed: top headlines plus a search for their strongest interests, merged and ranked
+// with what they have clicked, saved and asked about
+export class FeedService {
+  private newsService: NewsService;
+  private interests: InterestProfiles;
+  private ranker: ArticleRanker;
+
+  constructor(newsService: NewsService, interests: InterestProfiles, ranker = new ArticleRanker()) {
+    this.newsService = newsService;
+    this.interests = interests;
+    this.ranker = ranker;
+  }
+
+  async getFeed(userId: string, options: FeedOptions = {}): Promise<PersonalFeed> {
+    const profile = this.interests.profile(userId);
+    const top = this.interests.topInterests(userId, 5).terms;
+    const filter: SourceFilter = { sources: options.sources, domains: options.domains, excludeDomains: options.excludeDomains };
+    const interestQuery = top.slice(0, INTEREST_QUERY_TERMS).map((i) => i.term).join(' OR ');
+
+    const [headlines, matches] = await Promise.all([
+      this.newsService.getTopHeadlines({ country: options.country, category: options.category, pageSize: CANDIDATES, ...filter }),
+      interestQuery ? this.newsService.searchNews({ query: interestQuery, sortBy: 'publishedAt', pageSize: CANDIDATES, ...filter }) : null
+    ]);
+
+    const byUrl = new Map<string, NormalizedArticle>();
+    for (const article of [...headlines.articles, ...(matches?.articles || [])]) {
+      const key = normalizeArticleUrl(article.url);
+      if (!byUrl.has(key)) byUrl.set(key, article);
+    }
+    const ranked = this.ranker.rank([...byUrl.values()], { interests: profile, collapseStories: true, weights: FEED_WEIGHTS });
+    const error = ranked.length === 0 ? headlines.error || matches?.error : undefined;
+    return {
+      articles: ranked.slice(0, options.pageSize || 20),
+      totalResults: ranked.length,
+      personalized: profile !== null,
+      interests: top,
+      cache: mergeCacheMeta([headlines.cache, matches?.cache]),
+      ...(error ? { error } : {})
+    };
+  }
+}
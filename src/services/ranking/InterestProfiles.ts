@@ -0,0 +1,199 @@
+import { normalizeArticleUrl, tokenize } from '../ArticleArchive';
+import { JsonStore } from '../JsonStore';
+import { NormalizedArticle } from '../providers';
+
+export type InterestSignal = 'click' | 'save' | 'chat';
+
+// how much one interaction teaches about a user: saving is deliberate, a chat question is a hint
+export const SIGNAL_WEIGHTS: Record<InterestSignal, number> = { click: 1, save: 3, chat: 0.5 };
+
+export interface SavedArticle extends NormalizedArticle {
+  savedAt: string;
+}
+
+// a user's interests at one moment, each weight scaled so the strongest is 1
+export interface InterestProfile {
+  terms: Map<string, number>;
+  sources: Map<string, number>;
+}
+
+export interface Interest {
+  term: string;
+  weight: number;
+}
+
+interface Weighted {
+  weight: number;
+  updatedAt: string;
+}
+
+interface UserInterests {
+  userId: string;
+  terms: Record<string, Weighted>;
+  sources: Record<string, Weighted>;
+  saved: SavedArticle[];
+  clicks: number;
+  updatedAt: string;
+}
+
+// interests fade unless they keep coming up
+const HALF_LIFE_DAYS = 14;
+const MAX_TERMS = 200;
+const MAX_SOURCES = 50;
+const MAX_SAVED = 500;
+const CLICK_REPEAT_MS = 60 * 60 * 1000;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'this', 'that', 'into', 'about', 'after', 'before', 'over', 'under', 'their', 'they',
+  'them', 'you', 'your', 'will', 'said', 'says', 'new', 'more', 'has', 'have', 'was', 'were', 'are', 'its', 'but', 'not',
+  'than', 'then', 'what', 'whats', 'which', 'who', 'why', 'how', 'when', 'where', 'can', 'could', 'would', 'should', 'any',
+  'some', 'all', 'out', 'our', 'his', 'her', 'she', 'him', 'news', 'latest', 'today', 'week', 'year', 'show', 'tell', 'give',
+  'please', 'happening', 'going', 'just', 'also', 'been', 'being', 'does', 'did', 'get', 'got', 'one', 'two', 'per', 'via'
+]);
+
+// the words of a headline or question worth learning from
+export function interestTerms(text: string): string[] {
+  return [...new Set(tokenize(text).filter((w) => w.length > 2 && !STOP_WORDS.has(w) && !/^\d+$/.test(w)))];
+}
+
+function decayed(entry: Weighted, now: number): number {
+  const days = Math.max(0, now - Date.parse(entry.updatedAt)) / 86400000;
+  return entry.weight * Math.pow(0.5, days / HALF_LIFE_DAYS);
+}
+
+// keeps the strongest entries so a profile cannot grow without bound
+function prune(entries: Record<string, Weighted>, limit: number, now: number): Record<string, Weighted> {
+  const kept = Object.entries(entries).sort((a, b) => decayed(b[1], now) - decayed(a[1], now)).slice(0, limit);
+  return Object.fromEntries(kept);
+}
+
+function scaled(entries: Record<string, Weighted>, now: number): Map<string, number> {
+  const weights = Object.entries(entries).map(([key, entry]) => [key, decayed(entry, now)] as const);
+  const max = Math.max(0, ...weights.map(([, w]) => w));
+  return new Map(max > 0 ? weights.map(([key, w]) => [key, w / max]) : []);
+}
+
+// per-user interests learned from article clicks, saved articles and chat questions,
+// kept in DATA_DIR/interests.json with the saved articles themselves
+export class InterestProfiles {
+  private users: Map<string, UserInterests>;
+  private recentClicks = new Map<string, number>();
+  private store: JsonStore<UserInterests[]>;
+
+  constructor(filePath?: string) {
+    this.store = new JsonStore(filePath);
+    this.users = new Map(this.store.load([]).map((u) => [u.userId, u]));
+  }
+
+  private persist() {
+    this.store.save(() => [...this.users.values()]);
+  }
+
+  private user(userId: string): UserInterests {
+    let user = this.users.get(userId);
+    if (!user) {
+      user = { userId, terms: {}, sources: {}, saved: [], clicks: 0, updatedAt: new Date().toISOString() };
+      this.users.set(userId, user);
+    }
+    return user;
+  }
+
+  private learn(user: UserInterests, terms: string[], source: string | null, signal: InterestSignal) {
+    const now = Date.now();
+    const updatedAt = new Date(now).toISOString();
+    const amount = SIGNAL_WEIGHTS[signal];
+    for (const term of terms) {
+      const current = user.terms[term] ? decayed(user.terms[term], now) : 0;
+      user.terms[term] = { weight: current + amount, updatedAt };
+    }
+    if (source) {
+      const current = user.sources[source] ? decayed(user.sources[source], now) : 0;
+      user.sources[source] = { weight: current + amount, updatedAt };
+    }
+    user.terms = prune(user.terms, MAX_TERMS, now);
+    user.sources = prune(user.sources, MAX_SOURCES, now);
+    user.updatedAt = updatedAt;
+  }
+
+  // repeated clicks on the same article within an hour count once
+  recordClick(userId: string, article: Pick<NormalizedArticle, 'title' | 'description' | 'source' | 'url'>): boolean {
+    const key = `${userId} ${normalizeArticleUrl(article.url)}`;
+    const last = this.recentClicks.get(key);
+    if (last && Date.now() - last < CLICK_REPEAT_MS) return false;
+    for (const [seen, at] of this.recentClicks) {
+      if (Date.now() - at >= CLICK_REPEAT_MS) this.recentClicks.delete(seen);
+    }
+    this.recentClicks.set(key, Date.now());
+    const user = this.user(userId);
+    this.learn(user, interestTerms(`${article.title} ${article.description || ''}`), article.source || null, 'click');
+    user.clicks++;
+    this.persist();
+    return true;
+  }
+
+  // saving an article twice keeps the first save and learns from it once
+  saveArticle(userId: string, article: NormalizedArticle): SavedArticle {
+    const user = this.user(userId);
+    const key = normalizeArticleUrl(article.url);
+    const existing = user.saved.find((a) => normalizeArticleUrl(a.url) === key);
+    if (existing) return existing;
+    const saved: SavedArticle = { ...article, savedAt: new Date().toISOString() };
+    user.saved = [saved, ...user.saved].slice(0, MAX_SAVED);
+    this.learn(user, interestTerms(`${article.title} ${article.description}`), article.source || null, 'save');
+    this.persist();
+    return saved;
+  }
+
+  removeSaved(userId: string, url: string): boolean {
+    const user = this.users.get(userId);
+    const key = normalizeArticleUrl(url);
+    if (!user || !user.saved.some((a) => normalizeArticleUrl(a.url) === key)) return false;
+    user.saved = user.saved.filter((a) => normalizeArticleUrl(a.url) !== key);
+    this.persist();
+    return true;
+  }
+
+  // newest first
+  listSaved(userId: string): SavedArticle[] {
+    return [...(this.users.get(userId)?.saved || [])];
+  }
+
+  recordChatTopic(userId: string, message: string) {
+    const terms = interestTerms(message);
+    if (terms.length === 0) return;
+    this.learn(this.user(userId), terms, null, 'chat');
+    this.persist();
+  }
+
+  // null until the user has clicked, saved or asked about something
+  profile(userId: string, now = Date.now()): InterestProfile | null {
+    const user = this.users.get(userId);
+    if (!user || (Object.keys(user.terms).length === 0 && Object.keys(user.sources).length === 0)) return null;
+    return { terms: scaled(user.terms, now), sources: scaled(user.sources, now) };
+  }
+
+  topInterests(userId: string, limit = 10): { terms: Interest[]; sources: Interest[] } {
+    const profile = this.profile(userId);
+    const top = (weights?: Map<string, number>) => [...(weights || new Map<string, number>()).entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([term, weight]) => ({ term, weight: Math.round(weight * 100) / 100 }));
+    return { terms: top(profile?.terms), sources: top(profile?.sources) };
+  }
+
+  // forgets what was learned; saved articles stay
+  reset(userId: string): boolean {
+    const user = this.users.get(userId);
+    if (!user) return false;
+    user.terms = {};
+    user.sources = {};
+    user.clicks = 0;
+    user.updatedAt = new Date().toISOString();
+    this.persist();
+    return true;
+  }
+
+  flush(): Promise<void> {
+    return this.store.flush();
+  }
+}
@@ -0,0 +1,11 @@
+import { dataPath } from '../JsonStore';
+import { InterestProfiles } from './InterestProfiles';
+
+export * from './ArticleRanker';
+export * from './FeedService';
+export * from './InterestProfiles';
+
+// learned interests and saved articles kept in DATA_DIR/interests.json
+export function createInterestProfiles(env: NodeJS.ProcessEnv = process.env): InterestProfiles {
+  return new InterestProfiles(dataPath('interests.json', env));
+}
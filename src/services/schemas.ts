@@ -0,0 +1,708 @@
+import { z } from 'zod';
+import { ENRICH_MODES } from './enrichment';
+import { EVENT_TYPES } from './EventClassifier';
+import { EXPORT_FORMATS } from './export/formats';
+import { NEWS_ERROR_CODES } from './providers/errors';
+import { RANKING_SIGNALS } from './ranking/ArticleRanker';
+import { SOURCE_TIERS } from './sources';
+
+// zod schemas shared by the daemo tool decorators and the http routes
+
+export const NEWS_CATEGORIES = ['business', 'entertainment', 'general', 'health', 'science', 'sports', 'technology'] as const;
+
+export const cacheMetaSchema = z.object({
+  status: z.enum(['hit', 'miss', 'stale']),
+  ageSeconds: z.number(),
+  ttlSeconds: z.number()
+}).optional().describe("whether the data came from the response cache");
+
+export const newsErrorSchema = z.object({
+  code: z.enum(NEWS_ERROR_CODES),
+  message: z.string(),
+  retryable: z.boolean(),
+  retryAfter: z.string().optional()
+}).optional().describe("present when results are empty because the news provider failed, e.g. rateLimited or apiKeyInvalid");
+
+// body of a news route that failed upstream: the usual result fields (left empty) plus the error
+export const newsErrorResponse = z.object({ error: newsErrorSchema.unwrap() }).passthrough();
+
+export const spikeSchema = z.object({
+  term: z.string(),
+  current: z.number().describe("articles in the current window"),
+  baseline: z.number().describe("articles in the baseline period"),
+  expected: z.number().describe("baseline count scaled to the span the window sample covers"),
+  zScore: z.number(),
+  changePct: z.number().nullable()
+});
+
+// what a pulse's counts are based on: newsapi returns at most 100 articles per request, newest first
+export const sampleCoverageSchema = z.object({
+  articles: z.number().describe("articles the counts are based on"),
+  totalResults: z.number().describe("articles the provider matched in the period"),
+  complete: z.boolean().describe("false when the provider matched more articles than it returned"),
+  coveredFrom: z.string().describe("when incomplete, the oldest article returned: earlier days are missing from the counts"),
+  coveredDays: z.number().describe("days the sample spans, used to turn counts into daily rates")
+});
+
+export const sentimentSummarySchema = z.object({
+  articles: z.number(),
+  positive: z.number(),
+  neutral: z.number(),
+  negative: z.number(),
+  averageScore: z.number().describe("mean article score from -1 (negative) to 1 (positive)")
+});
+
+export const sentimentSeriesSchema = z.array(z.object({
+  date: z.string(),
+  articles: z.number(),
+  averageScore: z.number().nullable()
+})).describe("average sentiment per utc day, null on days without coverage");
+
+export const storySchema = z.object({
+  id: z.string(),
+  headline: z.string(),
+  url: z.string(),
+  source: z.string(),
+  articleCount: z.number(),
+  sources: z.array(z.string()),
+  firstSeen: z.string(),
+  lastSeen: z.string(),
+  articles: z.array(z.object({
+    title: z.string(),
+    source: z.string(),
+    url: z.string(),
+    publishedAt: z.string()
+  }))
+});
+
+// added to each article when a news tool is called with enrich
+export const articleEnrichmentFields = {
+  fullText: z.string().optional().describe("readable text extracted from the article page (enrich=full)"),
+  textSource: z.enum(['page', 'content', 'description']).optional().describe("the text wordCount and entities are based on"),
+  wordCount: z.number().optional().describe("estimated from newsapi's truncation marker unless the page text was extracted"),
+  readingTimeMinutes: z.number().optional(),
+  entities: z.object({
+    people: z.array(z.string()),
+    organizations: z.array(z.string()),
+    tickers: z.array(z.string())
+  }).optional().describe("people, organizations and stock tickers mentioned, most mentioned first")
+};
+
+// added to articles by the routes that rank them (rank=true, the personal feed)
+export const articleRankSchema = z.object({
+  score: z.number().describe("weighted average of the signals, 0-1"),
+  signals: z.object(Object.fromEntries(RANKING_SIGNALS.map((s) => [s, z.number().optional()])) as Record<typeof RANKING_SIGNALS[number], z.ZodOptional<z.ZodNumber>>)
+    .describe("recency decay, query-term match, source trust, story size and learned interest, each 0-1; relevance and interest only when there is a query or a profile"),
+  coverageCount: z.number().describe("outlets that carried the same story"),
+  matchedInterests: z.array(z.string())
+});
+
+// newsapi's source filters, on every tool and route that searches for news
+const sourceFilterFields = {
+  sources: z.array(z.string()).max(20).optional().describe("only these outlets, by name or newsapi source id, e.g. ['reuters', 'Bloomberg']"),
+  domains: z.array(z.string()).max(20).optional().describe("only articles from these domains, e.g. ['ft.com', 'wsj.com']"),
+  excludeDomains: z.array(z.string()).max(20).optional().describe("leave out articles from these domains")
+};
+
+const enrichInput = z.enum(ENRICH_MODES).optional().describe("add word count, reading time and mentioned people/organizations/tickers to each article; 'full' also fetches every article page for its full text (slower)");
+
+export const watchlistSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  companies: z.array(z.string()),
+  keywords: z.array(z.string()),
+  industries: z.array(z.string()),
+  priority: z.enum(['low', 'medium', 'high']),
+  intervalMinutes: z.number(),
+  enabled: z.boolean(),
+  lastRunAt: z.string().nullable(),
+  lastFailedAt: z.string().nullable().optional().describe("when the last run failed on a provider error; lastRunAt only moves on runs that succeed")
+});
+
+// news tools
+
+export const getTopHeadlinesInput = z.object({
+  country: z.string().optional().describe("2-letter country code (e.g., 'us', 'gb'). Default is 'us'"),
+  category: z.enum(NEWS_CATEGORIES).optional().describe("News category to filter by"),
+  pageSize: z.number().int().min(1).max(100).optional().describe("Number of results to return (default 20)"),
+  cluster: z.boolean().optional().describe("also group syndicated copies of the same story into stories"),
+  enrich: enrichInput,
+  ...sourceFilterFields
+});
+
+export const getTopHeadlinesOutput = z.object({
+  articles: z.array(z.object({
+    title: z.string(),
+    description: z.string().optional(),
+    url: z.string(),
+    source: z.string(),
+    publishedAt: z.string(),
+    author: z.string().optional(),
+    content: z.string().optional(),
+    ...articleEnrichmentFields,
+    rank: articleRankSchema.optional()
+  })),
+  totalResults: z.number(),
+  stories: z.array(storySchema).optional(),
+  cache: cacheMetaSchema,
+  error: newsErrorSchema
+});
+
+export const searchNewsInput = z.object({
+  query: z.string().optional().describe("Keywords or phrase to search for (e.g., 'artificial intelligence', 'Tesla', 'healthcare')"),
+  sortBy: z.enum(['relevancy', 'popularity', 'publishedAt']).optional().describe("How to sort results (default: relevancy)"),
+  language: z.string().optional().describe("2-letter language code (e.g., 'en'). Default is 'en'"),
+  pageSize: z.number().int().min(1).max(100).optional().describe("Number of results (default 20)"),
+  cluster: z.boolean().optional().describe("also group syndicated copies of the same story into stories"),
+  enrich: enrichInput,
+  ...sourceFilterFields
+});
+
+export const searchNewsOutput = z.object({
+  articles: z.array(z.object({
+    title: z.string(),
+    description: z.string().optional(),
+    url: z.string(),
+    source: z.string(),
+    publishedAt: z.string(),
+    author: z.string().optional(),
+    content: z.string().optional(),
+    ...articleEnrichmentFields,
+    rank: articleRankSchema.optional()
+  })),
+  totalResults: z.number(),
+  stories: z.array(storySchema).optional(),
+  cache: cacheMetaSchema,
+  error: newsErrorSchema
+});
+
+// the registry company a name, alias or ticker resolved to, null when it is unknown
+const resolvedCompanySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  tickers: z.array(z.string())
+}).nullable();
+
+export const getCompanyNewsInput = z.object({
+  companyName: z.string().optional().describe("Company name, alias, ticker (e.g. AAPL) or website domain"),
+  dateFrom: z.string().optional().describe("Start date in ISO format (YYYY-MM-DD)"),
+  dateTo: z.string().optional().describe("End date in ISO format (YYYY-MM-DD)"),
+  language: z.string().optional().describe("2-letter language code, default en"),
+  pageSize: z.number().int().min(1).max(100).optional().describe("Number of results (default 10)"),
+  enrich: enrichInput,
+  ...sourceFilterFields
+});
+
+export const getCompanyNewsOutput = z.object({
+  articles: z.array(z.object({
+    title: z.string(),
+    description: z.string().optional(),
+    url: z.string(),
+    source: z.string(),
+    publishedAt: z.string(),
+    author: z.string().optional(),
+    content: z.string().optional(),
+    sentiment: z.object({ score: z.number(), label: z.enum(['positive', 'neutral', 'negative']) }),
+    ...articleEnrichmentFields
+  })),
+  totalResults: z.number(),
+  sentiment: sentimentSummarySchema.optional(),
+  company: resolvedCompanySchema.optional(),
+  query: z.string().optional().describe("the query sent to the news provider"),
+  cache: cacheMetaSchema,
+  error: newsErrorSchema
+});
+
+export const getGlobalHeadlinesInput = z.object({
+  countries: z.array(z.string()).max(10).optional().describe("2-letter country codes for top headlines, e.g. ['us', 'gb', 'de', 'jp']"),
+  languages: z.array(z.string()).max(10).optional().describe("2-letter language codes to search in, e.g. ['en', 'de', 'fr']; requires query"),
+  query: z.string().optional().describe("keywords for the per-language search"),
+  category: z.enum(NEWS_CATEGORIES).optional().describe("category for the per-country headlines"),
+  pageSize: z.number().int().min(1).max(50).optional().describe("articles per region (default 10)"),
+  enrich: enrichInput,
+  ...sourceFilterFields
+});
+
+export const getGlobalHeadlinesOutput = z.object({
+  articles: z.array(z.object({
+    title: z.string(),
+    description: z.string().optional(),
+    url: z.string(),
+    source: z.string(),
+    publishedAt: z.string(),
+    author: z.string().optional(),
+    content: z.string().optional(),
+    countries: z.array(z.string()).describe("countries whose headlines included the article"),
+    languages: z.array(z.string()).describe("languages whose search returned the article"),
+    ...articleEnrichmentFields
+  })),
+  totalResults: z.number(),
+  regions: z.array(z.object({
+    type: z.enum(['country', 'language']),
+    code: z.string(),
+    totalResults: z.number(),
+    fetched: z.number(),
+    unique: z.number().describe("articles no other region returned"),
+    error: newsErrorSchema
+  })).describe("coverage per country and language"),
+  cache: cacheMetaSchema,
+  error: newsErrorSchema
+});
+
+// the user a chat query runs for; tools that read or change a user's data refuse without it
+export const callerRefSchema = z.string().describe("the caller reference from the first line of the query, passed on unchanged");
+
+export const sendNewsBriefInput = z.object({
+  callerRef: callerRefSchema,
+  summary: z.string().describe("The news brief summary or alert message"),
+  priority: z.enum(['low', 'medium', 'high']).optional().describe("Priority level of the brief"),
+  sourceUrls: z.array(z.string()).optional().describe("urls of the articles the brief summarizes"),
+  tags: z.array(z.string()).optional().describe("short topic tags, e.g. company names or industries")
+});
+
+export const sendNewsBriefOutput = z.object({
+  success: z.boolean(),
+  id: z.string().optional(),
+  timestamp: z.string().optional(),
+  error: z.string().optional()
+});
+
+export const getIndustryPulseInput = z.object({
+  industry: z.string().describe("industry or theme, e.g. fintech, semiconductors, cybersecurity"),
+  days: z.number().int().min(1).max(14).optional().describe("lookback window in days (default 7)"),
+  language: z.string().optional().describe("2-letter language code, default en"),
+  compareBaseline: z.boolean().optional().describe("compare against the preceding period to find spikes (default true, costs one extra request)"),
+  ...sourceFilterFields
+});
+
+export const getIndustryPulseOutput = z.object({
+  industry: z.string(),
+  windowDays: z.number(),
+  totalResults: z.number(),
+  storyCount: z.number().optional().describe("distinct stories after grouping syndicated copies"),
+  topSources: z.array(z.object({ source: z.string(), count: z.number(), tier: z.enum([...SOURCE_TIERS, 'unknown']).optional() })),
+  topKeywords: z.array(z.object({ keyword: z.string(), count: z.number() })),
+  notableHeadlines: z.array(z.object({
+    title: z.string(),
+    source: z.string(),
+    publishedAt: z.string(),
+    url: z.string(),
+    coverageCount: z.number().optional().describe("how many outlets carried the story"),
+    reliability: z.number().optional().describe("0-1 weight of the most reliable outlet that carried the story")
+  })),
+  sample: sampleCoverageSchema.optional().describe("the articles the keywords, series and spikes are counted from"),
+  series: z.array(z.object({ date: z.string(), articles: z.number() })).optional().describe("sampled articles per day; days before sample.coveredFrom are not counted when the sample is incomplete"),
+  keywordSeries: z.array(z.object({ keyword: z.string(), counts: z.array(z.number()) })).optional().describe("per-day counts for the top keywords, aligned with series"),
+  trending: z.object({
+    baselineDays: z.number(),
+    baselineArticles: z.number(),
+    baselineSample: sampleCoverageSchema.optional(),
+    keywords: z.array(spikeSchema),
+    sources: z.array(spikeSchema)
+  }).optional().describe("keywords and sources spiking versus the baseline period"),
+  cache: cacheMetaSchema,
+  error: newsErrorSchema
+});
+
+export const compareCompanyCoverageInput = z.object({
+  companyA: z.string().describe("first company name, alias or ticker"),
+  companyB: z.string().describe("second company name, alias or ticker"),
+  days: z.number().int().min(1).max(14).optional().describe("lookback window in days (default 7)"),
+  language: z.string().optional().describe("2-letter language code, default en"),
+  ...sourceFilterFields
+});
+
+export const compareCompanyCoverageOutput = z.object({
+  windowDays: z.number(),
+  companyA: z.object({
+    name: z.string(),
+    company: resolvedCompanySchema.optional(),
+    query: z.string().optional(),
+    totalResults: z.number(),
+    recentHeadlines: z.array(z.object({
+      title: z.string(),
+      source: z.string(),
+      publishedAt: z.string(),
+      url: z.string()
+    })),
+    sentiment: sentimentSummarySchema,
+    sentimentSeries: sentimentSeriesSchema
+  }),
+  companyB: z.object({
+    name: z.string(),
+    company: resolvedCompanySchema.optional(),
+    query: z.string().optional(),
+    totalResults: z.number(),
+    recentHeadlines: z.array(z.object({
+      title: z.string(),
+      source: z.string(),
+      publishedAt: z.string(),
+      url: z.string()
+    })),
+    sentiment: sentimentSummarySchema,
+    sentimentSeries: sentimentSeriesSchema
+  }),
+  deltaCoverage: z.number(),
+  cache: cacheMetaSchema,
+  error: newsErrorSchema
+});
+
+export const getCompanySentimentInput = z.object({
+  companyName: z.string().describe("company name, alias or ticker"),
+  days: z.number().int().min(1).max(30).optional().describe("lookback window in days (default 7)"),
+  language: z.string().optional().describe("2-letter language code, default en"),
+  ...sourceFilterFields
+});
+
+export const getCompanySentimentOutput = z.object({
+  company: z.string(),
+  resolvedCompany: resolvedCompanySchema.optional(),
+  query: z.string().optional(),
+  windowDays: z.number(),
+  sentiment: sentimentSummarySchema,
+  series: sentimentSeriesSchema,
+  mostPositive: z.array(z.object({ title: z.string(), source: z.string(), url: z.string(), score: z.number() })),
+  mostNegative: z.array(z.object({ title: z.string(), source: z.string(), url: z.string(), score: z.number() })),
+  cache: cacheMetaSchema,
+  error: newsErrorSchema
+});
+
+export const compareCompaniesInput = z.object({
+  companies: z.array(z.string()).min(2).max(8).describe("company names, aliases or tickers to compare, e.g. ['AWS', 'Azure', 'Google Cloud']"),
+  days: z.number().int().min(1).max(14).optional().describe("lookback window in days (default 7)"),
+  language: z.string().optional().describe("2-letter language code, default en"),
+  ...sourceFilterFields
+});
+
+export const compareCompaniesOutput = z.object({
+  windowDays: z.number(),
+  companies: z.array(z.object({
+    name: z.string(),
+    company: resolvedCompanySchema.optional(),
+    query: z.string().optional(),
+    totalResults: z.number(),
+    shareOfVoice: z.number().describe("percentage of the group's total coverage"),
+    topSources: z.array(z.object({ source: z.string(), count: z.number() })),
+    sentiment: sentimentSummarySchema,
+    distinctiveKeywords: z.array(z.object({ keyword: z.string(), count: z.number(), score: z.number() })),
+    recentHeadlines: z.array(z.object({
+      title: z.string(),
+      source: z.string(),
+      publishedAt: z.string(),
+      url: z.string()
+    }))
+  })),
+  sources: z.array(z.object({
+    source: z.string(),
+    total: z.number(),
+    byCompany: z.record(z.string(), z.number())
+  })).describe("outlets covering the group, with article counts per company"),
+  overlappingStories: z.array(z.object({
+    headline: z.string(),
+    url: z.string(),
+    source: z.string(),
+    publishedAt: z.string(),
+    articleCount: z.number(),
+    companies: z.array(z.string())
+  })),
+  cache: cacheMetaSchema,
+  error: newsErrorSchema
+});
+
+export const getMarketMovingEventsInput = z.object({
+  query: z.string().optional().describe("optional custom query, e.g. earnings OR merger OR layoffs"),
+  days: z.number().int().min(1).max(7).optional().describe("lookback window in days (default 3)"),
+  eventTypes: z.array(z.enum(EVENT_TYPES)).optional().describe("only return these event types"),
+  limit: z.number().int().min(1).max(20).optional().describe("maximum number of events (default 6)"),
+  ...sourceFilterFields
+});
+
+export const getMarketMovingEventsOutput = z.object({
+  windowDays: z.number(),
+  totalScanned: z.number(),
+  events: z.array(z.object({
+    title: z.string(),
+    source: z.string(),
+    publishedAt: z.string(),
+    url: z.string(),
+    trigger: z.string(),
+    eventType: z.enum(EVENT_TYPES),
+    confidence: z.number().describe("0-1 confidence in the event type"),
+    severity: z.enum(['low', 'medium', 'high']),
+    companies: z.array(z.string()),
+    matchedTerms: z.array(z.string()),
+    reliability: z.number().optional().describe("0-1 weight of the reporting outlet")
+  })),
+  cache: cacheMetaSchema,
+  error: newsErrorSchema
+});
+
+export const searchArchiveInput = z.object({
+  query: z.string().optional().describe("keywords that must all appear in the article"),
+  source: z.string().optional().describe("exact source name, e.g. 'Reuters'"),
+  from: z.string().optional().describe("earliest publish date in ISO format (YYYY-MM-DD)"),
+  to: z.string().optional().describe("latest publish date in ISO format (YYYY-MM-DD)"),
+  sortBy: z.enum(['relevancy', 'publishedAt']).optional().describe("sort order (default relevancy when a query is given)"),
+  page: z.number().int().min(1).optional().describe("page number starting at 1"),
+  pageSize: z.number().int().min(1).max(100).optional().describe("results per page (default 20)")
+});
+
+export const searchArchiveOutput = z.object({
+  articles: z.array(z.object({
+    title: z.string(),
+    description: z.string().optional(),
+    url: z.string(),
+    source: z.string(),
+    publishedAt: z.string(),
+    author: z.string().optional(),
+    content: z.string().optional(),
+    firstSeenAt: z.string()
+  })),
+  totalResults: z.number(),
+  page: z.number(),
+  pageSize: z.number(),
+  totalPages: z.number()
+});
+
+export const getStoriesInput = z.object({
+  query: z.string().optional().describe("keywords that must appear in the articles"),
+  days: z.number().int().min(1).max(30).optional().describe("lookback window in days (default 2)"),
+  minSize: z.number().int().min(1).optional().describe("only return stories carried by at least this many articles (default 1)"),
+  limit: z.number().int().min(1).max(100).optional().describe("maximum number of stories (default 20)")
+});
+
+export const getStoriesOutput = z.object({
+  windowDays: z.number(),
+  articlesScanned: z.number(),
+  stories: z.array(storySchema)
+});
+
+// watchlist tools
+
+export const createWatchlistInput = z.object({
+  callerRef: callerRefSchema,
+  name: z.string().describe("short name for the watchlist, e.g. 'cloud vendors'"),
+  companies: z.array(z.string()).optional().describe("company names to watch"),
+  keywords: z.array(z.string()).optional().describe("keywords or phrases to watch"),
+  industries: z.array(z.string()).optional().describe("industries or themes to watch, e.g. fintech"),
+  priority: z.enum(['low', 'medium', 'high']).optional().describe("minimum priority for briefs from this watchlist (default medium)"),
+  intervalMinutes: z.number().optional().describe("how often to check for new articles in minutes (default 60, min 5)")
+});
+
+export const createWatchlistOutput = z.object({
+  success: z.boolean(),
+  watchlist: watchlistSchema.optional(),
+  error: z.string().optional()
+});
+
+export const listWatchlistsInput = z.object({
+  callerRef: callerRefSchema
+});
+
+export const listWatchlistsOutput = z.object({
+  watchlists: z.array(watchlistSchema),
+  error: z.string().optional()
+});
+
+export const updateWatchlistInput = z.object({
+  callerRef: callerRefSchema,
+  id: z.string().describe("watchlist id from listWatchlists"),
+  name: z.string().optional(),
+  companies: z.array(z.string()).optional(),
+  keywords: z.array(z.string()).optional(),
+  industries: z.array(z.string()).optional(),
+  priority: z.enum(['low', 'medium', 'high']).optional(),
+  intervalMinutes: z.number().optional(),
+  enabled: z.boolean().optional()
+});
+
+export const updateWatchlistOutput = z.object({
+  success: z.boolean(),
+  watchlist: watchlistSchema.optional(),
+  error: z.string().optional()
+});
+
+export const deleteWatchlistInput = z.object({
+  callerRef: callerRefSchema,
+  id: z.string().describe("watchlist id from listWatchlists")
+});
+
+export const deleteWatchlistOutput = z.object({
+  success: z.boolean(),
+  error: z.string().optional()
+});
+
+// http routes, derived from the tool schemas where a route mirrors a tool
+
+const rankField = {
+  rank: z.boolean().optional().describe("re-rank by recency, relevance, source trust, story size and your learned interests instead of newsapi's order")
+};
+
+export const headlinesQuery = getTopHeadlinesInput.extend(rankField);
+
+export const searchQuery = searchNewsInput.omit({ query: true }).extend({
+  q: z.string().min(1).describe("keywords or phrase to search for"),
+  ...rankField
+});
+
+export const personalFeedQuery = z.object({
+  country: getTopHeadlinesInput.shape.country,
+  category: getTopHeadlinesInput.shape.category,
+  pageSize: z.number().int().min(1).max(50).optional().describe("articles to return (default 20)"),
+  ...sourceFilterFields
+});
+
+export const personalFeedOutput = getTopHeadlinesOutput.omit({ stories: true }).extend({
+  personalized: z.boolean().describe("false until the user has clicked, saved or asked about something"),
+  interests: z.array(z.object({ term: z.string(), weight: z.number() })).describe("the strongest learned interests, weight 0-1")
+});
+
+// the article a click or save is about, as the news routes returned it
+export const articleInteractionBody = z.object({
+  url: z.string().url(),
+  title: z.string().min(1).max(500),
+  source: z.string().max(200).optional(),
+  description: z.string().max(5000).optional(),
+  publishedAt: z.string().optional(),
+  author: z.string().max(500).optional(),
+  content: z.string().max(5000).optional()
+});
+
+export const savedArticleRef = z.object({
+  url: z.string().min(1).describe("url of the saved article")
+});
+
+export const companyNewsQuery = getCompanyNewsInput.omit({ companyName: true }).extend({
+  name: z.string().min(1).describe("company name, alias, ticker or website domain")
+});
+
+export const globalHeadlinesQuery = getGlobalHeadlinesInput.omit({ query: true }).extend({ q: getGlobalHeadlinesInput.shape.query });
+
+export const storiesQuery = getStoriesInput.omit({ query: true }).extend({ q: getStoriesInput.shape.query });
+
+export const archiveSearchQuery = searchArchiveInput.omit({ query: true }).extend({ q: searchArchiveInput.shape.query });
+
+export const watchlistCreateBody = createWatchlistInput.omit({ callerRef: true }).extend({ enabled: updateWatchlistInput.shape.enabled });
+
+export const watchlistUpdateBody = updateWatchlistInput.omit({ id: true, callerRef: true });
+
+export const briefsQuery = z.object({
+  priority: z.enum(['low', 'medium', 'high']).optional(),
+  tag: z.string().optional(),
+  read: z.boolean().optional(),
+  acknowledged: z.boolean().optional(),
+  since: z.string().optional().describe("only briefs created at or after this ISO timestamp"),
+  page: z.number().int().min(1).optional(),
+  pageSize: z.number().int().min(1).max(100).optional()
+});
+
+export const briefUpdateBody = z.object({
+  read: z.boolean().optional(),
+  acknowledged: z.boolean().optional()
+});
+
+export const compareCompaniesQuery = z.object({
+  companies: compareCompaniesInput.shape.companies.optional(),
+  companyA: compareCompanyCoverageInput.shape.companyA.optional(),
+  companyB: compareCompanyCoverageInput.shape.companyB.optional(),
+  days: compareCompaniesInput.shape.days,
+  language: compareCompaniesInput.shape.language,
+  ...sourceFilterFields
+});
+
+export const companySentimentQuery = getCompanySentimentInput.omit({ companyName: true }).extend({
+  company: getCompanySentimentInput.shape.companyName
+});
+
+export const deliveriesQuery = z.object({
+  status: z.enum(['pending', 'delivered', 'failed']).optional(),
+  channelId: z.string().optional(),
+  limit: z.number().int().min(1).max(500).optional()
+});
+
+export const digestJobCreateBody = z.object({
+  name: z.string().min(1),
+  schedule: z.string().optional().describe("five-field cron expression in utc, or @hourly, @daily, @weekly, @monthly (default '0 7 * * *')"),
+  topics: z.array(z.string()).max(5).optional().describe("industries or themes that get an industry pulse"),
+  categories: z.array(z.enum(NEWS_CATEGORIES)).optional().describe("headline categories (default general)"),
+  countries: z.array(z.string().length(2)).optional().describe("2-letter country codes for headlines (default us)"),
+  summarize: z.boolean().optional().describe("ask the daemo agent to write a summary section"),
+  enabled: z.boolean().optional()
+});
+
+export const digestJobUpdateBody = digestJobCreateBody.partial();
+
+export const digestsQuery = z.object({
+  jobId: z.string().optional(),
+  limit: z.number().int().min(1).max(200).optional()
+});
+
+export const chatMessageBody = z.object({
+  message: z.string().min(1),
+  sessionId: z.string().optional().describe("defaults to the user's latest session")
+});
+
+export const chatSessionRef = z.object({ sessionId: z.string().optional() });
+
+export const chatSessionCreateBody = z.object({ title: z.string().optional() });
+
+export const chatSessionRenameBody = z.object({ title: z.string() });
+
+export const credentialsBody = z.object({ username: z.string(), password: z.string() });
+
+export const apiKeyCreateBody = z.object({ name: z.string().optional() });
+
+export const sourcesQuery = z.object({
+  tier: z.enum(SOURCE_TIERS).optional(),
+  category: z.string().optional().describe("e.g. business, technology, press-release")
+});
+
+export const companiesQuery = z.object({
+  q: z.string().optional().describe("filter by part of a name, alias or ticker")
+});
+
+export const companyResolveQuery = z.object({
+  name: z.string().min(1).describe("company name, alias, ticker or website domain")
+});
+
+export const companyAliasesBody = z.object({
+  aliases: z.array(z.string().min(1)).optional(),
+  tickers: z.array(z.string().min(1)).optional(),
+  domains: z.array(z.string().min(1)).optional(),
+  negativeKeywords: z.array(z.string().min(1)).optional().describe("words that mark unrelated stories, excluded from the query")
+});
+
+export const companyCreateBody = companyAliasesBody.extend({
+  id: z.string().optional().describe("defaults to the name in lowercase with dashes"),
+  name: z.string().min(1)
+});
+
+// exports take the same filters as the route they export, plus the output format
+const exportFormat = {
+  format: z.enum(EXPORT_FORMATS).optional().describe("csv, markdown, html (a self-contained digest), rss or atom; default markdown")
+};
+
+export const headlinesExportQuery = getTopHeadlinesInput.extend(exportFormat);
+
+export const globalHeadlinesExportQuery = globalHeadlinesQuery.extend(exportFormat);
+
+export const searchExportQuery = searchQuery.omit({ rank: true }).extend(exportFormat);
+
+export const companyNewsExportQuery = companyNewsQuery.extend(exportFormat);
+
+export const briefsExportQuery = briefsQuery.extend(exportFormat);
+
+export const industryPulseExportQuery = getIndustryPulseInput.extend(exportFormat);
+
+export const compareCompaniesExportQuery = compareCompaniesQuery.extend(exportFormat);
+
+export const companySentimentExportQuery = companySentimentQuery.extend(exportFormat);
+
+export const marketMoversExportQuery = getMarketMovingEventsInput.extend(exportFormat);
+
+export const digestExportQuery = z.object(exportFormat);
+
+export const feedQuery = z.object({
+  token: z.string().optional().describe("the watchlist's feedToken, for readers that cannot sign in"),
+  format: z.enum(['rss', 'atom']).optional().describe("default rss")
+});
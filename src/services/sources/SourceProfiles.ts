@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+
+export const SOURCE_TIERS = ['trusted', 'standard', 'low'] as const;
+export type SourceTier = typeof SOURCE_TIERS[number];
+
+export interface SourceProfile {
+  // newsapi source id where newsapi has one, e.g. reuters, bbc-news
+  id: string;
+  name: string;
+  domains: string[];
+  tier: SourceTier;
+  paywall: boolean;
+  bias?: string;
+  categories: string[];
+  blocked?: boolean;
+}
+
+// SOURCE_PROFILES_FILE: profiles merged over the bundled ones by id, plus domains to drop entirely
+export interface SourceConfig {
+  sources?: (Partial<SourceProfile> & { id: string })[];
+  blockedDomains?: string[];
+}
+
+// the newsapi source filters, accepted by every search-style tool and route
+export interface SourceFilter {
+  sources?: string[];
+  domains?: string[];
+  excludeDomains?: string[];
+}
+
+export const BUNDLED_SOURCES_FILE = path.join(__dirname, 'sources.json');
+
+// how much an outlet's reporting counts when ranking; outlets without a profile sit in between
+export const TIER_WEIGHTS: Record<SourceTier | 'unknown', number> = { trusted: 1, standard: 0.7, unknown: 0.5, low: 0.3 };
+
+// reads SOURCE_PROFILES_FILE, an empty config when no file is set
+export function loadSourceConfig(filePath?: string): SourceConfig {
+  if (!filePath || !fs.existsSync(filePath)) return {};
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error(`${filePath} must contain an object with sources and blockedDomains`);
+  for (const source of parsed.sources || []) {
+    if (!source.id) throw new Error(`${filePath}: every source needs an id`);
+    if (source.tier && !SOURCE_TIERS.includes(source.tier)) throw new Error(`source ${source.id}: tier must be one of ${SOURCE_TIERS.join(', ')}`);
+  }
+  return parsed;
+}
+
+// "https://www.reuters.com/markets/" => reuters.com
+export function normalizeDomain(input: string): string {
+  return input.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/[/?#:].*$/, '').replace(/^www\./, '');
+}
+
+export function articleDomain(url: string): string {
+  return /^https?:\/\//i.test(url) ? normalizeDomain(url) : '';
+}
+
+// a domain filter entry covers its subdomains too, like newsapi's
+function withinDomain(domain: string, filter: string): boolean {
+  return domain === filter || domain.endsWith(`.${filter}`);
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// outlet profiles (tier, paywall, bias and category tags) from the bundled list and
+// SOURCE_PROFILES_FILE, with the blocked domains and source filters applied to articles
+export class SourceProfiles {
+  private profiles = new Map<string, SourceProfile>();
+  private byName = new Map<string, SourceProfile>();
+  private blocked: string[];
+
+  constructor(config: SourceConfig = {}, bundledFile = BUNDLED_SOURCES_FILE) {
+    const bundled: SourceProfile[] = JSON.parse(fs.readFileSync(bundledFile, 'utf8')).sources;
+    for (const profile of bundled) this.profiles.set(profile.id, profile);
+    for (const override of config.sources || []) {
+      const base = this.profiles.get(override.id);
+      this.profiles.set(override.id, {
+        name: override.id,
+        tier: 'standard',
+        paywall: false,
+        categories: [],
+        ...base,
+        ...override,
+        domains: (override.domains || base?.domains || []).map(normalizeDomain)
+      });
+    }
+    for (const profile of this.profiles.values()) this.byName.set(profile.name.toLowerCase(), profile);
+    this.blocked = [
+      ...(config.blockedDomains || []).map(normalizeDomain),
+      ...[...this.profiles.values()].filter((p) => p.blocked).flatMap((p) => p.domains)
+    ];
+  }
+
+  list(filter: { tier?: SourceTier; category?: string } = {}): SourceProfile[] {
+    return [...this.profiles.values()]
+      .filter((p) => (!filter.tier || p.tier === filter.tier) && (!filter.category || p.categories.includes(filter.category)))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get blockedDomains(): string[] {
+    return [...this.blocked];
+  }
+
+  // by the article's domain first, since outlets syndicate under each other's names, then by name
+  profileFor(article: { source: string; url: string }): SourceProfile | null {
+    const domain = articleDomain(article.url);
+    if (domain) {
+      for (const profile of this.profiles.values()) {
+        if (profile.domains.some((d) => withinDomain(domain, d))) return profile;
+      }
+    }
+    return this.byName.get(article.source.toLowerCase()) || null;
+  }
+
+  tierOf(article: { source: string; url: string }): SourceTier | 'unknown' {
+    return this.profileFor(article)?.tier || 'unknown';
+  }
+
+  reliability(article: { source: string; url: string }): number {
+    return TIER_WEIGHTS[this.tierOf(article)];
+  }
+
+  isBlocked(article: { source: string; url: string }): boolean {
+    const domain = articleDomain(article.url);
+    return (!!domain && this.blocked.some((d) => withinDomain(domain, d))) || !!this.profileFor(article)?.blocked;
+  }
+
+  // newsapi source ids for what a user typed: an id, an outlet name or one of its domains
+  sourceIds(names: string[]): string[] {
+    const ids = names.map((name) => {
+      const value = name.trim();
+      const profile = this.profiles.get(value.toLowerCase()) || this.byName.get(value.toLowerCase())
+        || (value.includes('.') ? [...this.profiles.values()].find((p) => p.domains.some((d) => withinDomain(normalizeDomain(value), d))) : undefined);
+      return profile ? profile.id : slugify(value);
+    });
+    return [...new Set(ids.filter(Boolean))];
+  }
+
+  // the filter checked locally, for providers and endpoints that cannot apply it upstream
+  matches(article: { source: string; url: string }, filter: SourceFilter): boolean {
+    const domain = articleDomain(article.url);
+    if (filter.sources?.length) {
+      const ids = this.sourceIds(filter.sources);
+      const id = this.profileFor(article)?.id || slugify(article.source);
+      if (!ids.includes(id)) return false;
+    }
+    if (filter.domains?.length && !filter.domains.some((d) => withinDomain(domain, normalizeDomain(d)))) return false;
+    if (filter.excludeDomains?.some((d) => withinDomain(domain, normalizeDomain(d)))) return false;
+    return true;
+  }
+}
@@ -0,0 +1,11 @@
+import path from 'path';
+import { loadSourceConfig, normalizeDomain, SourceProfiles } from './SourceProfiles';
+
+export * from './SourceProfiles';
+
+// bundled profiles plus SOURCE_PROFILES_FILE overrides and BLOCKED_DOMAINS
+export function createSourceProfiles(env: NodeJS.ProcessEnv = process.env): SourceProfiles {
+  const config = loadSourceConfig(env.SOURCE_PROFILES_FILE ? path.resolve(env.SOURCE_PROFILES_FILE) : undefined);
+  const blocked = (env.BLOCKED_DOMAINS || '').split(',').map(normalizeDomain).filter(Boolean);
+  return new SourceProfiles({ ...config, blockedDomains: [...(config.blockedDomains || []), ...blocked] });
+}
@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { buildContextQuery, ChatService, ChatStreamEvent, trackToolCalls, ToolCallEvent } from '../src/services/ChatService';
+import { ChatSessionStore, MAX_SESSIONS_PER_USER } from '../src/services/ChatSessionStore';
+import { MockDaemo } from './support/mockDaemo';
+
+const daemo = new MockDaemo();
+
+function createChatService(apiKey = daemo.apiKey) {
+  return new ChatService(apiKey, daemo.agentId, new ChatSessionStore(), daemo.url);
+}
+
+async function collectStream(chat: ChatService, userId: string, message: string, sessionId?: string) {
+  const events: ChatStreamEvent[] = [];
+  await chat.streamMessage(userId, message, sessionId, (event) => events.push(event), new AbortController().signal);
+  return events;
+}
+
+before(() => daemo.start());
+after(() => daemo.stop());
+beforeEach(() => daemo.reset());
+
+describe('processMessage', () => {
+  it('sends the message to daemo and stores both turns in the session', async () => {
+    const chat = createChatService();
+    const result = await chat.processMessage('u1', 'what happened at apple?');
+    assert.equal(result?.response, 'echo: what happened at apple?');
+    assert.equal(daemo.queries.length, 1);
+    assert.match(daemo.queries[0], /^Caller reference: \S+\n\nwhat happened at apple\?$/);
+    const history = chat.getConversationHistory('u1', result!.sessionId);
+    assert.deepEqual(history.map((m) => m.role), ['user', 'assistant']);
+  });
+
+  it('carries earlier turns as context on follow-ups', async () => {
+    const chat = createChatService();
+    const first = await chat.processMessage('u1', 'news about tesla');
+    await chat.processMessage('u1', 'and their competitors?', first!.sessionId);
+    assert.match(daemo.queries[1], /User: news about tesla/);
+    assert.match(daemo.queries[1], /and their competitors\?$/);
+  });
+
+  it('answers with an apology when daemo fails', async () => {
+    daemo.mode = 'error';
+    const result = await createChatService().processMessage('u1', 'hello');
+    assert.match(result!.response, /trouble connecting/);
+    const unauthorized = await createChatService('wrong-key').processMessage('u1', 'hello');
+    assert.match(unauthorized!.response, /trouble connecting/);
+  });
+
+  it('resolves the caller reference only while its query is in flight', async () => {
+    const chat = createChatService();
+    let caller: ReturnType<ChatService['resolveCaller']> = null;
+    daemo.onQuery = (query) => {
+      caller = chat.resolveCaller(MockDaemo.callerRef(query));
+    };
+    const result = await chat.processMessage('u1', 'hello');
+    assert.deepEqual(caller, { userId: 'u1', conversationId: result!.sessionId });
+    assert.equal(chat.resolveCaller(MockDaemo.callerRef(daemo.queries[0])), null);
+    assert.equal(chat.resolveCaller(), null);
+  });
+
+  it('does not use sessions of other users', async () => {
+    const chat = createChatService();
+    const session = chat.createSession('u1', 'mine');
+    assert.equal(await chat.processMessage('u2', 'hello', session.id), null);
+    assert.equal(daemo.queries.length, 0);
+  });
+});
+
+describe('ask', () => {
+  it('sends a one-off query outside any session', async () => {
+    const chat = createChatService();
+    assert.equal(await chat.ask('summarize this'), 'echo: summarize this');
+    assert.deepEqual(chat.listSessions('u1'), []);
+  });
+
+  it('returns null when daemo fails', async () => {
+    daemo.mode = 'error';
+    assert.equal(await createChatService().ask('summarize this'), null);
+  });
+});
+
+describe('streamMessage', () => {
+  it('passes streamed text through as deltas', async () => {
+    daemo.mode = 'stream';
+    const events = await collectStream(createChatService(), 'u1', 'stream please');
+    const deltas = events.filter((e) => e.type === 'delta').map((e) => (e as { text: string }).text);
+    assert.equal(deltas.join(''), 'echo: stream please');
+    const final = events[events.length - 1];
+    assert.equal(final.type, 'final');
+    assert.equal((final as { response: string }).response, 'echo: stream please');
+  });
+
+  it('reports status and the final reply when daemo answers with json', async () => {
+    const events = await collectStream(createChatService(), 'u1', 'plain reply');
+    assert.deepEqual(events.map((e) => e.type), ['session', 'status', 'status', 'final']);
+  });
+
+  it('forwards tool calls made while the query is in flight', async () => {
+    const chat = createChatService();
+    const service = { async lookup() { return { ok: true }; } };
+    trackToolCalls(service, ['lookup'], (event) => chat.reportToolCall(event));
+    daemo.onQuery = async () => {
+      await service.lookup();
+    };
+    const events = await collectStream(chat, 'u1', 'use a tool');
+    const tools = events.filter((e): e is { type: 'tool' } & ToolCallEvent => e.type === 'tool');
+    assert.deepEqual(tools.map((e) => [e.tool, e.phase]), [['lookup', 'start'], ['lookup', 'end']]);
+    assert.equal(chat.getActiveConversation(), null);
+  });
+
+  it('emits an error event when daemo fails', async () => {
+    daemo.mode = 'error';
+    const events = await collectStream(createChatService(), 'u1', 'hello');
+    assert.equal(events[events.length - 1].type, 'error');
+  });
+});
+
+describe('buildContextQuery', () => {
+  it('returns the message as is without history', () => {
+    assert.equal(buildContextQuery([], 'hi'), 'hi');
+  });
+
+  it('recaps older questions and keeps recent turns verbatim', () => {
+    const history = Array.from({ length: 14 }, (_, i) => ({
+      role: (i % 2 === 0 ? 'user' : 'assistant') as 'user' | 'assistant',
+      content: `message ${i}`,
+      timestamp: new Date().toISOString()
+    }));
+    const query = buildContextQuery(history, 'latest');
+    assert.match(query, /^Earlier in this conversation the user asked about: message 0; message 2/);
+    assert.match(query, /User: message 12\nAssistant: message 13/);
+    assert.doesNotMatch(query, /Assistant: message 1\n/);
+  });
+});
+
+describe('ChatSessionStore', () => {
+  it('caps sessions per user, dropping only that user\'s least recently active ones', () => {
+    const store = new ChatSessionStore();
+    const alice = store.create('alice', 'quarterly earnings');
+    for (let i = 0; i <= MAX_SESSIONS_PER_USER; i++) store.create('bob');
+    assert.equal(store.list('bob').length, MAX_SESSIONS_PER_USER);
+    assert.deepEqual(store.list('alice').map((s) => s.id), [alice.id]);
+  });
+});
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, describe, it } from 'node:test';
+import { JsonStore } from '../src/services/JsonStore';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'news-agent-store-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe('JsonStore', () => {
+  it('writes the latest snapshot on flush and reads it back', async () => {
+    const file = path.join(dir, 'nested', 'items.json');
+    const store = new JsonStore<number[]>(file, 60000);
+    assert.deepEqual(store.load([]), []);
+    const items = [1];
+    store.save(() => items);
+    items.push(2);
+    await store.flush();
+    assert.deepEqual(new JsonStore<number[]>(file).load([]), [1, 2]);
+  });
+
+  it('runs overlapping flushes one after another', async () => {
+    const file = path.join(dir, 'overlap.json');
+    const store = new JsonStore<{ n: number; padding: string }>(file, 60000);
+    const flushes: Promise<void>[] = [];
+    for (let n = 1; n <= 20; n++) {
+      store.save(() => ({ n, padding: 'x'.repeat(100000) }));
+      flushes.push(store.flush());
+    }
+    await Promise.all(flushes);
+    assert.equal(store.load({ n: 0, padding: '' }).n, 20);
+    assert.deepEqual(fs.readdirSync(dir).filter((name) => name.startsWith('overlap')), ['overlap.json']);
+  });
+});
@@ -0,0 +1,613 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { ArticleArchive } from '../src/services/ArticleArchive';
+import { BriefStore, MAX_BRIEFS_PER_USER, NewsBrief } from '../src/services/BriefStore';
+import { ArticleEnricher } from '../src/services/enrichment';
+import { NewsService } from '../src/services/MyFunctions';
+import { ArchivingProvider, NewsApiClient, NewsApiProvider, NewsProvider, NewsProviderError, NormalizedArticle, ProviderResult, SearchQuery, SourceFilteringProvider } from '../src/services/providers';
+import { NewsApiClientOptions } from '../src/services/providers/NewsApiClient';
+import { SourceProfiles } from '../src/services/sources';
+import { WatchlistService } from '../src/services/WatchlistService';
+import { MockNewsApi } from './support/mockNewsApi';
+
+const newsApi = new MockNewsApi();
+
+// a fresh service stack per test so client state (budget, rate limit backoff) never leaks between tests
+function createNewsService(options: NewsApiClientOptions & { apiKey?: string; enricher?: ArticleEnricher; sources?: SourceProfiles } = {}) {
+  const client = new NewsApiClient(options.apiKey ?? newsApi.apiKey, { baseUrl: newsApi.url, maxRetries: 0, retryBaseMs: 1, ...options });
+  const archive = new ArticleArchive();
+  const briefs = new BriefStore();
+  const sources = options.sources || new SourceProfiles();
+  const provider = new ArchivingProvider(new SourceFilteringProvider(new NewsApiProvider(client), sources), archive);
+  const service = new NewsService(provider, archive, briefs, options.enricher, undefined, sources);
+  return { service, client, archive, briefs };
+}
+
+before(() => newsApi.start());
+after(() => newsApi.stop());
+beforeEach(() => newsApi.reset());
+
+describe('getTopHeadlines', () => {
+  it('fetches us headlines by default and normalizes articles', async () => {
+    const { service } = createNewsService();
+    const result = await service.getTopHeadlines({});
+    assert.equal(result.error, undefined);
+    assert.deepEqual(newsApi.requestsTo('top-headlines').map((r) => r.params.country), ['us']);
+    assert.ok(result.articles.length > 0);
+    for (const article of result.articles) {
+      assert.equal(typeof article.source, 'string');
+      assert.ok(article.author);
+    }
+  });
+
+  it('passes country, category and page size through', async () => {
+    const { service } = createNewsService();
+    const result = await service.getTopHeadlines({ country: 'gb', category: 'technology', pageSize: 1 });
+    const [request] = newsApi.requestsTo('top-headlines');
+    assert.equal(request.params.country, 'gb');
+    assert.equal(request.params.category, 'technology');
+    assert.equal(request.params.pageSize, '1');
+    assert.equal(result.articles.length, 1);
+    assert.equal(result.totalResults, 2);
+  });
+
+  it('groups syndicated copies into stories when asked', async () => {
+    const { service } = createNewsService();
+    const result = await service.getTopHeadlines({ category: 'business', cluster: true });
+    assert.ok('stories' in result && result.stories);
+    const apple = result.stories.find((s) => s.headline.startsWith('Apple beats earnings'));
+    assert.equal(apple?.articleCount, 2);
+  });
+
+  it('returns an empty result with the provider error instead of throwing', async () => {
+    const { service } = createNewsService({ apiKey: 'wrong' });
+    const result = await service.getTopHeadlines({});
+    assert.deepEqual(result.articles, []);
+    assert.equal(result.error?.code, 'apiKeyInvalid');
+    assert.equal(result.error?.retryable, false);
+  });
+});
+
+describe('searchNews', () => {
+  it('returns nothing without a query and does not call the api', async () => {
+    const { service } = createNewsService();
+    assert.deepEqual(await service.searchNews({}), { articles: [], totalResults: 0 });
+    assert.equal(newsApi.requests.length, 0);
+  });
+
+  it('searches in english by relevancy unless told otherwise', async () => {
+    const { service } = createNewsService();
+    const result = await service.searchNews({ query: 'microsoft' });
+    const [request] = newsApi.requestsTo('everything');
+    assert.equal(request.params.language, 'en');
+    assert.equal(request.params.sortBy, 'relevancy');
+    assert.equal(result.totalResults, 2);
+
+    await service.searchNews({ query: 'siemens', language: 'de', sortBy: 'publishedAt' });
+    assert.equal(newsApi.requests[1].params.language, 'de');
+    assert.equal(newsApi.requests[1].params.sortBy, 'publishedAt');
+  });
+
+  it('reports rate limiting with a retry time and stops calling the api', async () => {
+    const { service } = createNewsService();
+    newsApi.failNext(429, 'rateLimited');
+    const first = await service.searchNews({ query: 'apple' });
+    assert.equal(first.error?.code, 'rateLimited');
+    assert.ok(first.error?.retryAfter);
+
+    const second = await service.searchNews({ query: 'apple' });
+    assert.equal(second.error?.code, 'rateLimited');
+    assert.equal(newsApi.requests.length, 1);
+  });
+
+  it('waits out a rate limit for as long as newsapi asks, or backs off briefly', async () => {
+    const { client } = createNewsService({ rateLimitBackoffMs: 1000 });
+    const blockedFor = () => Date.parse(client.getUsage().blockedUntil!) - Date.now();
+
+    newsApi.rateLimitNext('120');
+    await assert.rejects(client.get('everything', { q: 'apple' }), { code: 'rateLimited' });
+    assert.ok(Math.abs(blockedFor() - 120000) < 5000);
+
+    // no Retry-After: a pause that doubles with each 429 in a row instead of a wait until midnight
+    const strikes = createNewsService({ rateLimitBackoffMs: 50 }).client;
+    for (const expected of [50, 100]) {
+      newsApi.rateLimitNext();
+      const error = (await strikes.get('everything', { q: 'apple' }).catch((e) => e)) as NewsProviderError;
+      const wait = Date.parse(error.retryAfter!) - Date.now();
+      assert.ok(wait > 0 && wait <= expected, `waited ${wait}ms, expected up to ${expected}ms`);
+      await new Promise((resolve) => setTimeout(resolve, wait + 10));
+    }
+    assert.ok(await strikes.get('everything', { q: 'apple' }));
+    assert.equal(strikes.getUsage().blockedUntil, null);
+  });
+
+  it('blocks an exhausted key until the next utc midnight', async () => {
+    const { client } = createNewsService();
+    newsApi.failNext(429, 'apiKeyExhausted');
+    await assert.rejects(client.get('everything', { q: 'apple' }), { code: 'apiKeyExhausted' });
+    const midnight = new Date();
+    midnight.setUTCHours(24, 0, 0, 0);
+    assert.equal(client.getUsage().blockedUntil, midnight.toISOString());
+    assert.equal(client.getKeyStatus(), 'exhausted');
+  });
+
+  it('retries server errors before giving up', async () => {
+    const { service } = createNewsService({ maxRetries: 1 });
+    newsApi.failNext(500, 'unexpectedError');
+    const recovered = await service.searchNews({ query: 'apple' });
+    assert.equal(recovered.error, undefined);
+    assert.equal(newsApi.requests.length, 2);
+
+    newsApi.reset();
+    newsApi.failNext(500, 'unexpectedError', 'boom', 2);
+    const failed = await service.searchNews({ query: 'apple' });
+    assert.equal(failed.error?.code, 'unexpectedError');
+    assert.equal(failed.error?.retryable, true);
+    assert.equal(newsApi.requests.length, 2);
+  });
+
+  it('refuses locally once the daily budget is spent', async () => {
+    const { service } = createNewsService({ dailyBudget: 1 });
+    await service.searchNews({ query: 'apple' });
+    const result = await service.searchNews({ query: 'google' });
+    assert.equal(result.error?.code, 'quotaExceeded');
+    assert.equal(newsApi.requests.length, 1);
+  });
+});
+
+describe('getGlobalHeadlines', () => {
+  it('merges countries, dedupes by url and tags each article with its origins', async () => {
+    const { service } = createNewsService();
+    const result = await service.getGlobalHeadlines({ countries: ['US', 'gb', 'us'] });
+    assert.deepEqual(newsApi.requestsTo('top-headlines').map((r) => r.params.country).sort(), ['gb', 'us']);
+    const urls = result.articles.map((a) => a.url);
+    assert.equal(new Set(urls).size, urls.length);
+    const apple = result.articles.find((a) => a.url === 'https://example.com/reuters/apple-earnings');
+    assert.deepEqual(apple?.countries, ['us', 'gb']);
+    const bbc = result.articles.find((a) => a.url === 'https://example.com/bbc/apple-investigation');
+    assert.deepEqual(bbc?.countries, ['gb']);
+    const gb = result.regions.find((r) => r.code === 'gb');
+    assert.equal(gb?.type, 'country');
+    assert.equal(gb?.fetched, 4);
+    assert.equal(gb?.unique, 1);
+  });
+
+  it('searches each language and needs a query to do so', async () => {
+    const { service } = createNewsService();
+    const missing = await service.getGlobalHeadlines({ languages: ['de'] });
+    assert.equal(missing.error?.code, 'parametersMissing');
+    assert.equal(newsApi.requests.length, 0);
+
+    const result = await service.getGlobalHeadlines({ languages: ['de', 'fr'], query: 'Siemens OR Airbus' });
+    assert.deepEqual(result.articles.map((a) => a.languages).sort(), [['de'], ['fr']]);
+    assert.deepEqual(result.regions.map((r) => [r.type, r.code, r.fetched]), [['language', 'de', 1], ['language', 'fr', 1]]);
+  });
+
+  it('reports failures per region and only fails outright when every region failed', async () => {
+    const { service } = createNewsService();
+    newsApi.failNext(500, 'unexpectedError');
+    const partial = await service.getGlobalHeadlines({ countries: ['us', 'gb'] });
+    assert.equal(partial.error, undefined);
+    assert.equal(partial.regions.filter((r) => r.error).length, 1);
+    assert.ok(partial.articles.length > 0);
+
+    newsApi.failNext(500, 'unexpectedError', 'boom', 2);
+    const failed = await service.getGlobalHeadlines({ countries: ['us', 'gb'] });
+    assert.equal(failed.error?.code, 'unexpectedError');
+  });
+});
+
+describe('getCompanyNews', () => {
+  it('scores sentiment per article and overall', async () => {
+    const { service } = createNewsService();
+    const result = await service.getCompanyNews({ companyName: 'Microsoft' });
+    assert.ok('sentiment' in result && result.sentiment);
+    assert.equal(result.sentiment.articles, 2);
+    const outage = result.articles.find((a) => a.url.includes('azure-outage'));
+    assert.ok(outage && 'sentiment' in outage);
+    assert.equal(outage.sentiment.label, 'negative');
+    const [request] = newsApi.requestsTo('everything');
+    assert.equal(request.params.pageSize, '10');
+    assert.equal(request.params.sortBy, 'publishedAt');
+  });
+
+  it('forwards the language and date range', async () => {
+    const { service } = createNewsService();
+    const result = await service.getCompanyNews({ companyName: 'Airbus', language: 'fr', dateFrom: '2000-01-01' });
+    assert.equal(result.totalResults, 1);
+    assert.equal(newsApi.requests[0].params.language, 'fr');
+    assert.equal(newsApi.requests[0].params.from, '2000-01-01');
+  });
+
+  it('returns nothing without a company name', async () => {
+    const { service } = createNewsService();
+    assert.deepEqual(await service.getCompanyNews({}), { articles: [], totalResults: 0 });
+  });
+
+  it('resolves tickers and aliases into a query over all of the company names', async () => {
+    const { service } = createNewsService();
+    const result = await service.getCompanyNews({ companyName: '$AAPL' });
+    assert.deepEqual(result.company, { id: 'apple', name: 'Apple', tickers: ['AAPL'] });
+    assert.match(result.query!, /^Apple NOT recipe NOT orchard/);
+    assert.equal(newsApi.requests[0].params.q, result.query);
+    assert.equal(result.totalResults, 4);
+  });
+
+  it('searches unknown companies verbatim', async () => {
+    const { service } = createNewsService();
+    const result = await service.getCompanyNews({ companyName: 'Fintech lender' });
+    assert.equal(result.company, null);
+    assert.equal(newsApi.requests[0].params.q, 'Fintech lender');
+    assert.equal(result.totalResults, 1);
+  });
+});
+
+describe('enrichment', () => {
+  it('is only added when asked for', async () => {
+    const { service } = createNewsService();
+    const plain = await service.searchNews({ query: 'microsoft' });
+    assert.equal('wordCount' in plain.articles[0], false);
+
+    const enriched = await service.searchNews({ query: 'microsoft', enrich: 'basic' });
+    assert.ok(enriched.articles.every((a) => a.wordCount! > 0 && a.readingTimeMinutes === 1));
+    assert.ok(enriched.articles.every((a) => a.entities?.organizations.includes('Microsoft')));
+  });
+
+  it('fetches article pages in full mode and keeps the other article fields', async () => {
+    const fetched: string[] = [];
+    const enricher = new ArticleEnricher({
+      fetchPage: async (url) => {
+        fetched.push(url);
+        return `<article><p>${'Microsoft said the deal would close next quarter, pending approval by regulators. '.repeat(20)}</p></article>`;
+      }
+    });
+    const { service } = createNewsService({ enricher });
+    const result = await service.getCompanyNews({ companyName: 'microsoft', enrich: 'full' });
+    assert.equal(fetched.length, result.articles.length);
+    for (const article of result.articles) {
+      assert.equal(article.textSource, 'page');
+      assert.equal(article.wordCount, 240);
+      assert.ok(article.sentiment);
+    }
+  });
+});
+
+describe('sendNewsBrief', () => {
+  it('stores the brief, notifies listeners and attributes it to the calling conversation', async () => {
+    const { service, briefs } = createNewsService();
+    const seen: NewsBrief[] = [];
+    service.onBrief((brief) => seen.push(brief));
+    service.setBriefOwnerResolver((callerRef) => (callerRef === 'ref-1' ? { userId: 'u1', conversationId: 'c1' } : null));
+
+    const result = await service.sendNewsBrief({ callerRef: 'ref-1', summary: 'Apple beat estimates.', priority: 'high', tags: ['apple'] });
+    assert.equal(result.success, true);
+    const stored = briefs.get(result.id!);
+    assert.equal(stored?.userId, 'u1');
+    assert.equal(stored?.conversationId, 'c1');
+    assert.equal(stored?.priority, 'high');
+    assert.deepEqual(seen.map((b) => b.id), [result.id]);
+  });
+
+  it('refuses briefs it cannot attribute to a caller', async () => {
+    const { service, briefs } = createNewsService();
+    service.setBriefOwnerResolver(() => null);
+    const result = await service.sendNewsBrief({ summary: 'Nobody asked.' });
+    assert.equal(result.success, false);
+    assert.match(result.error || '', /callerRef/);
+    assert.equal(briefs.query().total, 0);
+  });
+
+  it('keeps an explicit owner and survives a failing listener', async () => {
+    const { service } = createNewsService();
+    service.onBrief(() => {
+      throw new Error('listener failed');
+    });
+    assert.equal(service.createBrief({ summary: 'Shared brief', userId: null }).userId, null);
+  });
+});
+
+describe('BriefStore', () => {
+  it('caps the history per owner so a busy user never pushes out anyone else', () => {
+    const briefs = new BriefStore();
+    const alice = briefs.add({ summary: 'For alice.', userId: 'alice' });
+    const shared = briefs.add({ summary: 'For nobody.', userId: null });
+    const first = briefs.add({ summary: 'Bob 0', userId: 'bob' });
+    for (let i = 1; i <= MAX_BRIEFS_PER_USER; i++) briefs.add({ summary: `Bob ${i}`, userId: 'bob' });
+
+    assert.equal(briefs.query({ userId: 'bob', pageSize: 1 }).total, MAX_BRIEFS_PER_USER);
+    assert.equal(briefs.get(first.id), null);
+    assert.ok(briefs.get(alice.id));
+    assert.ok(briefs.get(shared.id));
+  });
+});
+
+describe('getIndustryPulse', () => {
+  it('counts coverage per story and compares against the preceding period', async () => {
+    const { service } = createNewsService();
+    const pulse = await service.getIndustryPulse({ industry: 'apple' });
+    assert.equal(pulse.error, undefined);
+    assert.equal(pulse.windowDays, 7);
+    assert.equal(pulse.totalResults, 3);
+    assert.equal(pulse.storyCount, 2);
+    assert.equal(pulse.notableHeadlines[0].coverageCount, 2);
+    assert.equal(pulse.series?.length, 8);
+    assert.equal(pulse.trending?.baselineArticles, 1);
+
+    const [current, baseline] = newsApi.requestsTo('everything');
+    assert.equal(baseline.params.to, current.params.from);
+  });
+
+  it('skips the baseline request when asked', async () => {
+    const { service } = createNewsService();
+    const pulse = await service.getIndustryPulse({ industry: 'apple', compareBaseline: false, days: 30 });
+    assert.equal(pulse.trending, undefined);
+    assert.equal(pulse.windowDays, 14);
+    assert.equal(newsApi.requests.length, 1);
+  });
+
+  it('labels a page cut off by the provider as a sample and compares daily rates over the spans covered', async () => {
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600000).toISOString();
+    const articles = (count: number, spanHours: number, startHours = 0): NormalizedArticle[] => Array.from({ length: count }, (_, i) => ({
+      title: i % 2 ? `Chipmakers rally on story ${i}` : `Industry update number ${i}`,
+      description: '',
+      url: `https://example.com/${startHours}/${i}`,
+      source: `Outlet ${i % 7}`,
+      publishedAt: hoursAgo(startHours + (spanHours * i) / count),
+      author: '',
+      content: ''
+    }));
+    // the window matched 5000 articles but only the newest 100 (the last 12 hours) come back;
+    // the baseline week is small enough to arrive whole
+    const provider: NewsProvider = {
+      name: 'paged',
+      topHeadlines: async () => ({ articles: [], totalResults: 0 }),
+      search: async (query: SearchQuery): Promise<ProviderResult> => {
+        return query.to ? { articles: articles(100, 7 * 24, 7 * 24 + 1), totalResults: 100 } : { articles: articles(100, 12), totalResults: 5000 };
+      }
+    };
+    const pulse = await new NewsService(provider, new ArticleArchive(), new BriefStore()).getIndustryPulse({ industry: 'chips' });
+
+    assert.equal(pulse.sample?.complete, false);
+    assert.equal(pulse.sample?.articles, 100);
+    assert.equal(pulse.sample?.totalResults, 5000);
+    assert.ok(Math.abs(pulse.sample!.coveredDays - 0.5) < 0.02);
+    assert.ok(Date.parse(pulse.sample!.coveredFrom) > Date.now() - 13 * 3600000);
+    assert.equal(pulse.trending?.baselineSample?.complete, true);
+    assert.equal(pulse.trending?.baselineSample?.coveredDays, 7);
+    // 50 chip headlines in half a day against 50 over a week is a spike, not an even split
+    const chips = pulse.trending?.keywords.find((k) => k.term === 'chipmakers');
+    assert.ok(chips && chips.zScore > 10, JSON.stringify(pulse.trending?.keywords));
+    assert.ok(Math.abs(chips.expected - 50 / 14) < 0.2);
+  });
+
+  it('returns an empty pulse on provider errors', async () => {
+    const { service } = createNewsService();
+    newsApi.failNext(401, 'apiKeyDisabled');
+    const pulse = await service.getIndustryPulse({ industry: 'apple', days: 30 });
+    assert.equal(pulse.error?.code, 'apiKeyDisabled');
+    assert.deepEqual(pulse.notableHeadlines, []);
+    assert.equal(pulse.windowDays, 14);
+  });
+});
+
+describe('compareCompanyCoverage', () => {
+  it('compares volume, headlines and sentiment of two companies', async () => {
+    const { service } = createNewsService();
+    const result = await service.compareCompanyCoverage({ companyA: 'Apple', companyB: 'Microsoft' });
+    assert.equal(result.companyA.totalResults, 3);
+    assert.equal(result.companyB.totalResults, 2);
+    assert.equal(result.deltaCoverage, 1);
+    assert.equal(result.companyA.recentHeadlines.length, 3);
+    assert.equal(result.companyB.sentiment.articles, 2);
+  });
+
+  it('resolves both companies through the registry', async () => {
+    const { service } = createNewsService();
+    const result = await service.compareCompanyCoverage({ companyA: 'AAPL', companyB: 'msft' });
+    assert.deepEqual([result.companyA.name, result.companyA.company?.name, result.companyB.company?.name], ['AAPL', 'Apple', 'Microsoft']);
+    assert.deepEqual(newsApi.requests.map((r) => r.params.q).sort(), [result.companyA.query, 'Microsoft'].sort());
+    assert.equal(result.deltaCoverage, 1);
+  });
+
+  it('searches in the requested language', async () => {
+    const { service } = createNewsService();
+    const result = await service.compareCompanyCoverage({ companyA: 'Siemens', companyB: 'Airbus', language: 'de' });
+    assert.deepEqual(newsApi.requests.map((r) => r.params.language), ['de', 'de']);
+    assert.equal(result.deltaCoverage, 1);
+  });
+
+  it('returns empty coverage on provider errors', async () => {
+    const { service } = createNewsService({ apiKey: 'wrong' });
+    const result = await service.compareCompanyCoverage({ companyA: 'Apple', companyB: 'Microsoft' });
+    assert.equal(result.error?.code, 'apiKeyInvalid');
+    assert.equal(result.companyA.totalResults, 0);
+  });
+});
+
+describe('getCompanySentiment', () => {
+  it('splits headlines into most positive and most negative', async () => {
+    const { service } = createNewsService();
+    const result = await service.getCompanySentiment({ companyName: 'Microsoft', days: 60 });
+    assert.equal(result.windowDays, 30);
+    assert.equal(result.sentiment.articles, 2);
+    assert.equal(result.mostNegative[0]?.url, 'https://example.com/zdnet/azure-outage');
+    assert.ok(result.mostNegative.every((h) => h.score < 0));
+    assert.ok(result.mostPositive.every((h) => h.score > 0));
+    assert.equal(result.series.length, 31);
+  });
+
+  it('resolves the company through the registry and searches in the requested language', async () => {
+    const { service } = createNewsService();
+    const result = await service.getCompanySentiment({ companyName: 'MSFT', language: 'de' });
+    assert.equal(result.company, 'MSFT');
+    assert.equal(result.resolvedCompany?.name, 'Microsoft');
+    const [request] = newsApi.requests;
+    assert.equal(request.params.q, result.query);
+    assert.equal(request.params.language, 'de');
+  });
+
+  it('reports provider errors', async () => {
+    const { service } = createNewsService({ apiKey: 'wrong' });
+    const result = await service.getCompanySentiment({ companyName: 'Microsoft' });
+    assert.equal(result.error?.code, 'apiKeyInvalid');
+    assert.deepEqual(result.series, []);
+  });
+});
+
+describe('compareCompanies', () => {
+  it('builds share of voice, sources and overlapping stories for a peer group', async () => {
+    const { service } = createNewsService();
+    const result = await service.compareCompanies({ companies: ['Apple', 'Microsoft', 'Google', ' apple ', 'Apple'] });
+    assert.deepEqual(result.companies.map((c) => c.name), ['Apple', 'Microsoft', 'Google']);
+    assert.equal(newsApi.requests.length, 3);
+    const total = result.companies.reduce((sum, c) => sum + c.shareOfVoice, 0);
+    assert.ok(Math.abs(total - 100) <= 1);
+    assert.ok(result.sources.some((s) => s.source === 'Reuters'));
+  });
+
+  it('resolves each company through the registry and compares it once', async () => {
+    const { service } = createNewsService();
+    const result = await service.compareCompanies({ companies: ['AAPL', 'Apple', 'msft'], language: 'de' });
+    assert.deepEqual(result.companies.map((c) => [c.name, c.company?.name]), [['AAPL', 'Apple'], ['msft', 'Microsoft']]);
+    assert.deepEqual(newsApi.requests.map((r) => r.params.q), result.companies.map((c) => c.query));
+    assert.notEqual(result.companies[0].query, 'AAPL');
+    assert.deepEqual(newsApi.requests.map((r) => r.params.language), ['de', 'de']);
+  });
+
+  it('reports provider errors', async () => {
+    const { service } = createNewsService({ apiKey: 'wrong' });
+    const result = await service.compareCompanies({ companies: ['Apple', 'Microsoft'] });
+    assert.equal(result.error?.code, 'apiKeyInvalid');
+    assert.deepEqual(result.companies, []);
+  });
+
+  it('reports provider errors with the clamped window', async () => {
+    const { service } = createNewsService();
+    newsApi.failNext(500, 'unexpectedError', 'boom', 2);
+    const result = await service.compareCompanyCoverage({ companyA: 'Apple', companyB: 'Microsoft', days: 30 });
+    assert.equal(result.error?.code, 'unexpectedError');
+    assert.equal(result.windowDays, 14);
+    assert.equal(result.companyA.totalResults, 0);
+  });
+});
+
+describe('getMarketMovingEvents', () => {
+  it('classifies recent headlines into events', async () => {
+    const { service } = createNewsService();
+    const result = await service.getMarketMovingEvents({});
+    assert.equal(newsApi.requests[0].params.q, 'earnings OR merger OR layoffs');
+    const types = result.events.map((e) => e.eventType);
+    assert.ok(types.includes('earnings'));
+    assert.ok(types.includes('layoffs'));
+  });
+
+  it('filters by event type', async () => {
+    const { service } = createNewsService();
+    const result = await service.getMarketMovingEvents({ eventTypes: ['funding_round'], days: 7 });
+    assert.ok(result.events.length > 0);
+    assert.ok(result.events.every((e) => e.eventType === 'funding_round'));
+  });
+
+  it('reports provider errors', async () => {
+    const { service } = createNewsService();
+    newsApi.failNext(429, 'rateLimited');
+    const result = await service.getMarketMovingEvents({ days: 30 });
+    assert.equal(result.error?.code, 'rateLimited');
+    assert.deepEqual(result.events, []);
+    assert.equal(result.windowDays, 7);
+  });
+});
+
+describe('source filters', () => {
+  it('sends outlet names and domains to newsapi as source ids', async () => {
+    const { service } = createNewsService();
+    const result = await service.searchNews({ query: 'apple', sources: ['Reuters', 'bbc.co.uk'] });
+    assert.equal(newsApi.requests[0].params.sources, 'reuters,bbc-news');
+    assert.deepEqual([...new Set(result.articles.map((a) => a.source))].sort(), ['BBC News', 'Reuters']);
+  });
+
+  it('asks for headlines by source without country or category', async () => {
+    const { service } = createNewsService();
+    const result = await service.getTopHeadlines({ category: 'technology', sources: ['the-verge'] });
+    const [request] = newsApi.requestsTo('top-headlines');
+    assert.equal(request.params.sources, 'the-verge');
+    assert.equal(request.params.country, undefined);
+    assert.deepEqual(result.articles.map((a) => a.source), ['The Verge']);
+  });
+
+  it('excludes blocked domains from every search', async () => {
+    const { service } = createNewsService({ sources: new SourceProfiles({ blockedDomains: ['content-farm.example'] }) });
+    await service.getCompanyNews({ companyName: 'microsoft', excludeDomains: ['https://www.dailymail.co.uk/'] });
+    assert.equal(newsApi.requests[0].params.excludeDomains, 'dailymail.co.uk,content-farm.example');
+  });
+
+  it('drops articles from blocked domains', async () => {
+    const { service } = createNewsService({ sources: new SourceProfiles({ blockedDomains: ['example.com'] }) });
+    const result = await service.getTopHeadlines({});
+    assert.deepEqual(result.articles, []);
+    assert.ok(newsApi.requests.length > 0);
+  });
+
+  it('ranks notable stories and events by the reliability of their outlets', async () => {
+    const { service } = createNewsService();
+    const pulse = await service.getIndustryPulse({ industry: 'apple', compareBaseline: false });
+    const sources = Object.fromEntries(pulse.topSources.map((s) => [s.source, s.tier]));
+    assert.equal(sources['Reuters'], 'trusted');
+    assert.equal(sources['Yahoo Finance'], 'standard');
+    const [top] = pulse.notableHeadlines;
+    assert.equal(top.source, 'Reuters');
+    assert.equal(top.reliability, 1);
+
+    const { events } = await service.getMarketMovingEvents({});
+    assert.ok(events.every((e) => typeof e.reliability === 'number' && e.reliability > 0));
+  });
+});
+
+describe('searchArchive and getStories', () => {
+  it('searches every article fetched so far without calling the api', async () => {
+    const { service } = createNewsService();
+    await service.getTopHeadlines({ country: 'us' });
+    await service.searchNews({ query: 'siemens', language: 'de' });
+    const before = newsApi.requests.length;
+
+    const bySource = await service.searchArchive({ source: 'Reuters' });
+    assert.ok(bySource.totalResults >= 2);
+    assert.ok(bySource.articles.every((a) => a.source === 'Reuters'));
+    const byQuery = await service.searchArchive({ query: 'siemens' });
+    assert.equal(byQuery.totalResults, 1);
+    assert.equal(newsApi.requests.length, before);
+  });
+
+  it('groups archived articles into stories', async () => {
+    const { service } = createNewsService();
+    await service.getTopHeadlines({ country: 'us', category: 'business' });
+    const result = await service.getStories({ minSize: 2 });
+    assert.equal(result.stories.length, 1);
+    assert.equal(result.stories[0].articleCount, 2);
+    assert.deepEqual([...result.stories[0].sources].sort(), ['Reuters', 'Yahoo Finance']);
+    assert.equal(newsApi.requests.length, 1);
+  });
+});
+
+describe('WatchlistService.runWatchlist', () => {
+  it('leaves lastRunAt alone when a query fails and waits an interval before retrying', async () => {
+    const { service } = createNewsService();
+    const watchlists = new WatchlistService(service);
+    const watchlist = watchlists.create({ userId: 'u1', name: 'big tech', keywords: ['apple', 'microsoft'] });
+    await watchlists.runWatchlist(watchlist.id);
+    const lastRunAt = watchlist.lastRunAt;
+    assert.ok(lastRunAt);
+
+    newsApi.failNext(500, 'unexpectedError');
+    const run = await watchlists.runWatchlist(watchlist.id);
+    assert.equal(run?.error?.code, 'unexpectedError');
+    assert.equal(watchlist.lastRunAt, lastRunAt);
+    assert.ok(watchlist.lastFailedAt);
+
+    // due by lastRunAt, but the failure just now holds the scheduler off for an interval
+    watchlist.lastRunAt = new Date(Date.now() - 2 * 3600000).toISOString();
+    const requests = newsApi.requests.length;
+    assert.deepEqual(await watchlists.runDue(), []);
+    assert.equal(newsApi.requests.length, requests);
+  });
+});
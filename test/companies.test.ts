@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, describe, it } from 'node:test';
+import { buildCompanyQuery, CompanyRegistry, CompanyRegistryError } from '../src/services/companies';
+import { NormalizedArticle } from '../src/services/providers';
+import { filterArticles, parseQuery } from '../src/services/providers/queryMatch';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'news-agent-companies-'));
+after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+function article(title: string, description = ''): NormalizedArticle {
+  return { title, description, url: `https://example.com/${encodeURIComponent(title)}`, source: 'Example', publishedAt: '2026-01-01T00:00:00Z', author: '', content: '' };
+}
+
+describe('buildCompanyQuery', () => {
+  const registry = new CompanyRegistry();
+
+  it('ors every distinct name and excludes unrelated meanings', () => {
+    assert.equal(buildCompanyQuery(registry.get('meta')!), '(Meta OR Facebook OR Instagram OR WhatsApp)');
+    assert.equal(buildCompanyQuery(registry.get('apple')!), 'Apple NOT recipe NOT orchard NOT cider NOT pie NOT fruit NOT "Gwyneth Paltrow"');
+    assert.equal(buildCompanyQuery(registry.get('microsoft')!), 'Microsoft');
+  });
+
+  it('quotes names that are not a single word', () => {
+    assert.equal(buildCompanyQuery({ id: 'x', name: 'Bank of America', aliases: ['BofA', 'B.A.C.'], tickers: [], domains: [], negativeKeywords: [] }), '("Bank of America" OR BofA OR "B.A.C.")');
+  });
+
+  it('stays within the newsapi query length by dropping exclusions first', () => {
+    const negativeKeywords = Array.from({ length: 100 }, (_, i) => `unrelated${i}`);
+    const query = buildCompanyQuery({ id: 'x', name: 'Acme', aliases: ['Acme Widgets Worldwide'], tickers: [], domains: [], negativeKeywords });
+    assert.ok(query.length <= 500);
+    assert.match(query, /^Acme NOT unrelated0 NOT unrelated1 /);
+  });
+});
+
+describe('CompanyRegistry.resolve', () => {
+  const registry = new CompanyRegistry();
+  const resolved = (input: string) => {
+    const match = registry.resolve(input);
+    return match && [match.company.id, match.matchedBy];
+  };
+
+  it('matches names and aliases regardless of case', () => {
+    assert.deepEqual(resolved('apple'), ['apple', 'name']);
+    assert.deepEqual(resolved('Facebook'), ['meta', 'alias']);
+    assert.deepEqual(resolved('  alphabet '), ['google', 'alias']);
+  });
+
+  it('matches tickers in the ways people write them', () => {
+    for (const input of ['AAPL', 'aapl', '$AAPL', 'NASDAQ:AAPL', 'NASDAQ: AAPL']) assert.deepEqual(resolved(input), ['apple', 'ticker'], input);
+    assert.deepEqual(resolved('BRK.B'), ['berkshire-hathaway', 'ticker']);
+    assert.deepEqual(resolved('GOOG'), ['google', 'ticker']);
+  });
+
+  it('only takes a single letter for a ticker when it is written as one', () => {
+    assert.deepEqual(resolved('V'), ['visa', 'ticker']);
+    assert.deepEqual(resolved('$V'), ['visa', 'ticker']);
+    assert.equal(resolved('v'), null);
+  });
+
+  it('matches website domains and their subdomains', () => {
+    assert.deepEqual(resolved('https://www.apple.com/newsroom/'), ['apple', 'domain']);
+    assert.deepEqual(resolved('news.microsoft.com'), ['microsoft', 'domain']);
+    assert.equal(resolved('example.com'), null);
+  });
+
+  it('searches unknown names verbatim', () => {
+    assert.deepEqual(registry.resolveQuery(' Acme Robotics '), { company: null, matchedBy: null, query: 'Acme Robotics' });
+    assert.equal(registry.resolveQuery('AAPL').query, buildCompanyQuery(registry.get('apple')!));
+  });
+
+  it('lists companies by name, filtered by name, alias or ticker', () => {
+    assert.deepEqual(registry.list('insta').map((c) => c.id), ['meta']);
+    assert.deepEqual(registry.list('nvda').map((c) => c.id), ['nvidia']);
+    const names = registry.list().map((c) => c.name);
+    assert.deepEqual(names, [...names].sort((a, b) => a.localeCompare(b)));
+  });
+});
+
+describe('custom companies', () => {
+  const filePath = path.join(dataDir, 'companies.json');
+
+  it('extends bundled companies and keeps the additions across restarts', async () => {
+    const registry = new CompanyRegistry(filePath);
+    const meta = registry.addAliases('meta', { aliases: ['Threads', 'instagram'], negativeKeywords: ['metaverse'] });
+    assert.equal(meta.custom, true);
+    assert.deepEqual(meta.aliases, ['Meta Platforms', 'Facebook', 'Instagram', 'WhatsApp', 'Threads']);
+    assert.equal(registry.resolveQuery('threads').query, '(Meta OR Facebook OR Instagram OR WhatsApp OR Threads) NOT metaverse');
+    await registry.flush();
+
+    const reloaded = new CompanyRegistry(filePath);
+    assert.deepEqual(reloaded.resolve('Threads')?.company.id, 'meta');
+    assert.equal(reloaded.removeCustom('meta'), true);
+    assert.equal(reloaded.resolve('Threads'), null);
+    assert.equal(reloaded.get('meta')?.custom, false);
+    assert.equal(reloaded.removeCustom('meta'), false);
+  });
+
+  it('adds new companies with normalized tickers and domains', () => {
+    const registry = new CompanyRegistry(path.join(dataDir, 'new-companies.json'));
+    const rivian = registry.addCompany({ name: 'Rivian', aliases: ['Rivian Automotive'], tickers: ['$rivn'], domains: ['https://www.rivian.com/'] });
+    assert.deepEqual(rivian, { id: 'rivian', name: 'Rivian', aliases: ['Rivian Automotive'], tickers: ['RIVN'], domains: ['rivian.com'], negativeKeywords: [], custom: true });
+    assert.equal(registry.resolve('RIVN')?.company.id, 'rivian');
+    assert.equal(registry.resolve('rivian.com')?.company.id, 'rivian');
+  });
+
+  it('refuses names and tickers that belong to another company', () => {
+    const registry = new CompanyRegistry();
+    const conflict = (fn: () => unknown, message: RegExp) => assert.throws(fn, (error: any) => error instanceof CompanyRegistryError && error.status === 409 && message.test(error.message));
+    conflict(() => registry.addAliases('apple', { aliases: ['Facebook'] }), /"Facebook" already names Meta/);
+    conflict(() => registry.addAliases('apple', { tickers: ['msft'] }), /ticker MSFT already belongs to Microsoft/);
+    conflict(() => registry.addCompany({ name: 'Apple' }), /company apple already exists/);
+    conflict(() => registry.addCompany({ name: 'Fruit Co', aliases: ['apple'] }), /already names Apple/);
+    assert.throws(() => registry.addAliases('nope', { aliases: ['x'] }), (error: any) => error.status === 404);
+    assert.throws(() => registry.addCompany({ name: '!!' }), (error: any) => error.status === 400);
+  });
+});
+
+describe('boolean queries against local providers', () => {
+  const articles = [
+    article('Apple unveils new iPhone', 'The company will consider a price cut'),
+    article('The best apple pie recipe for autumn'),
+    article('Facebook owner faces EU fine'),
+    article('Instagram adds new teen accounts'),
+    article('Meta-analysis of sleep studies', 'Researchers pooled data')
+  ];
+  const titles = (q: string) => filterArticles(articles, { q }).map((a) => a.title);
+
+  it('honors OR groups, NOT and phrases the way the registry writes them', () => {
+    assert.deepEqual(titles('Apple NOT recipe NOT cider NOT "Gwyneth Paltrow"'), ['Apple unveils new iPhone']);
+    assert.deepEqual(titles('(Meta OR Facebook OR Instagram) NOT analysis'), ['Facebook owner faces EU fine', 'Instagram adds new teen accounts']);
+    assert.deepEqual(titles('apple AND (iphone OR pie) -recipe'), ['Apple unveils new iPhone']);
+  });
+
+  it('expands nested groups into clauses', () => {
+    assert.deepEqual(parseQuery('x AND (y OR z) NOT w'), [
+      { required: ['x', 'y'], excluded: ['w'] },
+      { required: ['x', 'z'], excluded: ['w'] }
+    ]);
+    assert.deepEqual(parseQuery('NOT (a OR "b c")'), [{ required: [], excluded: ['a', 'b c'] }]);
+    assert.deepEqual(parseQuery('a) OR b'), [{ required: ['a'], excluded: [] }, { required: ['b'], excluded: [] }]);
+  });
+});
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ArticleArchive } from '../src/services/ArticleArchive';
+import { BriefStore } from '../src/services/BriefStore';
+import { nextRun, parseCron } from '../src/services/CronSchedule';
+import { DigestService } from '../src/services/DigestService';
+import { NewsService } from '../src/services/MyFunctions';
+import { NewsProvider, ProviderResult } from '../src/services/providers';
+
+// every call succeeds with no articles, so digests build without a news api
+class EmptyProvider implements NewsProvider {
+  readonly name = 'empty';
+
+  async topHeadlines(): Promise<ProviderResult> {
+    return { articles: [], totalResults: 0 };
+  }
+
+  async search(): Promise<ProviderResult> {
+    return { articles: [], totalResults: 0 };
+  }
+}
+
+function next(expression: string, after: string): string | null {
+  return nextRun(parseCron(expression), new Date(after))?.toISOString() || null;
+}
+
+describe('parseCron', () => {
+  it('expands steps, ranges and lists', () => {
+    assert.deepEqual([...parseCron('*/15 * * * *').minutes], [0, 15, 30, 45]);
+    assert.deepEqual([...parseCron('5/20 * * * *').minutes], [5, 25, 45]);
+    assert.deepEqual([...parseCron('0 9-12,18 * * *').hours], [9, 10, 11, 12, 18]);
+    assert.deepEqual([...parseCron('0-30/10 * * * *').minutes], [0, 10, 20, 30]);
+  });
+
+  it('accepts month and day names in any case, with 7 as sunday', () => {
+    const schedule = parseCron('0 7 * JAN,jul Mon-Fri');
+    assert.deepEqual([...schedule.months], [1, 7]);
+    assert.deepEqual([...schedule.daysOfWeek], [1, 2, 3, 4, 5]);
+    assert.deepEqual([...parseCron('0 0 * * 7').daysOfWeek], [0]);
+    assert.deepEqual([...parseCron('0 0 * * 5-7').daysOfWeek].sort(), [0, 5, 6]);
+    assert.equal(parseCron('@daily').expression, '@daily');
+    assert.deepEqual([...parseCron('@weekly').daysOfWeek], [0]);
+  });
+
+  it('rejects malformed expressions with a readable message', () => {
+    assert.throws(() => parseCron('61 * * * *'), /minute field must be between 0 and 59/);
+    assert.throws(() => parseCron('0 7 * *'), /five fields/);
+    assert.throws(() => parseCron('*/0 * * * *'), /invalid step/);
+    assert.throws(() => parseCron('0 0 * * fri-mon'), /day-of-week field/);
+    assert.throws(() => parseCron('0 0 * smarch *'), /month field/);
+  });
+});
+
+describe('nextRun', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    assert.equal(next('*/15 * * * *', '2026-01-01T10:15:00Z'), '2026-01-01T10:30:00.000Z');
+    assert.equal(next('*/15 * * * *', '2026-01-01T10:14:59Z'), '2026-01-01T10:15:00.000Z');
+    assert.equal(next('30 9-17/4 * * *', '2026-01-01T17:31:00Z'), '2026-01-02T09:30:00.000Z');
+  });
+
+  it('treats 7 as sunday', () => {
+    // 2026-01-01 is a thursday
+    assert.equal(next('0 8 * * 7', '2026-01-01T00:00:00Z'), '2026-01-04T08:00:00.000Z');
+    assert.equal(next('0 8 * * sun', '2026-01-01T00:00:00Z'), '2026-01-04T08:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    const schedule = parseCron('0 0 13 * fri');
+    const runs: string[] = [];
+    let after = new Date('2026-01-01T00:00:00Z');
+    for (let i = 0; i < 4; i++) {
+      after = nextRun(schedule, after)!;
+      runs.push(after.toISOString().slice(0, 10));
+    }
+    assert.deepEqual(runs, ['2026-01-02', '2026-01-09', '2026-01-13', '2026-01-16']);
+    // with one day field left as *, only the other one counts
+    assert.equal(next('0 0 13 * *', '2026-01-01T00:00:00Z'), '2026-01-13T00:00:00.000Z');
+  });
+
+  it('rolls over months and years that lack the day', () => {
+    assert.equal(next('0 0 31 * *', '2026-01-31T00:00:00Z'), '2026-03-31T00:00:00.000Z');
+    assert.equal(next('0 0 1 1 *', '2026-06-15T12:00:00Z'), '2027-01-01T00:00:00.000Z');
+    assert.equal(next('59 23 31 12 *', '2026-12-31T23:59:00Z'), '2027-12-31T23:59:00.000Z');
+    assert.equal(next('0 0 29 2 *', '2026-01-01T00:00:00Z'), '2028-02-29T00:00:00.000Z');
+  });
+
+  it('gives up on schedules that do not fire within five years', () => {
+    assert.equal(next('0 0 30 2 *', '2026-01-01T00:00:00Z'), null);
+    assert.equal(next('0 0 31 4,6,9,11 *', '2026-01-01T00:00:00Z'), null);
+  });
+});
+
+describe('DigestService', () => {
+  function createDigestService() {
+    const newsService = new NewsService(new EmptyProvider(), new ArticleArchive(), new BriefStore());
+    return new DigestService(newsService);
+  }
+
+  it('records the run on the current job when it is edited mid-run', async () => {
+    const service = createDigestService();
+    const job = service.createJob({ userId: 'u1', name: 'tech', schedule: '0 7 * * *', summarize: true });
+    job.nextRunAt = new Date(Date.now() - 60000).toISOString();
+    service.setSummarizer(async () => {
+      service.updateJob(job.id, { name: 'renamed' });
+      return 'all quiet';
+    });
+
+    const [digest] = await service.runDue();
+    assert.equal(digest.summary, 'all quiet');
+    const current = service.getJob(job.id)!;
+    assert.equal(current.name, 'renamed');
+    assert.equal(current.lastRunAt, digest.createdAt);
+    assert.ok(Date.parse(current.nextRunAt!) > Date.now());
+    assert.deepEqual(await service.runDue(), []);
+  });
+
+  it('keeps a job disabled mid-run unscheduled', async () => {
+    const service = createDigestService();
+    const job = service.createJob({ userId: 'u1', name: 'tech', summarize: true });
+    job.nextRunAt = new Date(Date.now() - 60000).toISOString();
+    service.setSummarizer(async () => {
+      service.updateJob(job.id, { enabled: false });
+      return null;
+    });
+
+    await service.runDue();
+    assert.equal(service.getJob(job.id)!.nextRunAt, null);
+    assert.ok(service.getJob(job.id)!.lastRunAt);
+  });
+});
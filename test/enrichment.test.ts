@@ -0,0 +1,224 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { describe, it } from 'node:test';
+import { ArticleEnricher, countWords, extractArticleText, isPublicAddress, readingTimeMinutes, recognizeEntities } from '../src/services/enrichment';
+import { NormalizedArticle } from '../src/services/providers';
+
+const PAGES = path.join(__dirname, 'fixtures/pages');
+
+function page(name: string): string {
+  return fs.readFileSync(path.join(PAGES, name), 'utf8');
+}
+
+function article(overrides: Partial<NormalizedArticle> = {}): NormalizedArticle {
+  return {
+    title: 'Apple beats earnings expectations on strong iPhone sales',
+    description: 'Apple reported quarterly revenue above analyst estimates.',
+    url: 'https://example.com/article.html',
+    source: 'Reuters',
+    publishedAt: '2026-01-01T00:00:00Z',
+    author: 'Jane Doe',
+    content: 'Apple Inc reported quarterly earnings that beat Wall Street expectations on Thursday, helped by strong iPhone sales.',
+    ...overrides
+  };
+}
+
+// serves fixture pages by the last path segment of the url and counts downloads
+function fixtureFetcher() {
+  const fetched: string[] = [];
+  const fetchPage = async (url: string) => {
+    fetched.push(url);
+    return page(url.split('/').pop()!);
+  };
+  return { fetched, fetchPage };
+}
+
+describe('extractArticleText', () => {
+  it('keeps the story paragraphs and drops scripts, navigation and page furniture', () => {
+    const extracted = extractArticleText(page('article.html'));
+    assert.equal(extracted.title, 'Apple beats earnings expectations on strong iPhone sales');
+    assert.equal(extracted.paragraphs, 4);
+    const paragraphs = extracted.text.split('\n\n');
+    assert.match(paragraphs[0], /^Apple Inc \(NASDAQ: AAPL\) reported quarterly revenue/);
+    assert.match(paragraphs[1], /margins would stay “roughly flat” next quarter\.$/);
+    assert.equal(paragraphs[3], 'We are seeing strong momentum across every region and every product category.');
+    for (const noise of ['dataLayer', 'Technology and the companies', 'trusted business news', 'Share this', 'Advertisement', 'file photo', 'Samsung', 'All rights reserved', 'Markets wrap']) {
+      assert.ok(!extracted.text.includes(noise), `should not contain ${noise}`);
+    }
+  });
+
+  it('falls back to the body when the page has no article or main element', () => {
+    const extracted = extractArticleText(page('plain.html'));
+    assert.equal(extracted.title, 'Toyota raises full-year profit forecast');
+    assert.equal(extracted.paragraphs, 2);
+    assert.match(extracted.text, /earlier estimate — a move/);
+    assert.doesNotMatch(extracted.text, /newsletter|Home/);
+  });
+
+  it('finds almost nothing behind a paywall', () => {
+    assert.equal(extractArticleText(page('paywall.html')).text, 'Microsoft said on Tuesday it will acquire...');
+    assert.deepEqual(extractArticleText('<html><body><script>app()</script></body></html>'), { title: '', text: '', paragraphs: 0 });
+  });
+});
+
+describe('recognizeEntities', () => {
+  it('finds dictionary organizations and people with their tickers, most mentioned first', () => {
+    const entities = recognizeEntities('Microsoft and Apple traded higher. Apple CEO Tim Cook said the Fed was not a concern. Apple Inc shares rose.');
+    assert.deepEqual(entities.organizations, ['Apple', 'Microsoft', 'Federal Reserve']);
+    assert.deepEqual(entities.tickers, ['AAPL', 'MSFT']);
+    assert.deepEqual(entities.people, ['Tim Cook']);
+  });
+
+  it('maps aliases onto one canonical name', () => {
+    const entities = recognizeEntities('Facebook owner Meta Platforms and Google parent Alphabet were fined.');
+    assert.deepEqual(entities.organizations, ['Google', 'Meta']);
+    assert.deepEqual(entities.tickers, ['GOOGL', 'META']);
+  });
+
+  it('recognizes unknown people by their title and explicit ticker mentions', () => {
+    const entities = recognizeEntities('Acme Robotics (NYSE: ACME) said chief executive Jane Smith will step down. "$ACME to the moon," wrote one investor.');
+    assert.deepEqual(entities.people, ['Jane Smith']);
+    assert.deepEqual(entities.tickers, ['ACME']);
+    assert.deepEqual(entities.organizations, []);
+  });
+
+  it('names the organization behind a known ticker', () => {
+    assert.deepEqual(recognizeEntities('Shares of $NVDA jumped').organizations, ['Nvidia']);
+  });
+
+  it('ignores lowercase words that happen to match names', () => {
+    assert.deepEqual(recognizeEntities('a shell company bought an apple orchard'), { people: [], organizations: [], tickers: [] });
+  });
+});
+
+describe('reading time', () => {
+  it('counts words and rounds reading time at 230 words per minute, at least one minute', () => {
+    assert.equal(countWords('Apple — beats  estimates, again. 2026'), 5);
+    assert.equal(readingTimeMinutes(0), 1);
+    assert.equal(readingTimeMinutes(800), 3);
+  });
+});
+
+describe('ArticleEnricher', () => {
+  it('works from the provider text in basic mode without fetching pages', async () => {
+    const { fetched, fetchPage } = fixtureFetcher();
+    const [enriched] = await new ArticleEnricher({ fetchPage }).enrich([article()], 'basic');
+    assert.deepEqual(fetched, []);
+    assert.equal(enriched.textSource, 'content');
+    assert.equal(enriched.fullText, undefined);
+    assert.equal(enriched.wordCount, 17);
+    assert.equal(enriched.readingTimeMinutes, 1);
+    assert.deepEqual(enriched.entities.organizations, ['Apple']);
+    assert.equal(enriched.source, 'Reuters');
+  });
+
+  it('estimates the length of content newsapi truncated', async () => {
+    const truncated = article({ content: 'Apple Inc reported quarterly earnings that beat Wall Street expectations… [+3000 chars]' });
+    const [enriched] = await new ArticleEnricher().enrich([truncated], 'basic');
+    assert.equal(enriched.wordCount, 10 + 500);
+    assert.equal(enriched.readingTimeMinutes, 2);
+  });
+
+  it('uses the description when there is no separate content', async () => {
+    const [enriched] = await new ArticleEnricher().enrich([article({ content: 'Apple reported quarterly revenue above analyst estimates.' })], 'basic');
+    assert.equal(enriched.textSource, 'description');
+  });
+
+  it('extracts the page text in full mode', async () => {
+    const { fetchPage } = fixtureFetcher();
+    const [enriched] = await new ArticleEnricher({ fetchPage }).enrich([article()], 'full');
+    assert.equal(enriched.textSource, 'page');
+    assert.match(enriched.fullText!, /Chief executive Tim Cook told analysts/);
+    assert.equal(enriched.wordCount, countWords(enriched.fullText!));
+    assert.deepEqual(enriched.entities.people, ['Tim Cook', 'Kevan Parekh']);
+    assert.deepEqual(enriched.entities.organizations, ['Apple', 'Microsoft']);
+    assert.deepEqual(enriched.entities.tickers, ['AAPL', 'MSFT']);
+  });
+
+  it('keeps the provider text when the page yields less or cannot be fetched', async () => {
+    const { fetchPage } = fixtureFetcher();
+    const failing = async (url: string) => {
+      if (url.endsWith('missing.html')) throw new Error('404');
+      return fetchPage(url);
+    };
+    const enricher = new ArticleEnricher({ fetchPage: failing });
+    const [paywalled, missing] = await enricher.enrich([
+      article({ url: 'https://example.com/paywall.html', content: 'Microsoft said on Tuesday it will acquire the startup, expanding its AI portfolio.' }),
+      article({ url: 'https://example.com/missing.html' })
+    ], 'full');
+    assert.equal(paywalled.textSource, 'content');
+    assert.equal(paywalled.fullText, undefined);
+    assert.equal(missing.textSource, 'content');
+  });
+
+  it('caches pages, downloads each url once and stops at maxPages', async () => {
+    const { fetched, fetchPage } = fixtureFetcher();
+    const enricher = new ArticleEnricher({ fetchPage, maxPages: 2, concurrency: 2 });
+    const articles = [
+      article({ url: 'https://example.com/article.html' }),
+      article({ url: 'https://example.com/article.html' }),
+      article({ url: 'https://example.com/plain.html' }),
+      article({ url: 'https://example.com/paywall.html' })
+    ];
+    const enriched = await enricher.enrich(articles, 'full');
+    assert.deepEqual(fetched, ['https://example.com/article.html']);
+    assert.deepEqual(enriched.map((a) => a.textSource), ['page', 'page', 'content', 'content']);
+    await enricher.enrich([article({ url: 'https://example.com/article.html' }), article({ url: 'https://example.com/plain.html' })], 'full');
+    assert.deepEqual(fetched, ['https://example.com/article.html', 'https://example.com/plain.html']);
+  });
+
+  it('fetches a page again after a failed download instead of caching the failure', async () => {
+    const { fetched, fetchPage } = fixtureFetcher();
+    let down = true;
+    const flaky = async (url: string) => {
+      if (down) throw new Error('timeout of 8000ms exceeded');
+      return fetchPage(url);
+    };
+    const enricher = new ArticleEnricher({ fetchPage: flaky });
+    assert.equal((await enricher.enrich([article()], 'full'))[0].textSource, 'content');
+    down = false;
+    assert.equal((await enricher.enrich([article()], 'full'))[0].textSource, 'page');
+    await enricher.enrich([article()], 'full');
+    assert.deepEqual(fetched, ['https://example.com/article.html']);
+  });
+
+  it('only fetches http urls', async () => {
+    const { fetched, fetchPage } = fixtureFetcher();
+    await new ArticleEnricher({ fetchPage }).enrich([article({ url: 'file:///etc/article.html' })], 'full');
+    assert.deepEqual(fetched, []);
+  });
+});
+
+describe('page downloads', () => {
+  it('tells public addresses from loopback, private, link-local and reserved ones', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '::ffff:93.184.216.34']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a00:1', 'not-an-ip']) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('never requests pages on loopback addresses, by ip or by name', async () => {
+    let requests = 0;
+    const server = http.createServer((req, res) => {
+      requests++;
+      res.writeHead(200, { 'Content-Type': 'text/html' }).end(page('article.html'));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      const enriched = await new ArticleEnricher().enrich([
+        article({ url: `http://127.0.0.1:${port}/article.html` }),
+        article({ url: `http://localhost:${port}/article.html` })
+      ], 'full');
+      assert.deepEqual(enriched.map((a) => a.textSource), ['content', 'content']);
+      assert.equal(requests, 0);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
@@ -0,0 +1,337 @@
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { NewsBrief } from '../src/services/BriefStore';
+import { ChatWebhookChannel, createChannel, EmailChannel, MAX_LOG_ENTRIES_PER_USER, NotificationChannel, NotificationService, WebhookChannel } from '../src/services/notifications';
+import { startTestApp, TestApp, TestClient } from './support/testApp';
+
+interface SinkRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// a local webhook endpoint that records what it receives and answers with the next queued status (200 by default)
+class WebhookSink {
+  requests: SinkRequest[] = [];
+  statuses: number[] = [];
+  private server = http.createServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    this.requests.push({ headers: req.headers, body });
+    res.writeHead(this.statuses.shift() ?? 200).end();
+  });
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/hook`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+// just enough smtp for nodemailer without auth or starttls; records each message it accepts
+class SmtpStandIn {
+  messages: { from: string; to: string[]; data: string }[] = [];
+  private server = net.createServer((socket) => {
+    let buffer = '';
+    let message: { from: string; to: string[]; data: string } | null = null;
+    let inData = false;
+    socket.write('220 localhost ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (inData) {
+          if (line === '.') {
+            this.messages.push(message!);
+            inData = false;
+            socket.write('250 queued\r\n');
+          } else {
+            message!.data += `${line.startsWith('..') ? line.slice(1) : line}\n`;
+          }
+          continue;
+        }
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'MAIL') message = { from: /<(.*)>/.exec(line)?.[1] || '', to: [], data: '' };
+        if (command === 'RCPT') message?.to.push(/<(.*)>/.exec(line)?.[1] || '');
+        if (command === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+
+  async start(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+function brief(overrides: Partial<NewsBrief> = {}): NewsBrief {
+  return {
+    id: 'brief-1',
+    summary: 'Apple beat estimates & raised guidance.',
+    priority: 'high',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    sourceUrls: ['https://example.com/apple'],
+    tags: ['apple'],
+    userId: 'u1',
+    conversationId: null,
+    read: false,
+    acknowledgedAt: null,
+    ...overrides
+  };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000) {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) throw new Error('timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('notification channels', () => {
+  const sink = new WebhookSink();
+  const smtp = new SmtpStandIn();
+  let url: string;
+  let smtpPort: number;
+
+  before(async () => {
+    url = await sink.start();
+    smtpPort = await smtp.start();
+  });
+  after(async () => {
+    await sink.stop();
+    await smtp.stop();
+  });
+
+  it('signs webhook bodies with an hmac over the timestamp and body', async () => {
+    sink.requests = [];
+    await new WebhookChannel({ id: 'hook', type: 'webhook', url, secret: 's3cret' }).send(brief());
+    const [request] = sink.requests;
+    const timestamp = String(request.headers['x-timestamp']);
+    const expected = crypto.createHmac('sha256', 's3cret').update(`${timestamp}.${request.body}`).digest('hex');
+    assert.equal(request.headers['x-signature'], `sha256=${expected}`);
+    assert.ok(Math.abs(Number(timestamp) - Date.now() / 1000) < 60);
+    assert.deepEqual(JSON.parse(request.body), { event: 'brief.created', brief: brief() });
+
+    await new WebhookChannel({ id: 'plain', type: 'webhook', url }).send(brief());
+    assert.equal(sink.requests[1].headers['x-signature'], undefined);
+  });
+
+  it('posts slack and teams messages in their incoming-webhook formats', async () => {
+    sink.requests = [];
+    await createChannel({ id: 'slack', type: 'slack', url }).send(brief());
+    await createChannel({ id: 'teams', type: 'teams', url }).send(brief({ priority: 'low' }));
+    const [slack, teams] = sink.requests.map((r) => JSON.parse(r.body));
+    assert.deepEqual(slack, {
+      text: 'HIGH priority news brief: Apple beat estimates &amp; raised guidance.',
+      mrkdwn: false,
+      blocks: [
+        { type: 'header', text: { type: 'plain_text', text: 'HIGH priority news brief' } },
+        { type: 'section', text: { type: 'plain_text', text: 'Apple beat estimates & raised guidance.' } },
+        { type: 'context', elements: [{ type: 'mrkdwn', text: '2026-01-01T00:00:00.000Z' }] }
+      ]
+    });
+    assert.deepEqual(teams, {
+      '@type': 'MessageCard',
+      '@context': 'https://schema.org/extensions',
+      summary: 'LOW priority news brief',
+      themeColor: '3b82f6',
+      title: 'LOW priority news brief',
+      text: 'Apple beat estimates &amp; raised guidance.'
+    });
+    assert.ok(createChannel({ id: 'teams', type: 'teams', url }) instanceof ChatWebhookChannel);
+  });
+
+  it('keeps mentions, links and markup in a brief from reaching slack and teams', () => {
+    const hostile = brief({ summary: '<!channel> *Act now* at <https://evil.example|your bank> & _hurry_' });
+    const slack = new ChatWebhookChannel({ id: 'slack', type: 'slack', url }).format(hostile) as any;
+    assert.equal(slack.text, 'HIGH priority news brief: &lt;!channel&gt; *Act now* at &lt;https://evil.example|your bank&gt; &amp; _hurry_');
+    assert.equal(slack.mrkdwn, false);
+    assert.deepEqual(slack.blocks[1], { type: 'section', text: { type: 'plain_text', text: hostile.summary } });
+
+    const teams = new ChatWebhookChannel({ id: 'teams', type: 'teams', url }).format(hostile) as any;
+    assert.equal(teams.text, '&lt;!channel&gt; \\*Act now\\* at &lt;https://evil.example|your bank&gt; &amp; \\_hurry\\_');
+  });
+
+  it('mails a plain text brief to every recipient', async () => {
+    const channel = new EmailChannel({
+      id: 'mail',
+      type: 'email',
+      from: 'newsbrief@example.com',
+      to: ['a@example.com', 'b@example.com'],
+      smtp: { host: '127.0.0.1', port: smtpPort }
+    });
+    await channel.send(brief());
+    const [message] = smtp.messages;
+    assert.equal(message.from, 'newsbrief@example.com');
+    assert.deepEqual(message.to, ['a@example.com', 'b@example.com']);
+    assert.match(message.data, /^Subject: \[high\] news brief$/m);
+    assert.match(message.data, /Apple beat estimates & raised guidance\.\n\n2026-01-01T00:00:00.000Z/);
+  });
+
+  it('rejects incomplete channel configs', () => {
+    assert.throws(() => createChannel({ id: 'hook', type: 'webhook' }), /url is required/);
+    assert.throws(() => createChannel({ id: 'mail', type: 'email', to: [] }), /smtp.host and to are required/);
+  });
+});
+
+describe('NotificationService', () => {
+  const sink = new WebhookSink();
+  let url: string;
+
+  before(async () => {
+    url = await sink.start();
+  });
+  after(() => sink.stop());
+
+  it('retries with a growing backoff and gives up after 5 attempts', async () => {
+    sink.requests = [];
+    sink.statuses = Array(5).fill(500);
+    const service = new NotificationService([new WebhookChannel({ id: 'hook', type: 'webhook', url })], undefined, 1000);
+    const [delivery] = service.dispatch(brief({ userId: null }));
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      // settled once the failure has scheduled the next attempt (or given up)
+      await waitFor(() => delivery.attempts === attempt && (delivery.status !== 'pending' || Date.parse(delivery.nextAttemptAt!) > Date.now()));
+      if (delivery.status !== 'pending') break;
+      delays.push(Date.parse(delivery.nextAttemptAt!) - Date.now());
+      // not due yet: the queue leaves it alone
+      await service.processQueue();
+      assert.equal(delivery.attempts, attempt);
+      delivery.nextAttemptAt = new Date(Date.now() - 1).toISOString();
+      await service.processQueue();
+    }
+
+    assert.equal(delivery.status, 'failed');
+    assert.equal(delivery.attempts, 5);
+    assert.equal(delivery.lastError, 'http 500');
+    assert.equal(delivery.nextAttemptAt, null);
+    assert.equal(sink.requests.length, 5);
+    // 1s, 4s, 16s and 64s, give or take the time the test takes
+    assert.deepEqual(delays.map((ms) => Math.round(ms / 1000)), [1, 4, 16, 64]);
+
+    await service.processQueue();
+    assert.equal(sink.requests.length, 5);
+  });
+
+  it('delivers to the other channels when one fails and skips channels above the brief priority', async () => {
+    sink.requests = [];
+    sink.statuses = [];
+    const closed = net.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const deadUrl = `http://127.0.0.1:${(closed.address() as AddressInfo).port}/hook`;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    const service = new NotificationService([
+      new WebhookChannel({ id: 'dead', type: 'webhook', url: deadUrl }),
+      new WebhookChannel({ id: 'live', type: 'webhook', url }),
+      new WebhookChannel({ id: 'urgent-only', type: 'webhook', url, minPriority: 'high' })
+    ], undefined, 1000);
+    const queued = service.dispatch(brief({ priority: 'medium', userId: null }));
+    assert.deepEqual(queued.map((d) => d.channelId), ['dead', 'live']);
+
+    await waitFor(() => queued.every((d) => d.status === 'delivered' || d.lastError !== null));
+    const [dead, live] = queued;
+    assert.equal(live.status, 'delivered');
+    assert.ok(live.deliveredAt);
+    assert.equal(dead.status, 'pending');
+    assert.match(dead.lastError || '', /ECONNREFUSED/);
+    assert.equal(sink.requests.length, 1);
+    assert.deepEqual(service.listDeliveries({ status: 'delivered' }).map((d) => d.channelId), ['live']);
+  });
+
+  it('trims the delivery log per brief owner', async () => {
+    const instant: NotificationChannel = { id: 'instant', type: 'webhook', minPriority: 'low', owner: null, send: async () => {} };
+    const service = new NotificationService([instant], undefined, 1000);
+    service.setOwnerResolver((userId) => ({ username: userId, admin: true }));
+    const [alice] = service.dispatch(brief({ id: 'alice-brief', userId: 'alice' }));
+    await waitFor(() => alice.status === 'delivered');
+    for (let i = 0; i <= MAX_LOG_ENTRIES_PER_USER; i++) {
+      const [delivery] = service.dispatch(brief({ id: `bob-${i}`, userId: 'bob' }));
+      await waitFor(() => delivery.status === 'delivered');
+    }
+    service.dispatch(brief({ id: 'bob-last', userId: 'bob' }));
+
+    const bob = service.listDeliveries({ userId: 'bob', status: 'delivered', limit: MAX_LOG_ENTRIES_PER_USER });
+    assert.equal(bob.length, MAX_LOG_ENTRIES_PER_USER);
+    assert.ok(!bob.some((d) => d.brief.id === 'bob-0'));
+    assert.deepEqual(service.listDeliveries({ userId: 'alice' }).map((d) => d.brief.id), ['alice-brief']);
+  });
+});
+
+describe('notification routes', () => {
+  const sink = new WebhookSink();
+  let app: TestApp;
+  let alice: TestClient;
+  let bob: TestClient;
+  let channelsFile: string;
+
+  before(async () => {
+    channelsFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'news-agent-channels-')), 'channels.json');
+    const url = await sink.start();
+    fs.writeFileSync(channelsFile, JSON.stringify([{ id: 'hook', type: 'webhook', url }, { id: 'bob-hook', type: 'webhook', url, owner: 'bob' }]));
+    app = await startTestApp({ NOTIFICATION_CHANNELS_FILE: channelsFile, ADMIN_USERS: 'alice' });
+    alice = new TestClient(app.url);
+    bob = new TestClient(app.url);
+    await alice.register('alice');
+    await bob.register('bob');
+  });
+  after(async () => {
+    await app.close();
+    await sink.stop();
+    fs.rmSync(path.dirname(channelsFile), { recursive: true, force: true });
+  });
+
+  it('shows each user the deliveries of their own briefs only', async () => {
+    const { newsService } = app.services;
+    const aliceId = (await alice.get('/api/auth/me')).body.user.id;
+    const bobId = (await bob.get('/api/auth/me')).body.user.id;
+    const own = newsService.createBrief({ summary: 'For alice.', userId: aliceId });
+    const other = newsService.createBrief({ summary: 'For bob.', userId: bobId });
+    const unowned = newsService.createBrief({ summary: 'For nobody.', userId: null });
+
+    const briefIds = async (client: TestClient) => (await client.get('/api/notifications/deliveries')).body.deliveries.map((d: any) => d.brief.id);
+    assert.deepEqual(await briefIds(bob), [other.id]);
+    // alice is an admin, so she also sees deliveries of briefs without an owner
+    assert.deepEqual(await briefIds(alice), [unowned.id, own.id]);
+  });
+
+  it('sends briefs only to channels their owner can use', async () => {
+    const { newsService } = app.services;
+    const carol = new TestClient(app.url);
+    await carol.register('carol');
+    const channelsFor = (brief: NewsBrief) => app.services.notificationService.listDeliveries().filter((d) => d.brief.id === brief.id).map((d) => d.channelId);
+
+    // bob owns a channel; alice is an admin, so the shared channel carries her briefs
+    assert.deepEqual(channelsFor(newsService.createBrief({ summary: 'For bob.', userId: (await bob.get('/api/auth/me')).body.user.id })), ['bob-hook']);
+    assert.deepEqual(channelsFor(newsService.createBrief({ summary: 'For alice.', userId: (await alice.get('/api/auth/me')).body.user.id })), ['hook']);
+    assert.deepEqual(channelsFor(newsService.createBrief({ summary: 'For carol.', userId: (await carol.get('/api/auth/me')).body.user.id })), []);
+
+    assert.deepEqual((await bob.get('/api/notifications/channels')).body.channels.map((c: any) => c.id), ['bob-hook']);
+    assert.deepEqual((await carol.get('/api/notifications/channels')).body.channels, []);
+  });
+});
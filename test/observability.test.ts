@@ -0,0 +1,186 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { shutdown } from '../src/app';
+import { HealthChecks, Logger, LogLevel, MetricsRegistry, requestContext } from '../src/services/observability';
+import { startTestApp, TestApp, TestClient } from './support/testApp';
+
+describe('MetricsRegistry', () => {
+  it('renders counters, gauges and histograms in the prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('demo_requests_total', 'Requests');
+    requests.inc({ route: '/api/x', status: '200' });
+    requests.inc({ status: '200', route: '/api/x' });
+    requests.inc({ route: 'say "hi"\n' });
+    registry.gauge('demo_entries', 'Entries', () => [{ value: 7 }]);
+    const latency = registry.histogram('demo_seconds', 'Latency', [0.1, 1]);
+    latency.observe({ route: '/a' }, 0.05);
+    latency.observe({ route: '/a' }, 0.5);
+    latency.observe({ route: '/a' }, 3);
+
+    const text = registry.render();
+    assert.match(text, /^# HELP demo_requests_total Requests\n# TYPE demo_requests_total counter\n/);
+    assert.match(text, /^demo_requests_total\{route="\/api\/x",status="200"\} 2$/m);
+    assert.match(text, /^demo_requests_total\{route="say \\"hi\\"\\n"\} 1$/m);
+    assert.match(text, /^demo_entries 7$/m);
+    assert.match(text, /^demo_seconds_bucket\{le="0.1",route="\/a"\} 1$/m);
+    assert.match(text, /^demo_seconds_bucket\{le="1",route="\/a"\} 2$/m);
+    assert.match(text, /^demo_seconds_bucket\{le="\+Inf",route="\/a"\} 3$/m);
+    assert.match(text, /^demo_seconds_sum\{route="\/a"\} 3.55$/m);
+    assert.match(text, /^demo_seconds_count\{route="\/a"\} 3$/m);
+    assert.throws(() => registry.counter('demo_entries', 'again'), /already registered/);
+    assert.throws(() => registry.counter('bad-name', 'x'), /invalid metric name/);
+  });
+});
+
+describe('Logger', () => {
+  const capture = (level: LogLevel | 'silent' = 'info', format: 'json' | 'pretty' = 'json') => {
+    const lines: { line: string; level: LogLevel }[] = [];
+    return { lines, logger: new Logger({ level, format, write: (line, lvl) => lines.push({ line, level: lvl }) }) };
+  };
+
+  it('writes one json object per entry with child fields and the current request id', () => {
+    const { lines, logger } = capture();
+    const child = logger.child({ component: 'test' });
+    requestContext.run({ requestId: 'req-1' }, () => child.info('hello', { count: 2, skipped: undefined }));
+    logger.debug('hidden');
+    const entry = JSON.parse(lines[0].line);
+    assert.equal(lines.length, 1);
+    assert.deepEqual({ ...entry, time: undefined }, { time: undefined, level: 'info', msg: 'hello', requestId: 'req-1', component: 'test', count: 2 });
+    assert.ok(!isNaN(Date.parse(entry.time)));
+  });
+
+  it('serializes errors, with stacks on error entries only', () => {
+    const { lines, logger } = capture();
+    const error = Object.assign(new Error('boom'), { code: 'rateLimited' });
+    logger.warn('expected', { error });
+    logger.error('unexpected', { error });
+    const [warn, failure] = lines.map((l) => JSON.parse(l.line));
+    assert.deepEqual(warn.error, { name: 'Error', message: 'boom', code: 'rateLimited' });
+    assert.match(failure.error.stack, /^Error: boom/);
+    assert.deepEqual(lines.map((l) => l.level), ['warn', 'error']);
+  });
+
+  it('drops entries below the level and can write plain text', () => {
+    const silent = capture('silent');
+    silent.logger.error('nothing');
+    assert.equal(silent.lines.length, 0);
+    const pretty = capture('debug', 'pretty');
+    pretty.logger.debug('cache revalidation failed', { key: 'top-headlines?country=us', reason: 'two words' });
+    assert.match(pretty.lines[0].line, /^\S+ DEBUG cache revalidation failed key=top-headlines\?country=us reason="two words"$/);
+  });
+});
+
+describe('HealthChecks', () => {
+  it('reports the worst check and is not ready on failures or during shutdown', () => {
+    const health = new HealthChecks();
+    assert.deepEqual(health.readiness(), { ready: true, status: 'ok', checks: {} });
+    health.register('cache', () => ({ status: 'degraded', message: 'slow' }));
+    assert.deepEqual(health.readiness().status, 'degraded');
+    assert.equal(health.readiness().ready, true);
+    health.register('broken', () => {
+      throw new Error('check crashed');
+    });
+    assert.deepEqual(health.readiness().checks.broken, { status: 'fail', message: 'check crashed' });
+    assert.equal(health.readiness().ready, false);
+
+    const stopping = new HealthChecks();
+    stopping.markShuttingDown();
+    assert.equal(stopping.readiness().ready, false);
+    assert.equal(stopping.readiness().checks.shutdown.status, 'fail');
+  });
+});
+
+describe('observability routes', () => {
+  let app: TestApp;
+  let client: TestClient;
+
+  before(async () => {
+    app = await startTestApp();
+    client = new TestClient(app.url);
+    await client.register('olivia');
+  });
+  after(() => app.close());
+
+  it('answers the health probes without signing in and tags responses with a request id', async () => {
+    const anonymous = new TestClient(app.url);
+    const live = await anonymous.get('/healthz');
+    assert.equal(live.status, 200);
+    assert.equal(live.body.status, 'ok');
+    assert.match(live.headers.get('x-request-id') || '', /^[0-9a-f-]{36}$/);
+    assert.equal((await anonymous.get('/healthz', { 'x-request-id': 'lb-check.42' })).headers.get('x-request-id'), 'lb-check.42');
+    assert.notEqual((await anonymous.get('/healthz', { 'x-request-id': 'no spaces allowed' })).headers.get('x-request-id'), 'no spaces allowed');
+
+    const ready = await anonymous.get('/readyz');
+    assert.equal(ready.status, 200);
+    assert.deepEqual(ready.body.checks.newsApi, { status: 'ok', keyStatus: 'unknown', remaining: 100 });
+  });
+
+  it('keeps the request id for everything a request does, json bodies included', async () => {
+    let seen: string | undefined;
+    app.services.chatService.onUserMessage(() => {
+      seen = requestContext.getStore()?.requestId;
+    });
+    const reply = await client.post('/api/chat', { message: 'anything new on chips?' }, { 'x-request-id': 'chat-req-1' });
+    assert.equal(reply.status, 200);
+    assert.equal(seen, 'chat-req-1');
+  });
+
+  it('reports not ready while newsapi rejects the key', async () => {
+    const anonymous = new TestClient(app.url);
+    app.newsApi.failNext(401, 'apiKeyInvalid');
+    assert.equal((await client.get('/api/headlines')).status, 503);
+    const ready = await anonymous.get('/readyz');
+    assert.equal(ready.status, 503);
+    assert.equal(ready.body.ready, false);
+    assert.equal(ready.body.checks.newsApi.keyStatus, 'invalid');
+
+    await client.get('/api/headlines');
+    assert.equal((await anonymous.get('/readyz')).body.checks.newsApi.keyStatus, 'valid');
+  });
+
+  it('counts route latency, newsapi calls and errors, daemo queries and cache lookups', async () => {
+    await client.get('/api/headlines?category=technology');
+    await client.get('/api/watchlists/missing');
+    app.newsApi.failNext(429, 'rateLimited');
+    await client.get('/api/search?q=nvidia');
+    await client.post('/api/chat', { message: 'hello' });
+
+    const scrape = await new TestClient(app.url).get('/metrics');
+    assert.equal(scrape.status, 200);
+    assert.match(scrape.headers.get('content-type') || '', /^text\/plain;.*version=0.0.4/);
+    const metrics = scrape.text;
+    assert.match(metrics, /^http_request_duration_seconds_count\{method="GET",route="\/api\/headlines",status="200"\} 2$/m);
+    assert.match(metrics, /^http_request_duration_seconds_count\{method="GET",route="\/api\/watchlists\/:id",status="404"\} 1$/m);
+    assert.match(metrics, /^newsapi_requests_total\{endpoint="top-headlines"\} 3$/m);
+    assert.match(metrics, /^newsapi_errors_total\{code="rateLimited",endpoint="everything"\} 1$/m);
+    assert.match(metrics, /^daemo_query_duration_seconds_count\{kind="chat",outcome="ok"\} 2$/m);
+    assert.match(metrics, /^news_cache_lookups_total\{result="miss"\} \d+$/m);
+
+    // rate limited for now: still ready, the cache and archive keep answering
+    const ready = await new TestClient(app.url).get('/readyz');
+    assert.equal(ready.status, 200);
+    assert.equal(ready.body.status, 'degraded');
+  });
+
+});
+
+describe('shutdown', () => {
+  it('stops taking traffic, then flushes every store to disk', async () => {
+    const app = await startTestApp();
+    const client = new TestClient(app.url);
+    await client.register('sam');
+    const created = await client.post('/api/watchlists', { name: 'chips', keywords: ['semiconductor'] });
+    assert.equal(created.status, 201);
+    const watchlistsFile = path.join(app.dataDir, 'watchlists.json');
+    assert.equal(fs.existsSync(watchlistsFile), false);
+
+    await shutdown(app.server, app.services, 1000);
+    assert.equal(app.services.health.readiness().ready, false);
+    assert.equal(app.server.listening, false);
+    assert.equal(JSON.parse(fs.readFileSync(watchlistsFile, 'utf8'))[0].name, 'chips');
+    assert.ok(fs.existsSync(path.join(app.dataDir, 'auth.json')));
+    await app.close();
+  });
+});
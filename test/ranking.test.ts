@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, describe, it } from 'node:test';
+import { NormalizedArticle } from '../src/services/providers';
+import { ArticleRanker, InterestProfiles, interestTerms } from '../src/services/ranking';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'news-agent-ranking-'));
+after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+const NOW = Date.parse('2026-03-02T12:00:00Z');
+
+function article(title: string, fields: Partial<NormalizedArticle> & { hoursAgo?: number } = {}): NormalizedArticle {
+  const { hoursAgo = 1, ...rest } = fields;
+  return {
+    title,
+    description: '',
+    url: `https://blog.example.org/${encodeURIComponent(title)}`,
+    source: 'Example Blog',
+    publishedAt: new Date(NOW - hoursAgo * 3600000).toISOString(),
+    author: '',
+    content: '',
+    ...rest
+  };
+}
+
+describe('ArticleRanker', () => {
+  const ranker = new ArticleRanker();
+  const titles = (articles: NormalizedArticle[]) => articles.map((a) => a.title);
+
+  it('prefers recent articles when nothing else differs', () => {
+    const ranked = ranker.rank([article('Old news', { hoursAgo: 72 }), article('Fresh news', { hoursAgo: 1 })], { now: NOW });
+    assert.deepEqual(titles(ranked), ['Fresh news', 'Old news']);
+    assert.equal(ranked[1].rank.signals.recency, 0.125);
+    assert.equal(ranked[0].rank.signals.relevance, undefined);
+  });
+
+  it('scores query terms in the title above terms in the body', () => {
+    const ranked = ranker.rank([
+      article('Markets wrap', { description: 'Chipmakers rallied on nvidia earnings' }),
+      article('Unrelated story'),
+      article('Nvidia earnings beat expectations', { hoursAgo: 5 })
+    ], { query: 'nvidia AND earnings', now: NOW });
+    assert.deepEqual(ranked.map((a) => a.rank.signals.relevance), [1, 0.5, 0]);
+    assert.equal(ranked[0].title, 'Nvidia earnings beat expectations');
+  });
+
+  it('trusts outlets by their reliability tier', () => {
+    const ranked = ranker.rank([
+      article('Rumor roundup', { url: 'https://www.benzinga.com/x', source: 'Benzinga' }),
+      article('Rate decision', { url: 'https://www.reuters.com/x', source: 'Reuters' })
+    ], { now: NOW });
+    assert.deepEqual(titles(ranked), ['Rate decision', 'Rumor roundup']);
+    assert.ok(ranked[0].rank.signals.trust! > ranked[1].rank.signals.trust!);
+  });
+
+  it('lifts stories carried by several outlets and can keep one copy of each', () => {
+    const story = 'Central bank raises interest rates by a quarter point to fight inflation';
+    const articles = [
+      article('Local team wins the cup'),
+      article(story, { url: 'https://www.reuters.com/rates', source: 'Reuters', hoursAgo: 2 }),
+      article(story, { url: 'https://apnews.com/rates', source: 'Associated Press', hoursAgo: 2 }),
+      article(story, { url: 'https://www.bbc.co.uk/rates', source: 'BBC News', hoursAgo: 2 })
+    ];
+    const ranked = ranker.rank(articles, { now: NOW });
+    assert.equal(ranked[0].rank.coverageCount, 3);
+    assert.equal(ranked.find((a) => a.title === 'Local team wins the cup')?.rank.signals.coverage, 0);
+
+    const collapsed = ranker.rank(articles, { now: NOW, collapseStories: true });
+    assert.deepEqual(titles(collapsed), [story, 'Local team wins the cup']);
+  });
+
+  it('boosts articles that match learned interests and reports the matches', () => {
+    const interests = { terms: new Map([['quantum', 1], ['computing', 0.4]]), sources: new Map<string, number>() };
+    const ranked = ranker.rank([
+      article('Celebrity wedding photos', { hoursAgo: 1 }),
+      article('Quantum computing startup opens lab', { hoursAgo: 6 })
+    ], { interests, now: NOW });
+    assert.equal(ranked[0].title, 'Quantum computing startup opens lab');
+    assert.deepEqual(ranked[0].rank.matchedInterests, ['quantum', 'computing']);
+    assert.equal(ranked[1].rank.signals.interest, 0);
+  });
+});
+
+describe('InterestProfiles', () => {
+  it('learns weighted terms and outlets from clicks, saves and chat questions', () => {
+    const profiles = new InterestProfiles();
+    assert.equal(profiles.profile('u1'), null);
+    profiles.recordClick('u1', article('Quantum computing startup raises funding', { source: 'TechCrunch' }));
+    profiles.saveArticle('u1', article('Quantum sensors reach the market'));
+    profiles.recordChatTopic('u1', "what's the latest on fusion energy?");
+
+    const { terms, sources } = profiles.topInterests('u1');
+    assert.equal(terms[0].term, 'quantum');
+    assert.equal(terms[0].weight, 1);
+    assert.ok(terms.some((t) => t.term === 'fusion'));
+    assert.ok(!terms.some((t) => ['what', 'latest', 'the'].includes(t.term)));
+    assert.deepEqual(sources.map((s) => s.term), ['Example Blog', 'TechCrunch']);
+    assert.equal(profiles.topInterests('u2').terms.length, 0);
+  });
+
+  it('counts repeated clicks and saves of one article once', () => {
+    const profiles = new InterestProfiles();
+    const item = article('Robotics arm learns to fold laundry');
+    assert.equal(profiles.recordClick('u1', item), true);
+    assert.equal(profiles.recordClick('u1', { ...item, url: `${item.url}?utm_source=feed` }), false);
+    profiles.recordClick('u1', article('Robotics funding slows'));
+    profiles.saveArticle('u1', item);
+    profiles.saveArticle('u1', item);
+    assert.equal(profiles.listSaved('u1').length, 1);
+    assert.equal(profiles.profile('u1')?.terms.get('robotics'), 1);
+    assert.ok(profiles.profile('u1')!.terms.get('laundry')! < 1);
+  });
+
+  it('keeps saved articles and interests across restarts and resets interests only', async () => {
+    const filePath = path.join(dataDir, 'interests.json');
+    const profiles = new InterestProfiles(filePath);
+    profiles.saveArticle('u1', article('Battery chemistry breakthrough'));
+    await profiles.flush();
+
+    const reloaded = new InterestProfiles(filePath);
+    assert.equal(reloaded.listSaved('u1')[0].title, 'Battery chemistry breakthrough');
+    assert.ok(reloaded.profile('u1')?.terms.has('battery'));
+    assert.equal(reloaded.reset('u1'), true);
+    assert.equal(reloaded.profile('u1'), null);
+    assert.equal(reloaded.listSaved('u1').length, 1);
+    assert.equal(reloaded.removeSaved('u1', 'https://blog.example.org/Battery%20chemistry%20breakthrough'), true);
+    assert.equal(reloaded.removeSaved('u1', 'https://blog.example.org/missing'), false);
+  });
+
+  it('skips stop words, numbers and short words', () => {
+    assert.deepEqual(interestTerms('What is the news on 2026 EV sales in Europe?'), ['sales', 'europe']);
+  });
+});
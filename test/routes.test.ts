@@ -0,0 +1,693 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { MockDaemo } from './support/mockDaemo';
+import { parseEventStream, startTestApp, TestApp, TestClient } from './support/testApp';
+
+let app: TestApp;
+let alice: TestClient;
+let bob: TestClient;
+let aliceId: string;
+
+before(async () => {
+  app = await startTestApp({ ADMIN_USERS: 'alice' });
+  alice = new TestClient(app.url);
+  bob = new TestClient(app.url);
+  aliceId = (await alice.register('alice')).id;
+  await bob.register('bob');
+});
+after(() => app.close());
+beforeEach(() => {
+  app.newsApi.reset();
+  app.daemo.reset();
+});
+
+describe('auth routes', () => {
+  it('registers, rejects duplicates and validates credentials', async () => {
+    const client = new TestClient(app.url);
+    const created = await client.post('/api/auth/register', { username: 'carol', password: 'password1' });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.user.username, 'carol');
+    assert.match(created.headers.get('set-cookie') || '', /HttpOnly/i);
+
+    const duplicate = await client.post('/api/auth/register', { username: 'carol', password: 'password1' });
+    assert.equal(duplicate.status, 409);
+    assert.equal(duplicate.body.error.code, 'conflict');
+
+    const short = await client.post('/api/auth/register', { username: 'dave', password: 'short' });
+    assert.equal(short.status, 400);
+    const invalid = await client.post('/api/auth/register', { username: 'dave' });
+    assert.equal(invalid.body.error.code, 'invalidRequest');
+    assert.deepEqual(invalid.body.error.details.map((d: any) => d.path), ['password']);
+  });
+
+  it('logs in, reports the user and logs out', async () => {
+    const client = new TestClient(app.url);
+    assert.equal((await client.post('/api/auth/login', { username: 'alice', password: 'wrong password' })).status, 401);
+    const login = await client.post('/api/auth/login', { username: 'alice', password: 'correct horse' });
+    assert.equal(login.status, 200);
+    assert.ok(login.body.expiresAt);
+
+    const me = await client.get('/api/auth/me');
+    assert.equal(me.body.user.id, aliceId);
+    assert.deepEqual(await client.post('/api/auth/logout').then((r) => r.body), { success: true });
+    assert.equal((await client.get('/api/auth/me')).status, 401);
+    assert.equal((await new TestClient(app.url).get('/api/auth/me', { cookie: 'news_session=%E0%A4%A' })).status, 401);
+  });
+
+  it('creates, uses and revokes api keys', async () => {
+    const created = await alice.post('/api/auth/api-keys', { name: 'cron' });
+    assert.equal(created.status, 201);
+    const script = new TestClient(app.url, { authorization: `Bearer ${created.body.key}` });
+    assert.equal((await script.get('/api/auth/me')).body.user.id, aliceId);
+
+    const keys = await alice.get('/api/auth/api-keys');
+    assert.deepEqual(keys.body.apiKeys.map((k: any) => k.name), ['cron']);
+    assert.equal(keys.body.apiKeys[0].hash, undefined);
+
+    assert.equal((await bob.delete(`/api/auth/api-keys/${created.body.apiKey.id}`)).status, 404);
+    assert.equal((await alice.delete(`/api/auth/api-keys/${created.body.apiKey.id}`)).status, 200);
+    assert.equal((await script.get('/api/auth/me')).status, 401);
+  });
+
+  it('requires a session for everything but the public routes', async () => {
+    const anonymous = new TestClient(app.url);
+    const response = await anonymous.get('/api/headlines');
+    assert.equal(response.status, 401);
+    assert.equal(response.body.error.code, 'unauthorized');
+    assert.equal(app.newsApi.requests.length, 0);
+  });
+
+  it('serves the openapi document without a session', async () => {
+    const response = await new TestClient(app.url).get('/api/openapi.json');
+    assert.equal(response.status, 200);
+    assert.equal(response.body.openapi.slice(0, 2), '3.');
+    assert.ok(response.body.paths['/api/headlines'].get);
+    assert.ok(response.body.paths['/api/watchlists/{id}'].patch);
+    const headlines = response.body.paths['/api/headlines'].get;
+    assert.match(headlines.responses['429'].description, /rateLimited/);
+    // invalid input and provider-rejected parameters share 400, each with its own body
+    assert.match(headlines.responses['400'].description, /^invalid request, or news provider error: parameterInvalid/);
+    const [invalidRequest, providerError] = headlines.responses['400'].content['application/json'].schema.oneOf;
+    assert.equal(invalidRequest.$ref, '#/components/schemas/Error');
+    assert.ok(providerError.properties.error.properties.code.enum.includes('sourceDoesNotExist'));
+    assert.match(response.body.paths['/api/watchlists/{id}/run'].post.responses['400'].description, /^news provider error/);
+    assert.match(headlines.responses['503'].description, /apiKeyInvalid/);
+    assert.ok(headlines.responses['502'].content['application/json'].schema.properties.error.properties.code.enum.includes('networkError'));
+    assert.equal(headlines.parameters.find((p: any) => p.name === 'pageSize').schema.maximum, 100);
+    assert.ok(response.body.paths['/api/export/search'].get.responses['429']);
+  });
+
+  it('serves the dashboard without a session', async () => {
+    const response = await new TestClient(app.url).get('/');
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type') || '', /text\/html/);
+  });
+
+  it('answers unknown api routes and malformed json with the error shape', async () => {
+    const missing = await alice.get('/api/nope');
+    assert.equal(missing.status, 404);
+    assert.equal(missing.body.error.message, 'no route for GET /api/nope');
+
+    const malformed = await alice.post('/api/watchlists', '{"name":', { 'content-type': 'application/json' });
+    assert.equal(malformed.status, 400);
+    assert.equal(malformed.body.error.code, 'invalidRequest');
+  });
+});
+
+describe('news routes', () => {
+  it('GET /api/headlines', async () => {
+    const response = await alice.get('/api/headlines?country=gb&category=technology&pageSize=5');
+    assert.equal(response.status, 200);
+    assert.equal(response.body.totalResults, 2);
+    assert.deepEqual(app.newsApi.requests[0].params.country, 'gb');
+
+    const clustered = await alice.get('/api/headlines?category=business&cluster=true');
+    assert.ok(clustered.body.stories.some((s: any) => s.articleCount === 2));
+
+    const invalid = await alice.get('/api/headlines?category=gossip');
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.error.details[0].path, 'category');
+    for (const pageSize of ['0', '101', '2.5']) {
+      assert.equal((await alice.get(`/api/headlines?pageSize=${pageSize}`)).status, 400);
+    }
+  });
+
+  // queries nothing else asks for, since the cache serves the last good response when the provider fails
+  it('answers provider failures with a matching status and the error', async () => {
+    app.newsApi.failNext(401, 'apiKeyInvalid');
+    const invalidKey = await alice.get('/api/headlines?country=fr');
+    assert.equal(invalidKey.status, 503);
+    assert.equal(invalidKey.body.error.code, 'apiKeyInvalid');
+
+    app.newsApi.failNext(500, 'unexpectedError');
+    const upstream = await alice.get('/api/search?q=nvidia');
+    assert.equal(upstream.status, 502);
+    assert.equal(upstream.body.error.code, 'unexpectedError');
+  });
+
+  it('adds enrichment only when asked for', async () => {
+    const plain = await alice.get('/api/company?name=Apple');
+    assert.equal(plain.body.articles[0].entities, undefined);
+
+    const enriched = await alice.get('/api/company?name=Apple&enrich=basic');
+    assert.ok(enriched.body.articles.every((a: any) => a.entities.organizations.includes('Apple') && a.readingTimeMinutes >= 1));
+    assert.equal((await alice.get('/api/headlines?enrich=everything')).status, 400);
+
+    const csv = await alice.get('/api/export/company?name=Apple&enrich=basic&format=csv');
+    assert.match(csv.text, /;[^,]*\$AAPL/);
+  });
+
+  it('GET /api/global-headlines', async () => {
+    const response = await alice.get('/api/global-headlines?countries=us,gb&pageSize=5');
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body.regions.map((r: any) => r.code), ['us', 'gb']);
+    assert.ok(response.body.articles.every((a: any) => Array.isArray(a.countries)));
+
+    const needsQuery = await alice.get('/api/global-headlines?languages=de');
+    assert.equal(needsQuery.status, 400);
+    assert.equal(needsQuery.body.error.code, 'parametersMissing');
+
+    const byLanguage = await alice.get('/api/global-headlines?languages=de,fr&q=Siemens%20OR%20Airbus');
+    assert.equal(byLanguage.body.articles.length, 2);
+  });
+
+  it('GET /api/search', async () => {
+    const response = await alice.get('/api/search?q=microsoft&sortBy=publishedAt&pageSize=1');
+    assert.equal(response.status, 200);
+    assert.equal(response.body.articles.length, 1);
+    assert.equal(response.body.totalResults, 2);
+    assert.equal(app.newsApi.requests[0].params.sortBy, 'publishedAt');
+    assert.equal((await alice.get('/api/search?sortBy=sideways&q=x')).status, 400);
+    assert.equal((await alice.get('/api/search?q=x&pageSize=-5')).status, 400);
+  });
+
+  it('GET /api/company', async () => {
+    const response = await alice.get('/api/company?name=Siemens&language=de');
+    assert.equal(response.status, 200);
+    assert.equal(response.body.totalResults, 1);
+    assert.ok(response.body.sentiment);
+    assert.equal(app.newsApi.requests[0].params.language, 'de');
+  });
+
+  it('GET /api/stories and /api/archive/search work from fetched articles', async () => {
+    await alice.get('/api/headlines?category=business');
+    app.newsApi.reset();
+
+    const stories = await alice.get('/api/stories?minSize=2');
+    assert.equal(stories.status, 200);
+    assert.ok(stories.body.stories.some((s: any) => s.articleCount === 2));
+
+    const archive = await alice.get('/api/archive/search?q=fintech&pageSize=5');
+    assert.equal(archive.status, 200);
+    assert.equal(archive.body.totalResults, 1);
+    assert.equal(archive.body.pageSize, 5);
+    assert.equal(app.newsApi.requests.length, 0);
+  });
+
+  it('GET /api/quota', async () => {
+    await alice.get('/api/headlines');
+    const response = await alice.get('/api/quota');
+    assert.ok(response.body.newsApi.used >= 1);
+    assert.equal(response.body.newsApi.budget, 100);
+  });
+});
+
+describe('company routes', () => {
+  it('lists and resolves registry companies', async () => {
+    const listed = await alice.get('/api/companies?q=insta');
+    assert.deepEqual(listed.body.companies.map((c: any) => c.id), ['meta']);
+
+    const resolved = await alice.get('/api/companies/resolve?name=NASDAQ:AAPL');
+    assert.equal(resolved.body.company.id, 'apple');
+    assert.equal(resolved.body.matchedBy, 'ticker');
+    assert.match(resolved.body.query, /^Apple NOT recipe/);
+    assert.equal((await alice.get('/api/companies/resolve')).status, 400);
+
+    const news = await alice.get('/api/company?name=aapl');
+    assert.equal(news.body.company.name, 'Apple');
+    assert.equal(app.newsApi.requests[0].params.q, resolved.body.query);
+  });
+
+  it('lets admins add companies and aliases', async () => {
+    assert.equal((await bob.post('/api/admin/companies', { name: 'Rivian' })).status, 403);
+
+    const created = await alice.post('/api/admin/companies', { name: 'Rivian', tickers: ['RIVN'] });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.id, 'rivian');
+    assert.equal((await alice.post('/api/admin/companies', { name: 'Rivian' })).status, 409);
+
+    const extended = await alice.post('/api/admin/companies/meta/aliases', { aliases: ['Threads'] });
+    assert.ok(extended.body.aliases.includes('Threads'));
+    const taken = await alice.post('/api/admin/companies/apple/aliases', { aliases: ['Threads'] });
+    assert.equal(taken.status, 409);
+    assert.equal(taken.body.error.code, 'conflict');
+    assert.equal((await alice.post('/api/admin/companies/nope/aliases', { aliases: ['x'] })).status, 404);
+    assert.equal((await bob.get('/api/companies/resolve?name=threads')).body.company.id, 'meta');
+
+    assert.equal((await alice.delete('/api/admin/companies/meta')).status, 200);
+    assert.equal((await alice.delete('/api/admin/companies/meta')).status, 404);
+    assert.equal((await bob.get('/api/companies/resolve?name=threads')).body.company, null);
+  });
+});
+
+describe('feed routes', () => {
+  it('ranks headlines and search results when asked', async () => {
+    const headlines = await alice.get('/api/headlines?category=business&rank=true');
+    const scores = headlines.body.articles.map((a: any) => a.rank.score);
+    assert.deepEqual(scores, [...scores].sort((a: number, b: number) => b - a));
+    assert.equal(app.newsApi.requests[0].params.rank, undefined);
+
+    const search = await alice.get('/api/search?q=apple%20earnings&rank=true');
+    assert.equal(search.body.articles[0].rank.signals.relevance, 1);
+    assert.equal((await alice.get('/api/search?q=apple')).body.articles[0].rank, undefined);
+  });
+
+  it('learns from saves, clicks and chat questions and personalizes the feed', async () => {
+    const erin = new TestClient(app.url);
+    await erin.register('erin');
+    const first = await erin.get('/api/feed');
+    assert.equal(first.status, 200);
+    assert.equal(first.body.personalized, false);
+    assert.ok(first.body.articles.length > 0 && first.body.articles.every((a: any) => a.rank));
+    assert.equal(app.newsApi.requestsTo('everything').length, 0);
+
+    const pixel = first.body.articles.find((a: any) => a.title.startsWith('Google launches new Pixel'));
+    const saved = await erin.post('/api/saved', pixel);
+    assert.equal(saved.status, 201);
+    assert.ok(saved.body.savedAt);
+    assert.deepEqual((await erin.get('/api/saved')).body.articles.map((a: any) => a.url), [pixel.url]);
+    assert.deepEqual((await alice.get('/api/saved')).body.articles, []);
+    assert.equal((await erin.post('/api/feed/clicks', { title: 'Microsoft Azure outage disrupts cloud customers', url: 'https://example.com/zdnet/azure-outage', source: 'ZDNet' })).body.recorded, true);
+    assert.equal((await erin.post('/api/feed/clicks', { title: 'no url' })).status, 400);
+    await erin.post('/api/chat', { message: 'any news on semiconductor stocks?' });
+
+    const interests = (await erin.get('/api/feed/interests')).body;
+    assert.ok(interests.terms.some((t: any) => t.term === 'pixel'));
+    assert.ok(interests.terms.some((t: any) => t.term === 'semiconductor'));
+    assert.deepEqual(interests.sources.map((s: any) => s.term), ['The Verge', 'ZDNet']);
+
+    app.newsApi.reset();
+    const personal = await erin.get('/api/feed');
+    assert.equal(personal.body.personalized, true);
+    assert.match(app.newsApi.requestsTo('everything')[0].params.q, / OR /);
+    const position = (feed: any) => feed.articles.findIndex((a: any) => a.url === pixel.url);
+    assert.ok(position(personal.body) < position(first.body));
+    assert.ok(personal.body.articles[position(personal.body)].rank.matchedInterests.includes('google'));
+    assert.equal((await erin.get('/api/feed?pageSize=2')).body.articles.length, 2);
+
+    assert.equal((await erin.delete(`/api/saved?url=${encodeURIComponent(pixel.url)}`)).status, 200);
+    assert.equal((await erin.delete(`/api/saved?url=${encodeURIComponent(pixel.url)}`)).status, 404);
+    await erin.delete('/api/feed/interests');
+    assert.equal((await erin.get('/api/feed')).body.personalized, false);
+  });
+});
+
+describe('source routes', () => {
+  it('lists outlet profiles by tier', async () => {
+    const response = await alice.get('/api/sources?tier=trusted');
+    assert.equal(response.status, 200);
+    assert.ok(response.body.sources.some((s: any) => s.id === 'reuters'));
+    assert.ok(response.body.sources.every((s: any) => s.tier === 'trusted'));
+    assert.deepEqual(response.body.blockedDomains, []);
+    assert.equal((await alice.get('/api/sources?tier=gold')).status, 400);
+  });
+
+  it('passes source filters from search and insight routes to newsapi', async () => {
+    const search = await alice.get('/api/search?q=apple&sources=reuters,BBC%20News');
+    assert.equal(search.status, 200);
+    assert.equal(app.newsApi.requests[0].params.sources, 'reuters,bbc-news');
+
+    await alice.get('/api/insights/compare-companies?companyA=apple&companyB=microsoft&domains=reuters.com');
+    assert.ok(app.newsApi.requests.length > 1);
+    assert.ok(app.newsApi.requests.slice(1).every((r) => r.params.domains === 'reuters.com'));
+  });
+});
+
+describe('insight routes', () => {
+  it('GET /api/insights/industry-pulse', async () => {
+    const response = await alice.get('/api/insights/industry-pulse?industry=apple&days=7');
+    assert.equal(response.status, 200);
+    assert.equal(response.body.totalResults, 3);
+    assert.ok(response.body.trending);
+    assert.equal((await alice.get('/api/insights/industry-pulse')).status, 400);
+  });
+
+  it('GET /api/insights/compare-companies in both forms', async () => {
+    const group = await alice.get('/api/insights/compare-companies?companies=apple,microsoft,google');
+    assert.equal(group.status, 200);
+    assert.equal(group.body.companies.length, 3);
+
+    const pair = await alice.get('/api/insights/compare-companies?companyA=apple&companyB=microsoft');
+    assert.equal(pair.body.deltaCoverage, 1);
+
+    const neither = await alice.get('/api/insights/compare-companies?companyA=apple');
+    assert.equal(neither.status, 400);
+    assert.match(neither.body.error.message, /companies/);
+  });
+
+  it('GET /api/insights/company-sentiment', async () => {
+    const response = await alice.get('/api/insights/company-sentiment?company=microsoft&days=14');
+    assert.equal(response.status, 200);
+    assert.equal(response.body.windowDays, 14);
+    assert.equal(response.body.sentiment.articles, 2);
+  });
+
+  it('GET /api/insights/market-movers', async () => {
+    const response = await alice.get('/api/insights/market-movers?days=3&eventTypes=earnings,layoffs&limit=6');
+    assert.equal(response.status, 200);
+    assert.ok(response.body.events.length > 0);
+    assert.ok(response.body.events.every((e: any) => ['earnings', 'layoffs'].includes(e.eventType)));
+    assert.equal((await alice.get('/api/insights/market-movers?eventTypes=gossip')).status, 400);
+    assert.equal((await alice.get('/api/insights/market-movers?days=8')).status, 400);
+  });
+});
+
+describe('watchlist routes', () => {
+  it('creates, reads, updates and deletes a watchlist per user', async () => {
+    const created = await alice.post('/api/watchlists', { name: 'big tech', companies: ['Apple'], keywords: ['microsoft'] });
+    assert.equal(created.status, 201);
+    const id = created.body.id;
+    assert.equal(created.body.userId, aliceId);
+
+    assert.deepEqual((await alice.get('/api/watchlists')).body.watchlists.map((w: any) => w.id), [id]);
+    assert.deepEqual((await bob.get('/api/watchlists')).body.watchlists, []);
+    assert.equal((await alice.get(`/api/watchlists/${id}`)).body.name, 'big tech');
+    assert.equal((await bob.get(`/api/watchlists/${id}`)).status, 404);
+
+    const updated = await alice.patch(`/api/watchlists/${id}`, { priority: 'high', enabled: false });
+    assert.equal(updated.body.priority, 'high');
+    assert.equal(updated.body.enabled, false);
+    assert.equal((await alice.patch(`/api/watchlists/${id}`, { intervalMinutes: 1 })).status, 400);
+    assert.equal((await bob.patch(`/api/watchlists/${id}`, { name: 'mine now' })).status, 404);
+
+    assert.equal((await bob.delete(`/api/watchlists/${id}`)).status, 404);
+    assert.equal((await alice.delete(`/api/watchlists/${id}`)).status, 200);
+    assert.equal((await alice.get(`/api/watchlists/${id}`)).status, 404);
+  });
+
+  it('rejects watchlists without anything to watch', async () => {
+    const response = await alice.post('/api/watchlists', { name: 'empty' });
+    assert.equal(response.status, 400);
+    assert.match(response.body.error.message, /at least one/);
+  });
+
+  it('runs a watchlist and serves its feed by token or session', async () => {
+    const { body: watchlist } = await alice.post('/api/watchlists', { name: 'apple', companies: ['Apple'] });
+    const run = await alice.post(`/api/watchlists/${watchlist.id}/run`);
+    assert.equal(run.status, 200);
+    // the first run only records what is already out there
+    assert.deepEqual(run.body, { watchlistId: watchlist.id, newArticles: 0, briefCreated: false });
+    assert.equal((await bob.post(`/api/watchlists/${watchlist.id}/run`)).status, 404);
+
+    const anonymous = new TestClient(app.url);
+    const rss = await anonymous.get(`/api/feeds/${watchlist.id}.xml?token=${watchlist.feedToken}`);
+    assert.equal(rss.status, 200);
+    assert.match(rss.headers.get('content-type') || '', /application\/rss\+xml/);
+    assert.match(rss.text, /Apple beats earnings expectations/);
+
+    const atom = await alice.get(`/api/feeds/${watchlist.id}.xml?format=atom`);
+    assert.match(atom.text, /<feed xmlns="http:\/\/www.w3.org\/2005\/Atom">/);
+    assert.equal((await bob.get(`/api/feeds/${watchlist.id}.xml`)).status, 404);
+    assert.equal((await anonymous.get(`/api/feeds/${watchlist.id}.xml?token=wrong`)).status, 404);
+
+    const rotated = await alice.post(`/api/watchlists/${watchlist.id}/feed-token`);
+    assert.notEqual(rotated.body.feedToken, watchlist.feedToken);
+    assert.equal((await anonymous.get(`/api/feeds/${watchlist.id}.xml?token=${watchlist.feedToken}`)).status, 404);
+    assert.equal((await bob.post(`/api/watchlists/${watchlist.id}/feed-token`)).status, 404);
+  });
+
+  // a query nothing else asks for, so the cache has no good response to fall back on
+  it('keeps a watchlist where it was when the provider fails', async () => {
+    const { body: watchlist } = await alice.post('/api/watchlists', { name: 'tariffs', keywords: ['chip tariffs'] });
+    app.newsApi.failNext(401, 'apiKeyInvalid');
+    const failed = await alice.post(`/api/watchlists/${watchlist.id}/run`);
+    assert.equal(failed.status, 503);
+    assert.equal(failed.body.error.code, 'apiKeyInvalid');
+    let current = (await alice.get(`/api/watchlists/${watchlist.id}`)).body;
+    // no baseline yet: the next run is still the first one
+    assert.equal(current.lastRunAt, null);
+    assert.ok(current.lastFailedAt);
+
+    const baseline = await alice.post(`/api/watchlists/${watchlist.id}/run`);
+    assert.deepEqual(baseline.body, { watchlistId: watchlist.id, newArticles: 0, briefCreated: false });
+    current = (await alice.get(`/api/watchlists/${watchlist.id}`)).body;
+    assert.ok(current.lastRunAt);
+    assert.equal(current.lastFailedAt, null);
+  });
+
+  it('answers 200 when a run still makes a brief from the queries that worked', async () => {
+    const { body: created } = await alice.post('/api/watchlists', { name: 'apple', keywords: ['apple earnings', 'apple'] });
+    await alice.post(`/api/watchlists/${created.id}/run`);
+    // forget the baseline and the cached responses so the next run reaches the provider and finds articles again
+    const watchlist = app.services.watchlistService.get(created.id)!;
+    watchlist.seenUrls = [];
+    watchlist.lastRunAt = new Date(Date.now() - 30 * 24 * 3600000).toISOString();
+    app.services.responseCache.clear();
+
+    app.newsApi.failNext(400, 'parameterInvalid');
+    const run = await alice.post(`/api/watchlists/${created.id}/run`);
+    assert.equal(run.status, 200);
+    assert.equal(run.body.briefCreated, true);
+    assert.equal(run.body.error.code, 'parameterInvalid');
+    assert.ok(run.body.newArticles > 0);
+
+    // the run stored its brief; removed so the brief route tests start without it
+    const [brief] = (await alice.get('/api/briefs?tag=watchlist')).body.briefs;
+    assert.match(brief.summary, /^watchlist "apple"/);
+    assert.equal((await alice.delete(`/api/briefs/${brief.id}`)).status, 200);
+  });
+});
+
+describe('brief routes', () => {
+  it('lists, reads, updates and deletes briefs visible to the user', async () => {
+    const { newsService } = app.services;
+    const own = newsService.createBrief({ summary: 'Apple beat estimates.', priority: 'high', tags: ['apple'], userId: aliceId });
+    const unowned = newsService.createBrief({ summary: 'Markets were calm.', priority: 'low', userId: null });
+
+    const high = await alice.get('/api/briefs?priority=high&tag=apple');
+    assert.deepEqual(high.body.briefs.map((b: any) => b.id), [own.id]);
+    assert.ok((await bob.get('/api/briefs')).body.briefs.every((b: any) => b.id !== own.id));
+
+    assert.equal((await alice.get(`/api/briefs/${own.id}`)).body.summary, 'Apple beat estimates.');
+    assert.equal((await bob.get(`/api/briefs/${own.id}`)).status, 404);
+
+    // briefs with no owner are for admins only
+    assert.ok((await bob.get('/api/briefs')).body.briefs.every((b: any) => b.id !== unowned.id));
+    assert.equal((await bob.get(`/api/briefs/${unowned.id}`)).status, 404);
+    assert.equal((await bob.patch(`/api/briefs/${unowned.id}`, { acknowledged: true })).status, 404);
+    assert.ok((await alice.get('/api/briefs')).body.briefs.some((b: any) => b.id === unowned.id));
+
+    const read = await alice.patch(`/api/briefs/${own.id}`, { read: true, acknowledged: true });
+    assert.equal(read.body.read, true);
+    assert.ok(read.body.acknowledgedAt);
+    assert.deepEqual((await alice.get('/api/briefs?read=false&tag=apple')).body.briefs, []);
+
+    assert.equal((await bob.delete(`/api/briefs/${unowned.id}`)).status, 404);
+    assert.equal((await alice.delete(`/api/briefs/${unowned.id}`)).status, 200);
+    assert.equal((await bob.delete(`/api/briefs/${own.id}`)).status, 404);
+    assert.equal((await alice.delete(`/api/briefs/${own.id}`)).status, 200);
+    assert.equal((await alice.get(`/api/briefs/${own.id}`)).status, 404);
+  });
+
+  it('validates brief queries', async () => {
+    assert.equal((await alice.get('/api/briefs?priority=urgent')).status, 400);
+    assert.equal((await alice.patch('/api/briefs/none', { read: 'yes' })).status, 400);
+  });
+});
+
+describe('digest routes', () => {
+  it('manages digest jobs and builds digests on demand', async () => {
+    const created = await alice.post('/api/digests/jobs', {
+      name: 'morning tech',
+      schedule: '0 7 * * mon-fri',
+      topics: ['apple'],
+      categories: ['technology'],
+      countries: ['us', 'gb'],
+      summarize: true
+    });
+    assert.equal(created.status, 201);
+    const job = created.body;
+    assert.ok(job.nextRunAt);
+    assert.equal((await alice.post('/api/digests/jobs', { name: 'bad', schedule: '61 * * * *' })).status, 400);
+
+    assert.deepEqual((await alice.get('/api/digests/jobs')).body.jobs.map((j: any) => j.id), [job.id]);
+    assert.equal((await alice.get(`/api/digests/jobs/${job.id}`)).body.name, 'morning tech');
+    assert.equal((await bob.get(`/api/digests/jobs/${job.id}`)).status, 404);
+
+    const disabled = await alice.patch(`/api/digests/jobs/${job.id}`, { enabled: false });
+    assert.equal(disabled.body.nextRunAt, null);
+    assert.equal((await bob.patch(`/api/digests/jobs/${job.id}`, { enabled: true })).status, 404);
+
+    const run = await alice.post(`/api/digests/jobs/${job.id}/run`);
+    assert.equal(run.status, 200);
+    const digest = run.body;
+    assert.deepEqual(digest.headlines.map((h: any) => h.country), ['us', 'gb']);
+    assert.equal(digest.topics[0].topic, 'apple');
+    assert.match(digest.summary, /^echo: /);
+    assert.equal(app.daemo.queries.length, 1);
+    assert.equal((await bob.post(`/api/digests/jobs/${job.id}/run`)).status, 404);
+
+    assert.deepEqual((await alice.get(`/api/digests?jobId=${job.id}`)).body.digests.map((d: any) => d.id), [digest.id]);
+    assert.deepEqual((await bob.get('/api/digests')).body.digests, []);
+    assert.equal((await alice.get(`/api/digests/${digest.id}`)).body.id, digest.id);
+    assert.equal((await bob.get(`/api/digests/${digest.id}`)).status, 404);
+
+    const html = await alice.get(`/api/export/digests/${digest.id}?format=html`);
+    assert.match(html.headers.get('content-type') || '', /text\/html/);
+    assert.match(html.text, /morning tech/);
+    assert.equal((await bob.get(`/api/export/digests/${digest.id}`)).status, 404);
+
+    assert.equal((await bob.delete(`/api/digests/${digest.id}`)).status, 404);
+    assert.equal((await alice.delete(`/api/digests/${digest.id}`)).status, 200);
+    assert.equal((await bob.delete(`/api/digests/jobs/${job.id}`)).status, 404);
+    assert.equal((await alice.delete(`/api/digests/jobs/${job.id}`)).status, 200);
+    assert.equal((await alice.get(`/api/digests/jobs/${job.id}`)).status, 404);
+  });
+});
+
+describe('notification routes', () => {
+  it('lists channels and the delivery log', async () => {
+    assert.deepEqual((await alice.get('/api/notifications/channels')).body, { channels: [] });
+    const deliveries = await alice.get('/api/notifications/deliveries?status=failed&limit=10');
+    assert.equal(deliveries.status, 200);
+    assert.deepEqual(deliveries.body.deliveries, []);
+    assert.equal((await alice.get('/api/notifications/deliveries?status=lost')).status, 400);
+  });
+});
+
+describe('export routes', () => {
+  it('exports news as csv, markdown, html, rss and atom', async () => {
+    const csv = await alice.get('/api/export/headlines?category=business&format=csv');
+    assert.match(csv.headers.get('content-type') || '', /text\/csv/);
+    assert.match(csv.headers.get('content-disposition') || '', /^attachment; filename="top-headlines-business\.csv"/);
+    assert.equal(csv.text.split('\r\n')[0], 'section,title,source,publishedAt,url,author,tags,summary,links');
+
+    const markdown = await alice.get('/api/export/search?q=microsoft');
+    assert.match(markdown.headers.get('content-type') || '', /text\/markdown/);
+    assert.match(markdown.text, /^# Search: microsoft/);
+
+    const html = await alice.get('/api/export/company?name=Apple&format=html');
+    assert.match(html.headers.get('content-disposition') || '', /^inline/);
+    assert.doesNotMatch(html.text, /<script/);
+
+    const rss = await alice.get('/api/export/global-headlines?countries=us,gb&format=rss');
+    assert.match(rss.text, /<rss version="2.0"/);
+    assert.match(rss.text, /<category>gb<\/category>/);
+
+    const atom = await alice.get('/api/export/industry-pulse?industry=apple&format=atom');
+    assert.match(atom.text, /<title>Industry pulse: apple<\/title>/);
+  });
+
+  it('exports insights and briefs', async () => {
+    app.services.newsService.createBrief({ summary: 'Exported brief.', userId: aliceId });
+    assert.match((await alice.get('/api/export/briefs')).text, /Exported brief\./);
+    assert.match((await alice.get('/api/export/compare-companies?companies=apple,microsoft')).text, /^# Competitive landscape: apple, microsoft/);
+    assert.match((await alice.get('/api/export/compare-companies?companyA=apple&companyB=microsoft')).text, /^# Coverage: apple vs microsoft/);
+    assert.equal((await alice.get('/api/export/compare-companies?companyA=apple')).status, 400);
+    assert.match((await alice.get('/api/export/company-sentiment?company=microsoft')).text, /^# Sentiment: microsoft/);
+    assert.match((await alice.get('/api/export/market-movers?format=csv')).text, /^section,title/);
+  });
+
+  it('answers provider failures with json instead of an empty export', async () => {
+    app.newsApi.failNext(400, 'parameterInvalid');
+    // a country nothing else asks for, so there is no cached response to fall back to
+    const response = await alice.get('/api/export/headlines?country=jp&format=csv');
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error.code, 'parameterInvalid');
+    assert.equal((await alice.get('/api/export/headlines?format=pdf')).status, 400);
+  });
+});
+
+describe('chat routes', () => {
+  it('POST /api/chat replies through daemo and keeps the session', async () => {
+    const first = await alice.post('/api/chat', { message: 'what is new at apple?' });
+    assert.equal(first.status, 200);
+    assert.equal(first.body.response, 'echo: what is new at apple?');
+    assert.ok(first.body.sessionId);
+
+    const followUp = await alice.post('/api/chat', { message: 'and microsoft?', sessionId: first.body.sessionId });
+    assert.equal(followUp.body.sessionId, first.body.sessionId);
+    assert.match(app.daemo.queries[1], /User: what is new at apple\?/);
+
+    const history = await alice.get(`/api/chat/history?sessionId=${first.body.sessionId}`);
+    assert.equal(history.body.history.length, 4);
+    assert.deepEqual((await bob.get(`/api/chat/history?sessionId=${first.body.sessionId}`)).body.history, []);
+    assert.equal((await bob.post('/api/chat', { message: 'hi', sessionId: first.body.sessionId })).status, 404);
+    assert.equal((await alice.post('/api/chat', {})).status, 400);
+
+    assert.deepEqual((await alice.post('/api/chat/clear', { sessionId: first.body.sessionId })).body, { success: true });
+    assert.deepEqual((await alice.get(`/api/chat/history?sessionId=${first.body.sessionId}`)).body.history, []);
+  });
+
+  it('streams replies and tool calls as server-sent events', async () => {
+    app.daemo.mode = 'stream';
+    app.daemo.onQuery = async () => {
+      await app.services.newsService.getTopHeadlines({ category: 'technology' });
+    };
+    const response = await alice.post('/api/chat/stream', { message: 'tech news please' });
+    assert.match(response.headers.get('content-type') || '', /text\/event-stream/);
+    const events = parseEventStream(response.text);
+    assert.deepEqual(events.filter((e) => e.event === 'tool').map((e) => [e.data.tool, e.data.phase]), [['getTopHeadlines', 'start'], ['getTopHeadlines', 'end']]);
+    assert.equal(events.filter((e) => e.event === 'delta').map((e) => e.data.text).join(''), MockDaemo.reply('tech news please'));
+    assert.equal(events[events.length - 1].event, 'final');
+
+    assert.equal((await alice.get('/api/chat/stream?message=hello')).status, 404);
+  });
+
+  it('attributes briefs the agent creates during a chat to that user', async () => {
+    app.daemo.onQuery = async (query) => {
+      await app.services.newsService.sendNewsBrief({ summary: 'Brief from chat.', callerRef: MockDaemo.callerRef(query) });
+    };
+    const { body } = await bob.post('/api/chat', { message: 'make me a brief' });
+    const briefs = (await bob.get('/api/briefs')).body.briefs;
+    const brief = briefs.find((b: any) => b.summary === 'Brief from chat.');
+    assert.equal(brief.conversationId, body.sessionId);
+    assert.ok((await alice.get('/api/briefs')).body.briefs.every((b: any) => b.summary !== 'Brief from chat.'));
+  });
+
+  it('keeps the agent tools to the caller when two users chat at once', async () => {
+    const { watchlistService } = app.services;
+    const own = (await alice.post('/api/watchlists', { name: 'alice only', keywords: ['lithium'] })).body;
+    await bob.post('/api/watchlists', { name: 'bob only', keywords: ['cobalt'] });
+
+    // both queries are in flight before either tool call runs
+    let arrived = 0;
+    let release: () => void = () => {};
+    const bothInFlight = new Promise<void>((resolve) => (release = resolve));
+    const seen: Record<string, string[]> = {};
+    app.daemo.onQuery = async (query) => {
+      if (++arrived === 2) release();
+      await bothInFlight;
+      const callerRef = MockDaemo.callerRef(query);
+      seen[MockDaemo.reply(query)] = (await watchlistService.listWatchlists({ callerRef })).watchlists.map((w) => w.name);
+      if (query.endsWith('delete it')) assert.deepEqual(await watchlistService.deleteWatchlist({ callerRef, id: own.id }), { success: false });
+    };
+    await Promise.all([alice.post('/api/chat', { message: 'my watchlists?' }), bob.post('/api/chat', { message: 'delete it' })]);
+    assert.ok(seen['echo: my watchlists?'].includes('alice only'));
+    assert.ok(!seen['echo: my watchlists?'].includes('bob only'));
+    assert.deepEqual(seen['echo: delete it'], ['bob only']);
+    assert.equal((await alice.get(`/api/watchlists/${own.id}`)).status, 200);
+
+    // calls that cannot be tied to a query in flight are refused instead of acting for everyone
+    assert.match((await watchlistService.listWatchlists({})).error || '', /callerRef/);
+    assert.equal((await watchlistService.createWatchlist({ name: 'nobody', keywords: ['x'] })).success, false);
+    assert.equal((await watchlistService.deleteWatchlist({ callerRef: 'made-up', id: own.id })).success, false);
+  });
+
+  it('manages chat sessions per user', async () => {
+    const created = await alice.post('/api/chat/sessions', { title: 'research' });
+    assert.equal(created.status, 201);
+    const id = created.body.id;
+
+    assert.ok((await alice.get('/api/chat/sessions')).body.sessions.some((s: any) => s.id === id));
+    assert.ok((await bob.get('/api/chat/sessions')).body.sessions.every((s: any) => s.id !== id));
+    assert.equal((await alice.get(`/api/chat/sessions/${id}`)).body.title, 'research');
+    assert.equal((await bob.get(`/api/chat/sessions/${id}`)).status, 404);
+
+    assert.equal((await alice.patch(`/api/chat/sessions/${id}`, { title: 'renamed' })).body.title, 'renamed');
+    assert.equal((await bob.patch(`/api/chat/sessions/${id}`, { title: 'mine' })).status, 404);
+    assert.equal((await bob.delete(`/api/chat/sessions/${id}`)).status, 404);
+    assert.equal((await alice.delete(`/api/chat/sessions/${id}`)).status, 200);
+    assert.equal((await alice.get(`/api/chat/sessions/${id}`)).status, 404);
+  });
+});
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, describe, it } from 'node:test';
+import { HeadlinesQuery, NewsProvider, NormalizedArticle, ProviderResult, SearchQuery, SourceFilteringProvider } from '../src/services/providers';
+import { loadSourceConfig, SourceProfiles } from '../src/services/sources';
+
+const EXAMPLE_CONFIG = path.join(__dirname, '../src/source-profiles.example.json');
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'news-agent-sources-'));
+after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+function article(url: string, source = 'Example'): NormalizedArticle {
+  return { title: `Story at ${url}`, description: '', url, source, publishedAt: '2026-01-01T00:00:00Z', author: '', content: '' };
+}
+
+// answers every call with the same articles and records the queries it was sent
+class StaticProvider implements NewsProvider {
+  readonly name = 'static';
+  queries: (HeadlinesQuery | SearchQuery)[] = [];
+
+  constructor(private articles: NormalizedArticle[]) {}
+
+  async topHeadlines(query: HeadlinesQuery): Promise<ProviderResult> {
+    this.queries.push(query);
+    return { articles: this.articles, totalResults: this.articles.length + 10 };
+  }
+
+  async search(query: SearchQuery): Promise<ProviderResult> {
+    this.queries.push(query);
+    return { articles: this.articles, totalResults: this.articles.length };
+  }
+}
+
+describe('SourceProfiles', () => {
+  const profiles = new SourceProfiles();
+
+  it('finds an outlet by the article domain before its name', () => {
+    assert.equal(profiles.profileFor(article('https://www.reuters.com/markets/x'))?.id, 'reuters');
+    assert.equal(profiles.profileFor(article('https://finance.yahoo.com/news/x', 'Reuters'))?.id, 'yahoo-finance');
+    assert.equal(profiles.profileFor(article('https://example.com/x', 'BBC News'))?.id, 'bbc-news');
+    assert.equal(profiles.profileFor(article('https://blog.example.org/x')), null);
+  });
+
+  it('weights outlets by tier, with unknown outlets between standard and low', () => {
+    assert.equal(profiles.tierOf(article('https://www.ft.com/content/x')), 'trusted');
+    assert.equal(profiles.tierOf(article('https://blog.example.org/x')), 'unknown');
+    const weights = ['https://www.reuters.com/x', 'https://techcrunch.com/x', 'https://blog.example.org/x', 'https://www.benzinga.com/x']
+      .map((url) => profiles.reliability(article(url)));
+    assert.deepEqual(weights, [...weights].sort((a, b) => b - a));
+    assert.equal(new Set(weights).size, 4);
+  });
+
+  it('maps ids, outlet names and domains to newsapi source ids', () => {
+    assert.deepEqual(profiles.sourceIds(['reuters', 'BBC News', 'https://www.bloomberg.com/', 'Reuters', 'Some Local Paper']), ['reuters', 'bbc-news', 'bloomberg', 'some-local-paper']);
+  });
+
+  it('matches articles against source and domain filters', () => {
+    const reuters = article('https://www.reuters.com/markets/x', 'Reuters');
+    assert.equal(profiles.matches(reuters, { sources: ['reuters'] }), true);
+    assert.equal(profiles.matches(reuters, { sources: ['bbc-news'] }), false);
+    assert.equal(profiles.matches(reuters, { domains: ['reuters.com'] }), true);
+    assert.equal(profiles.matches(reuters, { domains: ['bbc.co.uk'] }), false);
+    assert.equal(profiles.matches(reuters, { excludeDomains: ['https://reuters.com'] }), false);
+  });
+
+  it('lists profiles by tier and category', () => {
+    const trusted = profiles.list({ tier: 'trusted' });
+    assert.ok(trusted.length > 0 && trusted.every((p) => p.tier === 'trusted'));
+    assert.ok(profiles.list({ category: 'technology' }).some((p) => p.id === 'the-verge'));
+    const names = profiles.list().map((p) => p.name);
+    assert.deepEqual(names, [...names].sort((a, b) => a.localeCompare(b)));
+  });
+});
+
+describe('source config', () => {
+  const profiles = new SourceProfiles(loadSourceConfig(EXAMPLE_CONFIG));
+
+  it('overrides bundled profiles, adds new ones and blocks domains', () => {
+    assert.equal(profiles.tierOf(article('https://finance.yahoo.com/x')), 'low');
+    assert.equal(profiles.profileFor(article('https://www.theinformation.com/articles/x'))?.tier, 'trusted');
+    assert.equal(profiles.isBlocked(article('https://news.example-content-farm.com/x')), true);
+    assert.equal(profiles.isBlocked(article('https://www.dailymail.co.uk/x')), true);
+    assert.equal(profiles.isBlocked(article('https://www.reuters.com/x')), false);
+    assert.deepEqual(profiles.blockedDomains, ['example-content-farm.com', 'dailymail.co.uk']);
+  });
+
+  it('rejects profiles without an id or with an unknown tier', () => {
+    const config = (name: string, body: unknown) => {
+      const filePath = path.join(dataDir, name);
+      fs.writeFileSync(filePath, JSON.stringify(body));
+      return filePath;
+    };
+    assert.throws(() => loadSourceConfig(config('tier.json', { sources: [{ id: 'reuters', tier: 'gold' }] })), /tier must be one of trusted, standard, low/);
+    assert.throws(() => loadSourceConfig(config('id.json', { sources: [{ tier: 'low' }] })), /every source needs an id/);
+    assert.throws(() => loadSourceConfig(config('list.json', [])), /must contain an object/);
+    assert.deepEqual(loadSourceConfig(undefined), {});
+  });
+});
+
+describe('SourceFilteringProvider', () => {
+  const profiles = new SourceProfiles({ blockedDomains: ['spam.example'] });
+  const articles = [
+    article('https://www.reuters.com/a', 'Reuters'),
+    article('https://spam.example/b', 'Spam'),
+    article('https://www.bbc.co.uk/news/c', 'BBC News')
+  ];
+
+  it('adds blocked domains to searches and drops blocked articles that slip through', async () => {
+    const inner = new StaticProvider(articles);
+    const result = await new SourceFilteringProvider(inner, profiles).search({ q: 'x', excludeDomains: ['bbc.co.uk'] });
+    assert.deepEqual(inner.queries[0].excludeDomains, ['bbc.co.uk', 'spam.example']);
+    assert.deepEqual(result.articles.map((a) => a.source), ['Reuters']);
+    assert.equal(result.totalResults, 1);
+  });
+
+  it('sends source ids upstream and holds the filter on providers that ignore it', async () => {
+    const inner = new StaticProvider(articles);
+    const result = await new SourceFilteringProvider(inner, profiles).topHeadlines({ sources: ['BBC News'] });
+    assert.deepEqual(inner.queries[0].sources, ['bbc-news']);
+    assert.deepEqual(result.articles.map((a) => a.source), ['BBC News']);
+    assert.equal(result.totalResults, 11);
+  });
+});
@@ -0,0 +1,83 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export type DaemoMode = 'json' | 'stream' | 'error';
+
+// stands in for the daemo query endpoint ChatService posts to (POST /agents/:agentId/query).
+// replies echo the last line of the query; in stream mode the reply is sent as sse deltas
+export class MockDaemo {
+  readonly apiKey = 'test-daemo-key';
+  readonly agentId = 'test-agent';
+  queries: string[] = [];
+  mode: DaemoMode = 'json';
+  // runs before the reply is written, e.g. to call daemo tool functions like the real agent would
+  onQuery: ((query: string) => Promise<void> | void) | null = null;
+  private server: http.Server | null = null;
+  private baseUrl = '';
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: error.message }));
+      });
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  reset() {
+    this.queries = [];
+    this.mode = 'json';
+    this.onQuery = null;
+  }
+
+  // the caller reference ChatService puts on the first line, which the real agent passes to tools as callerRef
+  static callerRef(query: string): string | undefined {
+    return /^Caller reference: (\S+)/.exec(query)?.[1];
+  }
+
+  static reply(query: string): string {
+    const lines = query.trim().split('\n');
+    return `echo: ${lines[lines.length - 1]}`;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const send = (status: number, body: any) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (req.method !== 'POST' || req.url !== `/agents/${this.agentId}/query`) return send(404, { error: 'agent not found' });
+    if (req.headers['x-api-key'] !== this.apiKey) return send(401, { error: 'invalid api key' });
+
+    let raw = '';
+    for await (const chunk of req) raw += chunk;
+    const { query } = JSON.parse(raw || '{}');
+    if (typeof query !== 'string' || !query) return send(400, { error: 'query is required' });
+    this.queries.push(query);
+    await this.onQuery?.(query);
+
+    const reply = MockDaemo.reply(query);
+    if (this.mode === 'error') return send(500, { error: 'agent unavailable' });
+    if (this.mode === 'stream' && String(req.headers.accept || '').includes('text/event-stream')) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const word of reply.split(/(?<= )/)) res.write(`data: ${JSON.stringify({ delta: word })}\n\n`);
+      res.write(`data: ${JSON.stringify({ response: reply })}\n\n`);
+      res.end('data: [DONE]\n\n');
+      return;
+    }
+    send(200, { response: reply });
+  }
+}
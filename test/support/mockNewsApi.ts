@@ -0,0 +1,196 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { parseQuery, scoreArticle } from '../../src/services/providers/queryMatch';
+
+// a fixture article: newsapi's shape plus the fields the mock filters on.
+// hoursAgo keeps publishedAt relative to now so date windows never go stale
+interface FixtureArticle {
+  source: { id: string | null; name: string };
+  author: string | null;
+  title: string;
+  description: string | null;
+  url: string;
+  content: string | null;
+  hoursAgo: number;
+  countries: string[];
+  category: string;
+  language: string;
+}
+
+export interface RecordedRequest {
+  endpoint: string;
+  params: Record<string, string>;
+}
+
+interface QueuedFailure {
+  status: number;
+  code: string;
+  message: string;
+  headers?: Record<string, string>;
+}
+
+const FIXTURE_PATH = path.join(__dirname, '../fixtures/newsapi.json');
+
+// newsapi's developer plan stops paging after the first 100 results
+const MAX_RESULTS = 100;
+
+// stands in for newsapi.org/v2 on a local port: top-headlines and everything over the fixture
+// articles, with newsapi's parameter checks, paging and error bodies
+export class MockNewsApi {
+  readonly apiKey = 'test-news-key';
+  requests: RecordedRequest[] = [];
+  private articles: FixtureArticle[];
+  private failures: QueuedFailure[] = [];
+  private server: http.Server | null = null;
+  private baseUrl = '';
+
+  constructor(fixturePath = FIXTURE_PATH) {
+    this.articles = JSON.parse(fs.readFileSync(fixturePath, 'utf8')).articles;
+  }
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v2`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  // the next request answers with this newsapi error instead of articles
+  failNext(status: number, code: string, message = `mock ${code}`, times = 1) {
+    for (let i = 0; i < times; i++) this.failures.push({ status, code, message });
+  }
+
+  // the next request is rate limited, with a Retry-After header when one is given
+  rateLimitNext(retryAfter?: string) {
+    this.failures.push({ status: 429, code: 'rateLimited', message: 'mock rateLimited', headers: retryAfter ? { 'Retry-After': retryAfter } : {} });
+  }
+
+  reset() {
+    this.requests = [];
+    this.failures = [];
+  }
+
+  requestsTo(endpoint: 'top-headlines' | 'everything'): RecordedRequest[] {
+    return this.requests.filter((r) => r.endpoint === endpoint);
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const endpoint = url.pathname.replace(/^\/v2\//, '');
+    const params = Object.fromEntries(url.searchParams);
+    this.requests.push({ endpoint, params });
+
+    const send = (status: number, body: any, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    };
+    const fail = (status: number, code: string, message: string, headers?: Record<string, string>) => send(status, { status: 'error', code, message }, headers);
+
+    if (!params.apiKey) return fail(401, 'apiKeyMissing', 'Your API key is missing.');
+    if (params.apiKey !== this.apiKey) return fail(401, 'apiKeyInvalid', 'Your API key is invalid or incorrect.');
+    const failure = this.failures.shift();
+    if (failure) return fail(failure.status, failure.code, failure.message, failure.headers);
+    if (req.method !== 'GET' || (endpoint !== 'top-headlines' && endpoint !== 'everything')) {
+      return fail(404, 'parameterInvalid', `unknown endpoint ${url.pathname}`);
+    }
+
+    const pageSize = Number(params.pageSize || 100);
+    const page = Number(params.page || 1);
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > 100) return fail(400, 'parameterInvalid', 'pageSize must be between 1 and 100.');
+    if (!Number.isInteger(page) || page < 1) return fail(400, 'parameterInvalid', 'page must be a positive integer.');
+    if (page * pageSize > MAX_RESULTS) {
+      return fail(426, 'maximumResultsReached', `You have requested too many results. Developer accounts are limited to a max of ${MAX_RESULTS} results.`);
+    }
+
+    let matches: FixtureArticle[];
+    if (endpoint === 'top-headlines') {
+      if (!params.country && !params.category && !params.q && !params.sources) {
+        return fail(400, 'parametersMissing', 'Required parameters are missing. Please set any of the following parameters and try again: sources, q, country, category.');
+      }
+      if (params.sources && (params.country || params.category)) {
+        return fail(400, 'parametersIncompatible', 'You cannot mix the sources parameter with the country or category parameters.');
+      }
+      matches = this.articles
+        .filter((a) => this.fromSources(a, params))
+        .filter((a) => !params.country || a.countries.includes(params.country))
+        .filter((a) => !params.category || a.category === params.category)
+        .filter((a) => !params.q || this.score(a, params.q) > 0)
+        .sort((a, b) => a.hoursAgo - b.hoursAgo);
+    } else {
+      if (!params.q && !params.sources && !params.domains) {
+        return fail(400, 'parametersMissing', 'Required parameters are missing, the scope of your search is too broad. Please set any of the following required parameters and try again: q, qInTitle, sources, domains.');
+      }
+      const from = params.from ? Date.parse(params.from) : -Infinity;
+      const to = params.to ? Date.parse(params.to) : Infinity;
+      matches = this.articles
+        .filter((a) => this.fromSources(a, params))
+        .filter((a) => !params.language || a.language === params.language)
+        .filter((a) => !params.q || this.score(a, params.q) > 0)
+        .filter((a) => this.publishedAt(a) >= from && this.publishedAt(a) <= to)
+        .sort((a, b) => params.sortBy === 'relevancy' || !params.sortBy
+          ? this.score(b, params.q || '') - this.score(a, params.q || '') || a.hoursAgo - b.hoursAgo
+          : a.hoursAgo - b.hoursAgo);
+    }
+
+    send(200, {
+      status: 'ok',
+      totalResults: matches.length,
+      articles: matches.slice((page - 1) * pageSize, page * pageSize).map((a) => this.toResponse(a))
+    });
+  }
+
+  // sources by newsapi source id, domains and excludeDomains by the url's host and its parents
+  private fromSources(article: FixtureArticle, params: Record<string, string>): boolean {
+    const list = (value?: string) => (value || '').split(',').map((v) => v.trim()).filter(Boolean);
+    const host = new URL(article.url).hostname.replace(/^www\./, '');
+    const within = (domain: string) => host === domain || host.endsWith(`.${domain}`);
+    if (params.sources && !list(params.sources).includes(article.source.id || '')) return false;
+    if (params.domains && !list(params.domains).some(within)) return false;
+    return !list(params.excludeDomains).some(within);
+  }
+
+  private score(article: FixtureArticle, q: string): number {
+    return scoreArticle(this.toNormalized(article), parseQuery(q));
+  }
+
+  private publishedAt(article: FixtureArticle): number {
+    return Date.now() - article.hoursAgo * 3600 * 1000;
+  }
+
+  private toNormalized(article: FixtureArticle) {
+    return {
+      title: article.title,
+      description: article.description || '',
+      url: article.url,
+      source: article.source.name,
+      publishedAt: new Date(this.publishedAt(article)).toISOString(),
+      author: article.author || '',
+      content: article.content || ''
+    };
+  }
+
+  private toResponse(article: FixtureArticle) {
+    return {
+      source: article.source,
+      author: article.author,
+      title: article.title,
+      description: article.description,
+      url: article.url,
+      urlToImage: null,
+      publishedAt: new Date(this.publishedAt(article)).toISOString().replace(/\.\d{3}Z$/, 'Z'),
+      content: article.content
+    };
+  }
+}
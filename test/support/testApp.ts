@@ -0,0 +1,139 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { AppServices, createApp, createServices, stopServices } from '../../src/app';
+import { MockDaemo } from './mockDaemo';
+import { MockNewsApi } from './mockNewsApi';
+
+export interface TestApp {
+  url: string;
+  server: http.Server;
+  services: AppServices;
+  newsApi: MockNewsApi;
+  daemo: MockDaemo;
+  dataDir: string;
+  close(): Promise<void>;
+}
+
+// the real app and services wired against local newsapi and daemo stand-ins, with state in a temp dir.
+// the response cache is off so every call reaches the mock
+export async function startTestApp(env: NodeJS.ProcessEnv = {}): Promise<TestApp> {
+  const newsApi = new MockNewsApi();
+  const daemo = new MockDaemo();
+  await Promise.all([newsApi.start(), daemo.start()]);
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'news-agent-test-'));
+
+  const appEnv: NodeJS.ProcessEnv = {
+    NEWS_PROVIDERS: 'newsapi',
+    NEWS_API_KEY: newsApi.apiKey,
+    NEWS_API_BASE_URL: newsApi.url,
+    NEWS_API_MAX_RETRIES: '0',
+    NEWS_CACHE_TTL_SECONDS: '0',
+    NEWS_CACHE_TTL_HEADLINES: '0',
+    NEWS_CACHE_TTL_SEARCH: '0',
+    NEWS_CACHE_STALE_SECONDS: '0',
+    DAEMO_AGENT_API_KEY: daemo.apiKey,
+    DAEMO_AGENT_ID: daemo.agentId,
+    DAEMO_API_URL: daemo.url,
+    DATA_DIR: dataDir,
+    ...env
+  };
+  const services = createServices(appEnv);
+  const server = http.createServer(createApp(services, appEnv));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    server,
+    services,
+    newsApi,
+    daemo,
+    dataDir,
+    async close() {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await Promise.all([newsApi.stop(), daemo.stop()]);
+      await stopServices(services);
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  };
+}
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  text: string;
+  body: any;
+}
+
+// fetch wrapper that keeps the session cookie between requests, like a browser
+export class TestClient {
+  private baseUrl: string;
+  private cookie = '';
+  private headers: Record<string, string>;
+
+  constructor(baseUrl: string, headers: Record<string, string> = {}) {
+    this.baseUrl = baseUrl;
+    this.headers = headers;
+  }
+
+  async request(method: string, url: string, body?: unknown, headers: Record<string, string> = {}): Promise<TestResponse> {
+    const response = await fetch(`${this.baseUrl}${url}`, {
+      method,
+      headers: {
+        ...this.headers,
+        ...(this.cookie ? { cookie: this.cookie } : {}),
+        ...(body !== undefined ? { 'content-type': 'application/json' } : {}),
+        ...headers
+      },
+      body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body)
+    });
+    const setCookie = response.headers.get('set-cookie');
+    if (setCookie) this.cookie = setCookie.split(';')[0];
+    const text = await response.text();
+    let parsed: any = null;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // not json (exports, feeds, event streams)
+    }
+    return { status: response.status, headers: response.headers, text, body: parsed };
+  }
+
+  get(url: string, headers?: Record<string, string>) {
+    return this.request('GET', url, undefined, headers);
+  }
+
+  post(url: string, body?: unknown, headers?: Record<string, string>) {
+    return this.request('POST', url, body, headers);
+  }
+
+  patch(url: string, body: unknown) {
+    return this.request('PATCH', url, body);
+  }
+
+  delete(url: string) {
+    return this.request('DELETE', url);
+  }
+
+  // registers (and so signs in) a fresh account
+  async register(username: string, password = 'correct horse'): Promise<any> {
+    const response = await this.post('/api/auth/register', { username, password });
+    if (response.status !== 201) throw new Error(`register failed: ${response.status} ${response.text}`);
+    return response.body.user;
+  }
+}
+
+// parses a server-sent event stream body into its events
+export function parseEventStream(text: string): { event: string; data: any }[] {
+  return text
+    .split('\n\n')
+    .map((frame) => {
+      const event = frame.match(/^event: (.*)$/m)?.[1];
+      const data = frame.match(/^data: (.*)$/m)?.[1];
+      return event && data ? { event, data: JSON.parse(data) } : null;
+    })
+    .filter((e): e is { event: string; data: any } => e !== null);
+}